@@ -0,0 +1,73 @@
+/**
+ * Entraînement et évaluation du classifieur de coups (hors navigateur)
+ *
+ * Usage :
+ *   npm run punch-classifier -- train <sessions...> [-o src/models/punch-classifier.json] [-k 5]
+ *   npm run punch-classifier -- evaluate <sessions...> [-k 5]
+ *
+ * Les sessions sont les fichiers exportés par useHandTrackingLogger (exportSession)
+ * `train` écrit le modèle et affiche la matrice de confusion (leave-one-out)
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+import {
+  buildExamples,
+  evaluateModel,
+  formatConfusionMatrix,
+  parseSession,
+  trainModel,
+  type PunchExample,
+} from '../src/utils/PunchClassifier'
+
+// Embarqué par usePunchClassifierStore (import glob : fichier optionnel)
+const DEFAULT_OUTPUT = 'src/models/punch-classifier.json'
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+// Lecture des arguments
+const [command, ...rest] = process.argv.slice(2)
+const files: string[] = []
+let output = DEFAULT_OUTPUT
+let k = 5
+
+for (let i = 0; i < rest.length; i++) {
+  const arg = rest[i]
+  if (arg === '-o') output = rest[++i] ?? fail('-o attend un chemin')
+  else if (arg === '-k') k = Number(rest[++i])
+  else if (arg) files.push(arg)
+}
+
+if (command !== 'train' && command !== 'evaluate') {
+  fail('Usage : punch-classifier.ts <train|evaluate> <sessions...> [-o modèle.json] [-k voisins]')
+}
+if (files.length === 0) fail('Aucune session fournie')
+if (!Number.isInteger(k) || k < 1) fail('-k attend un entier positif')
+
+// Chargement des sessions étiquetées
+const examples: PunchExample[] = []
+for (const file of files) {
+  const session = parseSession(JSON.parse(readFileSync(file, 'utf8')))
+  if (!session) {
+    console.warn(`Session ignorée (format invalide) : ${file}`)
+    continue
+  }
+  const sessionExamples = buildExamples(session)
+  console.log(`${file} : ${sessionExamples.length} coups`)
+  examples.push(...sessionExamples)
+}
+
+if (examples.length <= k) fail(`Pas assez de coups étiquetés (${examples.length}) pour k=${k}`)
+
+// Matrice de confusion
+console.log(`\nMatrice de confusion (leave-one-out, k=${k}, ${examples.length} coups) :\n`)
+console.log(formatConfusionMatrix(evaluateModel(examples, k)))
+
+if (command === 'train') {
+  mkdirSync(dirname(output), { recursive: true })
+  writeFileSync(output, JSON.stringify(trainModel(examples, k)))
+  console.log(`\nModèle écrit dans ${output}`)
+}
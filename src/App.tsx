@@ -4,6 +4,7 @@ import { Perf } from 'r3f-perf'
 import { AmmoVolumeDemo } from './components/AmmoVolumeDemo'
 import { UI } from './components/UI'
 import { ErrorBoundary } from './components/ErrorBoundary'
+import { ArenaLighting } from './components/ArenaLighting'
 
 /**
  * App principale - Salle de boxe avec soft bodies
@@ -39,25 +40,7 @@ function App() {
           />
 
           {/* Éclairage salle de boxe */}
-          <ambientLight color={0x404040} intensity={0.5} />
-
-          {/* Lumière principale (plafond) */}
-          <directionalLight
-            position={[0, 9, 0]}
-            intensity={2}
-            castShadow
-            shadow-camera-left={-15}
-            shadow-camera-right={15}
-            shadow-camera-top={15}
-            shadow-camera-bottom={-15}
-            shadow-mapSize-width={2048}
-            shadow-mapSize-height={2048}
-          />
-
-          {/* Spots latéraux */}
-          <pointLight position={[-8, 6, 8]} intensity={50} color={0xffaa55} />
-          <pointLight position={[8, 6, 8]} intensity={50} color={0xffaa55} />
-          <pointLight position={[0, 6, -8]} intensity={30} color={0x5555ff} />
+          <ArenaLighting />
 
           {/* Scène de la salle de boxe */}
           <AmmoVolumeDemo />
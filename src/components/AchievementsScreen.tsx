@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react'
+import { useAchievementStore } from '../stores'
+import type { UnlockableKind, UnlockedAchievement } from '../stores'
+
+/**
+ * Noms affichés des types de contenus
+ */
+const KIND_LABELS: Record<UnlockableKind, string> = {
+  gloveColor: 'Gants',
+  opponentSkin: 'Adversaire',
+  arenaLighting: 'Salle',
+}
+
+// Durée d'affichage de la notification de déblocage (ms)
+const TOAST_DURATION = 4000
+
+interface AchievementsScreenProps {
+  onClose: () => void
+}
+
+/**
+ * Écran des succès : progression et équipement des contenus débloqués
+ */
+export function AchievementsScreen({ onClose }: AchievementsScreenProps) {
+  const achievements = useAchievementStore((state) => state.achievements)
+  const unlockables = useAchievementStore((state) => state.unlockables)
+  const status = useAchievementStore((state) => state.definitionsStatus)
+  const progress = useAchievementStore((state) => state.progress)
+  const unlockedAt = useAchievementStore((state) => state.unlockedAt)
+  const equipped = useAchievementStore((state) => state.equipped)
+  const isUnlockableAvailable = useAchievementStore((state) => state.isUnlockableAvailable)
+  const equip = useAchievementStore((state) => state.equip)
+
+  const unlockedCount = achievements.filter((achievement) => unlockedAt[achievement.id] !== undefined).length
+
+  return (
+    <div className="pointer-events-auto fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm">
+      <div className="flex max-h-full w-full max-w-md flex-col gap-4 overflow-y-auto px-6 py-8">
+        {/* En-tête */}
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold uppercase tracking-wider text-white">
+            Succès <span className="text-base text-gray-500">{unlockedCount}/{achievements.length}</span>
+          </h1>
+          <button
+            onClick={onClose}
+            className="rounded-full bg-white/10 px-3 py-1 text-sm text-gray-300 transition hover:bg-white/20"
+          >
+            Fermer
+          </button>
+        </div>
+
+        {status === 'loading' && <p className="text-sm text-gray-500">Chargement...</p>}
+        {status === 'error' && <p className="text-sm text-red-400">Succès indisponibles</p>}
+
+        {/* Liste des succès */}
+        <div className="flex flex-col gap-2">
+          {achievements.map((achievement) => {
+            const isUnlocked = unlockedAt[achievement.id] !== undefined
+            const count = Math.min(progress[achievement.id] ?? 0, achievement.goal)
+            return (
+              <div
+                key={achievement.id}
+                className={`rounded-xl p-3 ${isUnlocked ? 'bg-amber-500/10 ring-1 ring-amber-500/40' : 'bg-white/5'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className={`font-bold ${isUnlocked ? 'text-amber-400' : 'text-white'}`}>{achievement.name}</span>
+                  {achievement.goal > 1 && !isUnlocked && (
+                    <span className="text-xs text-gray-500">{count}/{achievement.goal}</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-400">{achievement.description}</div>
+                {!isUnlocked && achievement.goal > 1 && (
+                  <div className="mt-2 h-1 overflow-hidden rounded-full bg-white/10">
+                    <div className="h-full bg-cyan-400" style={{ width: `${(count / achievement.goal) * 100}%` }} />
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Contenus débloqués par type */}
+        {(Object.keys(KIND_LABELS) as UnlockableKind[]).map((kind) => (
+          <div key={kind}>
+            <div className="mb-1 text-xs font-bold uppercase tracking-wider text-gray-500">{KIND_LABELS[kind]}</div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => equip(kind, null)}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-all ${
+                  equipped[kind] === null
+                    ? 'bg-amber-500/20 text-amber-400 ring-1 ring-amber-500/50'
+                    : 'bg-white/10 text-gray-400 ring-1 ring-white/20'
+                }`}
+              >
+                Par défaut
+              </button>
+              {unlockables
+                .filter((unlockable) => unlockable.kind === kind)
+                .map((unlockable) => {
+                  const isAvailable = isUnlockableAvailable(unlockable.id)
+                  const swatch = unlockable.color ?? unlockable.lighting?.side ?? null
+                  return (
+                    <button
+                      key={unlockable.id}
+                      onClick={() => equip(kind, unlockable.id)}
+                      disabled={!isAvailable}
+                      className={`flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium transition-all disabled:opacity-30 ${
+                        equipped[kind] === unlockable.id
+                          ? 'bg-amber-500/20 text-amber-400 ring-1 ring-amber-500/50'
+                          : 'bg-white/10 text-gray-400 ring-1 ring-white/20'
+                      }`}
+                    >
+                      {swatch && <span className="h-3 w-3 rounded-full" style={{ backgroundColor: swatch }} />}
+                      {isAvailable ? unlockable.name : `🔒 ${unlockable.name}`}
+                    </button>
+                  )
+                })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Notification affichée quand un succès est débloqué (pendant et après le combat)
+ */
+export function AchievementToast() {
+  const [toast, setToast] = useState<UnlockedAchievement | null>(null)
+
+  useEffect(() => {
+    return useAchievementStore.subscribe((state, prevState) => {
+      if (state.lastUnlocked && state.lastUnlocked !== prevState.lastUnlocked) {
+        setToast(state.lastUnlocked)
+      }
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!toast) return
+    const timeout = setTimeout(() => setToast(null), TOAST_DURATION)
+    return () => clearTimeout(timeout)
+  }, [toast])
+
+  if (!toast) return null
+
+  return (
+    <div className="pointer-events-none fixed left-1/2 top-4 z-[60] -translate-x-1/2 rounded-xl bg-black/80 px-4 py-2 text-center ring-1 ring-amber-500/50 backdrop-blur-sm">
+      <div className="text-xs font-bold uppercase tracking-wider text-amber-400">Succès débloqué</div>
+      <div className="font-bold text-white">{toast.name}</div>
+    </div>
+  )
+}
+
+export default AchievementsScreen
@@ -2,12 +2,23 @@ import { useRef, useEffect, useState, useCallback, useMemo } from 'react'
 import { useFrame, useThree } from '@react-three/fiber'
 import * as THREE from 'three'
 import { useCharacterStore } from '../stores/useCharacterStore'
-import { useGameStore, ImpactManager, PHYSICS_PRESETS, OpponentManager } from '../stores'
-import type { PhysicsConfig } from '../stores'
+import { useGameStore, useAchievementStore, useTargetDrillStore, ImpactManager, PHYSICS_PRESETS, OpponentManager, getStaminaEfficiency, getPunchPower, getActivePhysicsBackend } from '../stores'
+import type { PhysicsConfig, OpponentType } from '../stores'
 import { ImpactEffects } from './ImpactEffects'
 import { MultiPartOpponent } from './MultiPartOpponent'
 import { BrickWallOpponent } from './BrickWallOpponent'
 import { ArmPhysicsGloves } from './ArmPhysicsGloves'
+import { PhysicsGloves } from './PhysicsGloves'
+import { PhysicsDebugOverlay } from './PhysicsDebugOverlay'
+import { TargetMarker } from './JellyHead/parts/TargetMarker'
+import { JellyHeadOpponent } from './JellyHead'
+import { getPhysicsBackend, determineHitZone, toHeadLocal, HEAD_LOCAL_RADIUS, HIT_ZONE_ANCHORS } from '../physics'
+import { PhysicsSceneManager, type ContactEvent, type PhysicsSnapshot } from '../systems/PhysicsSceneManager'
+import type { InputMethod } from '../systems/SessionHistory'
+import { PhysicsClock } from '../systems/PhysicsClock'
+import { usePhysicsClock } from '../hooks/usePhysicsClock'
+import { usePhysicsRewind } from '../hooks/usePhysicsRewind'
+import { useRoundStart } from '../hooks/useRoundStart'
 
 /**
  * Salle de boxe avec soft body suspendu
@@ -31,7 +42,8 @@ interface PunchAnimation {
   side: 'left' | 'right'
   progress: number      // 0-1, progression de l'animation
   phase: 'windup' | 'strike' | 'return'  // Phase de l'animation
-  startTime: number     // Timestamp de début
+  elapsed: number       // Temps d'animation écoulé (s, pas de PhysicsClock × speed)
+  speed: number         // Vitesse de l'animation (< 1 si le joueur est fatigué ou le geste lent)
 }
 
 /**
@@ -216,10 +228,60 @@ const ROOM = {
   wallThickness: 0.3,
 }
 
+// IDs PhysicsSceneManager (contacts gants ↔ adversaire)
+const KINEMATIC_GLOVE_IDS = { left: 'kinematic-left-glove', right: 'kinematic-right-glove' }
+const OPPONENT_BODY_ID = 'opponent-soft-body'
+// Corde du sac : suivie pour les snapshots (reset de round, rewind), hors des coups comptés
+const OPPONENT_ROPE_ID = 'opponent-rope'
+const OPPONENT_ROPE_CATEGORY = 'rope'
+
+// Centre de la tête JellyHead (personnage), impacts ramenés à son repère local
+const JELLYHEAD_POSITION: [number, number, number] = [0, 3, 0]
+
+// Tête de chaque adversaire dans le monde (zones du drill de précision, voir physics/HitZones)
+const OPPONENT_HEAD_FRAMES: Record<OpponentType, { center: [number, number, number]; radius: number }> = {
+  sphere: { center: [0, 3.5, 1.5], radius: 1.2 },
+  box: { center: [0, 3.5, 1.5], radius: 1.0 },
+  fluffy: { center: [0, 3.5, 1.5], radius: 1.5 },
+  littlemac: { center: [0, 3.5, 1.5], radius: 1.0 },
+  multipart: { center: [0, 5.85, 1.5], radius: 0.75 },
+  brickwall: { center: [0, 1.75, 1.5], radius: 1.75 },
+}
+
+// Force d'impact selon l'impulsion du contact
+const IMPACT_MIN_STRENGTH = 0.5
+const IMPACT_FULL_IMPULSE = 8
+
+// Catégories PhysicsSceneManager frappables par les gants (soft body de l'adversaire, briques Ammo)
+const OPPONENT_CATEGORIES = new Set(['opponent', 'brickwall'])
+
+// Détection par distance, pour les adversaires sans body dans le monde des gants
+const OPPONENT_CENTER = new THREE.Vector3(0, 3.5, TARGET_Z)
+const IMPACT_DISTANCE = 2.0     // Distance au centre de l'adversaire
+const IMPACT_Z_MARGIN = 1.2     // Traversée de la zone Z (anti-tunneling)
+
+/**
+ * L'adversaire a-t-il des bodies dans le monde Ammo des gants kinématiques ?
+ * Multipart (monde de useAmmoPhysics) et mur Rapier : impacts détectés par distance
+ */
+function hasContactBodies(state: ReturnType<typeof useGameStore.getState>): boolean {
+  if (state.selectedOpponent === 'multipart') return false
+  return state.selectedOpponent !== 'brickwall' || getActivePhysicsBackend(state) === 'ammo'
+}
+
 // Listes des corps physiques
-const rigidBodiesList: { mesh: THREE.Mesh; body: any }[] = []
-const softBodiesList: { mesh: THREE.Mesh; body: any; indexAssociation: number[][] }[] = []
-const ropeSoftBodies: { line: THREE.Line; body: any; numSegments: number }[] = []
+// previous* : état avant le dernier pas fixe (interpolation de rendu)
+const rigidBodiesList: {
+  mesh: THREE.Mesh
+  body: any
+  previousPosition?: THREE.Vector3
+  previousQuaternion?: THREE.Quaternion
+}[] = []
+const softBodiesList: { mesh: THREE.Mesh; body: any; indexAssociation: number[][]; previousNodes?: Float32Array }[] = []
+const ropeSoftBodies: { line: THREE.Line; body: any; numSegments: number; previousNodes?: Float32Array }[] = []
+
+// Quaternion interpolé réutilisé par syncPhysicsMeshes
+const _renderQuaternion = new THREE.Quaternion()
 
 /**
  * Charger Ammo.js
@@ -514,13 +576,72 @@ function attachRopeToVolume(Ammo: any, ropeSoftBody: any, ropeNumSegments: numbe
   volumeSoftBody.get_m_nodes().at(volumeTopNode).set_m_im(0)
 }
 
-function updatePhysics(deltaTime: number): void {
+/**
+ * Copier les positions des nodes d'un soft body (état avant le pas)
+ */
+function saveNodePositions(body: any, numNodes: number, previous: Float32Array | undefined): Float32Array {
+  const out = previous && previous.length === numNodes * 3 ? previous : new Float32Array(numNodes * 3)
+  const nodes = body.get_m_nodes()
+  for (let i = 0; i < numNodes; i++) {
+    const nodePos = nodes.at(i).get_m_x()
+    out[i * 3] = nodePos.x()
+    out[i * 3 + 1] = nodePos.y()
+    out[i * 3 + 2] = nodePos.z()
+  }
+  return out
+}
+
+/**
+ * Coordonnée interpolée entre l'état avant le pas et l'état courant
+ */
+function lerpNode(previous: Float32Array | undefined, index: number, current: number, alpha: number): number {
+  return previous ? previous[index]! + (current - previous[index]!) * alpha : current
+}
+
+/**
+ * Un pas fixe du monde (appelé par PhysicsClock)
+ */
+function stepPhysics(fixedDeltaTime: number): void {
   if (!physicsWorld) return
 
-  physicsWorld.stepSimulation(deltaTime, 10)  // Augmenté pour éviter tunneling avec gants rapides
+  // État avant le dernier pas de la frame, pour l'interpolation de rendu
+  if (PhysicsClock.isLastSubStep) savePreviousState()
+
+  // Un seul pas de durée fixe (maxSubSteps = 0 : pas d'accumulateur ni d'interpolation Bullet)
+  physicsWorld.stepSimulation(fixedDeltaTime, 0)
+  PhysicsSceneManager.processContacts()
+}
+
+/**
+ * Copier l'état des bodies avant le pas (interpolation de rendu)
+ */
+function savePreviousState(): void {
+  for (const entry of softBodiesList) {
+    entry.previousNodes = saveNodePositions(entry.body, entry.indexAssociation.length, entry.previousNodes)
+  }
+  for (const entry of ropeSoftBodies) {
+    entry.previousNodes = saveNodePositions(entry.body, entry.numSegments + 1, entry.previousNodes)
+  }
+  for (const entry of rigidBodiesList) {
+    const ms = entry.body.getMotionState()
+    if (!ms) continue
+    ms.getWorldTransform(transformAux)
+    const p = transformAux.getOrigin()
+    const q = transformAux.getRotation()
+    entry.previousPosition = (entry.previousPosition ?? new THREE.Vector3()).set(p.x(), p.y(), p.z())
+    entry.previousQuaternion = (entry.previousQuaternion ?? new THREE.Quaternion()).set(q.x(), q.y(), q.z(), q.w())
+  }
+}
+
+/**
+ * Synchroniser les meshes, interpolés entre les deux derniers pas
+ * @param alpha Fraction du pas suivant déjà écoulée (PhysicsClock.alpha)
+ */
+function syncPhysicsMeshes(alpha: number): void {
+  if (!physicsWorld) return
 
   // Soft bodies volumes
-  for (const { mesh, body, indexAssociation } of softBodiesList) {
+  for (const { mesh, body, indexAssociation, previousNodes } of softBodiesList) {
     const geometry = mesh.geometry
     const positionAttr = geometry.attributes.position
     const normalAttr = geometry.attributes.normal
@@ -536,7 +657,9 @@ function updatePhysics(deltaTime: number): void {
     for (let j = 0; j < numVerts; j++) {
       const node = nodes.at(j)
       const nodePos = node.get_m_x()
-      const x = nodePos.x(), y = nodePos.y(), z = nodePos.z()
+      const x = lerpNode(previousNodes, j * 3, nodePos.x(), alpha)
+      const y = lerpNode(previousNodes, j * 3 + 1, nodePos.y(), alpha)
+      const z = lerpNode(previousNodes, j * 3 + 2, nodePos.z(), alpha)
       const nodeNormal = node.get_m_n()
       const nx = nodeNormal.x(), ny = nodeNormal.y(), nz = nodeNormal.z()
 
@@ -555,22 +678,22 @@ function updatePhysics(deltaTime: number): void {
   }
 
   // Ropes
-  for (const { line, body, numSegments } of ropeSoftBodies) {
+  for (const { line, body, numSegments, previousNodes } of ropeSoftBodies) {
     const positions = line.geometry.attributes.position!.array as Float32Array
     const nodes = body.get_m_nodes()
 
     for (let i = 0; i <= numSegments; i++) {
       const nodePos = nodes.at(i).get_m_x()
-      positions[i * 3] = nodePos.x()
-      positions[i * 3 + 1] = nodePos.y()
-      positions[i * 3 + 2] = nodePos.z()
+      positions[i * 3] = lerpNode(previousNodes, i * 3, nodePos.x(), alpha)
+      positions[i * 3 + 1] = lerpNode(previousNodes, i * 3 + 1, nodePos.y(), alpha)
+      positions[i * 3 + 2] = lerpNode(previousNodes, i * 3 + 2, nodePos.z(), alpha)
     }
 
     line.geometry.attributes.position!.needsUpdate = true
   }
 
   // Rigid bodies
-  for (const { mesh, body } of rigidBodiesList) {
+  for (const { mesh, body, previousPosition, previousQuaternion } of rigidBodiesList) {
     const ms = body.getMotionState()
     if (ms) {
       ms.getWorldTransform(transformAux)
@@ -578,6 +701,10 @@ function updatePhysics(deltaTime: number): void {
       const q = transformAux.getRotation()
       mesh.position.set(p.x(), p.y(), p.z())
       mesh.quaternion.set(q.x(), q.y(), q.z(), q.w())
+      if (previousPosition && previousQuaternion) {
+        mesh.position.lerpVectors(previousPosition, mesh.position, alpha)
+        mesh.quaternion.copy(_renderQuaternion.copy(previousQuaternion).slerp(mesh.quaternion, alpha))
+      }
     }
   }
 }
@@ -606,6 +733,9 @@ export function AmmoVolumeDemo() {
   // Mode physique des gants (kinematic = ancien système, physics = spring constraints)
   const glovePhysicsMode = useGameStore((state) => state.glovePhysicsMode)
 
+  // Moteur des rigid bodies (Rapier : mur de briques seulement, sinon Ammo)
+  const physicsBackend = useGameStore(getActivePhysicsBackend)
+
   // Punch en attente (déclenché par UI)
   const queuedPunch = useGameStore((state) => state.queuedPunch)
   const consumeQueuedPunch = useGameStore((state) => state.consumeQueuedPunch)
@@ -613,6 +743,14 @@ export function AmmoVolumeDemo() {
   // Type d'adversaire sélectionné (utilisé à la place de Fluffy)
   const selectedOpponent = useGameStore((state) => state.selectedOpponent)
 
+  // Drill de précision : zone cible allumée sur la tête de l'adversaire
+  const targetZone = useTargetDrillStore((state) => state.targetZone)
+  const targetHead = OPPONENT_HEAD_FRAMES[selectedOpponent]
+
+  // Apparences débloquées (succès), null = couleurs par défaut
+  const gloveColor = useAchievementStore((state) => state.getEquipped('gloveColor')?.color ?? null)
+  const opponentSkinColor = useAchievementStore((state) => state.getEquipped('opponentSkin')?.color ?? null)
+
   // Preset physique sélectionné
   const selectedPhysicsPreset = useGameStore((state) => state.selectedPhysicsPreset)
   const physicsConfig = PHYSICS_PRESETS[selectedPhysicsPreset]
@@ -655,13 +793,13 @@ export function AmmoVolumeDemo() {
 
   // Couleurs des gants (pré-allouées pour éviter GC)
   const GLOVE_COLORS = useMemo(() => ({
-    rest: new THREE.Color(0xcc0000),
+    rest: new THREE.Color(gloveColor ?? 0xcc0000),
     jab: new THREE.Color(0xff4400),
     hook: new THREE.Color(0xffaa00),
     uppercut: new THREE.Color(0xff00aa),
     emissiveActive: new THREE.Color(0x331100),
     emissiveRest: new THREE.Color(0x000000)
-  }), [])
+  }), [gloveColor])
 
   // Système d'animation des coups - REFS pour éviter re-renders React
   // Pattern R3F: mutations directes dans useFrame, pas de setState
@@ -692,12 +830,11 @@ export function AmmoVolumeDemo() {
 
   // Queue d'impacts à traiter hors du render loop (évite re-renders dans useFrame)
   const pendingImpactsRef = useRef<Array<{ pos: [number, number, number], strength: number }>>([])
-  const pendingHitsRef = useRef(0)
-
-  // Position cible de l'adversaire pour détection d'impact
-  const OPPONENT_CENTER = new THREE.Vector3(0, 3.5, TARGET_Z)
-  const IMPACT_THRESHOLD = 2.0  // Distance pour déclencher l'impact (augmenté pour sécurité)
-  const IMPACT_Z_THRESHOLD = TARGET_Z + 1.2  // Zone Z élargie pour meilleure détection
+  const pendingHitsRef = useRef<Array<{
+    strength: number
+    hand: 'left' | 'right'
+    headPoint: [number, number, number]  // Repère de la tête (voir physics/HitZones)
+  }>>([])
 
   /**
    * Traiter les impacts en attente - appelé à la fin de useFrame
@@ -716,20 +853,25 @@ export function AmmoVolumeDemo() {
     }
 
     // Traiter les hits en attente (score)
-    if (pendingHitsRef.current > 0) {
+    if (pendingHitsRef.current.length > 0) {
       const hits = pendingHitsRef.current
-      pendingHitsRef.current = 0
+      pendingHitsRef.current = []
       const recordHit = useGameStore.getState().recordHit
-      for (let i = 0; i < hits; i++) {
-        recordHit()
+      const registerZoneHit = useTargetDrillStore.getState().registerHit
+      for (const { strength, hand, headPoint } of hits) {
+        recordHit(strength, hand)
+        // Drill de précision (ignoré hors du mode target)
+        registerZoneHit(determineHitZone(headPoint), headPoint)
       }
     }
   }, [])
 
   // Init Ammo
   useEffect(() => {
-    loadAmmo().then((Ammo) => {
+    loadAmmo().then(async (Ammo) => {
       ammoRef.current = Ammo
+      // Adopter le monde pour les contacts (gants ↔ adversaire)
+      await PhysicsSceneManager.initialize()
       setIsReady(true)
     })
 
@@ -774,6 +916,8 @@ export function AmmoVolumeDemo() {
   // Ref pour le type d'adversaire et preset actuellement créés
   const currentOpponentTypeRef = useRef<string | null>(null)
   const currentPhysicsPresetRef = useRef<string | null>(null)
+  // État de l'adversaire juste après sa création (restauré à chaque round)
+  const opponentSnapshotRef = useRef<PhysicsSnapshot | null>(null)
 
   // Créer l'adversaire soft body centré (basé sur selectedOpponent et physicsPreset)
   // Utilise OpponentManager pour le cleanup propre des ressources
@@ -799,6 +943,8 @@ export function AmmoVolumeDemo() {
     // 1. Supprimer l'ancien soft body si existant
     if (opponentRef.current.userData.physicsBody) {
       const oldBody = opponentRef.current.userData.physicsBody
+      PhysicsSceneManager.removeSoftBody(OPPONENT_BODY_ID)
+      opponentSnapshotRef.current = null
       physicsWorld.removeSoftBody(oldBody)
       // Supprimer aussi des listes
       const idx = softBodiesList.findIndex(s => s.body === oldBody)
@@ -812,6 +958,7 @@ export function AmmoVolumeDemo() {
     }
 
     // 3. Nettoyer les cordes via OpponentManager pattern
+    PhysicsSceneManager.removeSoftBody(OPPONENT_ROPE_ID)
     for (const { line, body } of ropeSoftBodies) {
       scene.remove(line)
       line.geometry.dispose()
@@ -890,6 +1037,10 @@ export function AmmoVolumeDemo() {
 
     // Créer le soft body avec la config physique du preset sélectionné
     const { softBody, topNodeIndex } = createSoftVolume(Ammo, opponentRef.current, geometry, mass, physicsConfig)
+    const softEntry = softBodiesList.find(s => s.body === softBody)
+    if (softEntry) {
+      PhysicsSceneManager.trackSoftBody(OPPONENT_BODY_ID, softBody, softEntry.mesh, softEntry.indexAssociation, 'opponent')
+    }
 
     // Créer la corde
     const rope = createRope(
@@ -901,6 +1052,8 @@ export function AmmoVolumeDemo() {
       0.5
     )
     attachRopeToVolume(Ammo, rope.body, 12, ceilingBody, softBody, topNodeIndex)
+    PhysicsSceneManager.trackSoftBody(OPPONENT_ROPE_ID, rope.body, rope.line, [], OPPONENT_ROPE_CATEGORY)
+    opponentSnapshotRef.current = PhysicsSceneManager.snapshot(['opponent', OPPONENT_ROPE_CATEGORY])
 
     // Tracker la corde via OpponentManager
     OpponentManager.trackMesh(rope.line)
@@ -981,6 +1134,7 @@ export function AmmoVolumeDemo() {
     leftBody.setFriction(1.0)  // Friction élevée pour pousser le soft body
     leftBody.setRestitution(0.1)
     leftGloveBodyRef.current = leftBody
+    PhysicsSceneManager.trackRigidBody(KINEMATIC_GLOVE_IDS.left, leftBody, 'gloves')
 
     // Gant droit - KINEMATIC BODY
     const rightShape = new Ammo.btSphereShape(gloveRadius)
@@ -998,6 +1152,7 @@ export function AmmoVolumeDemo() {
     rightBody.setFriction(1.0)
     rightBody.setRestitution(0.1)
     rightGloveBodyRef.current = rightBody
+    PhysicsSceneManager.trackRigidBody(KINEMATIC_GLOVE_IDS.right, rightBody, 'gloves')
 
     console.log('[BoxingGym] Boxing gloves initialized as KINEMATIC bodies')
   }, [isReady, selectedTool, glovePhysicsMode])
@@ -1010,6 +1165,7 @@ export function AmmoVolumeDemo() {
       const Ammo = ammoRef.current
       if (Ammo && physicsWorld) {
         if (leftGloveBodyRef.current) {
+          PhysicsSceneManager.removeRigidBody(KINEMATIC_GLOVE_IDS.left)
           physicsWorld.removeRigidBody(leftGloveBodyRef.current)
           // Retirer de la liste
           const leftIdx = rigidBodiesList.findIndex(r => r.body === leftGloveBodyRef.current)
@@ -1017,6 +1173,7 @@ export function AmmoVolumeDemo() {
           leftGloveBodyRef.current = null
         }
         if (rightGloveBodyRef.current) {
+          PhysicsSceneManager.removeRigidBody(KINEMATIC_GLOVE_IDS.right)
           physicsWorld.removeRigidBody(rightGloveBodyRef.current)
           const rightIdx = rigidBodiesList.findIndex(r => r.body === rightGloveBodyRef.current)
           if (rightIdx !== -1) rigidBodiesList.splice(rightIdx, 1)
@@ -1039,26 +1196,24 @@ export function AmmoVolumeDemo() {
    * Démarre une animation de coup
    * OPTIMISÉ: mutation directe des refs, pas de setState
    */
-  const startPunch = useCallback((side: 'left' | 'right', punchType: PunchType) => {
-    const newAnim: PunchAnimation = {
+  const startPunch = useCallback((side: 'left' | 'right', punchType: PunchType, source?: InputMethod, velocity: number = 1) => {
+    const animRef = side === 'left' ? leftPunchAnimRef : rightPunchAnimRef
+    if (animRef.current) return
+
+    // Coup lancé (endurance, mode rythme) : la fatigue et un geste lent ralentissent
+    // l'animation, donc l'impact (endurance relue après la dépense du coup)
+    useGameStore.getState().throwPunch(punchType, side, source)
+    const efficiency = getStaminaEfficiency(useGameStore.getState().stamina) * getPunchPower(velocity)
+
+    animRef.current = {
       type: punchType,
       side,
       progress: 0,
       phase: 'windup',
-      startTime: performance.now() / 1000
-    }
-
-    if (side === 'left') {
-      if (!leftPunchAnimRef.current) {
-        leftPunchAnimRef.current = newAnim
-        console.log(`[Punch] Left ${punchType} started`)
-      }
-    } else {
-      if (!rightPunchAnimRef.current) {
-        rightPunchAnimRef.current = newAnim
-        console.log(`[Punch] Right ${punchType} started`)
-      }
+      elapsed: 0,
+      speed: efficiency,
     }
+    console.log(`[Punch] ${side === 'left' ? 'Left' : 'Right'} ${punchType} started`)
   }, []) // Pas de dépendances - mutation directe
 
   // Clics et mouvement souris
@@ -1104,7 +1259,7 @@ export function AmmoVolumeDemo() {
       const punch = consumeQueuedPunch()
       if (punch) {
         console.log(`[Punch] UI triggered ${punch.hand} ${punch.type}`)
-        startPunch(punch.hand, punch.type)
+        startPunch(punch.hand, punch.type, punch.source, punch.velocity)
       }
     }
   }, [queuedPunch, selectedTool, glovePhysicsMode, consumeQueuedPunch, startPunch])
@@ -1148,21 +1303,21 @@ export function AmmoVolumeDemo() {
   }, [camera, scene, selectedTool])
 
   /**
-   * Mise à jour d'une animation de coup
+   * Mise à jour d'une animation de coup (un pas de PhysicsClock)
    * Écrit la position dans outVec, retourne true si animation active
    * OPTIMISÉ: mutation directe de la ref, pas de setState
    */
   const updatePunchAnimation = useCallback((
     animRef: React.MutableRefObject<PunchAnimation | null>,
-    outVec: THREE.Vector3
+    outVec: THREE.Vector3,
+    deltaTime: number
   ): boolean => {
     const anim = animRef.current
     if (!anim) return false
 
     const config = PUNCH_CONFIGS[anim.type]
-    const currentTime = performance.now() / 1000
-    const elapsed = currentTime - anim.startTime
-    const progress = Math.min(elapsed / config.duration, 1)
+    anim.elapsed += deltaTime * anim.speed
+    const progress = Math.min(anim.elapsed / config.duration, 1)
 
     // Animation terminée - mutation directe de la ref
     if (progress >= 1) {
@@ -1317,7 +1472,45 @@ export function AmmoVolumeDemo() {
     }
   }, [GLOVE_COLORS])
 
+  /**
+   * Enregistrer l'impact d'un gant : effets visuels, score, zone du drill et impulsion au soft body
+   * @param direction Direction du coup (du gant vers l'adversaire)
+   */
+  const queueGloveImpact = useCallback((
+    side: 'left' | 'right',
+    point: THREE.Vector3,
+    direction: THREE.Vector3,
+    strength: number
+  ) => {
+    // Queue effets visuels + score (traités hors useFrame pour éviter re-renders)
+    pendingImpactsRef.current.push({ pos: [point.x, point.y, point.z], strength })
+    // Point dans le repère de la tête : zone du drill de précision
+    const head = OPPONENT_HEAD_FRAMES[useGameStore.getState().selectedOpponent]
+    pendingHitsRef.current.push({ strength, hand: side, headPoint: toHeadLocal(point, head.center, head.radius) })
+
+    applySoftBodyImpact(point, direction, 1.2)
+  }, [applySoftBodyImpact])
+
+  /**
+   * Impact par distance pour les adversaires sans contacts physiques (voir hasContactBodies)
+   * Distance au centre de l'adversaire ou traversée de la zone Z (anti-tunneling)
+   */
+  const detectImpactByDistance = useCallback((side: 'left' | 'right', targetPos: THREE.Vector3) => {
+    const anim = (side === 'left' ? leftPunchAnimRef : rightPunchAnimRef).current
+    const triggeredRef = side === 'left' ? leftImpactTriggeredRef : rightImpactTriggeredRef
+    if (!anim || triggeredRef.current) return
+
+    const inImpactZone = targetPos.distanceTo(OPPONENT_CENTER) < IMPACT_DISTANCE || targetPos.z < TARGET_Z + IMPACT_Z_MARGIN
+    if (!inImpactZone) return
+    triggeredRef.current = true
+
+    // Force selon la vitesse du coup (pas d'impulsion de contact)
+    reusableVec3_2.subVectors(OPPONENT_CENTER, targetPos).normalize()
+    queueGloveImpact(side, targetPos, reusableVec3_2, Math.min(1, Math.max(IMPACT_MIN_STRENGTH, anim.speed)))
+  }, [reusableVec3_2, queueGloveImpact])
+
   // Mise à jour des gants de boxe avec animations - OPTIMISÉ sans re-renders
+  // Avancée à chaque pas de PhysicsClock, avant le pas du monde (mode déterministe)
   // Lecture directe des refs, pas de dépendances React sur les animations
   // Mise à jour des gants KINEMATIC seulement
   // En mode physics, ArmPhysicsGloves gère tout via son propre useFrame
@@ -1328,37 +1521,18 @@ export function AmmoVolumeDemo() {
     const rightBody = rightGloveBodyRef.current
     if (!leftBody || !rightBody) return
 
+    // Impacts détectés par les contacts physiques (handleGloveContact), sinon par distance
+    const useContacts = hasContactBodies(useGameStore.getState())
+
     // Mettre à jour animation gant gauche (écrit directement dans leftTargetPos)
-    const leftAnimActive = updatePunchAnimation(leftPunchAnimRef, leftTargetPos)
+    const leftAnimActive = updatePunchAnimation(leftPunchAnimRef, leftTargetPos, deltaTime)
 
     // Mettre à jour couleur gant gauche (mutation directe)
     updateGloveMaterial(leftGloveRef.current, leftPunchAnimRef.current)
 
     if (leftAnimActive) {
       setGlovePosition(leftBody, leftTargetPos, lastLeftPos, deltaTime, leftGloveRef.current)
-
-      // Détecter impact gant gauche - double vérification:
-      // 1. Distance au centre de l'adversaire
-      // 2. OU traversée de la zone Z (anti-tunneling)
-      const distToOpponent = leftTargetPos.distanceTo(OPPONENT_CENTER)
-      const inImpactZone = distToOpponent < IMPACT_THRESHOLD || leftTargetPos.z < IMPACT_Z_THRESHOLD
-
-      if (inImpactZone && !leftImpactTriggeredRef.current) {
-        leftImpactTriggeredRef.current = true
-
-        // Calculer direction d'impact (vers l'adversaire)
-        reusableVec3_2.subVectors(OPPONENT_CENTER, leftTargetPos).normalize()
-
-        // Queue effets visuels + score (traités hors useFrame pour éviter re-renders)
-        pendingImpactsRef.current.push({
-          pos: [leftTargetPos.x, leftTargetPos.y, leftTargetPos.z],
-          strength: 0.8 + Math.random() * 0.2
-        })
-        pendingHitsRef.current++
-
-        // Appliquer impulsion au soft body
-        applySoftBodyImpact(leftTargetPos, reusableVec3_2, 1.2)
-      }
+      if (!useContacts) detectImpactByDistance('left', leftTargetPos)
     } else {
       // Retour vers position de repos
       returnToRestPosition(leftBody, LEFT_REST_POS, lastLeftPos, deltaTime, leftGloveRef.current)
@@ -1366,36 +1540,14 @@ export function AmmoVolumeDemo() {
     }
 
     // Mettre à jour animation gant droit (écrit directement dans rightTargetPos)
-    const rightAnimActive = updatePunchAnimation(rightPunchAnimRef, rightTargetPos)
+    const rightAnimActive = updatePunchAnimation(rightPunchAnimRef, rightTargetPos, deltaTime)
 
     // Mettre à jour couleur gant droit (mutation directe)
     updateGloveMaterial(rightGloveRef.current, rightPunchAnimRef.current)
 
     if (rightAnimActive) {
       setGlovePosition(rightBody, rightTargetPos, lastRightPos, deltaTime, rightGloveRef.current)
-
-      // Détecter impact gant droit - double vérification:
-      // 1. Distance au centre de l'adversaire
-      // 2. OU traversée de la zone Z (anti-tunneling)
-      const distToOpponent = rightTargetPos.distanceTo(OPPONENT_CENTER)
-      const inImpactZone = distToOpponent < IMPACT_THRESHOLD || rightTargetPos.z < IMPACT_Z_THRESHOLD
-
-      if (inImpactZone && !rightImpactTriggeredRef.current) {
-        rightImpactTriggeredRef.current = true
-
-        // Calculer direction d'impact (vers l'adversaire)
-        reusableVec3_2.subVectors(OPPONENT_CENTER, rightTargetPos).normalize()
-
-        // Queue effets visuels + score (traités hors useFrame pour éviter re-renders)
-        pendingImpactsRef.current.push({
-          pos: [rightTargetPos.x, rightTargetPos.y, rightTargetPos.z],
-          strength: 0.8 + Math.random() * 0.2
-        })
-        pendingHitsRef.current++
-
-        // Appliquer impulsion au soft body
-        applySoftBodyImpact(rightTargetPos, reusableVec3_2, 1.2)
-      }
+      if (!useContacts) detectImpactByDistance('right', rightTargetPos)
     } else {
       // Retour vers position de repos
       returnToRestPosition(rightBody, RIGHT_REST_POS, lastRightPos, deltaTime, rightGloveRef.current)
@@ -1409,16 +1561,67 @@ export function AmmoVolumeDemo() {
     updateGloveMaterial,
     setGlovePosition,
     returnToRestPosition,
+    detectImpactByDistance,
     LEFT_REST_POS,
     RIGHT_REST_POS,
     leftTargetPos,
-    rightTargetPos,
-    reusableVec3_2,
-    applySoftBodyImpact,
-    OPPONENT_CENTER,
-    IMPACT_THRESHOLD
+    rightTargetPos
   ])
 
+  /**
+   * Impact gant kinématique ↔ adversaire, émis par PhysicsSceneManager après chaque pas
+   * Un seul impact par coup (reset au retour en garde)
+   */
+  const handleGloveContact = useCallback((contact: ContactEvent) => {
+    if (!OPPONENT_CATEGORIES.has(contact.categoryB)) return
+
+    const side = contact.bodyA === KINEMATIC_GLOVE_IDS.left ? 'left'
+      : contact.bodyA === KINEMATIC_GLOVE_IDS.right ? 'right'
+      : null
+    if (!side) return
+
+    const animRef = side === 'left' ? leftPunchAnimRef : rightPunchAnimRef
+    const triggeredRef = side === 'left' ? leftImpactTriggeredRef : rightImpactTriggeredRef
+    if (!animRef.current || triggeredRef.current) return
+    triggeredRef.current = true
+
+    // Force selon l'impulsion du contact
+    const strength = Math.min(1, Math.max(IMPACT_MIN_STRENGTH, contact.impulse / IMPACT_FULL_IMPULSE))
+
+    // La normale pointe vers le gant
+    reusableVec3_2.copy(contact.normal).negate()
+    queueGloveImpact(side, contact.point, reusableVec3_2, strength)
+  }, [reusableVec3_2, queueGloveImpact])
+
+  // S'abonner aux contacts une fois le monde adopté
+  useEffect(() => {
+    if (!isReady) return
+    return PhysicsSceneManager.onContactBegin(handleGloveContact)
+  }, [isReady, handleGloveContact])
+
+  // Nouveau round : l'adversaire reprend son état initial, sans reconstruire le soft body
+  useRoundStart(() => {
+    if (opponentSnapshotRef.current) PhysicsSceneManager.restore(opponentSnapshotRef.current)
+  })
+
+  // Horloge physique : pas fixes avant les useFrame des composants
+  usePhysicsClock()
+
+  // Debug (DEV) : Retour arrière remonte la physique de 2 secondes
+  usePhysicsRewind()
+
+  // Gants kinématiques, monde Ammo et moteur choisi (Rapier : simulation, Ammo : rien de plus)
+  // avancés par pas fixes
+  useEffect(() => {
+    if (!isReady) return
+    const backend = getPhysicsBackend(physicsBackend)
+    return PhysicsClock.register('ammo-world', (fixedDeltaTime) => {
+      updateGloves(fixedDeltaTime)
+      stepPhysics(fixedDeltaTime)
+      if (backend.isReady) backend.step(fixedDeltaTime)
+    })
+  }, [isReady, physicsBackend, updateGloves])
+
   // Performance monitoring
   const perfRef = useRef({ frameCount: 0, lastLog: 0, slowFrames: 0 })
 
@@ -1428,9 +1631,9 @@ export function AmmoVolumeDemo() {
     const perf = perfRef.current
     const frameStart = performance.now()
 
-    // 1. Simulation physique
+    // 1. Synchronisation des meshes (la simulation est avancée par PhysicsClock)
     const t1 = performance.now()
-    updatePhysics(delta)
+    syncPhysicsMeshes(PhysicsClock.alpha)
     const physicsTime = performance.now() - t1
 
     // 2. Traitement des clics (lancer de balles)
@@ -1438,12 +1641,7 @@ export function AmmoVolumeDemo() {
     processClick()
     const clickTime = performance.now() - t2
 
-    // 3. Animation et collision des gants
-    const t3 = performance.now()
-    updateGloves(delta)
-    const glovesTime = performance.now() - t3
-
-    // 4. Traitement des impacts en attente (scores, effets visuels)
+    // 3. Traitement des impacts en attente (scores, effets visuels)
     const t4 = performance.now()
     processImpactQueue()
     const impactTime = performance.now() - t4
@@ -1457,7 +1655,6 @@ export function AmmoVolumeDemo() {
       console.warn(
         `[Slow Frame] total:${totalTime.toFixed(1)}ms | ` +
         `physics:${physicsTime.toFixed(1)}ms | ` +
-        `gloves:${glovesTime.toFixed(1)}ms | ` +
         `impacts:${impactTime.toFixed(1)}ms | ` +
         `delta:${(delta * 1000).toFixed(0)}ms`
       )
@@ -1561,7 +1758,7 @@ export function AmmoVolumeDemo() {
           <meshStandardMaterial
             key={opponentTexture ? 'textured' : 'solid'}
             map={opponentTexture}
-            color={opponentTexture ? 0xffffff : (
+            color={opponentTexture ? 0xffffff : opponentSkinColor ?? (
               selectedOpponent === 'sphere' ? 0xcc2222
               : selectedOpponent === 'box' ? 0x22cc22
               : selectedOpponent === 'fluffy' ? 0xff69b4
@@ -1579,7 +1776,7 @@ export function AmmoVolumeDemo() {
       {selectedOpponent === 'multipart' && <MultiPartOpponent />}
 
       {/* === ADVERSAIRE MUR DE BRIQUES === */}
-      {selectedOpponent === 'brickwall' && <BrickWallOpponent />}
+      {selectedOpponent === 'brickwall' && <BrickWallOpponent key={physicsBackend} />}
 
       {/* === ADVERSAIRES LEGACY (Fluffy) === */}
       {/* FLUFFY - Sacs de frappe soft body (gardé pour compatibilité CharacterSelector) */}
@@ -1652,44 +1849,8 @@ export function AmmoVolumeDemo() {
         </group>
       )}
 
-      {/* JELLYHEAD - Tête gélatineuse */}
-      {selectedCharacterId === 'jellyhead' && (
-        <group position={[0, 3, 0]}>
-          {/* Tête principale */}
-          <mesh castShadow receiveShadow>
-            <sphereGeometry args={[1.5, 32, 32]} />
-            <meshStandardMaterial color={0xff69b4} roughness={0.3} metalness={0.1} transparent opacity={0.9} />
-          </mesh>
-          {/* Yeux */}
-          <mesh position={[-0.5, 0.3, 1.2]} castShadow>
-            <sphereGeometry args={[0.3, 16, 16]} />
-            <meshStandardMaterial color={0xffffff} />
-          </mesh>
-          <mesh position={[0.5, 0.3, 1.2]} castShadow>
-            <sphereGeometry args={[0.3, 16, 16]} />
-            <meshStandardMaterial color={0xffffff} />
-          </mesh>
-          {/* Pupilles */}
-          <mesh position={[-0.5, 0.3, 1.45]} castShadow>
-            <sphereGeometry args={[0.12, 12, 12]} />
-            <meshStandardMaterial color={0x111111} />
-          </mesh>
-          <mesh position={[0.5, 0.3, 1.45]} castShadow>
-            <sphereGeometry args={[0.12, 12, 12]} />
-            <meshStandardMaterial color={0x111111} />
-          </mesh>
-          {/* Nez */}
-          <mesh position={[0, -0.1, 1.4]} castShadow>
-            <sphereGeometry args={[0.15, 12, 12]} />
-            <meshStandardMaterial color={0xffaaaa} />
-          </mesh>
-          {/* Bouche souriante (torus) */}
-          <mesh position={[0, -0.5, 1.3]} rotation={[0.3, 0, 0]} castShadow>
-            <torusGeometry args={[0.3, 0.05, 8, 16, Math.PI]} />
-            <meshStandardMaterial color={0x333333} />
-          </mesh>
-        </group>
-      )}
+      {/* JELLYHEAD - Tête gélatineuse (physique XPBD, effets cartoon) */}
+      {selectedCharacterId === 'jellyhead' && <JellyHeadOpponent worldPosition={JELLYHEAD_POSITION} />}
 
       {/* FACECAP / HUMANOID - Placeholder simple */}
       {(selectedCharacterId === 'facecap' || selectedCharacterId === 'humanoid') && (
@@ -1723,8 +1884,9 @@ export function AmmoVolumeDemo() {
 
       {/* === GANTS DE BOXE === */}
       {/* Mode 'physics': Bras articulés avec muscles-ressorts */}
+      {/* (joints propres à Ammo : avec Rapier, gants à ressorts simples) */}
       {selectedTool === 'gloves' && glovePhysicsMode === 'physics' && (
-        <ArmPhysicsGloves />
+        physicsBackend === 'rapier' ? <PhysicsGloves /> : <ArmPhysicsGloves />
       )}
 
       {/* Mode 'kinematic': Gants animés manuellement (ancien système) */}
@@ -1784,8 +1946,18 @@ export function AmmoVolumeDemo() {
         <meshStandardMaterial color={0x222222} />
       </mesh>
 
+      {/* Zone cible du drill de précision (repère de la tête de l'adversaire) */}
+      {targetZone && (
+        <group position={targetHead.center} scale={targetHead.radius / HEAD_LOCAL_RADIUS}>
+          <TargetMarker position={HIT_ZONE_ANCHORS[targetZone]} />
+        </group>
+      )}
+
       {/* === EFFETS D'IMPACT === */}
       <ImpactEffects />
+
+      {/* === DEBUG PHYSIQUE (panneau d'inspection) === */}
+      <PhysicsDebugOverlay />
     </group>
   )
 }
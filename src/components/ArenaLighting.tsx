@@ -0,0 +1,50 @@
+import { useAchievementStore } from '../stores'
+
+/**
+ * Couleurs d'origine de la salle
+ */
+const DEFAULT_LIGHTING = {
+  ambient: 0x404040,
+  key: 0xffffff,
+  side: 0xffaa55,
+  back: 0x5555ff,
+}
+
+/**
+ * Éclairage de la salle de boxe
+ * Les couleurs suivent l'éclairage débloqué équipé (voir useAchievementStore)
+ */
+export function ArenaLighting() {
+  // Sélection de valeurs primitives pour éviter les re-renders
+  const ambient = useAchievementStore((state) => state.getEquipped('arenaLighting')?.lighting?.ambient ?? null)
+  const key = useAchievementStore((state) => state.getEquipped('arenaLighting')?.lighting?.key ?? null)
+  const side = useAchievementStore((state) => state.getEquipped('arenaLighting')?.lighting?.side ?? null)
+  const back = useAchievementStore((state) => state.getEquipped('arenaLighting')?.lighting?.back ?? null)
+
+  return (
+    <>
+      <ambientLight color={ambient ?? DEFAULT_LIGHTING.ambient} intensity={0.5} />
+
+      {/* Lumière principale (plafond) */}
+      <directionalLight
+        position={[0, 9, 0]}
+        intensity={2}
+        color={key ?? DEFAULT_LIGHTING.key}
+        castShadow
+        shadow-camera-left={-15}
+        shadow-camera-right={15}
+        shadow-camera-top={15}
+        shadow-camera-bottom={-15}
+        shadow-mapSize-width={2048}
+        shadow-mapSize-height={2048}
+      />
+
+      {/* Spots latéraux */}
+      <pointLight position={[-8, 6, 8]} intensity={50} color={side ?? DEFAULT_LIGHTING.side} />
+      <pointLight position={[8, 6, 8]} intensity={50} color={side ?? DEFAULT_LIGHTING.side} />
+      <pointLight position={[0, 6, -8]} intensity={30} color={back ?? DEFAULT_LIGHTING.back} />
+    </>
+  )
+}
+
+export default ArenaLighting
@@ -1,8 +1,11 @@
 import { useRef, useEffect, useMemo, useCallback } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
-import { useGameStore, ImpactManager } from '../stores'
+import { useGameStore, useAchievementStore, ImpactManager, getStaminaEfficiency, getPunchPower } from '../stores'
 import type { PunchType } from '../stores'
+import type { InputMethod } from '../systems/SessionHistory'
+import { PhysicsSceneManager, type ConstraintLink } from '../systems/PhysicsSceneManager'
+import { PhysicsClock } from '../systems/PhysicsClock'
 
 /**
  * ArmPhysicsGloves - Bras articulés avec muscles-ressorts
@@ -11,6 +14,9 @@ import type { PunchType } from '../stores'
  * - ANCRE ÉPAULE (static) → Humérus → Avant-bras → Gant
  * - Joints: btConeTwist (épaule), btHinge (coude), btGeneric6Dof (poignet)
  * - Muscles: Springs deltoïde, biceps, triceps
+ *
+ * Bodies et constraints sont enregistrés dans PhysicsSceneManager (catégorie 'arms')
+ * pour le rendu de debug ; l'ajout / retrait du monde reste géré ici.
  */
 
 // =============================================
@@ -21,6 +27,9 @@ import type { PunchType } from '../stores'
 const LEFT_SHOULDER_POS = new THREE.Vector3(-0.6, 3.5, 4.5)
 const RIGHT_SHOULDER_POS = new THREE.Vector3(0.6, 3.5, 4.5)
 
+// Catégorie des bodies et constraints dans PhysicsSceneManager
+const ARM_CATEGORY = 'arms'
+
 // Longueurs des segments
 const UPPER_ARM_LENGTH = 0.5   // Humérus
 const FOREARM_LENGTH = 0.45    // Avant-bras
@@ -97,6 +106,9 @@ interface ArmState {
 // =============================================
 
 export function ArmPhysicsGloves() {
+  // Couleur des gants débloquée (succès), null = rouge par défaut
+  const gloveColor = useAchievementStore((state) => state.getEquipped('gloveColor')?.color ?? null)
+
   // Refs meshes Three.js
   const leftUpperArmRef = useRef<THREE.Mesh>(null)
   const leftForearmRef = useRef<THREE.Mesh>(null)
@@ -147,22 +159,9 @@ export function ArmPhysicsGloves() {
     position: THREE.Vector3,
     disableGravity: boolean = true
   ) => {
-    const shape = new Ammo.btSphereShape(radius)
+    const shape = PhysicsSceneManager.createSphereShape(radius)
     shape.setMargin(0.05)
-
-    const transform = new Ammo.btTransform()
-    transform.setIdentity()
-    transform.setOrigin(new Ammo.btVector3(position.x, position.y, position.z))
-
-    const motionState = new Ammo.btDefaultMotionState(transform)
-    const localInertia = new Ammo.btVector3(0, 0, 0)
-
-    if (mass > 0) {
-      shape.calculateLocalInertia(mass, localInertia)
-    }
-
-    const rbInfo = new Ammo.btRigidBodyConstructionInfo(mass, motionState, shape, localInertia)
-    const body = new Ammo.btRigidBody(rbInfo)
+    const body = PhysicsSceneManager.createRigidBody(shape, mass, position)
 
     if (mass > 0) {
       body.setFriction(0.5)
@@ -195,19 +194,9 @@ export function ArmPhysicsGloves() {
     disableGravity: boolean = true
   ) => {
     // Capsule alignée sur Y
-    const shape = new Ammo.btCapsuleShape(radius, height)
+    const shape = PhysicsSceneManager.createCapsuleShape(radius, height)
     shape.setMargin(0.05)
-
-    const transform = new Ammo.btTransform()
-    transform.setIdentity()
-    transform.setOrigin(new Ammo.btVector3(position.x, position.y, position.z))
-
-    const motionState = new Ammo.btDefaultMotionState(transform)
-    const localInertia = new Ammo.btVector3(0, 0, 0)
-    shape.calculateLocalInertia(mass, localInertia)
-
-    const rbInfo = new Ammo.btRigidBodyConstructionInfo(mass, motionState, shape, localInertia)
-    const body = new Ammo.btRigidBody(rbInfo)
+    const body = PhysicsSceneManager.createRigidBody(shape, mass, position)
 
     body.setFriction(0.5)
     body.setRestitution(0.2)
@@ -236,7 +225,8 @@ export function ArmPhysicsGloves() {
     physicsWorld: any,
     anchorBody: any,
     upperArmBody: any,
-    anchorPos: THREE.Vector3
+    anchorPos: THREE.Vector3,
+    id: string
   ) => {
     // Frame dans l'ancre (point de pivot)
     const frameInA = new Ammo.btTransform()
@@ -267,6 +257,11 @@ export function ArmPhysicsGloves() {
     constraint.setDamping(0.3)
 
     physicsWorld.addConstraint(constraint, true)
+    PhysicsSceneManager.trackConstraint(id, constraint, {
+      bodyA: anchorBody,
+      bodyB: upperArmBody,
+      pivotB: new THREE.Vector3(0, UPPER_ARM_LENGTH / 2 + 0.05, 0),
+    }, ARM_CATEGORY)
     return constraint
   }, [])
 
@@ -277,7 +272,8 @@ export function ArmPhysicsGloves() {
     Ammo: any,
     physicsWorld: any,
     upperArmBody: any,
-    forearmBody: any
+    forearmBody: any,
+    id: string
   ) => {
     // Pivot au bout inférieur du bras supérieur
     const pivotInA = new Ammo.btVector3(0, -UPPER_ARM_LENGTH / 2, 0)
@@ -307,6 +303,12 @@ export function ArmPhysicsGloves() {
     Ammo.destroy(axisInB)
 
     physicsWorld.addConstraint(constraint, true)
+    PhysicsSceneManager.trackConstraint(id, constraint, {
+      bodyA: upperArmBody,
+      bodyB: forearmBody,
+      pivotA: new THREE.Vector3(0, -UPPER_ARM_LENGTH / 2, 0),
+      pivotB: new THREE.Vector3(0, FOREARM_LENGTH / 2, 0),
+    }, ARM_CATEGORY)
     return constraint
   }, [])
 
@@ -317,7 +319,8 @@ export function ArmPhysicsGloves() {
     Ammo: any,
     physicsWorld: any,
     forearmBody: any,
-    gloveBody: any
+    gloveBody: any,
+    id: string
   ) => {
     const frameInA = new Ammo.btTransform()
     frameInA.setIdentity()
@@ -352,6 +355,11 @@ export function ArmPhysicsGloves() {
 
     constraint.setEquilibriumPoint()
     physicsWorld.addConstraint(constraint, true)
+    PhysicsSceneManager.trackConstraint(id, constraint, {
+      bodyA: forearmBody,
+      bodyB: gloveBody,
+      pivotA: new THREE.Vector3(0, -FOREARM_LENGTH / 2 - 0.1, 0),
+    }, ARM_CATEGORY)
     return constraint
   }, [])
 
@@ -365,7 +373,8 @@ export function ArmPhysicsGloves() {
     bodyB: any,
     config: { stiffness: number; damping: number },
     pivotInA: THREE.Vector3,
-    pivotInB: THREE.Vector3
+    pivotInB: THREE.Vector3,
+    id: string
   ) => {
     const frameInA = new Ammo.btTransform()
     frameInA.setIdentity()
@@ -397,6 +406,8 @@ export function ArmPhysicsGloves() {
 
     spring.setEquilibriumPoint()
     physicsWorld.addConstraint(spring, true)
+    const link: ConstraintLink = { bodyA, bodyB, pivotA: pivotInA.clone(), pivotB: pivotInB.clone(), spring: true }
+    PhysicsSceneManager.trackConstraint(id, spring, link, ARM_CATEGORY)
     return spring
   }, [])
 
@@ -463,24 +474,33 @@ export function ArmPhysicsGloves() {
       glovePos
     )
 
+    // Suivi pour l'overlay de debug uniquement : pas de contacts (gameplay inchangé)
+    PhysicsSceneManager.trackRigidBody(`${side}-shoulder`, shoulderAnchor, ARM_CATEGORY, { contacts: false })
+    PhysicsSceneManager.trackRigidBody(`${side}-upper-arm`, upperArmBody, ARM_CATEGORY, { contacts: false })
+    PhysicsSceneManager.trackRigidBody(`${side}-forearm`, forearmBody, ARM_CATEGORY, { contacts: false })
+    PhysicsSceneManager.trackRigidBody(`${side}-arm-glove`, gloveBody, ARM_CATEGORY, { contacts: false })
+
     // Créer les constraints articulaires
     const shoulderConstraint = createShoulderConstraint(
       Ammo, physicsWorld,
       shoulderAnchor,
       upperArmBody,
-      shoulderPos
+      shoulderPos,
+      `${side}-shoulder-joint`
     )
 
     const elbowConstraint = createElbowConstraint(
       Ammo, physicsWorld,
       upperArmBody,
-      forearmBody
+      forearmBody,
+      `${side}-elbow-joint`
     )
 
     const wristConstraint = createWristConstraint(
       Ammo, physicsWorld,
       forearmBody,
-      gloveBody
+      gloveBody,
+      `${side}-wrist-joint`
     )
 
     // Créer les muscles (springs)
@@ -491,7 +511,8 @@ export function ArmPhysicsGloves() {
       upperArmBody,
       MUSCLE_CONFIG.deltoid,
       new THREE.Vector3(0, 0, 0),
-      new THREE.Vector3(0, UPPER_ARM_LENGTH / 3, 0)
+      new THREE.Vector3(0, UPPER_ARM_LENGTH / 3, 0),
+      `${side}-deltoid`
     )
 
     // Biceps: humérus → avant-bras (flexion)
@@ -501,7 +522,8 @@ export function ArmPhysicsGloves() {
       forearmBody,
       MUSCLE_CONFIG.biceps,
       new THREE.Vector3(0, -UPPER_ARM_LENGTH / 4, 0.05),
-      new THREE.Vector3(0, FOREARM_LENGTH / 3, 0.03)
+      new THREE.Vector3(0, FOREARM_LENGTH / 3, 0.03),
+      `${side}-biceps`
     )
 
     // Triceps: humérus → avant-bras (extension)
@@ -511,7 +533,8 @@ export function ArmPhysicsGloves() {
       forearmBody,
       MUSCLE_CONFIG.triceps,
       new THREE.Vector3(0, -UPPER_ARM_LENGTH / 4, -0.05),
-      new THREE.Vector3(0, FOREARM_LENGTH / 3, -0.03)
+      new THREE.Vector3(0, FOREARM_LENGTH / 3, -0.03),
+      `${side}-triceps`
     )
 
     console.log(`[ArmPhysicsGloves] ${side} arm created with muscles`)
@@ -543,13 +566,13 @@ export function ArmPhysicsGloves() {
 
   useEffect(() => {
     const checkPhysicsWorld = () => {
-      const Ammo = (window as any).__ammoInstance
-      const physicsWorld = (window as any).__ammoPhysicsWorld
-
-      if (!Ammo || !physicsWorld) {
+      // Monde d'AmmoVolumeDemo, adopté par PhysicsSceneManager
+      if (!PhysicsSceneManager.isReady) {
         setTimeout(checkPhysicsWorld, 100)
         return
       }
+      const Ammo = PhysicsSceneManager.getAmmo()
+      const physicsWorld = PhysicsSceneManager.getWorld()
 
       if (initializedRef.current) return
       initializedRef.current = true
@@ -573,6 +596,8 @@ export function ArmPhysicsGloves() {
     return () => {
       const physicsWorld = physicsWorldRef.current
       if (physicsWorld) {
+        PhysicsSceneManager.clearCategory(ARM_CATEGORY)
+
         // Supprimer les constraints et bodies du bras gauche
         if (leftArmRef.current) {
           const arm = leftArmRef.current
@@ -611,7 +636,7 @@ export function ArmPhysicsGloves() {
   // EXÉCUTION DES COUPS
   // =============================================
 
-  const executePunch = useCallback((type: PunchType, side: 'left' | 'right') => {
+  const executePunch = useCallback((type: PunchType, side: 'left' | 'right', source?: InputMethod, velocity: number = 1) => {
     const Ammo = ammoRef.current
     const arm = side === 'left' ? leftArmRef.current : rightArmRef.current
     if (!Ammo || !arm) return
@@ -632,7 +657,11 @@ export function ArmPhysicsGloves() {
       direction.normalize()
     }
 
-    impulseVec.copy(direction).multiplyScalar(config.force)
+    // Coup lancé (endurance, mode rythme) : un joueur fatigué ou un geste lent
+    // frappe moins fort (endurance relue après la dépense du coup)
+    useGameStore.getState().throwPunch(type, side, source)
+    const efficiency = getStaminaEfficiency(useGameStore.getState().stamina) * getPunchPower(velocity)
+    impulseVec.copy(direction).multiplyScalar(config.force * efficiency)
 
     const btImpulse = new Ammo.btVector3(impulseVec.x, impulseVec.y, impulseVec.z)
     arm.gloveBody.applyCentralImpulse(btImpulse)
@@ -649,7 +678,7 @@ export function ArmPhysicsGloves() {
     if (queuedPunch && selectedTool === 'gloves' && gameState === 'FIGHTING') {
       const punch = consumeQueuedPunch()
       if (punch) {
-        executePunch(punch.type, punch.hand)
+        executePunch(punch.type, punch.hand, punch.source, punch.velocity)
       }
     }
   }, [queuedPunch, selectedTool, gameState, consumeQueuedPunch, executePunch])
@@ -686,17 +715,20 @@ export function ArmPhysicsGloves() {
   // BOUCLE DE MISE À JOUR
   // =============================================
 
-  useFrame((_, delta) => {
+  // Forces de centrage, cooldowns et détection d'impact : à chaque pas de PhysicsClock
+  // (Bullet efface les forces après chaque pas : appliquées par frame, elles
+  // ne porteraient que sur le premier pas et dépendraient du framerate)
+  useEffect(() => PhysicsClock.register('arm-gloves', (fixedDeltaTime) => {
     const Ammo = ammoRef.current
     const transform = transformAuxRef.current
     if (!Ammo || !transform) return
 
     // Mettre à jour cooldowns
     if (leftImpactCooldownRef.current > 0) {
-      leftImpactCooldownRef.current -= delta
+      leftImpactCooldownRef.current -= fixedDeltaTime
     }
     if (rightImpactCooldownRef.current > 0) {
-      rightImpactCooldownRef.current -= delta
+      rightImpactCooldownRef.current -= fixedDeltaTime
     }
 
     // Appliquer force de centrage pour maintenir la position de garde
@@ -739,15 +771,55 @@ export function ArmPhysicsGloves() {
     applyCenteringForce(leftArmRef.current, LEFT_SHOULDER_POS)
     applyCenteringForce(rightArmRef.current, RIGHT_SHOULDER_POS)
 
-    // Synchroniser meshes avec physics
-    const syncArmMeshes = (
+    // Détecter un impact via la chute de vélocité du gant
+    const detectImpact = (
       arm: ArmState | null,
-      upperArmMesh: THREE.Mesh | null,
-      forearmMesh: THREE.Mesh | null,
-      gloveMesh: THREE.Mesh | null,
       cooldownRef: React.MutableRefObject<number>,
       prevSpeedRef: React.MutableRefObject<number>,
       side: 'left' | 'right'
+    ) => {
+      if (!arm?.gloveBody) return
+      if (useGameStore.getState().gameState !== 'FIGHTING' || cooldownRef.current > 0) return
+
+      const velocity = arm.gloveBody.getLinearVelocity()
+      const currentSpeed = Math.sqrt(
+        velocity.x() * velocity.x() +
+        velocity.y() * velocity.y() +
+        velocity.z() * velocity.z()
+      )
+
+      const speedDrop = prevSpeedRef.current - currentSpeed
+      if (speedDrop > 1.0 && prevSpeedRef.current > 1.5) {
+        // Impact détecté!
+        arm.gloveBody.getMotionState().getWorldTransform(transform)
+        const origin = transform.getOrigin()
+        const strength = Math.min(1.0, prevSpeedRef.current / 4)
+        ImpactManager.addImpact(
+          [origin.x(), origin.y(), origin.z()],
+          strength
+        )
+        useGameStore.getState().recordHit(strength, side)
+        cooldownRef.current = 0.2
+        console.log(`[ArmPhysicsGloves] ${side} HIT! Speed drop: ${speedDrop.toFixed(1)}`)
+      }
+
+      prevSpeedRef.current = currentSpeed
+    }
+
+    detectImpact(leftArmRef.current, leftImpactCooldownRef, leftPrevSpeedRef, 'left')
+    detectImpact(rightArmRef.current, rightImpactCooldownRef, rightPrevSpeedRef, 'right')
+  }), [])
+
+  // Synchroniser meshes avec physics
+  useFrame(() => {
+    const transform = transformAuxRef.current
+    if (!transform) return
+
+    const syncArmMeshes = (
+      arm: ArmState | null,
+      upperArmMesh: THREE.Mesh | null,
+      forearmMesh: THREE.Mesh | null,
+      gloveMesh: THREE.Mesh | null
     ) => {
       if (!arm) return
 
@@ -774,54 +846,12 @@ export function ArmPhysicsGloves() {
         arm.gloveBody.getMotionState().getWorldTransform(transform)
         const origin = transform.getOrigin()
         gloveMesh.position.set(origin.x(), origin.y(), origin.z())
-
-        // Détecter impact via chute de vélocité
-        if (gameState === 'FIGHTING' && cooldownRef.current <= 0) {
-          const velocity = arm.gloveBody.getLinearVelocity()
-          const currentSpeed = Math.sqrt(
-            velocity.x() * velocity.x() +
-            velocity.y() * velocity.y() +
-            velocity.z() * velocity.z()
-          )
-
-          const speedDrop = prevSpeedRef.current - currentSpeed
-          if (speedDrop > 1.0 && prevSpeedRef.current > 1.5) {
-            // Impact détecté!
-            const strength = Math.min(1.0, prevSpeedRef.current / 4)
-            ImpactManager.addImpact(
-              [origin.x(), origin.y(), origin.z()],
-              strength
-            )
-            useGameStore.getState().recordHit()
-            cooldownRef.current = 0.2
-            console.log(`[ArmPhysicsGloves] ${side} HIT! Speed drop: ${speedDrop.toFixed(1)}`)
-          }
-
-          prevSpeedRef.current = currentSpeed
-        }
       }
     }
 
     // Synchroniser les deux bras
-    syncArmMeshes(
-      leftArmRef.current,
-      leftUpperArmRef.current,
-      leftForearmRef.current,
-      leftGloveRef.current,
-      leftImpactCooldownRef,
-      leftPrevSpeedRef,
-      'left'
-    )
-
-    syncArmMeshes(
-      rightArmRef.current,
-      rightUpperArmRef.current,
-      rightForearmRef.current,
-      rightGloveRef.current,
-      rightImpactCooldownRef,
-      rightPrevSpeedRef,
-      'right'
-    )
+    syncArmMeshes(leftArmRef.current, leftUpperArmRef.current, leftForearmRef.current, leftGloveRef.current)
+    syncArmMeshes(rightArmRef.current, rightUpperArmRef.current, rightForearmRef.current, rightGloveRef.current)
   })
 
   // =============================================
@@ -875,7 +905,7 @@ export function ArmPhysicsGloves() {
       <mesh ref={leftGloveRef} position={leftGloveInitPos} castShadow>
         <sphereGeometry args={[SEGMENT_CONFIG.glove.radius, 16, 16]} />
         <meshStandardMaterial
-          color={GLOVE_COLORS.rest}
+          color={gloveColor ?? GLOVE_COLORS.rest}
           roughness={0.4}
           metalness={0.1}
           emissive={0x110000}
@@ -916,7 +946,7 @@ export function ArmPhysicsGloves() {
       <mesh ref={rightGloveRef} position={rightGloveInitPos} castShadow>
         <sphereGeometry args={[SEGMENT_CONFIG.glove.radius, 16, 16]} />
         <meshStandardMaterial
-          color={GLOVE_COLORS.rest}
+          color={gloveColor ?? GLOVE_COLORS.rest}
           roughness={0.4}
           metalness={0.1}
           emissive={0x110000}
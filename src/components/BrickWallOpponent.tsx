@@ -1,15 +1,19 @@
-import { useRef, useEffect, useCallback } from 'react'
+import { useRef, useEffect, useCallback, useMemo } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
 import { useImpactListener } from '../hooks/useImpactListener'
+import { usePhysicsBackend } from '../hooks/usePhysicsBackend'
+import { useRoundStart } from '../hooks/useRoundStart'
+import { GameEvents } from '../systems/GameEvents'
+import { PhysicsSceneManager, type PhysicsSnapshot } from '../systems/PhysicsSceneManager'
 // NOTE: On n'utilise PAS useAmmoPhysics car il crée un monde physique DIFFÉRENT
-// On utilise le monde physique exposé par AmmoVolumeDemo via window.__ammoPhysicsWorld
+// Les briques passent par le moteur choisi (Ammo : monde d'AmmoVolumeDemo, ou Rapier)
 
 /**
  * BrickWallOpponent - Mur de briques destructible
  *
  * Basé EXACTEMENT sur l'exemple three.js physics_ammo_rope.html
- * Les briques sont des rigid bodies Ammo.js qui entrent en collision
+ * Les briques sont des rigid bodies (Ammo.js ou Rapier) qui entrent en collision
  * avec les balles lancées par le joueur.
  */
 
@@ -30,6 +34,7 @@ const WALL_CONFIG = {
   // Physique
   brickMass: 0.5,
   margin: 0.02,               // Marge collision Ammo.js
+  category: 'brickwall',      // Catégorie des briques dans le moteur physique
 
   // Position - le mur est posé sur le sol
   wallZ: 1.5,                 // Position Z (proche du joueur)
@@ -47,7 +52,7 @@ const WALL_CONFIG = {
 
 interface BrickMeshData {
   mesh: THREE.Mesh
-  body: any  // Ammo.btRigidBody
+  bodyId: string  // ID du rigid body dans le moteur physique
   initialPos: THREE.Vector3
 }
 
@@ -55,26 +60,26 @@ interface BrickWallOpponentProps {
   textureUrl?: string | null
 }
 
-// Liste globale des rigid bodies pour la synchronisation (comme dans l'exemple)
-const rigidBodiesList: Array<{ mesh: THREE.Mesh; body: any }> = []
-
 // =============================================
 // COMPOSANT PRINCIPAL
 // =============================================
 
 export function BrickWallOpponent({ textureUrl: _textureUrl }: BrickWallOpponentProps) {
-  // NOTE: On n'utilise PAS useAmmoPhysics() car il crée son propre monde physique
-  // On utilise le monde physique d'AmmoVolumeDemo exposé via window.__ammoPhysicsWorld
+  // Moteur physique choisi (le composant est remonté si le moteur change)
+  const { backend, isReady } = usePhysicsBackend()
 
   // Refs (utiliser une ref au lieu de state pour éviter les re-renders en boucle)
   const bricksRef = useRef<BrickMeshData[]>([])
   const groupRef = useRef<THREE.Group>(null)
   const resetTimerRef = useRef<NodeJS.Timeout | null>(null)
-  const ammoRef = useRef<any>(null)
-  const physicsWorldRef = useRef<any>(null)
-  const transformAuxRef = useRef<any>(null)
+  const brickCounterRef = useRef(0)
   const isInitializedRef = useRef(false)
   const isInitializingRef = useRef(false) // Guard pour éviter double init
+  // Mur intact (Ammo seulement) : le reset restaure ce snapshot au lieu de reconstruire
+  const wallSnapshotRef = useRef<PhysicsSnapshot | null>(null)
+
+  // Vecteur réutilisable pour les impulsions (évite GC)
+  const impulseVec = useMemo(() => new THREE.Vector3(), [])
 
   // Couleur aléatoire pour chaque brique (comme dans l'exemple)
   const createRandomColor = useCallback(() => {
@@ -96,80 +101,30 @@ export function BrickWallOpponent({ textureUrl: _textureUrl }: BrickWallOpponent
     quat: THREE.Quaternion,
     material: THREE.Material
   ): THREE.Mesh | null => {
-    const Ammo = ammoRef.current
-    const physicsWorld = physicsWorldRef.current
-    if (!Ammo || !physicsWorld) return null
+    if (!backend.isReady) return null
 
     // Créer le mesh Three.js
     const threeObject = new THREE.Mesh(
       new THREE.BoxGeometry(sx, sy, sz, 1, 1, 1),
       material
     )
-
-    // Créer la forme de collision Ammo.js
-    // IMPORTANT: Détruire le btVector3 temporaire après utilisation (cf. CLAUDE.md)
-    const halfExtents = new Ammo.btVector3(sx * 0.5, sy * 0.5, sz * 0.5)
-    const shape = new Ammo.btBoxShape(halfExtents)
-    Ammo.destroy(halfExtents)
-    shape.setMargin(WALL_CONFIG.margin)
-
-    // Créer le rigid body (EXACTEMENT comme l'exemple)
-    createRigidBody(Ammo, physicsWorld, threeObject, shape, mass, pos, quat)
-
-    return threeObject
-  }, [])
-
-  /**
-   * Créer un rigid body (EXACTEMENT comme l'exemple)
-   * IMPORTANT: Détruit les objets Ammo temporaires pour éviter les fuites mémoire (cf. CLAUDE.md)
-   */
-  const createRigidBody = useCallback((
-    Ammo: any,
-    physicsWorld: any,
-    threeObject: THREE.Mesh,
-    physicsShape: any,
-    mass: number,
-    pos: THREE.Vector3,
-    quat: THREE.Quaternion
-  ) => {
     threeObject.position.copy(pos)
     threeObject.quaternion.copy(quat)
 
-    // Créer les vecteurs temporaires
-    const btOrigin = new Ammo.btVector3(pos.x, pos.y, pos.z)
-    const btRotation = new Ammo.btQuaternion(quat.x, quat.y, quat.z, quat.w)
-    const localInertia = new Ammo.btVector3(0, 0, 0)
+    // Créer le rigid body (ajouté au monde SANS groupes de collision, comme dans l'exemple)
+    const bodyId = `brick-${brickCounterRef.current++}`
+    backend.createRigidBody(bodyId, {
+      shape: { type: 'box', halfExtents: new THREE.Vector3(sx * 0.5, sy * 0.5, sz * 0.5) },
+      mass,
+      position: pos,
+      quaternion: quat,
+      margin: WALL_CONFIG.margin,
+      category: WALL_CONFIG.category,
+    })
+    threeObject.userData.physicsBodyId = bodyId
 
-    const transform = new Ammo.btTransform()
-    transform.setIdentity()
-    transform.setOrigin(btOrigin)
-    transform.setRotation(btRotation)
-    const motionState = new Ammo.btDefaultMotionState(transform)
-
-    physicsShape.calculateLocalInertia(mass, localInertia)
-
-    const rbInfo = new Ammo.btRigidBodyConstructionInfo(mass, motionState, physicsShape, localInertia)
-    const body = new Ammo.btRigidBody(rbInfo)
-
-    // Nettoyer les objets temporaires (CRITICAL pour éviter fuites mémoire)
-    Ammo.destroy(btOrigin)
-    Ammo.destroy(btRotation)
-    Ammo.destroy(localInertia)
-    Ammo.destroy(rbInfo)
-
-    threeObject.userData.physicsBody = body
-
-    if (mass > 0) {
-      rigidBodiesList.push({ mesh: threeObject, body })
-      // Disable deactivation (comme dans l'exemple)
-      body.setActivationState(4)
-    }
-
-    // Ajouter au monde SANS groupes de collision (comme dans l'exemple)
-    physicsWorld.addRigidBody(body)
-
-    return body
-  }, [])
+    return threeObject
+  }, [backend])
 
   /**
    * Initialise le mur de briques
@@ -179,9 +134,7 @@ export function BrickWallOpponent({ textureUrl: _textureUrl }: BrickWallOpponent
    * - Position à Z = wallZ (configurable) pour être devant le joueur
    */
   const initializeWall = useCallback(() => {
-    const Ammo = ammoRef.current
-    const physicsWorld = physicsWorldRef.current
-    if (!Ammo || !physicsWorld || !groupRef.current) return
+    if (!backend.isReady || !groupRef.current) return
 
     // Guard contre double initialisation
     if (isInitializedRef.current || isInitializingRef.current) {
@@ -246,7 +199,7 @@ export function BrickWallOpponent({ textureUrl: _textureUrl }: BrickWallOpponent
 
           newBricks.push({
             mesh: brick,
-            body: brick.userData.physicsBody,
+            bodyId: brick.userData.physicsBodyId,
             initialPos: pos.clone(),
           })
         }
@@ -264,30 +217,25 @@ export function BrickWallOpponent({ textureUrl: _textureUrl }: BrickWallOpponent
     }
 
     bricksRef.current = newBricks
+    if (backend.type === 'ammo') {
+      wallSnapshotRef.current = PhysicsSceneManager.snapshot(WALL_CONFIG.category)
+    }
     console.log(`[BrickWall] Created ${newBricks.length} bricks at Z=${wallZ}`)
     isInitializedRef.current = true
     isInitializingRef.current = false
-  }, [createParalellepiped, createMaterial])
+  }, [backend, createParalellepiped, createMaterial])
 
   /**
    * Nettoyer le mur
    */
   const cleanupWall = useCallback(() => {
-    const physicsWorld = physicsWorldRef.current
-
     // Supprimer les rigid bodies du monde physique
-    for (const brick of bricksRef.current) {
-      if (physicsWorld && brick.body) {
-        try {
-          physicsWorld.removeRigidBody(brick.body)
-        } catch (e) {
-          console.warn('[BrickWall] Error removing rigid body:', e)
-        }
+    if (backend.isReady) {
+      try {
+        backend.clearCategory(WALL_CONFIG.category)
+      } catch (e) {
+        console.warn('[BrickWall] Error removing rigid bodies:', e)
       }
-
-      // Supprimer de la liste globale
-      const idx = rigidBodiesList.findIndex(rb => rb.body === brick.body)
-      if (idx !== -1) rigidBodiesList.splice(idx, 1)
     }
 
     // Supprimer les meshes du groupe
@@ -307,15 +255,27 @@ export function BrickWallOpponent({ textureUrl: _textureUrl }: BrickWallOpponent
     }
 
     bricksRef.current = []
+    wallSnapshotRef.current = null
     isInitializedRef.current = false
     isInitializingRef.current = false
-  }, [])
+  }, [backend])
 
   /**
    * Reset le mur
    */
   const resetWall = useCallback(() => {
     console.log('[BrickWall] Resetting wall...')
+    if (resetTimerRef.current) {
+      clearTimeout(resetTimerRef.current)
+      resetTimerRef.current = null
+    }
+
+    // Ammo : restaurer le mur intact, sans recréer les briques
+    if (wallSnapshotRef.current && isInitializedRef.current) {
+      PhysicsSceneManager.restore(wallSnapshotRef.current)
+      return
+    }
+
     cleanupWall()
     setTimeout(() => {
       initializeWall()
@@ -335,55 +295,35 @@ export function BrickWallOpponent({ textureUrl: _textureUrl }: BrickWallOpponent
     return fallen
   }, [])
 
-  // Effet: attendre que AmmoVolumeDemo expose son monde physique, puis initialiser le mur
-  // Utilise le polling car AmmoVolumeDemo initialise son propre Ammo.js indépendamment
+  // Effet: initialiser le mur dès que le moteur physique est prêt
+  // (Ammo : attend que AmmoVolumeDemo expose son monde physique)
   useEffect(() => {
-    let pollTimer: NodeJS.Timeout | null = null
-    let isMounted = true
-
-    const checkAmmoAndInit = () => {
-      if (!isMounted) return
-
-      // Attendre que AmmoVolumeDemo expose son monde physique
-      const ammoInst = (window as any).__ammoInstance
-      const physicsWorld = (window as any).__ammoPhysicsWorld
+    if (!isReady) return
 
-      if (ammoInst && physicsWorld) {
-        ammoRef.current = ammoInst
-        physicsWorldRef.current = physicsWorld
-        transformAuxRef.current = new ammoInst.btTransform()
-
-        // Initialiser le mur une seule fois
-        if (!isInitializedRef.current && !isInitializingRef.current) {
-          console.log('[BrickWall] AmmoVolumeDemo physics world ready, initializing wall...')
-          initializeWall()
-        }
-      } else {
-        // Réessayer - AmmoVolumeDemo n'a pas encore initialisé Ammo.js
-        pollTimer = setTimeout(checkAmmoAndInit, 100)
-      }
+    if (!isInitializedRef.current && !isInitializingRef.current) {
+      console.log(`[BrickWall] ${backend.type} physics ready, initializing wall...`)
+      initializeWall()
     }
 
-    checkAmmoAndInit()
-
     return () => {
       // Cleanup quand le composant est démonté
-      isMounted = false
-      if (pollTimer) {
-        clearTimeout(pollTimer)
-      }
       if (resetTimerRef.current) {
         clearTimeout(resetTimerRef.current)
+        resetTimerRef.current = null
       }
       cleanupWall()
     }
-  }, []) // Dépendances vides - s'exécute une seule fois au montage
+  }, [isReady]) // Une seule initialisation par moteur prêt
+
+  // Nouveau round : mur intact
+  useRoundStart(() => {
+    if (isInitializedRef.current) resetWall()
+  })
 
   // Écouter les impacts des gants (en plus des collisions physiques)
   useImpactListener((impact) => {
-    if (!isInitializedRef.current || !ammoRef.current) return
+    if (!isInitializedRef.current || !backend.isReady) return
 
-    const Ammo = ammoRef.current
     const hitWorldPos = new THREE.Vector3(
       impact.hitPoint[0],
       impact.hitPoint[1],
@@ -394,42 +334,30 @@ export function BrickWallOpponent({ textureUrl: _textureUrl }: BrickWallOpponent
     const impactRadius = 1.5
     for (const brick of bricksRef.current) {
       const distance = brick.mesh.position.distanceTo(hitWorldPos)
-      if (distance < impactRadius && brick.body) {
+      if (distance < impactRadius) {
         const falloff = 1 - distance / impactRadius
         const strength = impact.strength * falloff
 
         // Impulsion vers l'arrière (direction -Z) et vers le haut
-        const impulse = new Ammo.btVector3(
+        impulseVec.set(
           hitWorldPos.x * 2 * strength,
           3 + strength * 5,
           -10 * strength
         )
-        brick.body.applyCentralImpulse(impulse)
-        Ammo.destroy(impulse)
+        backend.applyImpulse(brick.bodyId, impulseVec)
       }
     }
   })
 
   // Boucle de rendu: synchroniser meshes et vérifier reset
   useFrame(() => {
-    if (!isInitializedRef.current || !transformAuxRef.current) return
-
-    const transformAux = transformAuxRef.current
+    if (!isInitializedRef.current || !backend.isReady) return
 
     // Synchroniser les positions des meshes avec les rigid bodies
     // (EXACTEMENT comme updatePhysics dans l'exemple)
     for (const brick of bricksRef.current) {
-      const body = brick.body
-      if (!body) continue
-
-      const ms = body.getMotionState()
-      if (ms) {
-        ms.getWorldTransform(transformAux)
-        const p = transformAux.getOrigin()
-        const q = transformAux.getRotation()
-        brick.mesh.position.set(p.x(), p.y(), p.z())
-        brick.mesh.quaternion.set(q.x(), q.y(), q.z(), q.w())
-      }
+      backend.getPosition(brick.bodyId, brick.mesh.position)
+      backend.getQuaternion(brick.bodyId, brick.mesh.quaternion)
     }
 
     // Vérifier si on doit reset le mur
@@ -441,6 +369,8 @@ export function BrickWallOpponent({ textureUrl: _textureUrl }: BrickWallOpponent
 
     if (fallenRatio >= WALL_CONFIG.resetThreshold && !resetTimerRef.current) {
       console.log(`[BrickWall] ${Math.round(fallenRatio * 100)}% bricks fallen, scheduling reset...`)
+      // Mur abattu (succès) : un seul événement par mur, avant sa reconstruction
+      GameEvents.emit({ type: 'wallDestroyed' })
       resetTimerRef.current = setTimeout(() => {
         resetTimerRef.current = null
         resetWall()
@@ -1,5 +1,74 @@
 import { useCallback, useEffect, useState } from 'react'
 import { useHandTrackingStore } from '../stores/useHandTrackingStore'
+import { useCalibrationStore } from '../stores/useCalibrationStore'
+import { CALIBRATION_STEPS, type CalibrationStep } from '../utils/CalibrationMapping'
+import {
+  getFilterParams,
+  type KalmanParams,
+  type LandmarkFilterParams,
+  type LandmarkFilterType,
+  type LandmarkSpace,
+  type OneEuroParams,
+} from '../utils/LandmarkFilters'
+
+/**
+ * Consignes de la calibration guidée
+ */
+const STEP_INSTRUCTIONS: Record<CalibrationStep, { title: string; text: string }> = {
+  guard: { title: 'Garde', text: 'Poings devant le visage, comme pour boxer.' },
+  jab: { title: 'Jab tendu', text: 'Tendez les deux bras droit devant vous, vers la caméra.' },
+  hookOut: { title: 'Crochet armé', text: 'Écartez les deux poings vers l\'extérieur, coudes ouverts.' },
+  hookIn: { title: 'Crochet fermé', text: 'Ramenez les deux poings au centre, devant le menton.' },
+  uppercut: { title: 'Uppercut', text: 'Montez les deux poings le plus haut possible au-dessus de la tête.' },
+}
+
+// Durée du compte à rebours de chaque pose (s)
+const CAPTURE_COUNTDOWN = 3
+
+/**
+ * Filtres de lissage proposés
+ */
+const FILTER_OPTIONS: { id: LandmarkFilterType; name: string }[] = [
+  { id: 'none', name: 'Aucun' },
+  { id: 'oneEuro', name: 'One Euro' },
+  { id: 'kalman', name: 'Kalman' },
+]
+
+/**
+ * Repères des landmarks réglés séparément
+ */
+const SPACE_OPTIONS: { id: LandmarkSpace; name: string }[] = [
+  { id: 'image', name: 'Position à l\'écran' },
+  { id: 'world', name: 'Forme de la main' },
+]
+
+/**
+ * Curseurs des paramètres de chaque filtre, par repère
+ * (image : coordonnées normalisées, monde : mètres autour du centre de la main)
+ */
+const ONE_EURO_SLIDERS: Record<LandmarkSpace, { key: keyof OneEuroParams; name: string; min: number; max: number; step: number }[]> = {
+  image: [
+    { key: 'minCutoff', name: 'Lissage au repos', min: 0.1, max: 5, step: 0.1 },
+    { key: 'beta', name: 'Réactivité', min: 0, max: 2, step: 0.05 },
+    { key: 'dCutoff', name: 'Coupure vitesse', min: 0.5, max: 5, step: 0.1 },
+  ],
+  world: [
+    { key: 'minCutoff', name: 'Lissage au repos', min: 0.1, max: 5, step: 0.1 },
+    { key: 'beta', name: 'Réactivité', min: 0, max: 20, step: 0.5 },
+    { key: 'dCutoff', name: 'Coupure vitesse', min: 0.5, max: 5, step: 0.1 },
+  ],
+}
+
+const KALMAN_SLIDERS: Record<LandmarkSpace, { key: keyof KalmanParams; name: string; min: number; max: number; step: number }[]> = {
+  image: [
+    { key: 'processNoise', name: 'Bruit du mouvement', min: 0.1, max: 10, step: 0.1 },
+    { key: 'measurementNoise', name: 'Bruit de la caméra', min: 0.00001, max: 0.0005, step: 0.00001 },
+  ],
+  world: [
+    { key: 'processNoise', name: 'Bruit du mouvement', min: 0.1, max: 10, step: 0.1 },
+    { key: 'measurementNoise', name: 'Bruit de la caméra', min: 0.00001, max: 0.001, step: 0.00001 },
+  ],
+}
 
 /**
  * Overlay de calibration pour le hand tracking
@@ -15,18 +84,36 @@ export function CalibrationOverlay() {
     rightHand,
     startCalibration,
     calibrate,
-    resetCalibration,
   } = useHandTrackingStore()
 
+  // Calibration guidée (mapping par joueur)
+  const savedProfile = useCalibrationStore((state) => state.profile)
+  const stepIndex = useCalibrationStore((state) => state.stepIndex)
+  const mappingFailed = useCalibrationStore((state) => state.mappingFailed)
+  const { startGuidedCalibration, captureStep, cancelGuidedCalibration, applyProfile, clearProfile } =
+    useCalibrationStore.getState()
+  const currentStep = stepIndex === null ? null : CALIBRATION_STEPS[stepIndex] ?? null
+
   // Compte à rebours pour la calibration
   const [countdown, setCountdown] = useState<number | null>(null)
 
-  // Démarrer le compte à rebours de calibration
+  // Calibration rapide : une seule pose (remplace la calibration guidée du joueur)
   const handleStartCalibration = useCallback(() => {
     startCalibration()
-    setCountdown(3)
+    setCountdown(CAPTURE_COUNTDOWN)
   }, [startCalibration])
 
+  // Calibration guidée : une pose après l'autre
+  const handleStartGuided = useCallback(() => {
+    startGuidedCalibration()
+    setCountdown(CAPTURE_COUNTDOWN)
+  }, [startGuidedCalibration])
+
+  const handleCancelGuided = useCallback(() => {
+    cancelGuidedCalibration()
+    setCountdown(null)
+  }, [cancelGuidedCalibration])
+
   // Gérer le compte à rebours
   useEffect(() => {
     if (countdown === null) return
@@ -34,15 +121,23 @@ export function CalibrationOverlay() {
     if (countdown > 0) {
       const timer = setTimeout(() => setCountdown(countdown - 1), 1000)
       return () => clearTimeout(timer)
+    }
+
+    if (useCalibrationStore.getState().stepIndex !== null) {
+      // Capturer la pose : enchaîner sur la suivante (échec = bouton pour réessayer)
+      const success = captureStep()
+      setCountdown(success && useCalibrationStore.getState().stepIndex !== null ? CAPTURE_COUNTDOWN : null)
     } else {
       // Calibrer !
       const success = calibrate()
-      if (!success) {
+      if (success) {
+        clearProfile()
+      } else {
         // Échec - réessayer
         setCountdown(null)
       }
     }
-  }, [countdown, calibrate])
+  }, [countdown, calibrate, captureStep, clearProfile])
 
   // Ne pas afficher si :
   // - Caméra désactivée
@@ -62,10 +157,25 @@ export function CalibrationOverlay() {
         <h2 className="mb-4 text-2xl font-bold">Calibration</h2>
 
         {/* Instructions */}
-        <p className="mb-6 text-gray-300">
-          Placez vos mains en position de garde (comme pour boxer) devant la caméra.
-          Cette position sera votre position de repos.
-        </p>
+        {currentStep ? (
+          <div className="mb-6">
+            <div className="mb-1 text-sm text-gray-400">
+              Étape {(stepIndex ?? 0) + 1} / {CALIBRATION_STEPS.length}
+            </div>
+            {mappingFailed && (
+              <p className="mb-3 rounded-lg bg-red-900/50 px-3 py-2 text-sm text-red-300">
+                Poses trop proches les unes des autres : recommencez en exagérant les mouvements
+              </p>
+            )}
+            <div className="mb-2 text-xl font-bold">{STEP_INSTRUCTIONS[currentStep].title}</div>
+            <p className="text-gray-300">{STEP_INSTRUCTIONS[currentStep].text}</p>
+          </div>
+        ) : (
+          <p className="mb-6 text-gray-300">
+            Placez vos mains en position de garde (comme pour boxer) devant la caméra.
+            La calibration guidée mesure aussi votre allonge et l'amplitude de vos crochets et uppercuts.
+          </p>
+        )}
 
         {/* Indicateur de mains détectées */}
         <div className="mb-6 flex justify-center gap-8">
@@ -103,7 +213,7 @@ export function CalibrationOverlay() {
           {handsDetected === 2 && '2 mains détectées !'}
         </p>
 
-        {/* Compte à rebours ou bouton */}
+        {/* Compte à rebours ou boutons */}
         {isCalibrating && countdown !== null ? (
           <div className="flex flex-col items-center">
             <div className="mb-4 flex h-24 w-24 items-center justify-center rounded-full bg-red-600 text-5xl font-bold">
@@ -113,20 +223,63 @@ export function CalibrationOverlay() {
               {countdown > 0 ? 'Ne bougez pas...' : 'Calibration !'}
             </p>
           </div>
+        ) : currentStep ? (
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={() => setCountdown(CAPTURE_COUNTDOWN)}
+              disabled={handsDetected < 1}
+              className={`rounded-lg px-6 py-3 font-bold transition ${
+                handsDetected >= 1
+                  ? 'bg-green-600 text-white hover:bg-green-700'
+                  : 'cursor-not-allowed bg-gray-700 text-gray-500'
+              }`}
+            >
+              Réessayer
+            </button>
+          </div>
         ) : (
-          <button
-            onClick={handleStartCalibration}
-            disabled={handsDetected < 1}
-            className={`rounded-lg px-8 py-4 text-xl font-bold transition ${
-              handsDetected >= 1
-                ? 'bg-green-600 text-white hover:bg-green-700'
-                : 'cursor-not-allowed bg-gray-700 text-gray-500'
-            }`}
-          >
-            Calibrer
+          <div className="flex flex-col items-center gap-3">
+            <button
+              onClick={handleStartGuided}
+              disabled={handsDetected < 1}
+              className={`rounded-lg px-8 py-4 text-xl font-bold transition ${
+                handsDetected >= 1
+                  ? 'bg-green-600 text-white hover:bg-green-700'
+                  : 'cursor-not-allowed bg-gray-700 text-gray-500'
+              }`}
+            >
+              Calibration guidée
+            </button>
+            <div className="flex gap-3 text-sm">
+              <button
+                onClick={handleStartCalibration}
+                disabled={handsDetected < 1}
+                className="rounded-lg bg-gray-800 px-4 py-2 text-gray-300 transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:text-gray-600"
+              >
+                Garde seulement
+              </button>
+              {savedProfile && (
+                <button
+                  onClick={applyProfile}
+                  className="rounded-lg bg-gray-800 px-4 py-2 text-gray-300 transition hover:bg-gray-700"
+                >
+                  Ma calibration
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Abandon de la calibration guidée */}
+        {currentStep && (
+          <button onClick={handleCancelGuided} className="mt-4 text-sm text-gray-500 transition hover:text-gray-300">
+            Annuler
           </button>
         )}
 
+        {/* Lissage des mouvements */}
+        <FilterSettings />
+
         {/* Note */}
         <p className="mt-6 text-xs text-gray-500">
           Vous pourrez recalibrer à tout moment depuis les paramètres
@@ -136,4 +289,94 @@ export function CalibrationOverlay() {
   )
 }
 
+/**
+ * Réglages du lissage des landmarks (moins de tremblements = moins de faux coups)
+ */
+function FilterSettings() {
+  const filterSettings = useHandTrackingStore((state) => state.filterSettings)
+  const setFilterSettings = useHandTrackingStore((state) => state.setFilterSettings)
+  const [space, setSpace] = useState<LandmarkSpace>('image')
+  const params = getFilterParams(filterSettings, space)
+
+  // Les paramètres image sont à la racine des réglages, ceux du monde dans world
+  const setParams = (changes: Partial<LandmarkFilterParams>) => setFilterSettings(
+    space === 'world' ? { world: { ...filterSettings.world, ...changes } } : changes
+  )
+
+  return (
+    <div className="mt-6 text-left">
+      <div className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">Lissage</div>
+      <div className="mb-3 flex gap-2">
+        {FILTER_OPTIONS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setFilterSettings({ type: option.id })}
+            className={`flex-1 rounded-lg px-2 py-1 text-xs font-medium transition ${
+              filterSettings.type === option.id
+                ? 'bg-green-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            {option.name}
+          </button>
+        ))}
+      </div>
+
+      {filterSettings.type !== 'none' && (
+        <div className="mb-3 flex gap-2">
+          {SPACE_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setSpace(option.id)}
+              className={`flex-1 rounded-lg px-2 py-1 text-xs font-medium transition ${
+                space === option.id
+                  ? 'bg-gray-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              {option.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {filterSettings.type === 'oneEuro' && ONE_EURO_SLIDERS[space].map((slider) => (
+        <label key={slider.key} className="mb-1 flex items-center gap-2 text-xs text-gray-400">
+          <span className="w-32">{slider.name}</span>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={params.oneEuro[slider.key]}
+            onChange={(e) => setParams({
+              oneEuro: { ...params.oneEuro, [slider.key]: Number(e.target.value) },
+            })}
+            className="flex-1"
+          />
+          <span className="w-12 text-right text-white">{params.oneEuro[slider.key]}</span>
+        </label>
+      ))}
+
+      {filterSettings.type === 'kalman' && KALMAN_SLIDERS[space].map((slider) => (
+        <label key={slider.key} className="mb-1 flex items-center gap-2 text-xs text-gray-400">
+          <span className="w-32">{slider.name}</span>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={params.kalman[slider.key]}
+            onChange={(e) => setParams({
+              kalman: { ...params.kalman, [slider.key]: Number(e.target.value) },
+            })}
+            className="flex-1"
+          />
+          <span className="w-12 text-right text-white">{params.kalman[slider.key]}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
 export default CalibrationOverlay
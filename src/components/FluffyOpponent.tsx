@@ -66,7 +66,7 @@ export function FluffyOpponent() {
     ammo,
     createSoftVolume,
     createRigidBody,
-    updatePhysics,
+    syncMeshes,
     applySoftBodyImpulse,
     removeSoftBody,
     removeRigidBody,
@@ -234,10 +234,11 @@ export function FluffyOpponent() {
   })
 
   // Boucle principale - mutation directe, pas de setState
-  useFrame((_, delta) => {
+  // Le monde est avancé par PhysicsClock (useAmmoPhysics)
+  useFrame(() => {
     if (!isInitialized || !softBodyStateRef.current || !meshRef.current) return
 
-    updatePhysics(delta)
+    syncMeshes()
 
     // Mettre à jour la position de la corde via ref (pas de re-render)
     const positions = meshRef.current.geometry.attributes.position.array
@@ -1,8 +1,28 @@
 import { useEffect, useRef } from 'react'
-import { useGameStore, ROUND_DURATION } from '../stores'
+import { useGameStore, useOpponentAIStore, useRhythmStore, useTargetDrillStore, KNOCKDOWN_COUNT, MAX_KNOCKDOWNS_PER_ROUND, MAX_STAMINA, HIT_ZONE_LABELS, getStaminaEfficiency, getRoundDuration, isTrainingMode } from '../stores'
+import type { ScoredRound, OpponentAttack, PunchType } from '../stores'
+import { RhythmLane } from './RhythmLane'
+
+// Intervalle de régénération de l'endurance (ms)
+const STAMINA_TICK_INTERVAL = 100
+
+// Intervalle de détection des consignes manquées en mode rythme (ms)
+const RHYTHM_SWEEP_INTERVAL = 50
+
+// Intervalle de changement de cible du drill de précision (ms)
+const TARGET_TICK_INTERVAL = 100
+
+/**
+ * Noms des coups de l'adversaire affichés pendant l'armé
+ */
+const ATTACK_LABELS: Record<PunchType, string> = {
+  jab: 'JAB',
+  hook: 'CROCHET',
+  uppercut: 'UPPERCUT',
+}
 
 /**
- * HUD du jeu - Affiche timer, score et countdown
+ * HUD du jeu - Affiche timer, score, countdown et repos entre rounds
  * Enterprise-grade avec animations fluides
  */
 export function GameHUD() {
@@ -10,9 +30,31 @@ export function GameHUD() {
   const timeRemaining = useGameStore((state) => state.timeRemaining)
   const countdown = useGameStore((state) => state.countdown)
   const hitCount = useGameStore((state) => state.hitCount)
+  const score = useGameStore((state) => state.score)
   const comboCount = useGameStore((state) => state.comboCount)
   const tickCountdown = useGameStore((state) => state.tickCountdown)
   const tickTimer = useGameStore((state) => state.tickTimer)
+  const tickRest = useGameStore((state) => state.tickRest)
+  const skipRest = useGameStore((state) => state.skipRest)
+  const matchConfig = useGameStore((state) => state.matchConfig)
+  const currentRound = useGameStore((state) => state.currentRound)
+  const restTimeRemaining = useGameStore((state) => state.restTimeRemaining)
+  const roundHistory = useGameStore((state) => state.roundHistory)
+  const fightMode = useGameStore((state) => state.fightMode)
+  const opponentHp = useGameStore((state) => state.opponentHp)
+  const knockdownCount = useGameStore((state) => state.knockdownCount)
+  const roundKnockdowns = useGameStore((state) => state.roundKnockdowns)
+  const tickKnockdownCount = useGameStore((state) => state.tickKnockdownCount)
+  const playerHp = useGameStore((state) => state.playerHp)
+  const stamina = useGameStore((state) => state.stamina)
+  const regenStamina = useGameStore((state) => state.regenStamina)
+
+  // Riposte de l'adversaire
+  const isAIEnabled = useOpponentAIStore((state) => state.isEnabled)
+  const attackPhase = useOpponentAIStore((state) => state.phase)
+  const currentAttack = useOpponentAIStore((state) => state.currentAttack)
+  const isBlocking = useOpponentAIStore((state) => state.isBlocking)
+  const dodge = useOpponentAIStore((state) => state.dodge)
 
   // Référence pour le timer interval
   const timerRef = useRef<NodeJS.Timeout | null>(null)
@@ -43,6 +85,65 @@ export function GameHUD() {
     }
   }, [gameState, tickTimer])
 
+  // Régénérer l'endurance pendant FIGHTING (intervalle séparé du timer)
+  useEffect(() => {
+    if (gameState !== 'FIGHTING') return
+
+    const interval = setInterval(() => {
+      regenStamina(STAMINA_TICK_INTERVAL / 1000)
+    }, STAMINA_TICK_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [gameState, regenStamina])
+
+  // Mode rythme : consignes non frappées à temps = miss
+  useEffect(() => {
+    if (gameState !== 'FIGHTING' || fightMode !== 'rhythm') return
+
+    const interval = setInterval(() => {
+      useRhythmStore.getState().sweepMisses()
+    }, RHYTHM_SWEEP_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [gameState, fightMode])
+
+  // Drill de précision : cible expirée / cible suivante
+  useEffect(() => {
+    if (gameState !== 'FIGHTING' || fightMode !== 'target') return
+
+    const interval = setInterval(() => {
+      useTargetDrillStore.getState().tick()
+    }, TARGET_TICK_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [gameState, fightMode])
+
+  // Gérer le repos entre les rounds
+  useEffect(() => {
+    if (gameState === 'BETWEEN_ROUNDS') {
+      timerRef.current = setInterval(() => {
+        tickRest()
+      }, 1000)
+
+      return () => {
+        if (timerRef.current) clearInterval(timerRef.current)
+      }
+    }
+  }, [gameState, tickRest])
+
+  // Gérer le compte de l'arbitre pendant un knockdown
+  useEffect(() => {
+    if (gameState === 'KNOCKDOWN') {
+      timerRef.current = setInterval(() => {
+        tickKnockdownCount()
+      }, 1000)
+
+      return () => {
+        if (timerRef.current) clearInterval(timerRef.current)
+      }
+    }
+  }, [gameState, tickKnockdownCount])
+
   // Nettoyer le timer
   useEffect(() => {
     return () => {
@@ -53,33 +154,92 @@ export function GameHUD() {
   // Ne rien afficher au lobby
   if (gameState === 'LOBBY') return null
 
-  // Afficher le countdown
+  // Les modes d'entraînement se jouent en un seul round
+  const isMultiRound = !isTrainingMode(fightMode) && matchConfig.totalRounds > 1
+
+  // Afficher le countdown (avec le numéro du round en match multi-rounds)
   if (gameState === 'COUNTDOWN') {
-    return <CountdownOverlay countdown={countdown} />
+    return (
+      <CountdownOverlay
+        countdown={countdown}
+        roundLabel={isMultiRound ? `Round ${currentRound}/${matchConfig.totalRounds}` : null}
+      />
+    )
   }
 
   // Afficher le HUD pendant FIGHTING
   if (gameState === 'FIGHTING') {
     return (
       <>
-        <TimerDisplay timeRemaining={timeRemaining} />
-        <ScoreDisplay hitCount={hitCount} comboCount={comboCount} />
+        <TimerDisplay
+          timeRemaining={timeRemaining}
+          roundDuration={getRoundDuration(fightMode, matchConfig)}
+          roundLabel={isMultiRound ? `Round ${currentRound}/${matchConfig.totalRounds}` : null}
+        />
+        <ScoreDisplay score={score} hitCount={hitCount} comboCount={comboCount} />
+        <StaminaBar stamina={stamina} />
+        {fightMode === 'ko' && (
+          <OpponentHpBar opponentHp={opponentHp} roundKnockdowns={roundKnockdowns} />
+        )}
+        {fightMode === 'rhythm' && <RhythmLane />}
+        {fightMode === 'target' && <TargetPrompt />}
+        {isAIEnabled && (
+          <>
+            <PlayerDefenseDisplay playerHp={playerHp} isBlocking={isBlocking} dodge={dodge} />
+            {attackPhase === 'telegraph' && currentAttack && (
+              <AttackTelegraph attack={currentAttack} />
+            )}
+          </>
+        )}
       </>
     )
   }
 
+  // Afficher le compte de l'arbitre
+  if (gameState === 'KNOCKDOWN') {
+    return <KnockdownOverlay count={knockdownCount} roundKnockdowns={roundKnockdowns} />
+  }
+
+  // Afficher le repos entre les rounds
+  if (gameState === 'BETWEEN_ROUNDS') {
+    return (
+      <RestOverlay
+        restTimeRemaining={restTimeRemaining}
+        nextRound={currentRound + 1}
+        totalRounds={matchConfig.totalRounds}
+        lastRound={roundHistory[roundHistory.length - 1]}
+        onSkip={skipRest}
+      />
+    )
+  }
+
   return null
 }
 
+/**
+ * Formate une durée en secondes (m:ss au-delà d'une minute)
+ */
+function formatTime(seconds: number): string {
+  if (seconds < 60) return seconds.toString()
+  const minutes = Math.floor(seconds / 60)
+  const rest = seconds % 60
+  return `${minutes}:${rest.toString().padStart(2, '0')}`
+}
+
 /**
  * Overlay de compte à rebours (3, 2, 1, GO!)
  */
-function CountdownOverlay({ countdown }: { countdown: number }) {
+function CountdownOverlay({ countdown, roundLabel }: { countdown: number; roundLabel: string | null }) {
   const text = countdown > 0 ? countdown.toString() : 'GO!'
   const isGo = countdown <= 0
 
   return (
-    <div className="pointer-events-none fixed inset-0 z-50 flex items-center justify-center">
+    <div className="pointer-events-none fixed inset-0 z-50 flex flex-col items-center justify-center">
+      {roundLabel && (
+        <div className="mb-4 text-2xl font-black uppercase tracking-widest text-amber-400">
+          {roundLabel}
+        </div>
+      )}
       <div
         className={`
           animate-ping-once text-center font-black
@@ -99,8 +259,16 @@ function CountdownOverlay({ countdown }: { countdown: number }) {
 /**
  * Affichage du timer avec barre de progression circulaire
  */
-function TimerDisplay({ timeRemaining }: { timeRemaining: number }) {
-  const progress = timeRemaining / ROUND_DURATION
+function TimerDisplay({
+  timeRemaining,
+  roundDuration,
+  roundLabel,
+}: {
+  timeRemaining: number
+  roundDuration: number
+  roundLabel: string | null
+}) {
+  const progress = timeRemaining / roundDuration
   const isLow = timeRemaining <= 10
   const isCritical = timeRemaining <= 5
 
@@ -143,30 +311,265 @@ function TimerDisplay({ timeRemaining }: { timeRemaining: number }) {
             absolute text-center font-black
             ${isCritical ? 'animate-pulse text-red-500' : isLow ? 'text-amber-400' : 'text-white'}
           `}
-          style={{ fontSize: '1.75rem' }}
+          style={{ fontSize: timeRemaining < 60 ? '1.75rem' : '1.25rem' }}
         >
-          {timeRemaining}
+          {formatTime(timeRemaining)}
         </div>
       </div>
 
       {/* Label */}
       <div className="mt-1 text-center text-xs font-semibold uppercase tracking-wider text-gray-400">
-        Secondes
+        {roundLabel ?? 'Secondes'}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Barre de vie de l'adversaire (mode KO) avec knockdowns du round
+ */
+function OpponentHpBar({ opponentHp, roundKnockdowns }: { opponentHp: number; roundKnockdowns: number }) {
+  const isLow = opponentHp <= 25
+
+  return (
+    <div className="pointer-events-none fixed left-1/2 top-32 z-40 flex w-56 -translate-x-1/2 flex-col items-center gap-1">
+      <div className="h-3 w-full overflow-hidden rounded-full bg-white/20">
+        <div
+          className={`h-full rounded-full transition-all duration-200 ${
+            isLow ? 'animate-pulse bg-red-500' : 'bg-gradient-to-r from-red-500 to-amber-400'
+          }`}
+          style={{ width: `${opponentHp}%` }}
+        />
+      </div>
+
+      {/* Knockdowns du round (règle des trois knockdowns) */}
+      <div className="flex gap-1">
+        {Array.from({ length: MAX_KNOCKDOWNS_PER_ROUND }, (_, i) => (
+          <span
+            key={i}
+            className={`h-2 w-2 rounded-full ${i < roundKnockdowns ? 'bg-amber-400' : 'bg-white/20'}`}
+          />
+        ))}
       </div>
     </div>
   )
 }
 
 /**
- * Affichage du score avec compteur de combo
+ * Consigne du drill de précision : zone à toucher et dernier temps de réaction
  */
-function ScoreDisplay({ hitCount, comboCount }: { hitCount: number; comboCount: number }) {
+function TargetPrompt() {
+  const targetZone = useTargetDrillStore((state) => state.targetZone)
+  const lastReactionMs = useTargetDrillStore((state) => state.lastReactionMs)
+
+  return (
+    <div className="pointer-events-none fixed left-1/2 top-32 z-40 flex -translate-x-1/2 flex-col items-center gap-1">
+      <div className="text-xs font-semibold uppercase tracking-wider text-gray-400">
+        Cible
+      </div>
+      <div
+        className={`text-3xl font-black uppercase ${targetZone ? 'text-cyan-300' : 'text-gray-600'}`}
+        style={{ textShadow: '2px 2px 0 #000' }}
+      >
+        {targetZone ? HIT_ZONE_LABELS[targetZone] : '—'}
+      </div>
+      {lastReactionMs !== null && (
+        <div className="text-sm font-bold text-white">
+          {Math.round(lastReactionMs)} ms
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Barre d'endurance du joueur (clignote quand il est fatigué)
+ */
+function StaminaBar({ stamina }: { stamina: number }) {
+  const percent = (stamina / MAX_STAMINA) * 100
+  const isTired = getStaminaEfficiency(stamina) < 1
+
+  return (
+    <div className="pointer-events-none fixed bottom-6 left-4 z-40 flex w-40 flex-col gap-1">
+      <div className={`text-xs font-semibold uppercase tracking-wider ${isTired ? 'text-red-400' : 'text-gray-400'}`}>
+        {isTired ? 'Fatigué' : 'Endurance'}
+      </div>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-white/20">
+        <div
+          className={`h-full rounded-full transition-all duration-100 ${
+            isTired ? 'animate-pulse bg-red-500' : 'bg-gradient-to-r from-sky-500 to-cyan-300'
+          }`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Vie du joueur et état de sa défense (riposte activée)
+ */
+function PlayerDefenseDisplay({
+  playerHp,
+  isBlocking,
+  dodge,
+}: {
+  playerHp: number
+  isBlocking: boolean
+  dodge: 'left' | 'right' | null
+}) {
+  const isLow = playerHp <= 25
+  const status = dodge ? (dodge === 'left' ? '◀ Esquive' : 'Esquive ▶') : isBlocking ? 'Garde' : null
+
+  return (
+    <div className="pointer-events-none fixed left-4 top-4 z-40 flex w-40 flex-col gap-1 rounded-2xl bg-black/60 px-4 py-3 backdrop-blur-sm">
+      <div className="text-xs font-semibold uppercase tracking-wider text-gray-400">
+        Vie
+      </div>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-white/20">
+        <div
+          className={`h-full rounded-full transition-all duration-200 ${
+            isLow ? 'animate-pulse bg-red-500' : 'bg-green-500'
+          }`}
+          style={{ width: `${playerHp}%` }}
+        />
+      </div>
+      <div className={`h-4 text-xs font-bold uppercase ${dodge ? 'text-sky-400' : 'text-green-400'}`}>
+        {status}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Alerte de coup imminent de l'adversaire (armé du coup)
+ * Sa main gauche arrive à droite de l'écran (face à face)
+ */
+function AttackTelegraph({ attack }: { attack: OpponentAttack }) {
+  const screenSide = attack.hand === 'left' ? 'right-8' : 'left-8'
+  const isUppercut = attack.type === 'uppercut'
+
+  return (
+    <div
+      className={`pointer-events-none fixed top-1/2 z-40 -translate-y-1/2 ${screenSide} flex flex-col items-center gap-1`}
+    >
+      <div
+        className={`animate-pulse font-black ${isUppercut ? 'text-red-500' : 'text-amber-400'}`}
+        style={{ fontSize: '2.5rem', textShadow: '2px 2px 0 #000, 0 0 20px rgba(239, 68, 68, 0.6)' }}
+      >
+        {ATTACK_LABELS[attack.type]}!
+      </div>
+      <div className="text-xs font-semibold uppercase tracking-wider text-gray-300">
+        {isUppercut ? 'Esquive !' : 'Garde ou esquive'}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Overlay de knockdown : compte de l'arbitre jusqu'à 10
+ */
+function KnockdownOverlay({ count, roundKnockdowns }: { count: number; roundKnockdowns: number }) {
+  return (
+    <div className="pointer-events-none fixed inset-0 z-50 flex flex-col items-center justify-center bg-black/40">
+      <div className="text-3xl font-black uppercase tracking-widest text-amber-400">
+        Knockdown!
+      </div>
+
+      <div
+        className="font-black text-white"
+        style={{
+          fontSize: '10rem',
+          lineHeight: 1,
+          textShadow: '0 0 40px rgba(255, 255, 255, 0.5)',
+        }}
+      >
+        {count > 0 ? count : ''}
+      </div>
+
+      <div className="text-sm font-semibold uppercase tracking-wider text-gray-300">
+        Compte jusqu'à {KNOCKDOWN_COUNT} · knockdown {roundKnockdowns}/{MAX_KNOCKDOWNS_PER_ROUND}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Overlay de repos entre deux rounds
+ * Résume le round écoulé et décompte le temps avant le suivant
+ */
+function RestOverlay({
+  restTimeRemaining,
+  nextRound,
+  totalRounds,
+  lastRound,
+  onSkip,
+}: {
+  restTimeRemaining: number
+  nextRound: number
+  totalRounds: number
+  lastRound: ScoredRound | undefined
+  onSkip: () => void
+}) {
+  return (
+    <div className="pointer-events-auto fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="flex flex-col items-center gap-6 px-6 text-center">
+        <div className="text-sm font-semibold uppercase tracking-wider text-gray-400">
+          Repos
+        </div>
+
+        <div
+          className="font-black text-white"
+          style={{ fontSize: '5rem', lineHeight: 1, textShadow: '0 0 30px rgba(255, 255, 255, 0.3)' }}
+        >
+          {formatTime(restTimeRemaining)}
+        </div>
+
+        {/* Résumé du round écoulé */}
+        {lastRound && (
+          <div className="flex gap-8 text-center">
+            <div className="flex flex-col">
+              <div className="text-2xl font-bold text-white">{lastRound.hits}</div>
+              <div className="text-xs text-gray-500">coups</div>
+            </div>
+            <div className="h-10 w-px bg-gray-700" />
+            <div className="flex flex-col">
+              <div className="text-2xl font-bold text-white">{Math.round(lastRound.damage)}</div>
+              <div className="text-xs text-gray-500">dégâts</div>
+            </div>
+            <div className="h-10 w-px bg-gray-700" />
+            <div className="flex flex-col">
+              <div className="text-2xl font-bold text-amber-400">x{lastRound.maxCombo}</div>
+              <div className="text-xs text-gray-500">combo max</div>
+            </div>
+          </div>
+        )}
+
+        <div className="text-lg font-bold uppercase tracking-wider text-amber-400">
+          Prochain : Round {nextRound}/{totalRounds}
+        </div>
+
+        <button
+          onClick={onSkip}
+          className="rounded-2xl bg-white/10 px-8 py-3 text-sm font-bold uppercase tracking-wider text-white ring-1 ring-white/20 transition hover:bg-white/20 active:scale-95"
+        >
+          Passer le repos
+        </button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Affichage du score (points, coups) avec compteur de combo
+ */
+function ScoreDisplay({ score, hitCount, comboCount }: { score: number; hitCount: number; comboCount: number }) {
   return (
     <div className="pointer-events-none fixed right-4 top-4 z-40 flex flex-col items-end gap-2">
       {/* Score principal */}
       <div className="flex flex-col items-end rounded-2xl bg-black/60 px-4 py-3 backdrop-blur-sm">
         <div className="text-xs font-semibold uppercase tracking-wider text-gray-400">
-          Coups
+          Points
         </div>
         <div
           className="font-black text-white"
@@ -176,7 +579,10 @@ function ScoreDisplay({ hitCount, comboCount }: { hitCount: number; comboCount:
             textShadow: '0 0 20px rgba(255, 255, 255, 0.3)',
           }}
         >
-          {hitCount}
+          {Math.round(score)}
+        </div>
+        <div className="text-xs text-gray-400">
+          {hitCount} coup{hitCount > 1 ? 's' : ''}
         </div>
       </div>
 
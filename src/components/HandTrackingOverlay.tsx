@@ -1,5 +1,6 @@
 import { useEffect } from 'react'
 import { useHandTracking } from '../hooks/useHandTracking'
+import { usePoseTracking } from '../hooks/usePoseTracking'
 import { useHandTrackingStore } from '../stores/useHandTrackingStore'
 
 /**
@@ -12,10 +13,12 @@ interface HandTrackingOverlayProps {
 /**
  * Overlay pour le hand tracking
  * - Contient l'élément video caché pour la capture caméra
+ *   (partagé par le hand tracking et le suivi du corps)
  * - Optionnellement affiche des indicateurs de debug
  */
 export function HandTrackingOverlay({ showDebug = false }: HandTrackingOverlayProps) {
   const { videoRef, isReady, isTracking, error } = useHandTracking()
+  usePoseTracking(videoRef)
   const { leftHand, rightHand, isCameraEnabled, isInitializing } = useHandTrackingStore()
 
   // Log les erreurs
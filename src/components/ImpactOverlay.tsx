@@ -1,5 +1,5 @@
 import { useEffect, useState, useRef, useCallback } from 'react'
-import { useGameStore } from '../stores'
+import { useGameStore, useOpponentAIStore, useComboChainStore } from '../stores'
 import { useImpactListener } from '../hooks/useImpactListener'
 
 /**
@@ -8,16 +8,30 @@ import { useImpactListener } from '../hooks/useImpactListener'
 const IMPACT_TEXTS = ['POW!', 'BAM!', 'WHAM!', 'CRACK!', 'BOOM!', 'SMASH!']
 const CRITICAL_TEXTS = ['CRITICAL!', 'K.O.!', 'DEVASTATOR!', 'ULTRA!']
 
+/**
+ * Textes de défense réussie face à la riposte
+ */
+const DEFENSE_TEXTS = { blocked: 'BLOQUÉ!', dodged: 'ESQUIVÉ!' } as const
+
+// Durées des effets de coups encaissés (ms)
+const VIGNETTE_DURATION = 400
+const DEFENSE_TEXT_DURATION = 600
+const SHAKE_DURATION = 300
+
+// Durée d'affichage du nom d'un enchaînement (ms)
+const COMBO_TEXT_DURATION = 1000
+
 /**
  * Interface pour un effet d'écran
  */
 interface ScreenEffect {
   id: number
-  type: 'flash' | 'text' | 'damage'
+  type: 'flash' | 'text' | 'damage' | 'vignette' | 'defense' | 'combo'
   x: number
   y: number
   text?: string
   damage?: number
+  multiplier?: number
   isCritical: boolean
   createdAt: number
 }
@@ -27,12 +41,15 @@ interface ScreenEffect {
  * - Flash d'écran à l'impact
  * - Texte style comics
  * - Nombres de dégâts
+ * - Vignette rouge + tremblement quand le joueur encaisse un coup
+ * - Nom de l'enchaînement reconnu et son multiplicateur
  */
 export function ImpactOverlay() {
   // Subscriptions React uniquement pour les valeurs qui affectent le rendu
   const gameState = useGameStore((state) => state.gameState)
 
   const [effects, setEffects] = useState<ScreenEffect[]>([])
+  const [shakeUntil, setShakeUntil] = useState(0)
   const lastHp = useRef<number>(100)
   const effectId = useRef<number>(0)
 
@@ -95,6 +112,61 @@ export function ImpactOverlay() {
     lastHp.current = opponentHp
   }, []))
 
+  // Coups de l'adversaire résolus (riposte)
+  useEffect(() => {
+    return useOpponentAIStore.subscribe((state, prevState) => {
+      const resolved = state.lastResolved
+      if (!resolved || resolved === prevState.lastResolved) return
+
+      const now = Date.now()
+
+      if (resolved.outcome === 'hit') {
+        // Intensité selon les dégâts (uppercut plein = 14)
+        setEffects((prev) => [...prev, {
+          id: effectId.current++,
+          type: 'vignette',
+          x: 0,
+          y: 0,
+          damage: resolved.damage,
+          isCritical: resolved.damage >= 10,
+          createdAt: now,
+        }])
+        setShakeUntil(now + SHAKE_DURATION)
+        return
+      }
+
+      setEffects((prev) => [...prev, {
+        id: effectId.current++,
+        type: 'defense',
+        x: window.innerWidth / 2,
+        y: window.innerHeight * 0.6,
+        text: DEFENSE_TEXTS[resolved.outcome as 'blocked' | 'dodged'],
+        isCritical: false,
+        createdAt: now,
+      }])
+    })
+  }, [])
+
+  // Enchaînements nommés reconnus
+  useEffect(() => {
+    return useComboChainStore.subscribe((state, prevState) => {
+      const chain = state.lastChain
+      if (!chain || chain === prevState.lastChain) return
+
+      // Un seul nom à l'écran : "1-2-3" remplace "1-2"
+      setEffects((prev) => [...prev.filter((effect) => effect.type !== 'combo'), {
+        id: effectId.current++,
+        type: 'combo',
+        x: window.innerWidth / 2,
+        y: window.innerHeight * 0.25,
+        text: chain.name,
+        multiplier: chain.multiplier,
+        isCritical: false,
+        createdAt: Date.now(),
+      }])
+    })
+  }, [])
+
   // Nettoyer les vieux effets
   useEffect(() => {
     const interval = setInterval(() => {
@@ -105,6 +177,9 @@ export function ImpactOverlay() {
           if (effect.type === 'flash') return age < 150
           if (effect.type === 'text') return age < 600
           if (effect.type === 'damage') return age < 800
+          if (effect.type === 'vignette') return age < VIGNETTE_DURATION
+          if (effect.type === 'defense') return age < DEFENSE_TEXT_DURATION
+          if (effect.type === 'combo') return age < COMBO_TEXT_DURATION
           return false
         })
       )
@@ -115,11 +190,96 @@ export function ImpactOverlay() {
 
   if (gameState !== 'FIGHTING') return null
 
+  // Tremblement d'écran (décroissant) après un coup encaissé
+  const shakeRemaining = Math.max(0, shakeUntil - Date.now()) / SHAKE_DURATION
+  const shakeOffset = shakeRemaining * 12
+
   return (
-    <div className="pointer-events-none fixed inset-0 z-50 overflow-hidden">
+    <div
+      className="pointer-events-none fixed inset-0 z-50 overflow-hidden"
+      style={shakeRemaining > 0 ? {
+        transform: `translate(${(Math.random() - 0.5) * shakeOffset}px, ${(Math.random() - 0.5) * shakeOffset}px)`,
+      } : undefined}
+    >
       {effects.map((effect) => {
         const age = Date.now() - effect.createdAt
 
+        if (effect.type === 'vignette') {
+          const opacity = (1 - age / VIGNETTE_DURATION) * (effect.isCritical ? 0.8 : 0.55)
+          return (
+            <div
+              key={effect.id}
+              className="absolute inset-0"
+              style={{
+                background: `radial-gradient(ellipse at center, transparent 45%, rgba(220,0,0,${opacity}) 100%)`,
+              }}
+            />
+          )
+        }
+
+        if (effect.type === 'defense') {
+          const progress = age / DEFENSE_TEXT_DURATION
+          return (
+            <div
+              key={effect.id}
+              className="absolute font-black"
+              style={{
+                left: effect.x,
+                top: effect.y - progress * 40,
+                transform: 'translate(-50%, -50%)',
+                opacity: 1 - progress,
+                fontSize: '2.5rem',
+                color: '#38bdf8',
+                textShadow: '0 0 10px #38bdf8, 2px 2px 0 #000, -2px -2px 0 #000',
+                fontFamily: 'Impact, sans-serif',
+                letterSpacing: '2px',
+              }}
+            >
+              {effect.text}
+            </div>
+          )
+        }
+
+        if (effect.type === 'combo') {
+          const progress = age / COMBO_TEXT_DURATION
+          // Apparition en zoom puis fondu sur la fin
+          const scale = Math.min(1, 0.6 + progress * 4)
+          const opacity = progress < 0.7 ? 1 : (1 - progress) / 0.3
+          return (
+            <div
+              key={effect.id}
+              className="absolute flex flex-col items-center"
+              style={{
+                left: effect.x,
+                top: effect.y,
+                transform: `translate(-50%, -50%) scale(${scale})`,
+                opacity,
+                fontFamily: 'Impact, sans-serif',
+              }}
+            >
+              <span
+                style={{
+                  fontSize: '3rem',
+                  color: '#f472b6',
+                  textShadow: '0 0 15px #f472b6, 2px 2px 0 #000, -2px -2px 0 #000',
+                  letterSpacing: '2px',
+                }}
+              >
+                {effect.text}
+              </span>
+              <span
+                style={{
+                  fontSize: '1.5rem',
+                  color: '#ffffff',
+                  textShadow: '2px 2px 0 #000',
+                }}
+              >
+                x{effect.multiplier?.toFixed(1)}
+              </span>
+            </div>
+          )
+        }
+
         if (effect.type === 'flash') {
           const opacity = 1 - age / 150
           return (
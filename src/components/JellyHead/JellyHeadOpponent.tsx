@@ -1,4 +1,4 @@
-import { useRef } from 'react'
+import { useEffect, useRef } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
 import { Cranium } from './parts/Cranium'
@@ -7,58 +7,36 @@ import { Cheek } from './parts/Cheek'
 import { Nose } from './parts/Nose'
 import { Jaw } from './parts/Jaw'
 import { Ear } from './parts/Ear'
+import { Stars } from './parts/Stars'
 import {
   useJellyPhysicsStore,
   useCartoonEffectsStore,
+  PhysicsClock,
 } from '../../stores'
 import { useImpactListener } from '../../hooks/useImpactListener'
-import { HitZone } from '../../physics'
+import { useXPBDWorker } from '../../hooks/useXPBDWorker'
+import { XPBDDebugOverlay } from '../PhysicsDebugOverlay'
+import { determineHitZone, toHeadLocal, HEAD_LOCAL_RADIUS } from '../../physics'
+
+// Échelle de base pour que la tête soit visible (similaire à FaceOpponent)
+const BASE_SCALE = 2.5
 
 interface JellyHeadOpponentProps {
   textureUrl?: string | null
-}
-
-/**
- * Détermine la zone d'impact à partir de la position 3D
- * Coordonnées en espace local de la tête (Y-up, Z-forward)
- */
-function determineHitZone(hitPoint: [number, number, number]): HitZone {
-  const [x, y, z] = hitPoint
-
-  // Zones verticales
-  if (y > 0.25) {
-    // Haut de la tête
-    if (Math.abs(x) < 0.12 && z > 0.2) return 'forehead'
-    return 'cranium'
-  }
-
-  if (y > -0.1) {
-    // Niveau yeux/joues
-    if (z > 0.25) {
-      // Face avant
-      if (x < -0.08) return 'leftEye'
-      if (x > 0.08) return 'rightEye'
-      return 'nose'
-    }
-    if (Math.abs(x) > 0.3) {
-      return x < 0 ? 'leftEar' : 'rightEar'
-    }
-    return x < 0 ? 'leftCheek' : 'rightCheek'
-  }
-
-  // En dessous = mâchoire
-  return 'jaw'
+  // Centre de la tête dans le monde : les impacts (repère monde) sont ramenés au repère
+  // local de la tête. Absent : impacts déjà locaux (Scene → Opponent → CharacterModel)
+  worldPosition?: [number, number, number]
 }
 
 /**
  * Composant principal JellyHead
  * Orchestre la tête procédurale avec physique jelly et effets cartoon
  */
-export function JellyHeadOpponent({ textureUrl }: JellyHeadOpponentProps) {
+export function JellyHeadOpponent({ textureUrl, worldPosition }: JellyHeadOpponentProps) {
   const groupRef = useRef<THREE.Group>(null)
 
   // Stores
-  const { applyImpulse, step: physicsStep } = useJellyPhysicsStore()
+  const { applyImpulse, step: physicsStep, solver, solverMode } = useJellyPhysicsStore()
   const {
     processHit,
     tick: effectsTick,
@@ -67,29 +45,39 @@ export function JellyHeadOpponent({ textureUrl }: JellyHeadOpponentProps) {
     noseSquashIntensity,
     headSquashIntensity,
     headSquashAxis,
+    starsSpinIntensity,
     jawDetached,
     jawDetachProgress,
   } = useCartoonEffectsStore()
 
   // Traiter les nouveaux impacts via callback (pas de re-render React)
   useImpactListener((impact) => {
+    const [x, y, z] = impact.hitPoint
+    const hitPoint = worldPosition
+      ? toHeadLocal({ x, y, z }, worldPosition, HEAD_LOCAL_RADIUS * BASE_SCALE)
+      : impact.hitPoint
+
     // Déterminer la zone touchée
-    const zone = determineHitZone(impact.hitPoint)
+    const zone = determineHitZone(hitPoint)
 
     // Appliquer l'impulsion physique - FORCE AMPLIFIÉE x3
-    const hitPosition = new THREE.Vector3(...impact.hitPoint)
+    const hitPosition = new THREE.Vector3(...hitPoint)
     const force = new THREE.Vector3(0, 0, -impact.strength * 25)
     applyImpulse(hitPosition, force, 0.8, zone, impact.strength)
 
     // Déclencher les effets cartoon
+    // (drill de précision : zones notées au contact des gants, voir AmmoVolumeDemo)
     processHit(zone, impact.strength)
   })
 
+  // Physique XPBD avancée par pas fixes par l'horloge physique
+  useEffect(() => PhysicsClock.register('jelly-head', physicsStep), [physicsStep])
+
+  // Pas XPBD dans un worker (mémoire partagée) : soulage le thread principal sur mobile
+  useXPBDWorker(solver, solverMode === 'worker')
+
   // Boucle d'animation principale
   useFrame((_, delta) => {
-    // Avancer la physique XPBD
-    physicsStep(delta)
-
     // Mettre à jour les effets cartoon
     effectsTick(delta)
   })
@@ -101,11 +89,12 @@ export function JellyHeadOpponent({ textureUrl }: JellyHeadOpponentProps) {
     1 + headSquashIntensity * 0.15 * (1 - Math.abs(headSquashAxis[2])),
   ]
 
-  // Échelle de base pour que la tête soit visible (similaire à FaceOpponent)
-  const baseScale = 2.5
-
   return (
-    <group ref={groupRef} scale={[baseScale * squashScale[0], baseScale * squashScale[1], baseScale * squashScale[2]]}>
+    <group
+      ref={groupRef}
+      position={worldPosition}
+      scale={[BASE_SCALE * squashScale[0], BASE_SCALE * squashScale[1], BASE_SCALE * squashScale[2]]}
+    >
       {/* Crâne principal (ellipsoïde) */}
       <Cranium textureUrl={textureUrl} wobbleIntensity={cheekWobbleIntensity} />
 
@@ -146,6 +135,12 @@ export function JellyHeadOpponent({ textureUrl }: JellyHeadOpponentProps) {
       {/* Oreilles */}
       <Ear side="left" position={[-0.32, 0.02, 0]} />
       <Ear side="right" position={[0.32, 0.02, 0]} />
+
+      {/* Étoiles KO - knockdown / K.O. (priorité 1) */}
+      <Stars position={[0, 0.45, 0]} spinIntensity={starsSpinIntensity} />
+
+      {/* Debug : contraintes XPBD colorées par déformation */}
+      <XPBDDebugOverlay solver={solver} />
     </group>
   )
 }
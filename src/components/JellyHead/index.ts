@@ -5,3 +5,5 @@ export { Cheek } from './parts/Cheek'
 export { Nose } from './parts/Nose'
 export { Jaw } from './parts/Jaw'
 export { Ear } from './parts/Ear'
+export { Stars } from './parts/Stars'
+export { TargetMarker } from './parts/TargetMarker'
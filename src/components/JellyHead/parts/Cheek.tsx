@@ -2,6 +2,8 @@ import { useRef, useMemo, useCallback } from 'react'
 import { useFrame, ThreeEvent } from '@react-three/fiber'
 import * as THREE from 'three'
 import { useCartoonEffectsStore } from '../../../stores/useCartoonEffectsStore'
+import { PhysicsClock } from '../../../systems/PhysicsClock'
+import { useJellyBodyPart } from '../../../hooks/useJellyBodyPart'
 
 interface CheekProps {
   side: 'left' | 'right'
@@ -38,7 +40,7 @@ export function Cheek({ side, position, wobbleIntensity = 0, onHit }: CheekProps
   const handlePointerDown = useCallback((event: ThreeEvent<PointerEvent>) => {
     event.stopPropagation()
 
-    const intensity = 0.6 + Math.random() * 0.4
+    const intensity = 0.6 + PhysicsClock.random() * 0.4
     const zone = side === 'left' ? 'leftCheek' : 'rightCheek'
 
     console.log(`[Cheek ${side}] Direct hit:`, { intensity })
@@ -58,6 +60,12 @@ export function Cheek({ side, position, wobbleIntensity = 0, onHit }: CheekProps
     return geo
   }, [])
 
+  // Déformation jelly XPBD, face interne collée au visage
+  useJellyBodyPart(side === 'left' ? 'leftCheek' : 'rightCheek', geometry, {
+    offset: position,
+    isFixed: (_x, _y, z) => z < 0,
+  })
+
   useFrame(() => {
     if (!meshRef.current) return
 
@@ -3,9 +3,10 @@ import { useFrame, ThreeEvent } from '@react-three/fiber'
 import * as THREE from 'three'
 import CustomShaderMaterial from 'three-custom-shader-material/vanilla'
 import { useShallow } from 'zustand/react/shallow'
-import { ImpactManager, useGameStore } from '../../../stores'
+import { ImpactManager, PhysicsClock, useGameStore } from '../../../stores'
 import { useCartoonEffectsStore } from '../../../stores/useCartoonEffectsStore'
 import { HitZone } from '../../../physics'
+import { useJellyBodyPart } from '../../../hooks/useJellyBodyPart'
 
 interface CraniumProps {
   textureUrl?: string | null
@@ -231,6 +232,12 @@ export function Cranium({ textureUrl, wobbleIntensity = 0, onHit }: CraniumProps
   )
   const processHit = useCartoonEffectsStore((s) => s.processHit)
 
+  // Ellipsoïde : sphère étirée, 12 segments pour mobile
+  const geometry = useMemo(() => new THREE.SphereGeometry(0.35, 12, 10), [])
+
+  // Déformation jelly XPBD, arrière du crâne ancré
+  useJellyBodyPart('cranium', geometry, { isFixed: (_x, _y, z) => z < -0.1 })
+
   // Impacts locaux (en local space du mesh)
   const localImpactsRef = useRef<Array<{ point: THREE.Vector3; strength: number; time: number }>>([])
 
@@ -250,7 +257,7 @@ export function Cranium({ textureUrl, wobbleIntensity = 0, onHit }: CraniumProps
 
     // Calculer l'intensité basée sur la vélocité du pointeur (si disponible)
     // ou utiliser une valeur par défaut
-    const baseIntensity = 0.7 + Math.random() * 0.3 // 0.7-1.0
+    const baseIntensity = 0.7 + PhysicsClock.random() * 0.3 // 0.7-1.0
 
     // Déterminer la zone touchée
     const zone = determineHitZoneFromLocal(localPoint)
@@ -407,10 +414,9 @@ export function Cranium({ textureUrl, wobbleIntensity = 0, onHit }: CraniumProps
   return (
     <mesh
       ref={meshRef}
+      geometry={geometry}
       onPointerDown={handlePointerDown}
     >
-      {/* Ellipsoïde : sphère étirée, 12 segments pour mobile */}
-      <sphereGeometry args={[0.35, 12, 10]} />
       <primitive object={material} attach="material" />
     </mesh>
   )
@@ -2,6 +2,7 @@ import { useRef, useCallback } from 'react'
 import { useFrame, ThreeEvent } from '@react-three/fiber'
 import * as THREE from 'three'
 import { useCartoonEffectsStore } from '../../../stores/useCartoonEffectsStore'
+import { PhysicsClock } from '../../../systems/PhysicsClock'
 
 interface EyeProps {
   side: 'left' | 'right'
@@ -37,7 +38,7 @@ export function Eye({ side, position, popIntensity = 0, onHit }: EyeProps) {
   const handlePointerDown = useCallback((event: ThreeEvent<PointerEvent>) => {
     event.stopPropagation()
 
-    const intensity = 0.8 + Math.random() * 0.2 // Fort impact sur l'œil
+    const intensity = 0.8 + PhysicsClock.random() * 0.2 // Fort impact sur l'œil
     const zone = side === 'left' ? 'leftEye' : 'rightEye'
 
     console.log(`[Eye ${side}] Direct hit:`, { intensity })
@@ -2,6 +2,7 @@ import { useRef, useMemo, useEffect, useCallback } from 'react'
 import { useFrame, ThreeEvent } from '@react-three/fiber'
 import * as THREE from 'three'
 import { useCartoonEffectsStore } from '../../../stores/useCartoonEffectsStore'
+import { PhysicsClock } from '../../../systems/PhysicsClock'
 
 interface JawProps {
   position: [number, number, number]
@@ -42,7 +43,7 @@ export function Jaw({ position, isDetached = false, detachProgress: _detachProgr
     event.stopPropagation()
 
     // Impact très fort sur la mâchoire = plus de chance de détachement
-    const intensity = 0.75 + Math.random() * 0.25
+    const intensity = 0.75 + PhysicsClock.random() * 0.25
 
     console.log('[Jaw] Direct hit:', { intensity })
 
@@ -58,16 +59,16 @@ export function Jaw({ position, isDetached = false, detachProgress: _detachProgr
     if (isDetached && !wasDetached.current) {
       // Vélocité initiale : pop vers le haut/avant
       velocity.current.set(
-        (Math.random() - 0.5) * 1.5,
-        2.5 + Math.random() * 1.5, // Fort mouvement vers le haut
-        -1.5 - Math.random() * 1 // Vers la caméra
+        (PhysicsClock.random() - 0.5) * 1.5,
+        2.5 + PhysicsClock.random() * 1.5, // Fort mouvement vers le haut
+        -1.5 - PhysicsClock.random() * 1 // Vers la caméra
       )
 
       // Rotation aléatoire
       angularVelocity.current.set(
-        (Math.random() - 0.5) * 10,
-        (Math.random() - 0.5) * 8,
-        (Math.random() - 0.5) * 12
+        (PhysicsClock.random() - 0.5) * 10,
+        (PhysicsClock.random() - 0.5) * 8,
+        (PhysicsClock.random() - 0.5) * 12
       )
 
       // Position de départ = position attachée
@@ -2,6 +2,7 @@ import { useRef, useMemo, useCallback } from 'react'
 import { useFrame, ThreeEvent } from '@react-three/fiber'
 import * as THREE from 'three'
 import { useCartoonEffectsStore } from '../../../stores/useCartoonEffectsStore'
+import { PhysicsClock } from '../../../systems/PhysicsClock'
 
 interface NoseProps {
   position: [number, number, number]
@@ -35,7 +36,7 @@ export function Nose({ position, squashIntensity = 0, onHit }: NoseProps) {
   const handlePointerDown = useCallback((event: ThreeEvent<PointerEvent>) => {
     event.stopPropagation()
 
-    const intensity = 0.7 + Math.random() * 0.3
+    const intensity = 0.7 + PhysicsClock.random() * 0.3
 
     console.log('[Nose] Direct hit:', { intensity })
 
@@ -0,0 +1,59 @@
+import { useRef, useMemo } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+
+interface StarsProps {
+  position: [number, number, number]
+  spinIntensity: number
+}
+
+// Nombre d'étoiles sur la couronne
+const STAR_COUNT = 5
+
+/**
+ * Composant Stars - Étoiles KO qui tournent au-dessus de la tête
+ * Visible pendant un knockdown / K.O. (effet starsSpin, priorité 1)
+ */
+export function Stars({ position, spinIntensity }: StarsProps) {
+  const groupRef = useRef<THREE.Group>(null)
+
+  // Géométrie étoile (octaèdre aplati, partagée par toutes les étoiles)
+  const starGeometry = useMemo(() => {
+    const geo = new THREE.OctahedronGeometry(0.035, 0)
+    geo.scale(1, 1, 0.4)
+    return geo
+  }, [])
+
+  // Positions sur la couronne
+  const starPositions = useMemo(() => {
+    return Array.from({ length: STAR_COUNT }, (_, i): [number, number, number] => {
+      const angle = (i / STAR_COUNT) * Math.PI * 2
+      return [Math.cos(angle) * 0.25, 0, Math.sin(angle) * 0.25]
+    })
+  }, [])
+
+  useFrame((_, delta) => {
+    if (!groupRef.current) return
+
+    // Rotation de la couronne + léger balancement
+    groupRef.current.rotation.y += delta * 3
+    groupRef.current.rotation.z = Math.sin(performance.now() * 0.002) * 0.15
+  })
+
+  if (spinIntensity <= 0.01) return null
+
+  return (
+    <group ref={groupRef} position={position} scale={spinIntensity}>
+      {starPositions.map((starPosition, i) => (
+        <mesh key={i} geometry={starGeometry} position={starPosition}>
+          <meshStandardMaterial
+            color="#ffd700"
+            emissive="#ffaa00"
+            emissiveIntensity={0.6}
+            roughness={0.3}
+          />
+        </mesh>
+      ))}
+    </group>
+  )
+}
@@ -0,0 +1,36 @@
+import { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+
+interface TargetMarkerProps {
+  position: [number, number, number]
+}
+
+/**
+ * Composant TargetMarker - Anneau lumineux sur la zone cible (drill de précision)
+ * Pulse pour attirer l'œil, toujours orienté vers le joueur (+Z)
+ */
+export function TargetMarker({ position }: TargetMarkerProps) {
+  const meshRef = useRef<THREE.Mesh>(null)
+
+  useFrame(() => {
+    if (!meshRef.current) return
+
+    // Pulsation de l'anneau
+    const pulse = 1 + Math.sin(performance.now() * 0.012) * 0.15
+    meshRef.current.scale.setScalar(pulse)
+  })
+
+  return (
+    <mesh ref={meshRef} position={position}>
+      <ringGeometry args={[0.05, 0.075, 32]} />
+      <meshBasicMaterial
+        color="#22d3ee"
+        transparent
+        opacity={0.9}
+        side={THREE.DoubleSide}
+        depthTest={false}
+      />
+    </mesh>
+  )
+}
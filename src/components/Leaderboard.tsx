@@ -0,0 +1,72 @@
+import { useLeaderboardStore, useProfileStore, getLeaderboard } from '../stores'
+import type { FightMode, OpponentType } from '../stores'
+
+/**
+ * Unité du score selon le mode
+ */
+const SCORE_UNITS: Record<FightMode, string> = {
+  timer: 'coups',
+  ko: 'coups',
+  rhythm: 'pts',
+  target: 'cibles',
+}
+
+// Nombre de lignes affichées par défaut
+const DEFAULT_LIMIT = 5
+
+interface LeaderboardProps {
+  fightMode: FightMode
+  opponent: OpponentType
+  highlightId?: string | null // Score à mettre en avant (dernier match)
+  limit?: number
+}
+
+/**
+ * Classement local pour un mode et un adversaire
+ */
+export function Leaderboard({ fightMode, opponent, highlightId = null, limit = DEFAULT_LIMIT }: LeaderboardProps) {
+  const entries = useLeaderboardStore((state) => state.entries)
+  const profiles = useProfileStore((state) => state.profiles)
+
+  const board = getLeaderboard(entries, fightMode, opponent).slice(0, limit)
+
+  if (board.length === 0) {
+    return <p className="text-xs text-gray-500">Aucun score pour ce mode et cet adversaire.</p>
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {board.map((entry, i) => {
+          // Avatar du profil s'il existe encore
+          const avatar = profiles.find((profile) => profile.id === entry.profileId)?.avatar ?? null
+          const isHighlighted = entry.id === highlightId
+
+          return (
+            <tr
+              key={entry.id}
+              className={`border-t border-white/10 ${isHighlighted ? 'bg-amber-500/20 text-amber-300' : 'text-white'}`}
+            >
+              <td className="w-6 py-1 text-left text-gray-500">{i + 1}</td>
+              <td className="py-1">
+                <div className="flex items-center gap-2">
+                  {avatar ? (
+                    <img src={avatar} alt="" className="h-5 w-5 rounded-full object-cover" />
+                  ) : (
+                    <div className="h-5 w-5 rounded-full bg-white/10" />
+                  )}
+                  <span className="truncate">{entry.playerName}</span>
+                </div>
+              </td>
+              <td className="py-1 text-right font-bold">
+                {entry.score} <span className="text-xs font-normal text-gray-500">{SCORE_UNITS[entry.fightMode]}</span>
+              </td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
+
+export default Leaderboard
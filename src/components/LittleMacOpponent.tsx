@@ -50,7 +50,7 @@ export function LittleMacOpponent() {
     isReady,
     createEllipsoid,
     syncEllipsoidToMesh,
-    updatePhysics,
+    syncMeshes,
     applySoftBodyImpulse,
     removeSoftBody,
   } = useAmmoPhysics()
@@ -142,10 +142,10 @@ export function LittleMacOpponent() {
     applySoftBodyImpulse(softBodyStateRef.current, hitPosition, force, radius)
   })
 
-  // Boucle de mise à jour physique
-  useFrame((_, delta) => {
+  // Synchronisation du mesh (le monde est avancé par PhysicsClock, voir useAmmoPhysics)
+  useFrame(() => {
     if (!isInitialized || !softBodyStateRef.current) return
-    updatePhysics(delta)
+    syncMeshes()
   })
 
   // Placeholder pendant le chargement
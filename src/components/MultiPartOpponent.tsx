@@ -89,7 +89,7 @@ export function MultiPartOpponent() {
     createRigidBody,
     anchorSoftBodyToRigid,
     findExtremeNodes,
-    updatePhysics,
+    syncMeshes,
     applySoftBodyImpulse,
     removeSoftBody,
     removeRigidBody,
@@ -319,10 +319,11 @@ export function MultiPartOpponent() {
   })
 
   // Mise à jour de la corde (synchroniser la Line avec les nodes)
-  useFrame((_, delta) => {
+  // Le monde est avancé par PhysicsClock (useAmmoPhysics)
+  useFrame(() => {
     if (!isInitialized) return
 
-    updatePhysics(delta)
+    syncMeshes()
 
     // Mettre à jour la visualisation de la corde
     if (partsRef.current.neckRope && neckLineRef.current) {
@@ -0,0 +1,145 @@
+import { useEffect, useMemo } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { usePhysicsDebugStore, PhysicsSceneManager } from '../stores'
+import type { PhysicsDebugDrawer, XPBDSolver } from '../physics'
+
+/**
+ * Rendu de debug physique (dev)
+ *
+ * - PhysicsDebugOverlay : monde Ammo (formes, soft bodies, ressorts / joints, contacts),
+ *   à monter une fois dans la scène
+ * - XPBDDebugOverlay : contraintes d'un solveur XPBD colorées par déformation,
+ *   à monter dans le groupe dont les particules partagent le repère
+ *
+ * Activé depuis le panneau d'inspection (usePhysicsDebugStore).
+ */
+
+// Configuration
+const OVERLAY_CONFIG = {
+  initialCapacity: 4096,  // Sommets alloués au départ (doublé si besoin)
+  pointSize: 4,           // Pixels
+  renderOrder: 999,       // Par-dessus la scène
+}
+
+/**
+ * Tampon de sommets colorés, réutilisé d'une frame à l'autre
+ */
+class DebugVertexBuffer {
+  readonly geometry = new THREE.BufferGeometry()
+  private positions = new Float32Array(OVERLAY_CONFIG.initialCapacity * 3)
+  private colors = new Float32Array(OVERLAY_CONFIG.initialCapacity * 3)
+  private count = 0
+  private color = new THREE.Color()
+
+  constructor() {
+    this.attach()
+  }
+
+  begin(): void {
+    this.count = 0
+  }
+
+  push(position: THREE.Vector3, color: number): void {
+    if (this.count * 3 >= this.positions.length) this.grow()
+    const i = this.count * 3
+    this.color.setHex(color)
+    this.positions[i] = position.x
+    this.positions[i + 1] = position.y
+    this.positions[i + 2] = position.z
+    this.colors[i] = this.color.r
+    this.colors[i + 1] = this.color.g
+    this.colors[i + 2] = this.color.b
+    this.count++
+  }
+
+  end(): void {
+    this.geometry.attributes.position!.needsUpdate = true
+    this.geometry.attributes.color!.needsUpdate = true
+    this.geometry.setDrawRange(0, this.count)
+  }
+
+  dispose(): void {
+    this.geometry.dispose()
+  }
+
+  private grow(): void {
+    const positions = new Float32Array(this.positions.length * 2)
+    const colors = new Float32Array(this.colors.length * 2)
+    positions.set(this.positions)
+    colors.set(this.colors)
+    this.positions = positions
+    this.colors = colors
+    // Libérer les buffers GPU des anciens attributs (réenvoyés au prochain rendu)
+    this.geometry.dispose()
+    this.attach()
+  }
+
+  private attach(): void {
+    this.geometry.setAttribute('position', new THREE.BufferAttribute(this.positions, 3).setUsage(THREE.DynamicDrawUsage))
+    this.geometry.setAttribute('color', new THREE.BufferAttribute(this.colors, 3).setUsage(THREE.DynamicDrawUsage))
+  }
+}
+
+/**
+ * Lignes et points redessinés à chaque frame par `draw`
+ */
+function DebugLines({ draw }: { draw: (drawer: PhysicsDebugDrawer) => void }) {
+  const lines = useMemo(() => new DebugVertexBuffer(), [])
+  const points = useMemo(() => new DebugVertexBuffer(), [])
+
+  const drawer = useMemo<PhysicsDebugDrawer>(() => ({
+    drawLine: (from, to, color) => {
+      lines.push(from, color)
+      lines.push(to, color)
+    },
+    drawPoint: (position, color) => points.push(position, color),
+  }), [lines, points])
+
+  useEffect(() => () => {
+    lines.dispose()
+    points.dispose()
+  }, [lines, points])
+
+  useFrame(() => {
+    lines.begin()
+    points.begin()
+    draw(drawer)
+    lines.end()
+    points.end()
+  })
+
+  return (
+    <>
+      <lineSegments geometry={lines.geometry} frustumCulled={false} renderOrder={OVERLAY_CONFIG.renderOrder}>
+        <lineBasicMaterial vertexColors depthTest={false} transparent />
+      </lineSegments>
+      <points geometry={points.geometry} frustumCulled={false} renderOrder={OVERLAY_CONFIG.renderOrder}>
+        <pointsMaterial vertexColors size={OVERLAY_CONFIG.pointSize} sizeAttenuation={false} depthTest={false} transparent />
+      </points>
+    </>
+  )
+}
+
+/**
+ * Monde Ammo (PhysicsSceneManager)
+ */
+export function PhysicsDebugOverlay() {
+  const enabled = usePhysicsDebugStore((state) => state.enabled)
+  const layers = usePhysicsDebugStore((state) => state.layers)
+
+  if (!enabled) return null
+  return <DebugLines draw={(drawer) => PhysicsSceneManager.debugDraw(drawer, layers)} />
+}
+
+/**
+ * Solveur XPBD (repère local du parent)
+ */
+export function XPBDDebugOverlay({ solver }: { solver: XPBDSolver }) {
+  const visible = usePhysicsDebugStore((state) => state.enabled && state.layers.xpbd)
+
+  if (!visible) return null
+  return <DebugLines draw={(drawer) => solver.debugDraw(drawer)} />
+}
+
+export default PhysicsDebugOverlay
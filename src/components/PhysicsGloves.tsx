@@ -1,18 +1,19 @@
 import { useRef, useEffect, useMemo, useCallback } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
-import { useGameStore, ImpactManager } from '../stores'
+import { useGameStore, useAchievementStore, ImpactManager, getStaminaEfficiency, getPunchPower } from '../stores'
 import type { PunchType } from '../stores'
-import { usePhysicsCategory } from '../hooks/usePhysicsScene'
-import { PhysicsSceneManager } from '../systems/PhysicsSceneManager'
+import type { InputMethod } from '../systems/SessionHistory'
+import { usePhysicsBackend } from '../hooks/usePhysicsBackend'
+import { PhysicsClock } from '../systems/PhysicsClock'
 
 /**
- * PhysicsGloves - Gants avec physique Ammo.js native
+ * PhysicsGloves - Gants physiques à ressorts (Ammo.js ou Rapier)
  *
  * Architecture:
  * - Ancres STATIC (mass=0) aux positions de garde
- * - Gants DYNAMIC (mass>0) attachés aux ancres par spring constraints
- * - Collisions gérées nativement par Ammo.js (pas de tunneling)
+ * - Gants DYNAMIC (mass>0) attachés aux ancres par ressorts
+ * - Collisions gérées nativement par le moteur (pas de tunneling)
  * - Impulsions pour les coups, ressorts pour le retour
  */
 
@@ -52,6 +53,12 @@ const SPRING_CONFIG = {
 // Rayon du gant pour collision
 const GLOVE_RADIUS = 0.4
 
+// Catégorie des gants dans le moteur physique
+const GLOVES_CATEGORY = 'gloves'
+
+// IDs des rigid bodies par côté
+const GLOVE_BODY_IDS = { left: 'left-glove', right: 'right-glove' } as const
+
 // Couleurs des gants selon l'état
 const GLOVE_COLORS = {
   rest: new THREE.Color(0xcc0000),
@@ -62,29 +69,19 @@ const GLOVE_COLORS = {
 
 /**
  * Composant PhysicsGloves
- * Utilise PhysicsSceneManager pour la gestion centralisée de la physique
+ * Utilise le moteur physique choisi dans les réglages (usePhysicsBackend)
  */
 export function PhysicsGloves() {
-  // Hook de gestion de la physique avec cleanup automatique
-  const { isReady, addRigidBody, addConstraint } = usePhysicsCategory('gloves')
+  // Couleur des gants débloquée (succès), null = rouge par défaut
+  const gloveColor = useAchievementStore((state) => state.getEquipped('gloveColor')?.color ?? null)
+
+  // Moteur physique choisi (le composant est remonté si le moteur change)
+  const { backend, isReady } = usePhysicsBackend()
 
   // Refs pour les meshes Three.js
   const leftGloveRef = useRef<THREE.Mesh>(null)
   const rightGloveRef = useRef<THREE.Mesh>(null)
 
-  // Refs pour les rigid bodies Ammo
-  const leftGloveBodyRef = useRef<any>(null)
-  const rightGloveBodyRef = useRef<any>(null)
-  const leftAnchorBodyRef = useRef<any>(null)
-  const rightAnchorBodyRef = useRef<any>(null)
-
-  // Refs pour les spring constraints
-  const leftSpringRef = useRef<any>(null)
-  const rightSpringRef = useRef<any>(null)
-
-  // Ref pour le transform réutilisable
-  const transformAuxRef = useRef<any>(null)
-
   // État d'initialisation
   const initializedRef = useRef(false)
 
@@ -104,141 +101,70 @@ export function PhysicsGloves() {
 
   // Vecteurs réutilisables (évite GC)
   const impulseVec = useMemo(() => new THREE.Vector3(), [])
+  const velocityVec = useMemo(() => new THREE.Vector3(), [])
 
   /**
-   * Initialiser les rigid bodies et spring constraints
-   * Utilise PhysicsSceneManager pour la gestion centralisée
+   * Initialiser les rigid bodies et ressorts
    */
   useEffect(() => {
-    // Attendre que PhysicsSceneManager soit prêt
+    // Attendre que le moteur physique soit prêt
     if (!isReady || initializedRef.current) return
 
-    const Ammo = PhysicsSceneManager.getAmmo()
-    const physicsWorld = PhysicsSceneManager.getWorld()
-
-    if (!Ammo || !physicsWorld) {
-      console.warn('[PhysicsGloves] PhysicsSceneManager not fully ready')
-      return
-    }
-
     initializedRef.current = true
-    transformAuxRef.current = new Ammo.btTransform()
-
-    console.log('[PhysicsGloves] Creating DYNAMIC gloves with spring constraints via PhysicsSceneManager...')
-
-    // === Créer les ancres (STATIC, invisibles) ===
-    const createAnchor = (pos: THREE.Vector3, id: string) => {
-      const shape = new Ammo.btSphereShape(0.1)
-      const transform = new Ammo.btTransform()
-      transform.setIdentity()
-      transform.setOrigin(new Ammo.btVector3(pos.x, pos.y, pos.z))
-      const motionState = new Ammo.btDefaultMotionState(transform)
-      const localInertia = new Ammo.btVector3(0, 0, 0)
-      const rbInfo = new Ammo.btRigidBodyConstructionInfo(0, motionState, shape, localInertia)
-      const body = new Ammo.btRigidBody(rbInfo)
-
-      // Enregistrer dans PhysicsSceneManager (ajoute aussi au world)
-      addRigidBody(id, body)
 
-      return body
+    console.log(`[PhysicsGloves] Creating DYNAMIC gloves with springs (${backend.type})...`)
+
+    for (const side of ['left', 'right'] as const) {
+      const restPos = side === 'left' ? LEFT_REST_POS : RIGHT_REST_POS
+
+      // === Ancre (STATIC, invisible) ===
+      backend.createRigidBody(`${side}-anchor`, {
+        shape: { type: 'sphere', radius: 0.1 },
+        mass: 0,
+        position: restPos,
+        category: GLOVES_CATEGORY,
+      })
+
+      // === Gant (DYNAMIC) ===
+      backend.createRigidBody(GLOVE_BODY_IDS[side], {
+        shape: { type: 'sphere', radius: GLOVE_RADIUS },
+        mass: 1.0,
+        position: restPos,
+        friction: 0.5,
+        restitution: 0.3,
+        linearDamping: 0.05,   // Damping très bas pour permettre le mouvement
+        angularDamping: 0.05,
+        disableGravity: true,  // Les ressorts gèrent tout
+        ccd: true,             // Éviter le tunneling à haute vitesse
+        margin: 0.05,
+        category: GLOVES_CATEGORY,
+      })
+
+      // === Ressort ancre → gant (équilibre = garde) ===
+      backend.createSpring(`${side}-spring`, {
+        bodyA: `${side}-anchor`,
+        bodyB: GLOVE_BODY_IDS[side],
+        stiffness: SPRING_CONFIG.stiffness,
+        damping: SPRING_CONFIG.damping,
+        linearLimit: SPRING_CONFIG.linearLimit,
+        category: GLOVES_CATEGORY,
+      })
     }
 
-    leftAnchorBodyRef.current = createAnchor(LEFT_REST_POS, 'left-anchor')
-    rightAnchorBodyRef.current = createAnchor(RIGHT_REST_POS, 'right-anchor')
-
-    // === Créer les gants (DYNAMIC) ===
-    const createGlove = (pos: THREE.Vector3, mass: number, id: string, mesh: THREE.Mesh | null) => {
-      const shape = new Ammo.btSphereShape(GLOVE_RADIUS)
-      shape.setMargin(0.05)
-      const transform = new Ammo.btTransform()
-      transform.setIdentity()
-      transform.setOrigin(new Ammo.btVector3(pos.x, pos.y, pos.z))
-      const motionState = new Ammo.btDefaultMotionState(transform)
-      const localInertia = new Ammo.btVector3(0, 0, 0)
-      shape.calculateLocalInertia(mass, localInertia)
-      const rbInfo = new Ammo.btRigidBodyConstructionInfo(mass, motionState, shape, localInertia)
-      const body = new Ammo.btRigidBody(rbInfo)
-
-      // Configuration du gant
-      body.setFriction(0.5)
-      body.setRestitution(0.3)
-      body.setDamping(0.05, 0.05)  // Damping très bas pour permettre le mouvement
-      body.setActivationState(4) // DISABLE_DEACTIVATION
-
-      // Désactiver la gravité sur les gants - les ressorts gèrent tout
-      const zeroGravity = new Ammo.btVector3(0, 0, 0)
-      body.setGravity(zeroGravity)
-      Ammo.destroy(zeroGravity)
-
-      // CCD pour éviter le tunneling à haute vitesse
-      body.setCcdMotionThreshold(GLOVE_RADIUS * 0.5)
-      body.setCcdSweptSphereRadius(GLOVE_RADIUS * 0.8)
-
-      // Enregistrer dans PhysicsSceneManager (ajoute aussi au world)
-      addRigidBody(id, body, mesh ?? undefined)
-
-      return body
-    }
-
-    leftGloveBodyRef.current = createGlove(LEFT_REST_POS, 1.0, 'left-glove', leftGloveRef.current)
-    rightGloveBodyRef.current = createGlove(RIGHT_REST_POS, 1.0, 'right-glove', rightGloveRef.current)
-
-    // === Créer les spring constraints ===
-    const createSpring = (anchorBody: any, gloveBody: any, id: string) => {
-      const frameInA = new Ammo.btTransform()
-      frameInA.setIdentity()
-      const frameInB = new Ammo.btTransform()
-      frameInB.setIdentity()
-
-      const spring = new Ammo.btGeneric6DofSpringConstraint(
-        anchorBody,
-        gloveBody,
-        frameInA,
-        frameInB,
-        true // useLinearReferenceFrameA
-      )
-
-      // Limites de mouvement (liberté dans toutes les directions)
-      const limit = SPRING_CONFIG.linearLimit
-      spring.setLinearLowerLimit(new Ammo.btVector3(-limit, -limit, -limit))
-      spring.setLinearUpperLimit(new Ammo.btVector3(limit, limit, limit))
-
-      // Activer les ressorts sur les 3 axes linéaires
-      for (let i = 0; i < 3; i++) {
-        spring.enableSpring(i, true)
-        spring.setStiffness(i, SPRING_CONFIG.stiffness)
-        spring.setDamping(i, SPRING_CONFIG.damping)
-      }
-
-      // Définir l'équilibre = position actuelle (garde)
-      spring.setEquilibriumPoint()
-
-      // Enregistrer dans PhysicsSceneManager (ajoute aussi au world)
-      addConstraint(id, spring)
-
-      return spring
-    }
-
-    leftSpringRef.current = createSpring(leftAnchorBodyRef.current, leftGloveBodyRef.current, 'left-spring')
-    rightSpringRef.current = createSpring(rightAnchorBodyRef.current, rightGloveBodyRef.current, 'right-spring')
-
-    console.log('[PhysicsGloves] Spring constraints created via PhysicsSceneManager')
+    console.log('[PhysicsGloves] Springs created')
 
-    // Cleanup géré automatiquement par usePhysicsCategory('gloves')
     return () => {
       initializedRef.current = false
-      console.log('[PhysicsGloves] Component unmounting (cleanup by PhysicsSceneManager)')
+      backend.clearCategory(GLOVES_CATEGORY)
+      console.log('[PhysicsGloves] Component unmounting (gloves removed)')
     }
-  }, [isReady, addRigidBody, addConstraint])
+  }, [isReady, backend])
 
   /**
    * Appliquer une impulsion pour un coup
-   * Utilise PhysicsSceneManager pour accéder à Ammo
    */
-  const executePunch = useCallback((type: PunchType, side: 'left' | 'right') => {
-    const Ammo = PhysicsSceneManager.getAmmo()
-    const body = side === 'left' ? leftGloveBodyRef.current : rightGloveBodyRef.current
-    if (!Ammo || !body) return
+  const executePunch = useCallback((type: PunchType, side: 'left' | 'right', source?: InputMethod, velocity: number = 1) => {
+    if (!backend.hasRigidBody(GLOVE_BODY_IDS[side])) return
 
     // Calculer la direction et la force
     const config = PUNCH_IMPULSES[type]
@@ -256,14 +182,16 @@ export function PhysicsGloves() {
       direction.normalize()
     }
 
-    impulseVec.copy(direction).multiplyScalar(config.force)
+    // Coup lancé (endurance, mode rythme) : un joueur fatigué ou un geste lent
+    // frappe moins fort (endurance relue après la dépense du coup)
+    useGameStore.getState().throwPunch(type, side, source)
+    const efficiency = getStaminaEfficiency(useGameStore.getState().stamina) * getPunchPower(velocity)
+    impulseVec.copy(direction).multiplyScalar(config.force * efficiency)
 
-    const btImpulse = new Ammo.btVector3(impulseVec.x, impulseVec.y, impulseVec.z)
-    body.applyCentralImpulse(btImpulse)
-    Ammo.destroy(btImpulse)
+    backend.applyImpulse(GLOVE_BODY_IDS[side], impulseVec)
 
     console.log(`[PhysicsGloves] ${side} ${type} - impulse applied`)
-  }, [impulseVec])
+  }, [backend, impulseVec])
 
   /**
    * Gérer les punches de l'UI
@@ -272,7 +200,7 @@ export function PhysicsGloves() {
     if (queuedPunch && selectedTool === 'gloves' && gameState === 'FIGHTING') {
       const punch = consumeQueuedPunch()
       if (punch) {
-        executePunch(punch.type, punch.hand)
+        executePunch(punch.type, punch.hand, punch.source, punch.velocity)
       }
     }
   }, [queuedPunch, selectedTool, gameState, consumeQueuedPunch, executePunch])
@@ -312,81 +240,48 @@ export function PhysicsGloves() {
   }, [gameState, selectedTool, executePunch])
 
   /**
-   * Boucle de mise à jour
-   * Utilise le transform stocké localement (créé à l'init)
+   * Boucle de rendu : synchroniser les meshes avec les rigid bodies
    */
-  useFrame((_, delta) => {
-    const transform = transformAuxRef.current
+  useFrame(() => {
     // Vérifier que les gants sont initialisés
-    if (!transform || !leftGloveBodyRef.current || !rightGloveBodyRef.current) return
-
-    // Mettre à jour le cooldown des impacts
-    if (leftImpactCooldownRef.current > 0) {
-      leftImpactCooldownRef.current -= delta
-    }
-    if (rightImpactCooldownRef.current > 0) {
-      rightImpactCooldownRef.current -= delta
-    }
-
-    // Synchroniser les meshes avec les rigid bodies
-    const syncMesh = (body: any, mesh: THREE.Mesh | null) => {
-      if (!body || !mesh) return
-
-      body.getMotionState().getWorldTransform(transform)
-      const origin = transform.getOrigin()
-      mesh.position.set(origin.x(), origin.y(), origin.z())
-    }
+    if (!initializedRef.current) return
 
-    syncMesh(leftGloveBodyRef.current, leftGloveRef.current)
-    syncMesh(rightGloveBodyRef.current, rightGloveRef.current)
-
-    // Détecter les impacts via chute de vélocité (Ammo gère les collisions)
-    if (gameState === 'FIGHTING') {
-      detectImpacts()
-    }
+    if (leftGloveRef.current) backend.getPosition(GLOVE_BODY_IDS.left, leftGloveRef.current.position)
+    if (rightGloveRef.current) backend.getPosition(GLOVE_BODY_IDS.right, rightGloveRef.current.position)
   })
 
   /**
-   * Détecter les impacts via changement de vélocité (collision native Ammo.js)
-   * btSoftRigidDynamicsWorld gère automatiquement les collisions soft-rigid.
+   * Détecter les impacts via changement de vélocité (collision native du moteur)
    * On détecte simplement si le gant a été ralenti (= il a touché quelque chose)
    */
   const detectImpacts = useCallback(() => {
-    const transform = transformAuxRef.current
-    if (!transform) return
-
     const checkGloveImpact = (
-      gloveBody: any,
       cooldownRef: React.MutableRefObject<number>,
       prevSpeedRef: React.MutableRefObject<number>,
       side: 'left' | 'right'
     ) => {
-      if (!gloveBody || cooldownRef.current > 0) return
+      if (cooldownRef.current > 0) return
 
       // Obtenir vélocité actuelle
-      const velocity = gloveBody.getLinearVelocity()
-      const currentSpeed = Math.sqrt(
-        velocity.x() * velocity.x() +
-        velocity.y() * velocity.y() +
-        velocity.z() * velocity.z()
-      )
-
-      // Si la vitesse a chuté significativement = collision détectée par Ammo
+      if (!backend.getLinearVelocity(GLOVE_BODY_IDS[side], velocityVec)) return
+      const currentSpeed = velocityVec.length()
+
+      // Si la vitesse a chuté significativement = collision détectée par le moteur
       const speedDrop = prevSpeedRef.current - currentSpeed
       if (speedDrop > 1.0 && prevSpeedRef.current > 1.5) {
         // Obtenir position du gant
-        gloveBody.getMotionState().getWorldTransform(transform)
-        const origin = transform.getOrigin()
+        const origin = new THREE.Vector3()
+        backend.getPosition(GLOVE_BODY_IDS[side], origin)
 
         // Enregistrer l'impact visuel
         const strength = Math.min(1.0, prevSpeedRef.current / 4)
         ImpactManager.addImpact(
-          [origin.x(), origin.y(), origin.z()],
+          [origin.x, origin.y, origin.z],
           strength
         )
 
         // Enregistrer le hit pour le score
-        useGameStore.getState().recordHit()
+        useGameStore.getState().recordHit(strength, side)
 
         // Cooldown
         cooldownRef.current = 0.2
@@ -397,9 +292,30 @@ export function PhysicsGloves() {
       prevSpeedRef.current = currentSpeed
     }
 
-    checkGloveImpact(leftGloveBodyRef.current, leftImpactCooldownRef, leftPrevSpeedRef, 'left')
-    checkGloveImpact(rightGloveBodyRef.current, rightImpactCooldownRef, rightPrevSpeedRef, 'right')
-  }, [])
+    checkGloveImpact(leftImpactCooldownRef, leftPrevSpeedRef, 'left')
+    checkGloveImpact(rightImpactCooldownRef, rightPrevSpeedRef, 'right')
+  }, [backend, velocityVec])
+
+  /**
+   * Cooldowns et détection d'impact à chaque pas de PhysicsClock (indépendants du framerate)
+   */
+  useEffect(() => PhysicsClock.register('physics-gloves', (fixedDeltaTime) => {
+    // Vérifier que les gants sont initialisés
+    if (!initializedRef.current) return
+
+    // Mettre à jour le cooldown des impacts
+    if (leftImpactCooldownRef.current > 0) {
+      leftImpactCooldownRef.current -= fixedDeltaTime
+    }
+    if (rightImpactCooldownRef.current > 0) {
+      rightImpactCooldownRef.current -= fixedDeltaTime
+    }
+
+    // Détecter les impacts via chute de vélocité (le moteur gère les collisions)
+    if (useGameStore.getState().gameState === 'FIGHTING') {
+      detectImpacts()
+    }
+  }), [detectImpacts])
 
   // Ne pas afficher si pas en mode gants ou pas en combat
   if (selectedTool !== 'gloves') {
@@ -412,7 +328,7 @@ export function PhysicsGloves() {
       <mesh ref={leftGloveRef} position={LEFT_REST_POS.toArray()} castShadow>
         <sphereGeometry args={[GLOVE_RADIUS, 16, 16]} />
         <meshStandardMaterial
-          color={GLOVE_COLORS.rest}
+          color={gloveColor ?? GLOVE_COLORS.rest}
           roughness={0.4}
           metalness={0.1}
           emissive={0x110000}
@@ -424,7 +340,7 @@ export function PhysicsGloves() {
       <mesh ref={rightGloveRef} position={RIGHT_REST_POS.toArray()} castShadow>
         <sphereGeometry args={[GLOVE_RADIUS, 16, 16]} />
         <meshStandardMaterial
-          color={GLOVE_COLORS.rest}
+          color={gloveColor ?? GLOVE_COLORS.rest}
           roughness={0.4}
           metalness={0.1}
           emissive={0x110000}
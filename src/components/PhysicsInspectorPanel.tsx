@@ -0,0 +1,139 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  usePhysicsDebugStore,
+  useJellyPhysicsStore,
+  PhysicsSceneManager,
+  PHYSICS_DEBUG_LAYER_LABELS,
+  type BodyDebugInfo,
+  type PhysicsDebugLayer,
+} from '../stores'
+
+// Intervalle de rafraîchissement de la liste (ms)
+const REFRESH_INTERVAL = 250
+
+const MOTION_LABELS: Record<BodyDebugInfo['motion'], string> = {
+  static: 'statique',
+  kinematic: 'kinématique',
+  dynamic: 'dynamique',
+}
+
+/**
+ * Panneau d'inspection de la physique (dev)
+ * Active le rendu de debug (PhysicsDebugOverlay) et liste les bodies
+ * enregistrés dans PhysicsSceneManager, par catégorie, avec masse et vitesse
+ */
+export function PhysicsInspectorPanel() {
+  const [isOpen, setIsOpen] = useState(false)
+  const [bodies, setBodies] = useState<BodyDebugInfo[]>([])
+
+  const enabled = usePhysicsDebugStore((state) => state.enabled)
+  const layers = usePhysicsDebugStore((state) => state.layers)
+  const deterministic = usePhysicsDebugStore((state) => state.deterministic)
+  const { toggle, setLayer, setDeterministic } = usePhysicsDebugStore.getState()
+  const solverMode = useJellyPhysicsStore((state) => state.solverMode)
+  const setSolverMode = useJellyPhysicsStore((state) => state.setSolverMode)
+
+  // Rafraîchir la liste tant que le panneau est ouvert
+  useEffect(() => {
+    if (!isOpen) return
+    const refresh = () => setBodies(PhysicsSceneManager.getBodyInfos())
+    refresh()
+    const interval = setInterval(refresh, REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [isOpen])
+
+  // Regrouper par catégorie (la liste est déjà triée)
+  const byCategory = useMemo(() => {
+    const groups = new Map<string, BodyDebugInfo[]>()
+    for (const body of bodies) {
+      const group = groups.get(body.category)
+      if (group) group.push(body)
+      else groups.set(body.category, [body])
+    }
+    return Array.from(groups)
+  }, [bodies])
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="pointer-events-auto fixed bottom-14 left-4 rounded-full bg-black/60 px-3 py-1 text-xs text-white transition hover:bg-black/80"
+      >
+        {enabled ? '◉ Physique' : 'Physique'}
+      </button>
+    )
+  }
+
+  return (
+    <div className="pointer-events-auto fixed bottom-14 left-4 flex max-h-[60vh] w-80 flex-col gap-2 rounded-xl bg-black/80 p-3 text-xs text-white">
+      <div className="flex items-center justify-between">
+        <span className="font-bold uppercase tracking-wider text-gray-400">Physique</span>
+        <button onClick={() => setIsOpen(false)} className="text-gray-400 transition hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      {/* Rendu de debug */}
+      <button
+        onClick={toggle}
+        className={`rounded-lg py-1 transition ${enabled ? 'bg-blue-600' : 'bg-white/10 hover:bg-white/20'}`}
+      >
+        {enabled ? 'Rendu de debug : activé' : 'Rendu de debug : désactivé'}
+      </button>
+      <div className="grid grid-cols-2 gap-1">
+        {(Object.keys(PHYSICS_DEBUG_LAYER_LABELS) as PhysicsDebugLayer[]).map((layer) => (
+          <label key={layer} className={`flex items-center gap-1 ${enabled ? '' : 'text-gray-500'}`}>
+            <input
+              type="checkbox"
+              checked={layers[layer]}
+              onChange={(event) => setLayer(layer, event.target.checked)}
+            />
+            {PHYSICS_DEBUG_LAYER_LABELS[layer]}
+          </label>
+        ))}
+      </div>
+
+      {/* Thread du solveur jelly (worker = mémoire partagée requise) */}
+      <button
+        onClick={() => setSolverMode(solverMode === 'worker' ? 'main' : 'worker')}
+        className="text-left text-gray-400 transition hover:text-white"
+      >
+        Solveur XPBD : {solverMode === 'worker' && !deterministic ? 'worker' : 'thread principal'}
+      </button>
+
+      {/* Horloge physique : pas de frame fixes et aléa à graine (replays, non-régression) */}
+      <label className="flex items-center gap-1 text-gray-400">
+        <input
+          type="checkbox"
+          checked={deterministic}
+          onChange={(event) => setDeterministic(event.target.checked)}
+        />
+        Mode déterministe
+      </label>
+
+      {/* Bodies par catégorie */}
+      <div className="flex-1 overflow-y-auto">
+        {byCategory.length === 0 && <div className="text-gray-400">Aucun body enregistré</div>}
+        {byCategory.map(([category, group]) => (
+          <div key={category} className="mb-2">
+            <div className="font-bold text-gray-300">
+              {category} <span className="font-normal text-gray-500">({group.length})</span>
+            </div>
+            {group.map((body) => (
+              <div key={body.id} className="flex justify-between gap-2 tabular-nums text-gray-300">
+                <span className="truncate" title={`${body.type} ${MOTION_LABELS[body.motion]}`}>
+                  {body.type === 'soft' ? '◌ ' : ''}{body.id}
+                </span>
+                <span className="shrink-0 text-gray-400">
+                  {body.mass === null ? '? kg' : `${body.mass.toFixed(2)} kg`} · {body.speed.toFixed(2)} m/s
+                </span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default PhysicsInspectorPanel
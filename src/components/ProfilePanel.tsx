@@ -0,0 +1,244 @@
+import { useCallback, useRef, useState, type ChangeEvent } from 'react'
+import { useProfileStore, GUEST_NAME } from '../stores'
+import type { ProfileDraft, PreferredInput, Handedness } from '../stores'
+import { FaceCropper } from './FaceCropper'
+
+// Taille de l'avatar persisté (px) : petit pour tenir dans localStorage
+const AVATAR_SIZE = 96
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: '',
+  avatar: null,
+  preferredInput: 'touch',
+  handedness: 'right',
+}
+
+const INPUT_OPTIONS: { id: PreferredInput; name: string }[] = [
+  { id: 'touch', name: 'Tactile' },
+  { id: 'camera', name: 'Caméra' },
+]
+
+const HANDEDNESS_OPTIONS: { id: Handedness; name: string }[] = [
+  { id: 'right', name: 'Droitier' },
+  { id: 'left', name: 'Gaucher' },
+]
+
+/**
+ * Réduit l'image recadrée en avatar (data URL JPEG)
+ */
+function toAvatarDataUrl(imageUrl: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = AVATAR_SIZE
+      canvas.height = AVATAR_SIZE
+      const ctx = canvas.getContext('2d')
+      if (!ctx) {
+        reject(new Error('Canvas 2D indisponible'))
+        return
+      }
+      ctx.drawImage(image, 0, 0, AVATAR_SIZE, AVATAR_SIZE)
+      resolve(canvas.toDataURL('image/jpeg', 0.8))
+    }
+    image.onerror = () => reject(new Error("Impossible de charger l'image"))
+    image.src = imageUrl
+  })
+}
+
+/**
+ * Sélecteur de profil joueur (lobby)
+ * - Choix du joueur actif (ou invité)
+ * - Création / édition : nom, photo (FaceCropper), entrée préférée, main forte
+ */
+export function ProfilePanel() {
+  const profiles = useProfileStore((state) => state.profiles)
+  const activeProfileId = useProfileStore((state) => state.activeProfileId)
+  const selectProfile = useProfileStore((state) => state.selectProfile)
+  const createProfile = useProfileStore((state) => state.createProfile)
+  const updateProfile = useProfileStore((state) => state.updateProfile)
+  const deleteProfile = useProfileStore((state) => state.deleteProfile)
+
+  // Formulaire : null = fermé, 'new' = création, sinon id du profil édité
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState<ProfileDraft>(EMPTY_DRAFT)
+  const [rawImageUrl, setRawImageUrl] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId) ?? null
+
+  const openEditor = (id: string | null) => {
+    const profile = profiles.find((candidate) => candidate.id === id)
+    setDraft(profile
+      ? { name: profile.name, avatar: profile.avatar, preferredInput: profile.preferredInput, handedness: profile.handedness }
+      : EMPTY_DRAFT)
+    setEditing(profile ? profile.id : 'new')
+  }
+
+  const handleSave = () => {
+    if (editing === 'new') createProfile(draft)
+    else if (editing) updateProfile(editing, draft)
+    setEditing(null)
+  }
+
+  const handleDelete = () => {
+    if (!editing || editing === 'new') return
+    if (!window.confirm(`Supprimer le profil "${draft.name}" ? Ses scores restent au classement.`)) return
+    deleteProfile(editing)
+    setEditing(null)
+  }
+
+  // Photo : ouvrir le cropper
+  const handleFileChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setRawImageUrl(URL.createObjectURL(file))
+  }, [])
+
+  const closeCropper = useCallback(() => {
+    if (rawImageUrl) URL.revokeObjectURL(rawImageUrl)
+    setRawImageUrl(null)
+  }, [rawImageUrl])
+
+  const handleCropConfirm = useCallback(async (croppedImageUrl: string) => {
+    closeCropper()
+    try {
+      const avatar = await toAvatarDataUrl(croppedImageUrl)
+      setDraft((prev) => ({ ...prev, avatar }))
+    } catch (error) {
+      console.error('[Profile] Avatar processing failed:', error)
+    } finally {
+      URL.revokeObjectURL(croppedImageUrl)
+    }
+  }, [closeCropper])
+
+  return (
+    <div className="flex w-full max-w-xs flex-col items-center gap-2">
+      {/* Joueur actif + changement rapide */}
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button
+          onClick={() => selectProfile(null)}
+          className={`rounded-full px-3 py-1 text-sm font-medium transition-all ${
+            activeProfile === null
+              ? 'bg-amber-500/20 text-amber-400 ring-1 ring-amber-500/50'
+              : 'bg-white/10 text-gray-400 ring-1 ring-white/20 active:bg-white/20'
+          }`}
+        >
+          {GUEST_NAME}
+        </button>
+        {profiles.map((profile) => (
+          <button
+            key={profile.id}
+            onClick={() => selectProfile(profile.id)}
+            className={`flex items-center gap-1.5 rounded-full py-1 pl-1 pr-3 text-sm font-medium transition-all ${
+              profile.id === activeProfileId
+                ? 'bg-amber-500/20 text-amber-400 ring-1 ring-amber-500/50'
+                : 'bg-white/10 text-gray-400 ring-1 ring-white/20 active:bg-white/20'
+            }`}
+          >
+            {profile.avatar ? (
+              <img src={profile.avatar} alt="" className="h-6 w-6 rounded-full object-cover" />
+            ) : (
+              <span className="flex h-6 w-6 items-center justify-center rounded-full bg-white/10 text-xs">
+                {profile.name.charAt(0).toUpperCase()}
+              </span>
+            )}
+            {profile.name}
+          </button>
+        ))}
+        <button
+          onClick={() => openEditor(activeProfile?.id ?? null)}
+          className="rounded-full bg-white/10 px-3 py-1 text-sm text-gray-400 ring-1 ring-white/20 active:bg-white/20"
+        >
+          {activeProfile ? 'Modifier' : '+ Profil'}
+        </button>
+        {activeProfile && (
+          <button
+            onClick={() => openEditor(null)}
+            className="rounded-full bg-white/10 px-3 py-1 text-sm text-gray-400 ring-1 ring-white/20 active:bg-white/20"
+          >
+            +
+          </button>
+        )}
+      </div>
+
+      {/* Formulaire de profil */}
+      {editing && (
+        <div className="flex w-full flex-col gap-3 rounded-xl bg-black/60 p-3 backdrop-blur-sm">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex h-14 w-14 shrink-0 items-center justify-center overflow-hidden rounded-full bg-white/10 text-xs text-gray-400 ring-1 ring-white/20"
+            >
+              {draft.avatar ? <img src={draft.avatar} alt="" className="h-full w-full object-cover" /> : 'Photo'}
+            </button>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="Nom du joueur"
+              maxLength={20}
+              className="w-full rounded-lg bg-white/10 px-3 py-2 text-sm text-white placeholder-gray-500 outline-none ring-1 ring-white/20 focus:ring-amber-500/50"
+            />
+            <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+          </div>
+
+          <div className="flex justify-between gap-2">
+            <div className="flex gap-1">
+              {INPUT_OPTIONS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setDraft((prev) => ({ ...prev, preferredInput: option.id }))}
+                  className={`rounded-full px-2 py-0.5 text-xs transition-all ${
+                    draft.preferredInput === option.id ? 'bg-cyan-500/30 text-cyan-300' : 'text-gray-500'
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              {HANDEDNESS_OPTIONS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setDraft((prev) => ({ ...prev, handedness: option.id }))}
+                  className={`rounded-full px-2 py-0.5 text-xs transition-all ${
+                    draft.handedness === option.id ? 'bg-cyan-500/30 text-cyan-300' : 'text-gray-500'
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editing !== 'new' && (
+              <button onClick={handleDelete} className="mr-auto text-xs text-red-400">
+                Supprimer
+              </button>
+            )}
+            <button onClick={() => setEditing(null)} className="rounded-full px-3 py-1 text-sm text-gray-400">
+              Annuler
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={draft.name.trim() === ''}
+              className="rounded-full bg-amber-500/80 px-3 py-1 text-sm font-bold text-white disabled:opacity-40"
+            >
+              Enregistrer
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Recadrage de la photo */}
+      {rawImageUrl && (
+        <FaceCropper imageUrl={rawImageUrl} onConfirm={handleCropConfirm} onCancel={closeCropper} />
+      )}
+    </div>
+  )
+}
+
+export default ProfilePanel
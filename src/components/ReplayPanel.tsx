@@ -0,0 +1,138 @@
+import { useCallback, useMemo, useState, type ChangeEvent } from 'react'
+import { useHandTrackingReplayStore, REPLAY_SPEEDS } from '../stores/useHandTrackingReplayStore'
+import { useHandTrackingReplay } from '../hooks/useHandTrackingReplay'
+import { detectRecordingPunches, parseRecording, punchesBefore } from '../utils/HandTrackingReplay'
+
+/**
+ * Formate un temps en secondes (ms → "12.3s")
+ */
+const formatTime = (ms: number): string => `${(ms / 1000).toFixed(1)}s`
+
+/**
+ * Panneau de relecture des enregistrements du hand tracking (dev)
+ * Charge un fichier exporté par useHandTrackingLogger (exportRecording)
+ * et le rejoue comme une caméra : reproduire un bug d'input sans webcam
+ */
+export function ReplayPanel() {
+  const [isOpen, setIsOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const recording = useHandTrackingReplayStore((state) => state.recording)
+  const fileName = useHandTrackingReplayStore((state) => state.fileName)
+  const isPlaying = useHandTrackingReplayStore((state) => state.isPlaying)
+  const currentTime = useHandTrackingReplayStore((state) => state.currentTime)
+  const speed = useHandTrackingReplayStore((state) => state.speed)
+  const { loadRecording, play, pause, seek, setSpeed, unload } = useHandTrackingReplayStore.getState()
+
+  // Alimente useHandTrackingStore pendant la relecture
+  useHandTrackingReplay()
+
+  // Détection actuelle rejouée sur tout l'enregistrement (régression)
+  const detectedPunches = useMemo(() => (recording ? detectRecordingPunches(recording).length : 0), [recording])
+
+  // Charger un fichier d'enregistrement
+  const handleFileChange = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      event.target.value = ''
+      if (!file) return
+
+      try {
+        const parsed = parseRecording(JSON.parse(await file.text()))
+        if (!parsed) throw new Error('Invalid recording')
+        setError(null)
+        loadRecording(parsed, file.name)
+      } catch (err) {
+        console.error('[ReplayPanel] Failed to load recording:', err)
+        setError('Enregistrement invalide')
+      }
+    },
+    [loadRecording]
+  )
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="pointer-events-auto fixed bottom-4 left-4 rounded-full bg-black/60 px-3 py-1 text-xs text-white transition hover:bg-black/80"
+      >
+        {recording ? `▶ ${fileName}` : 'Replay'}
+      </button>
+    )
+  }
+
+  const replayedPunches = recording ? punchesBefore(recording, currentTime).length : 0
+
+  return (
+    <div className="pointer-events-auto fixed bottom-4 left-4 flex w-72 flex-col gap-2 rounded-xl bg-black/80 p-3 text-xs text-white">
+      <div className="flex items-center justify-between">
+        <span className="font-bold uppercase tracking-wider text-gray-400">Relecture</span>
+        <button onClick={() => setIsOpen(false)} className="text-gray-400 transition hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      <label className="cursor-pointer truncate rounded-lg bg-white/10 px-3 py-2 text-center transition hover:bg-white/20">
+        {fileName ?? 'Charger un enregistrement (.json)'}
+        <input type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+      </label>
+      {error && <div className="text-red-400">{error}</div>}
+
+      {recording && (
+        <>
+          {/* Lecture et position */}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={isPlaying ? pause : play}
+              className="w-8 rounded-lg bg-white/10 py-1 transition hover:bg-white/20"
+            >
+              {isPlaying ? '❚❚' : '▶'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={recording.duration}
+              step={10}
+              value={currentTime}
+              onChange={(event) => seek(Number(event.target.value))}
+              className="flex-1"
+            />
+            <span className="w-20 text-right tabular-nums text-gray-300">
+              {formatTime(currentTime)} / {formatTime(recording.duration)}
+            </span>
+          </div>
+
+          {/* Vitesse */}
+          <div className="flex gap-1">
+            {REPLAY_SPEEDS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setSpeed(option)}
+                className={`flex-1 rounded-lg py-1 transition ${
+                  speed === option ? 'bg-blue-600' : 'bg-white/10 hover:bg-white/20'
+                }`}
+              >
+                ×{option}
+              </button>
+            ))}
+          </div>
+
+          {/* Référence : coups détectés pendant l'enregistrement */}
+          <div className="flex items-center justify-between text-gray-400">
+            <span>
+              Coups enregistrés : {replayedPunches} / {recording.punches.length}
+            </span>
+            <button onClick={unload} className="transition hover:text-white">
+              Fermer
+            </button>
+          </div>
+          <div className={detectedPunches === recording.punches.length ? 'text-green-400' : 'text-yellow-400'}>
+            Détection actuelle : {detectedPunches} / {recording.punches.length} coups
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ReplayPanel
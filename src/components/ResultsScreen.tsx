@@ -1,22 +1,53 @@
-import { useGameStore } from '../stores'
+import { useState } from 'react'
+import {
+  useGameStore,
+  useRhythmStore,
+  useTargetDrillStore,
+  useComboChainStore,
+  JUDGES,
+  ROUND_DURATION,
+  DRILL_ZONES,
+  HIT_ZONE_LABELS,
+  HEATMAP_COLS,
+  HEATMAP_ROWS,
+  isTrainingMode,
+} from '../stores'
+import type { MatchScorecard, MatchResult, DecisionType, RhythmResults, TargetDrillResults } from '../stores'
+import { Leaderboard } from './Leaderboard'
 
 /**
- * Écran de résultats après un round
- * Affiche le score, le meilleur score et permet de rejouer
+ * Écran de résultats après un match
+ * Affiche le score, le meilleur score, la feuille des juges et permet de rejouer
  */
 export function ResultsScreen() {
   const gameState = useGameStore((state) => state.gameState)
   const hitCount = useGameStore((state) => state.hitCount)
+  const score = useGameStore((state) => Math.round(state.score))
   const bestScore = useGameStore((state) => state.bestScore)
+  const beatBestScore = useGameStore((state) => state.isNewRecord)
   const resetGame = useGameStore((state) => state.resetGame)
+  const matchConfig = useGameStore((state) => state.matchConfig)
+  const scorecard = useGameStore((state) => state.scorecard)
+  const fightMode = useGameStore((state) => state.fightMode)
+  const selectedOpponent = useGameStore((state) => state.selectedOpponent)
+  const lastLeaderboardEntryId = useGameStore((state) => state.lastLeaderboardEntryId)
+  const getRhythmResults = useRhythmStore((state) => state.getResults)
+  const getDrillResults = useTargetDrillStore((state) => state.getResults)
+  const chainsLanded = useComboChainStore((state) => state.chainsLanded)
 
   if (gameState !== 'FINISHED') return null
 
-  const isNewRecord = hitCount >= bestScore && hitCount > 0
-  const hitsPerSecond = (hitCount / 33).toFixed(1)
+  const isTraining = isTrainingMode(fightMode)
+  const isNewRecord = !isTraining && beatBestScore
+  const isMultiRound = !isTraining && matchConfig.totalRounds > 1
+  const fightSeconds = scorecard
+    ? scorecard.rounds.reduce((sum, round) => sum + round.duration, 0)
+    : matchConfig.roundDuration
+  const hitsPerSecond = (hitCount / Math.max(1, fightSeconds)).toFixed(1)
+  const chainCount = Object.values(chainsLanded).reduce((sum, count) => sum + count, 0)
 
-  // Déterminer le grade basé sur le score
-  const grade = getGrade(hitCount)
+  // Déterminer le grade basé sur le score (ramené à un round standard)
+  const grade = getGrade(Math.round((hitCount * ROUND_DURATION) / Math.max(1, fightSeconds)))
 
   return (
     <div className="pointer-events-auto fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm">
@@ -24,7 +55,13 @@ export function ResultsScreen() {
         {/* Titre */}
         <div className="flex flex-col items-center gap-2">
           <h1 className="text-2xl font-bold uppercase tracking-wider text-gray-400">
-            Temps écoulé!
+            {scorecard?.stoppage
+              ? scorecard.stoppage.winner === 'opponent'
+                ? 'Tu es K.O.!'
+                : scorecard.stoppage.type === 'KO' ? 'K.O.!' : 'K.O. technique!'
+              : fightMode === 'rhythm' ? 'Séquence terminée!'
+              : fightMode === 'target' ? 'Drill terminé!'
+              : isMultiRound ? 'Fin du match!' : 'Temps écoulé!'}
           </h1>
 
           {/* Badge nouveau record */}
@@ -35,46 +72,68 @@ export function ResultsScreen() {
           )}
         </div>
 
-        {/* Grade */}
-        <div
-          className={`text-8xl font-black ${grade.colorClass}`}
-          style={{
-            textShadow: `0 0 60px ${grade.glowColor}`,
-          }}
-        >
-          {grade.letter}
-        </div>
+        {fightMode === 'rhythm' ? (
+          <RhythmResultsPanel results={getRhythmResults()} />
+        ) : fightMode === 'target' ? (
+          <TargetDrillResultsPanel results={getDrillResults()} />
+        ) : (
+          <>
+            {/* Grade */}
+            <div
+              className={`text-8xl font-black ${grade.colorClass}`}
+              style={{
+                textShadow: `0 0 60px ${grade.glowColor}`,
+              }}
+            >
+              {grade.letter}
+            </div>
 
-        {/* Score principal */}
-        <div className="flex flex-col items-center gap-1">
-          <div
-            className="font-black text-white"
-            style={{
-              fontSize: '5rem',
-              lineHeight: 1,
-              textShadow: '0 0 30px rgba(255, 255, 255, 0.3)',
-            }}
-          >
-            {hitCount}
-          </div>
-          <div className="text-xl font-semibold text-gray-400">coups</div>
-        </div>
+            {/* Score principal */}
+            <div className="flex flex-col items-center gap-1">
+              <div
+                className="font-black text-white"
+                style={{
+                  fontSize: '5rem',
+                  lineHeight: 1,
+                  textShadow: '0 0 30px rgba(255, 255, 255, 0.3)',
+                }}
+              >
+                {score}
+              </div>
+              <div className="text-xl font-semibold text-gray-400">points · {hitCount} coups</div>
+            </div>
 
-        {/* Stats détaillées */}
-        <div className="flex gap-8 text-center">
-          <div className="flex flex-col">
-            <div className="text-2xl font-bold text-white">{hitsPerSecond}</div>
-            <div className="text-xs text-gray-500">coups/sec</div>
-          </div>
-          <div className="h-10 w-px bg-gray-700" />
-          <div className="flex flex-col">
-            <div className="text-2xl font-bold text-amber-400">{bestScore}</div>
-            <div className="text-xs text-gray-500">record</div>
-          </div>
-        </div>
+            {/* Stats détaillées */}
+            <div className="flex gap-8 text-center">
+              <div className="flex flex-col">
+                <div className="text-2xl font-bold text-white">{hitsPerSecond}</div>
+                <div className="text-xs text-gray-500">coups/sec</div>
+              </div>
+              <div className="h-10 w-px bg-gray-700" />
+              <div className="flex flex-col">
+                <div className="text-2xl font-bold text-pink-400">{chainCount}</div>
+                <div className="text-xs text-gray-500">enchaînements</div>
+              </div>
+              <div className="h-10 w-px bg-gray-700" />
+              <div className="flex flex-col">
+                <div className="text-2xl font-bold text-amber-400">{bestScore}</div>
+                <div className="text-xs text-gray-500">record</div>
+              </div>
+            </div>
+
+            {/* Feuille des juges (match multi-rounds ou arrêt) */}
+            {(isMultiRound || scorecard?.stoppage) && scorecard && <ScorecardTable scorecard={scorecard} />}
+
+            {/* Message motivant */}
+            <p className="max-w-xs text-sm text-gray-500">{grade.message}</p>
+          </>
+        )}
 
-        {/* Message motivant */}
-        <p className="max-w-xs text-sm text-gray-500">{grade.message}</p>
+        {/* Classement local (mode + adversaire) */}
+        <div className="w-full max-w-xs">
+          <div className="mb-1 text-left text-xs font-bold uppercase tracking-wider text-gray-500">Classement</div>
+          <Leaderboard fightMode={fightMode} opponent={selectedOpponent} highlightId={lastLeaderboardEntryId} />
+        </div>
 
         {/* Bouton rejouer */}
         <button
@@ -95,6 +154,276 @@ export function ResultsScreen() {
   )
 }
 
+/**
+ * Résultats du mode rythme : notes Perfect/Good/Miss et précision
+ */
+function RhythmResultsPanel({ results }: { results: RhythmResults }) {
+  const accuracyPercent = Math.round(results.accuracy * 100)
+  // Même barème que le score, sur la précision (S = sans faute)
+  const grade = getGrade(accuracyPercent)
+
+  return (
+    <>
+      <div className="text-sm font-semibold uppercase tracking-wider text-gray-500">
+        {results.trackName}
+      </div>
+
+      <div
+        className={`text-8xl font-black ${grade.colorClass}`}
+        style={{ textShadow: `0 0 60px ${grade.glowColor}` }}
+      >
+        {grade.letter}
+      </div>
+
+      <div className="flex flex-col items-center gap-1">
+        <div
+          className="font-black text-white"
+          style={{ fontSize: '4rem', lineHeight: 1, textShadow: '0 0 30px rgba(255, 255, 255, 0.3)' }}
+        >
+          {results.score}
+        </div>
+        <div className="text-xl font-semibold text-gray-400">points · {accuracyPercent}% de précision</div>
+      </div>
+
+      <div className="flex gap-6 text-center">
+        <div className="flex flex-col">
+          <div className="text-2xl font-bold text-cyan-300">{results.perfect}</div>
+          <div className="text-xs text-gray-500">perfect</div>
+        </div>
+        <div className="flex flex-col">
+          <div className="text-2xl font-bold text-green-400">{results.good}</div>
+          <div className="text-xs text-gray-500">good</div>
+        </div>
+        <div className="flex flex-col">
+          <div className="text-2xl font-bold text-red-500">{results.miss}</div>
+          <div className="text-xs text-gray-500">miss</div>
+        </div>
+        <div className="h-10 w-px bg-gray-700" />
+        <div className="flex flex-col">
+          <div className="text-2xl font-bold text-amber-400">x{results.maxStreak}</div>
+          <div className="text-xs text-gray-500">série max</div>
+        </div>
+      </div>
+
+      {results.strayPunches > 0 && (
+        <p className="text-xs text-gray-500">
+          {results.strayPunches} coup{results.strayPunches > 1 ? 's' : ''} hors consigne ou dans le vide
+        </p>
+      )}
+
+      <p className="max-w-xs text-sm text-gray-500">{grade.message}</p>
+    </>
+  )
+}
+
+/**
+ * Résultats du drill de précision : précision et réaction par zone + heatmap
+ */
+function TargetDrillResultsPanel({ results }: { results: TargetDrillResults }) {
+  const heatmap = useTargetDrillStore((state) => state.heatmap)
+  const allTimeHeatmap = useTargetDrillStore((state) => state.allTimeHeatmap)
+  const clearAllTimeHeatmap = useTargetDrillStore((state) => state.clearAllTimeHeatmap)
+  const [showAllTime, setShowAllTime] = useState(false)
+
+  const accuracyPercent = Math.round(results.accuracy * 100)
+  const grade = getGrade(accuracyPercent)
+  const zones = DRILL_ZONES.filter((zone) => results.zoneStats[zone].shown > 0)
+
+  return (
+    <>
+      <div
+        className={`text-7xl font-black ${grade.colorClass}`}
+        style={{ textShadow: `0 0 60px ${grade.glowColor}` }}
+      >
+        {grade.letter}
+      </div>
+
+      <div className="flex gap-6 text-center">
+        <div className="flex flex-col">
+          <div className="text-2xl font-bold text-white">{results.targetsHit}/{results.targetsShown}</div>
+          <div className="text-xs text-gray-500">cibles</div>
+        </div>
+        <div className="flex flex-col">
+          <div className="text-2xl font-bold text-cyan-300">{accuracyPercent}%</div>
+          <div className="text-xs text-gray-500">précision</div>
+        </div>
+        <div className="flex flex-col">
+          <div className="text-2xl font-bold text-amber-400">
+            {results.averageReactionMs !== null ? `${Math.round(results.averageReactionMs)}` : '—'}
+          </div>
+          <div className="text-xs text-gray-500">ms moy.</div>
+        </div>
+      </div>
+
+      <div className="flex items-start gap-4">
+        {/* Précision et réaction par zone */}
+        <table className="text-xs text-gray-300">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="pr-3 text-left font-semibold">Zone</th>
+              <th className="px-1 font-semibold">Préc.</th>
+              <th className="px-1 font-semibold">Réac.</th>
+            </tr>
+          </thead>
+          <tbody>
+            {zones.map((zone) => {
+              const stats = results.zoneStats[zone]
+              return (
+                <tr key={zone}>
+                  <td className="pr-3 text-left">{HIT_ZONE_LABELS[zone]}</td>
+                  <td className="px-1 font-mono">
+                    {stats.attempts > 0 ? `${Math.round((stats.hits / stats.attempts) * 100)}%` : '—'}
+                  </td>
+                  <td className="px-1 font-mono">
+                    {stats.hits > 0 ? Math.round(stats.totalReactionMs / stats.hits) : '—'}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+
+        {/* Heatmap des impacts (drill ou toutes les séances) */}
+        <div className="flex flex-col items-center gap-1">
+          <Heatmap cells={showAllTime ? allTimeHeatmap : heatmap} />
+          <div className="flex gap-2 text-[10px]">
+            <button
+              onClick={() => setShowAllTime(!showAllTime)}
+              className="text-gray-400 underline"
+            >
+              {showAllTime ? 'Ce drill' : 'Toutes les séances'}
+            </button>
+            {showAllTime && (
+              <button onClick={clearAllTimeHeatmap} className="text-red-400 underline">
+                Effacer
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <p className="max-w-xs text-sm text-gray-500">{grade.message}</p>
+    </>
+  )
+}
+
+/**
+ * Heatmap des impacts sur la face avant de la tête (ligne 0 = haut)
+ */
+function Heatmap({ cells }: { cells: number[] }) {
+  const max = Math.max(1, ...cells)
+  const cellSize = 10
+
+  return (
+    <svg
+      width={HEATMAP_COLS * cellSize}
+      height={HEATMAP_ROWS * cellSize}
+      className="rounded-lg bg-white/5"
+    >
+      {/* Contour de la tête */}
+      <ellipse
+        cx={(HEATMAP_COLS * cellSize) / 2}
+        cy={(HEATMAP_ROWS * cellSize) / 2}
+        rx={(HEATMAP_COLS * cellSize) / 2 - 4}
+        ry={(HEATMAP_ROWS * cellSize) / 2 - 2}
+        fill="none"
+        stroke="rgba(255,255,255,0.2)"
+      />
+      {cells.map((count, i) => {
+        if (count === 0) return null
+        return (
+          <rect
+            key={i}
+            x={(i % HEATMAP_COLS) * cellSize}
+            y={Math.floor(i / HEATMAP_COLS) * cellSize}
+            width={cellSize}
+            height={cellSize}
+            fill={`rgba(239, 68, 68, ${0.15 + (count / max) * 0.85})`}
+          />
+        )
+      })}
+    </svg>
+  )
+}
+
+/**
+ * Libellés de l'issue du match
+ */
+const RESULT_LABELS: Record<MatchResult, { text: string; colorClass: string }> = {
+  win: { text: 'Victoire', colorClass: 'text-green-400' },
+  loss: { text: 'Défaite', colorClass: 'text-red-500' },
+  draw: { text: 'Match nul', colorClass: 'text-gray-300' },
+}
+
+const DECISION_LABELS: Record<DecisionType, string> = {
+  unanimous: 'décision unanime',
+  split: 'décision partagée',
+  majority: 'décision majoritaire',
+  draw: 'décision des juges',
+  ko: 'par K.O.',
+  tko: 'par K.O. technique',
+}
+
+/**
+ * Feuille de match : scores Joueur-Adversaire par round et par juge (10-point must)
+ */
+function ScorecardTable({ scorecard }: { scorecard: MatchScorecard }) {
+  const resultLabel = RESULT_LABELS[scorecard.result]
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className={`text-xl font-black uppercase tracking-wider ${resultLabel.colorClass}`}>
+        {resultLabel.text}
+        <span className="ml-2 text-xs font-semibold normal-case text-gray-500">
+          {DECISION_LABELS[scorecard.decision]}
+        </span>
+      </div>
+
+      {scorecard.stoppage && (
+        <div className="text-xs text-gray-500">
+          Round {scorecard.stoppage.round} · {scorecard.stoppage.time}s
+        </div>
+      )}
+
+      <table className="text-xs text-gray-300">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="px-2 py-1 text-left font-semibold">Round</th>
+            {JUDGES.map((judge) => (
+              <th key={judge.name} className="px-2 py-1 font-semibold">{judge.name}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {scorecard.rounds.map((round) => (
+            <tr key={round.round} className="border-t border-gray-800">
+              <td className="px-2 py-1 text-left">
+                R{round.round} <span className="text-gray-500">({round.hits} coups)</span>
+                {round.knockdowns > 0 && (
+                  <span className="ml-1 text-amber-400">{'↓'.repeat(round.knockdowns)}</span>
+                )}
+              </td>
+              {round.judges.map((score, i) => (
+                <td key={i} className="px-2 py-1 font-mono">
+                  {score.player}-{score.opponent}
+                </td>
+              ))}
+            </tr>
+          ))}
+          <tr className="border-t border-gray-600 font-bold text-white">
+            <td className="px-2 py-1 text-left">Total</td>
+            {scorecard.totals.map((total, i) => (
+              <td key={i} className="px-2 py-1 font-mono">
+                {total.player}-{total.opponent}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 /**
  * Système de grades basé sur le score
  */
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react'
+import { useRhythmStore, PERFECT_WINDOW } from '../stores'
+import type { PunchType, PunchHand, RhythmGrade } from '../stores'
+
+// Temps d'avance avec lequel une consigne apparaît sur la piste (ms)
+const LOOKAHEAD = 2500
+
+// Durée d'affichage d'une consigne après son temps idéal (ms)
+const TRAIL = 400
+
+// Largeur de la piste et position de la ligne de frappe (px)
+const LANE_WIDTH = 320
+const HIT_LINE_X = 40
+
+/**
+ * Apparence des consignes par type de coup
+ */
+const CUE_STYLES: Record<PunchType, { label: string; colorClass: string }> = {
+  jab: { label: 'J', colorClass: 'bg-red-500' },
+  hook: { label: 'C', colorClass: 'bg-amber-500' },
+  uppercut: { label: 'U', colorClass: 'bg-purple-500' },
+}
+
+/**
+ * Textes de feedback par note
+ */
+const GRADE_LABELS: Record<RhythmGrade, { text: string; colorClass: string }> = {
+  perfect: { text: 'PERFECT!', colorClass: 'text-cyan-300' },
+  good: { text: 'GOOD', colorClass: 'text-green-400' },
+  miss: { text: 'MISS', colorClass: 'text-red-500' },
+}
+
+// Durée d'affichage du feedback (ms)
+const JUDGMENT_DISPLAY = 500
+
+const LANES: { hand: PunchHand; label: string }[] = [
+  { hand: 'left', label: 'G' },
+  { hand: 'right', label: 'D' },
+]
+
+/**
+ * Piste du mode rythme : les consignes défilent vers la ligne de frappe
+ * Une ligne par main, lettre = type de coup (Jab / Crochet / Uppercut)
+ */
+export function RhythmLane() {
+  const cues = useRhythmStore((state) => state.cues)
+  const startTime = useRhythmStore((state) => state.startTime)
+  const streak = useRhythmStore((state) => state.streak)
+  const lastJudgment = useRhythmStore((state) => state.lastJudgment)
+
+  // Horloge locale pour le défilement (rendu à chaque frame)
+  const [now, setNow] = useState(() => performance.now())
+
+  useEffect(() => {
+    if (startTime === null) return
+
+    let frame = requestAnimationFrame(function loop() {
+      setNow(performance.now())
+      frame = requestAnimationFrame(loop)
+    })
+
+    return () => cancelAnimationFrame(frame)
+  }, [startTime])
+
+  if (startTime === null) return null
+
+  const elapsed = now - startTime
+  const pxPerMs = (LANE_WIDTH - HIT_LINE_X) / LOOKAHEAD
+  const visibleCues = cues.filter(
+    (cue) => cue.time - elapsed <= LOOKAHEAD && elapsed - cue.time <= TRAIL
+  )
+  const showJudgment = lastJudgment && Date.now() - lastJudgment.timestamp < JUDGMENT_DISPLAY
+
+  return (
+    <div className="pointer-events-none fixed left-1/2 top-32 z-40 flex -translate-x-1/2 flex-col items-center gap-2">
+      <div
+        className="relative overflow-hidden rounded-xl bg-black/60 backdrop-blur-sm"
+        style={{ width: LANE_WIDTH }}
+      >
+        {/* Ligne de frappe (largeur = fenêtre Perfect) */}
+        <div
+          className="absolute inset-y-0 bg-white/20"
+          style={{
+            left: HIT_LINE_X - PERFECT_WINDOW * pxPerMs,
+            width: PERFECT_WINDOW * 2 * pxPerMs,
+          }}
+        />
+
+        {LANES.map((lane) => (
+          <div key={lane.hand} className="relative h-10 border-b border-white/10 last:border-b-0">
+            <span className="absolute left-1 top-1/2 -translate-y-1/2 text-[10px] font-bold text-gray-500">
+              {lane.label}
+            </span>
+
+            {visibleCues
+              .filter((cue) => cue.hand === lane.hand)
+              .map((cue) => {
+                const style = CUE_STYLES[cue.type]
+                const x = HIT_LINE_X + (cue.time - elapsed) * pxPerMs
+                const isJudged = cue.grade !== null
+
+                return (
+                  <div
+                    key={cue.index}
+                    className={`absolute top-1/2 flex h-8 w-8 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full text-sm font-black text-white ${style.colorClass} ${
+                      isJudged ? 'opacity-30' : ''
+                    } ${cue.grade === 'miss' ? 'grayscale' : ''}`}
+                    style={{ left: x }}
+                  >
+                    {style.label}
+                  </div>
+                )
+              })}
+          </div>
+        ))}
+      </div>
+
+      {/* Feedback de la dernière note + série en cours */}
+      <div className="flex h-8 items-center gap-3">
+        {showJudgment && (
+          <span className={`text-2xl font-black ${GRADE_LABELS[lastJudgment.grade].colorClass}`}>
+            {GRADE_LABELS[lastJudgment.grade].text}
+          </span>
+        )}
+        {streak > 2 && (
+          <span className="rounded-full bg-cyan-500/80 px-3 py-0.5 text-sm font-bold text-white">
+            x{streak}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default RhythmLane
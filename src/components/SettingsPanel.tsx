@@ -1,6 +1,7 @@
-import { useState, useCallback } from 'react'
-import { useGameStore } from '../stores'
-import type { CombatTool, OpponentType, PhysicsPreset, GlovePhysicsMode } from '../stores'
+import { useState, useCallback, useEffect } from 'react'
+import { useGameStore, useKeyBindingsStore, KEY_ACTION_LABELS, formatKeyCode } from '../stores'
+import type { CombatTool, OpponentType, PhysicsPreset, GlovePhysicsMode, KeyAction } from '../stores'
+import type { PhysicsBackendType } from '../physics'
 
 /**
  * Panneau de paramètres regroupé (outils + adversaires)
@@ -17,11 +18,14 @@ export function SettingsPanel() {
   const setPhysicsPreset = useGameStore((state) => state.setPhysicsPreset)
   const glovePhysicsMode = useGameStore((state) => state.glovePhysicsMode)
   const setGlovePhysicsMode = useGameStore((state) => state.setGlovePhysicsMode)
+  const physicsBackend = useGameStore((state) => state.physicsBackend)
+  const setPhysicsBackend = useGameStore((state) => state.setPhysicsBackend)
   const isCustomTexture = useGameStore((state) => state.isCustomTexture)
   const clearTexture = useGameStore((state) => state.clearTexture)
 
   const togglePanel = useCallback(() => {
     setIsOpen((prev) => !prev)
+    useKeyBindingsStore.getState().cancelRebinding()
   }, [])
 
   const tools: { id: CombatTool; name: string; icon: JSX.Element }[] = [
@@ -181,6 +185,19 @@ export function SettingsPanel() {
     },
   ]
 
+  const physicsBackends: { id: PhysicsBackendType; name: string; description: string }[] = [
+    {
+      id: 'ammo',
+      name: 'Ammo.js',
+      description: 'Moteur complet (bras articulés)',
+    },
+    {
+      id: 'rapier',
+      name: 'Rapier',
+      description: 'Plus léger pour les appareils modestes : mur de briques uniquement (gants à ressorts)',
+    },
+  ]
+
   return (
     <div className="pointer-events-auto fixed bottom-4 right-4 flex flex-col items-end gap-2">
       {/* Panneau déplié */}
@@ -294,6 +311,28 @@ export function SettingsPanel() {
                 </button>
               ))}
             </div>
+            {/* Moteur des rigid bodies */}
+            <div className="mt-2 flex gap-2">
+              {physicsBackends.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setPhysicsBackend(option.id)}
+                  className={`rounded-xl px-3 py-1 text-[10px] font-medium transition-all ${
+                    physicsBackend === option.id
+                      ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-500/30'
+                      : 'bg-gray-700/80 text-gray-300 hover:bg-gray-600'
+                  }`}
+                  title={option.description}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+            {physicsBackend === 'rapier' && selectedOpponent !== 'brickwall' && (
+              <p className="mt-1 text-[10px] text-gray-400">
+                Rapier ne simule que le mur de briques : cet adversaire reste sur Ammo.js
+              </p>
+            )}
           </div>
 
           {/* Séparateur */}
@@ -326,6 +365,12 @@ export function SettingsPanel() {
               </span>
             </button>
           </div>
+
+          {/* Séparateur */}
+          <div className="h-px bg-gray-600/50" />
+
+          {/* Section Clavier */}
+          <KeyBindingsSection />
         </div>
       )}
 
@@ -352,4 +397,66 @@ export function SettingsPanel() {
   )
 }
 
+/**
+ * Réassignation des touches du clavier
+ * Cliquer sur une action puis appuyer sur la nouvelle touche (Échap pour annuler)
+ */
+function KeyBindingsSection() {
+  const bindings = useKeyBindingsStore((state) => state.bindings)
+  const rebindingAction = useKeyBindingsStore((state) => state.rebindingAction)
+  const startRebinding = useKeyBindingsStore((state) => state.startRebinding)
+  const resetBindings = useKeyBindingsStore((state) => state.resetBindings)
+
+  // Capturer la prochaine touche pressée
+  useEffect(() => {
+    if (!rebindingAction) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault()
+      const store = useKeyBindingsStore.getState()
+      if (event.code === 'Escape') store.cancelRebinding()
+      else store.setBinding(rebindingAction, event.code)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [rebindingAction])
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-xs font-semibold uppercase tracking-wider text-gray-400">
+          Clavier
+        </span>
+        <button
+          onClick={resetBindings}
+          className="text-[10px] text-gray-500 transition hover:text-gray-300"
+        >
+          Réinitialiser
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+        {(Object.keys(KEY_ACTION_LABELS) as KeyAction[]).map((action) => (
+          <button
+            key={action}
+            onClick={() => startRebinding(action)}
+            className="flex items-center justify-between gap-2 rounded-lg px-2 py-1 text-left transition-all hover:bg-gray-700/80"
+          >
+            <span className="text-[10px] text-gray-300">{KEY_ACTION_LABELS[action]}</span>
+            <kbd
+              className={`min-w-[2rem] rounded px-1.5 py-0.5 text-center text-[10px] font-bold ${
+                rebindingAction === action
+                  ? 'animate-pulse bg-amber-500 text-black'
+                  : 'bg-gray-700 text-white'
+              }`}
+            >
+              {rebindingAction === action ? '...' : formatKeyCode(bindings[action])}
+            </kbd>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
 export default SettingsPanel
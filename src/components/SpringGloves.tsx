@@ -8,6 +8,7 @@ import {
   type SoftBodyState,
 } from '../hooks/useAmmoPhysics'
 import { ImpactManager } from '../stores'
+import { PhysicsClock } from '../systems/PhysicsClock'
 
 /**
  * Génère les points d'un ressort hélicoïdal
@@ -345,17 +346,22 @@ export function SpringGloves({ softBodyState }: SpringGlovesProps) {
     positions.needsUpdate = true
   }, [])
 
-  // Boucle de rendu (pas de stepSimulation ici, c'est fait dans useAmmoPhysics.updatePhysics)
-  useFrame(() => {
+  // Forces de tir à chaque pas de PhysicsClock (Bullet les efface après chaque pas)
+  useEffect(() => {
     if (!initialized) return
+    return PhysicsClock.register('spring-gloves', () => {
+      if (leftCharging) {
+        pullGlove('left-glove', mousePos.current)
+      }
+      if (rightCharging) {
+        pullGlove('right-glove', mousePos.current)
+      }
+    })
+  }, [initialized, leftCharging, rightCharging, pullGlove])
 
-    // Appliquer les forces de tir si en cours de chargement
-    if (leftCharging) {
-      pullGlove('left-glove', mousePos.current)
-    }
-    if (rightCharging) {
-      pullGlove('right-glove', mousePos.current)
-    }
+  // Boucle de rendu (pas de stepSimulation ici, c'est PhysicsClock qui avance le monde de useAmmoPhysics)
+  useFrame(() => {
+    if (!initialized) return
 
     // Synchroniser les meshes et mettre à jour les positions refs
     if (leftGloveRef.current) {
@@ -0,0 +1,306 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react'
+import { useGameStore, useSessionHistoryStore, getHitsPerMinute, getPersonalBests } from '../stores'
+import type { FightMode, OpponentType } from '../stores'
+import type { SessionRoundRecord } from '../systems/SessionHistory'
+import { Leaderboard } from './Leaderboard'
+
+/**
+ * Noms affichés des adversaires
+ */
+const OPPONENT_LABELS: Record<OpponentType, string> = {
+  sphere: 'Sphère',
+  box: 'Box',
+  fluffy: 'Fluffy',
+  littlemac: 'Mac',
+  multipart: 'Multi',
+  brickwall: 'Mur',
+}
+
+/**
+ * Noms affichés des modes
+ */
+const MODE_LABELS: Record<FightMode, string> = {
+  timer: 'Chrono',
+  ko: 'K.O.',
+  rhythm: 'Rythme',
+  target: 'Précision',
+}
+
+/**
+ * Courbes de tendance disponibles
+ */
+type TrendMetric = 'hitsPerMinute' | 'maxCombo' | 'averageStrength'
+
+const TREND_METRICS: { id: TrendMetric; name: string; value: (record: SessionRoundRecord) => number }[] = [
+  { id: 'hitsPerMinute', name: 'Coups/min', value: getHitsPerMinute },
+  { id: 'maxCombo', name: 'Combo max', value: (record) => record.maxCombo },
+  { id: 'averageStrength', name: 'Force moy.', value: (record) => record.averageStrength * 100 },
+]
+
+// Nombre de rounds affichés sur la courbe
+const TREND_MAX_POINTS = 30
+
+// Dimensions du graphique (unités SVG)
+const CHART_WIDTH = 300
+const CHART_HEIGHT = 120
+const CHART_PADDING = 8
+
+interface StatsScreenProps {
+  onClose: () => void
+}
+
+/**
+ * Écran de statistiques : courbes de progression, records par adversaire,
+ * export / import de l'historique (JSON)
+ */
+export function StatsScreen({ onClose }: StatsScreenProps) {
+  const records = useSessionHistoryStore((state) => state.records)
+  const status = useSessionHistoryStore((state) => state.status)
+  const load = useSessionHistoryStore((state) => state.load)
+  const exportHistory = useSessionHistoryStore((state) => state.exportHistory)
+  const importHistory = useSessionHistoryStore((state) => state.importHistory)
+  const clearHistory = useSessionHistoryStore((state) => state.clearHistory)
+  const fightMode = useGameStore((state) => state.fightMode)
+  const selectedOpponent = useGameStore((state) => state.selectedOpponent)
+
+  const [metric, setMetric] = useState<TrendMetric>('hitsPerMinute')
+  const [modeFilter, setModeFilter] = useState<FightMode | 'all'>('all')
+  const [message, setMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const filtered = modeFilter === 'all' ? records : records.filter((record) => record.fightMode === modeFilter)
+  const personalBests = getPersonalBests(filtered)
+  const totalHits = filtered.reduce((sum, record) => sum + record.hits, 0)
+  const leaderboardMode = modeFilter === 'all' ? fightMode : modeFilter
+
+  // Télécharger l'historique
+  const handleExport = async () => {
+    try {
+      const json = await exportHistory()
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `facepuncher-historique-${new Date().toISOString().slice(0, 10)}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('[Stats] Export failed:', error)
+      setMessage("Échec de l'export")
+    }
+  }
+
+  // Importer un fichier exporté (fusion avec l'historique existant)
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const count = await importHistory(await file.text())
+      setMessage(count > 0 ? `${count} rounds importés` : 'Aucun round valide dans ce fichier')
+    } catch (error) {
+      console.error('[Stats] Import failed:', error)
+      setMessage('Fichier invalide')
+    }
+  }
+
+  const handleClear = async () => {
+    if (!window.confirm("Effacer tout l'historique ?")) return
+    await clearHistory()
+    setMessage('Historique effacé')
+  }
+
+  return (
+    <div className="pointer-events-auto fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm">
+      <div className="flex max-h-full w-full max-w-md flex-col gap-4 overflow-y-auto px-6 py-8">
+        {/* En-tête */}
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold uppercase tracking-wider text-white">Statistiques</h1>
+          <button
+            onClick={onClose}
+            className="rounded-full bg-white/10 px-3 py-1 text-sm text-gray-300 transition hover:bg-white/20"
+          >
+            Fermer
+          </button>
+        </div>
+
+        {/* Filtre par mode */}
+        <div className="flex flex-wrap gap-2">
+          {(['all', ...Object.keys(MODE_LABELS)] as (FightMode | 'all')[]).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setModeFilter(mode)}
+              className={`rounded-full px-3 py-1 text-xs font-medium transition-all ${
+                modeFilter === mode
+                  ? 'bg-amber-500/20 text-amber-400 ring-1 ring-amber-500/50'
+                  : 'bg-white/10 text-gray-400 ring-1 ring-white/20'
+              }`}
+            >
+              {mode === 'all' ? 'Tous' : MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+
+        {status === 'loading' && <p className="text-sm text-gray-500">Chargement...</p>}
+        {status === 'error' && <p className="text-sm text-red-400">Historique indisponible</p>}
+
+        {status === 'ready' && filtered.length === 0 && (
+          <p className="text-sm text-gray-500">Aucun round enregistré pour le moment.</p>
+        )}
+
+        {filtered.length > 0 && (
+          <>
+            {/* Résumé */}
+            <div className="flex justify-around text-center">
+              <div className="flex flex-col">
+                <div className="text-2xl font-bold text-white">{filtered.length}</div>
+                <div className="text-xs text-gray-500">rounds</div>
+              </div>
+              <div className="flex flex-col">
+                <div className="text-2xl font-bold text-white">{totalHits}</div>
+                <div className="text-xs text-gray-500">coups</div>
+              </div>
+              <div className="flex flex-col">
+                <div className="text-2xl font-bold text-white">{personalBests.length}</div>
+                <div className="text-xs text-gray-500">adversaires</div>
+              </div>
+            </div>
+
+            {/* Courbe de progression */}
+            <div className="rounded-xl bg-white/5 p-3">
+              <div className="mb-2 flex gap-2">
+                {TREND_METRICS.map((trend) => (
+                  <button
+                    key={trend.id}
+                    onClick={() => setMetric(trend.id)}
+                    className={`rounded-full px-2 py-0.5 text-xs transition-all ${
+                      metric === trend.id ? 'bg-cyan-500/30 text-cyan-300' : 'text-gray-500'
+                    }`}
+                  >
+                    {trend.name}
+                  </button>
+                ))}
+              </div>
+              <TrendChart records={filtered} metric={metric} />
+            </div>
+
+            {/* Records par adversaire */}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500">
+                  <th className="py-1 text-left font-medium">Adversaire</th>
+                  <th className="py-1 font-medium">Rounds</th>
+                  <th className="py-1 font-medium">Coups</th>
+                  <th className="py-1 font-medium">Coups/min</th>
+                  <th className="py-1 font-medium">Combo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {personalBests.map((best) => (
+                  <tr key={best.opponent} className="border-t border-white/10 text-center text-white">
+                    <td className="py-1 text-left">{OPPONENT_LABELS[best.opponent]}</td>
+                    <td className="py-1 text-gray-400">{best.rounds}</td>
+                    <td className="py-1 font-bold text-amber-400">{best.bestHits}</td>
+                    <td className="py-1">{best.bestHitsPerMinute.toFixed(0)}</td>
+                    <td className="py-1">{best.bestCombo}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {/* Classement local (adversaire sélectionné au lobby) */}
+        <div>
+          <div className="mb-1 text-xs font-bold uppercase tracking-wider text-gray-500">
+            Classement {MODE_LABELS[leaderboardMode]} · {OPPONENT_LABELS[selectedOpponent]}
+          </div>
+          <Leaderboard fightMode={leaderboardMode} opponent={selectedOpponent} limit={10} />
+        </div>
+
+        {/* Export / import */}
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleExport}
+            className="rounded-full bg-white/10 px-3 py-1 text-sm text-gray-300 transition hover:bg-white/20"
+          >
+            Exporter
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="rounded-full bg-white/10 px-3 py-1 text-sm text-gray-300 transition hover:bg-white/20"
+          >
+            Importer
+          </button>
+          <button
+            onClick={handleClear}
+            className="rounded-full bg-red-500/10 px-3 py-1 text-sm text-red-400 transition hover:bg-red-500/20"
+          >
+            Effacer
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+
+        {message && <p className="text-xs text-gray-400">{message}</p>}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Courbe d'une métrique sur les derniers rounds (ordre chronologique)
+ */
+function TrendChart({ records, metric }: { records: SessionRoundRecord[]; metric: TrendMetric }) {
+  const trend = TREND_METRICS.find((candidate) => candidate.id === metric) ?? TREND_METRICS[0]
+  if (!trend) return null
+
+  const values = records.slice(-TREND_MAX_POINTS).map(trend.value)
+  const max = Math.max(1, ...values)
+  const stepX = values.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (values.length - 1) : 0
+
+  const points = values.map((value, i) => {
+    const x = values.length > 1 ? CHART_PADDING + i * stepX : CHART_WIDTH / 2
+    const y = CHART_HEIGHT - CHART_PADDING - (value / max) * (CHART_HEIGHT - CHART_PADDING * 2)
+    return { x, y }
+  })
+
+  return (
+    <div className="flex flex-col gap-1">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+        <line
+          x1={CHART_PADDING}
+          x2={CHART_WIDTH - CHART_PADDING}
+          y1={CHART_HEIGHT - CHART_PADDING}
+          y2={CHART_HEIGHT - CHART_PADDING}
+          stroke="rgba(255,255,255,0.2)"
+        />
+        <polyline
+          points={points.map((point) => `${point.x},${point.y}`).join(' ')}
+          fill="none"
+          stroke="#22d3ee"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+        {points.map((point, i) => (
+          <circle key={i} cx={point.x} cy={point.y} r={2.5} fill="#22d3ee" />
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>{values.length} derniers rounds</span>
+        <span>max {max.toFixed(0)}</span>
+      </div>
+    </div>
+  )
+}
+
+export default StatsScreen
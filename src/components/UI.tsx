@@ -1,11 +1,45 @@
-import { useCallback, useRef, useState, type ChangeEvent } from 'react'
-import { useGameStore, useHandTrackingStore } from '../stores'
+import { useCallback, useEffect, useRef, useState, type ChangeEvent } from 'react'
+import { useGameStore, useHandTrackingStore, usePoseStore, useOpponentAIStore, useRhythmStore, useComboChainStore, MAX_ROUNDS, isTrainingMode } from '../stores'
+import type { MatchFormat, FightMode } from '../stores'
 import { FaceCropper } from './FaceCropper'
 import { PunchButtons } from './PunchButtons'
 import { SettingsPanel } from './SettingsPanel'
 import { GameHUD } from './GameHUD'
 import { ResultsScreen } from './ResultsScreen'
+import { StatsScreen } from './StatsScreen'
+import { AchievementsScreen, AchievementToast } from './AchievementsScreen'
+import { ProfilePanel } from './ProfilePanel'
+import { ImpactOverlay } from './ImpactOverlay'
+import { ReplayPanel } from './ReplayPanel'
+import { PhysicsInspectorPanel } from './PhysicsInspectorPanel'
+import { HandTrackingOverlay } from './HandTrackingOverlay'
+import { useOpponentAI } from '../hooks/useOpponentAI'
+import { useDefenseInput } from '../hooks/useDefenseInput'
+import { useKeyboardInput } from '../hooks/useKeyboardInput'
+import { useGamepadInput } from '../hooks/useGamepadInput'
+import { useUnifiedInput } from '../hooks/useUnifiedInput'
+import { useAchievementTracker } from '../hooks/useAchievementTracker'
 import { alignFace } from '../utils/FaceAligner'
+import type { PunchData } from '../hooks/useGestureInput'
+
+/**
+ * Formats de match proposés au lobby
+ */
+const MATCH_FORMAT_OPTIONS: { id: MatchFormat; name: string; description: string }[] = [
+  { id: 'quick', name: 'Rapide', description: '33s' },
+  { id: 'amateur', name: 'Amateur', description: '2 min' },
+  { id: 'pro', name: 'Pro', description: '3 min' },
+]
+
+/**
+ * Modes de combat proposés au lobby
+ */
+const FIGHT_MODE_OPTIONS: { id: FightMode; name: string }[] = [
+  { id: 'timer', name: 'Chrono' },
+  { id: 'ko', name: 'K.O.' },
+  { id: 'rhythm', name: 'Rythme' },
+  { id: 'target', name: 'Précision' },
+]
 
 /**
  * Composant UI overlay (HTML au-dessus du Canvas)
@@ -16,20 +50,84 @@ export function UI() {
   const isCustomTexture = useGameStore((state) => state.isCustomTexture)
   const setTexture = useGameStore((state) => state.setTexture)
   const startFight = useGameStore((state) => state.startFight)
+  const matchFormat = useGameStore((state) => state.matchFormat)
+  const matchConfig = useGameStore((state) => state.matchConfig)
+  const setMatchFormat = useGameStore((state) => state.setMatchFormat)
+  const setTotalRounds = useGameStore((state) => state.setTotalRounds)
+  const fightMode = useGameStore((state) => state.fightMode)
+  const setFightMode = useGameStore((state) => state.setFightMode)
+
+  // Riposte de l'adversaire (IA + défense du joueur)
+  const isOpponentAIEnabled = useOpponentAIStore((state) => state.isEnabled)
+  const setOpponentAIEnabled = useOpponentAIStore((state) => state.setEnabled)
+  useOpponentAI()
+  useDefenseInput()
+  useAchievementTracker()
+
+  // Clavier et manette : même file de coups que les boutons (touches configurables dans SettingsPanel)
+  // (entrée notée sur chaque coup : historique des sessions)
+  const queuePunch = useGameStore((state) => state.queuePunch)
+  useKeyboardInput({
+    onLeftPunch: (data: PunchData) => queuePunch(data.type, 'left', 'keyboard', data.velocity),
+    onRightPunch: (data: PunchData) => queuePunch(data.type, 'right', 'keyboard', data.velocity),
+  })
+
+  // Mode rythme : séquences chargées depuis le fichier JSON
+  const rhythmTracks = useRhythmStore((state) => state.tracks)
+  const rhythmTracksStatus = useRhythmStore((state) => state.tracksStatus)
+  const selectedTrackId = useRhythmStore((state) => state.selectedTrackId)
+  const selectTrack = useRhythmStore((state) => state.selectTrack)
+  const loadRhythmTracks = useRhythmStore((state) => state.loadTracks)
+  const isRhythmMode = fightMode === 'rhythm'
+
+  useEffect(() => {
+    if (isRhythmMode) loadRhythmTracks()
+  }, [isRhythmMode, loadRhythmTracks])
+
+  // Enchaînements nommés (tous les modes) chargés depuis le fichier JSON
+  const loadComboChains = useComboChainStore((state) => state.loadChains)
+
+  useEffect(() => {
+    loadComboChains()
+  }, [loadComboChains])
 
   // Hand tracking store
   const isCameraEnabled = useHandTrackingStore((state) => state.isCameraEnabled)
   const isTracking = useHandTrackingStore((state) => state.isTracking)
   const isCalibrated = useHandTrackingStore((state) => state.isCalibrated)
   const setCameraEnabled = useHandTrackingStore((state) => state.setCameraEnabled)
+  const trackingMode = useHandTrackingStore((state) => state.trackingMode)
+  const setTrackingMode = useHandTrackingStore((state) => state.setTrackingMode)
+  const isPoseEnabled = usePoseStore((state) => state.isPoseEnabled)
+  const setPoseEnabled = usePoseStore((state) => state.setPoseEnabled)
   const resetCalibration = useHandTrackingStore((state) => state.resetCalibration)
 
+  // Caméra (ou enregistrement rejoué) : coups détectés sur les mains, même file que les boutons
+  const isReplaying = useHandTrackingStore((state) => state.isReplaying)
+  const { stance } = useUnifiedInput({
+    touchCallbacks: { onDragEnd: () => {} },
+    cameraCallbacks: {
+      onLeftPunch: (data: PunchData) => queuePunch(data.type, 'left', 'camera', data.velocity),
+      onRightPunch: (data: PunchData) => queuePunch(data.type, 'right', 'camera', data.velocity),
+    },
+    useCameraInput: isCameraEnabled || isReplaying,
+  })
+
+  // Manette : désactivée pendant que la caméra suit les mains (une seule source de coups)
+  const isCameraActive = isCameraEnabled && isTracking
+  useGamepadInput({
+    onLeftPunch: (data: PunchData) => queuePunch(data.type, 'left', 'gamepad', data.velocity),
+    onRightPunch: (data: PunchData) => queuePunch(data.type, 'right', 'gamepad', data.velocity),
+  }, gameState === 'FIGHTING' && !isCameraActive)
+
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [isProcessing, setIsProcessing] = useState(false)
   const [processingStatus, setProcessingStatus] = useState('')
 
   // État pour le cropper
   const [showCropper, setShowCropper] = useState(false)
+  const [showStats, setShowStats] = useState(false)
+  const [showAchievements, setShowAchievements] = useState(false)
   const [rawImageUrl, setRawImageUrl] = useState<string | null>(null)
 
   /**
@@ -124,6 +222,9 @@ export function UI() {
 
   return (
     <div className="pointer-events-none absolute inset-0 flex flex-col">
+      {/* Capture caméra (hand tracking + suivi du corps) */}
+      <HandTrackingOverlay />
+
       {/* Input file caché */}
       <input
         ref={fileInputRef}
@@ -144,6 +245,9 @@ export function UI() {
             <p className="text-sm text-gray-400">Tape sur la tête de quelqu'un</p>
           </div>
 
+          {/* Joueur (profils sur machine partagée) */}
+          <ProfilePanel />
+
           {/* Photo Section - Central Focus */}
           <div className="flex flex-col items-center gap-4">
             {/* Photo Preview - Interactive */}
@@ -212,10 +316,155 @@ export function UI() {
             {isCameraEnabled ? 'Gestes ON' : 'Gestes OFF'}
           </button>
 
+          {/* Thread de détection (worker = moins de saccades sur les machines lentes) */}
+          {isCameraEnabled && (
+            <button
+              onClick={() => setTrackingMode(trackingMode === 'worker' ? 'main' : 'worker')}
+              className="-mt-2 text-xs text-gray-500 transition hover:text-gray-300"
+            >
+              Détection : {trackingMode === 'worker' ? 'worker' : 'thread principal'}
+            </button>
+          )}
+
+          {/* Suivi du corps : esquives au buste, puissance des épaules, coups au corps */}
+          {isCameraEnabled && (
+            <button
+              onClick={() => setPoseEnabled(!isPoseEnabled)}
+              className="-mt-2 text-xs text-gray-500 transition hover:text-gray-300"
+            >
+              Suivi du corps : {isPoseEnabled ? 'activé' : 'désactivé'}
+              {stance && ` · ${stance === 'orthodox' ? 'garde orthodoxe' : 'fausse garde'}`}
+            </button>
+          )}
+
+          {/* Match Format - Segmented (durée fixée par la séquence en mode rythme) */}
+          <div className="flex w-full max-w-xs flex-col gap-2">
+            {!isRhythmMode && (
+              <div className="flex gap-2">
+                {MATCH_FORMAT_OPTIONS.map((format) => (
+                  <button
+                    key={format.id}
+                    onClick={() => setMatchFormat(format.id)}
+                    className={`flex flex-1 flex-col items-center rounded-xl px-2 py-2 transition-all ${
+                      matchFormat === format.id
+                        ? 'bg-amber-500/20 text-amber-400 ring-1 ring-amber-500/50'
+                        : 'bg-white/10 text-gray-400 ring-1 ring-white/20 active:bg-white/20'
+                    }`}
+                  >
+                    <span className="text-sm font-bold">{format.name}</span>
+                    <span className="text-[10px]">{format.description}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Nombre de rounds (un seul round en mode entraînement) */}
+            {!isTrainingMode(fightMode) && (
+              <div className="flex items-center justify-center gap-3 text-sm text-gray-400">
+                <button
+                  onClick={() => setTotalRounds(matchConfig.totalRounds - 1)}
+                  disabled={matchConfig.totalRounds <= 1}
+                  className="h-8 w-8 rounded-full bg-white/10 font-bold text-white transition active:bg-white/20 disabled:opacity-30"
+                >
+                  −
+                </button>
+                <span className="min-w-[6rem] text-center font-semibold text-white">
+                  {matchConfig.totalRounds} round{matchConfig.totalRounds > 1 ? 's' : ''}
+                </span>
+                <button
+                  onClick={() => setTotalRounds(matchConfig.totalRounds + 1)}
+                  disabled={matchConfig.totalRounds >= MAX_ROUNDS}
+                  className="h-8 w-8 rounded-full bg-white/10 font-bold text-white transition active:bg-white/20 disabled:opacity-30"
+                >
+                  +
+                </button>
+              </div>
+            )}
+
+            {/* Mode de combat */}
+            <div className="flex gap-2">
+              {FIGHT_MODE_OPTIONS.map((mode) => (
+                <button
+                  key={mode.id}
+                  onClick={() => setFightMode(mode.id)}
+                  className={`flex-1 rounded-full px-3 py-1 text-sm font-medium transition-all ${
+                    fightMode === mode.id
+                      ? 'bg-red-500/20 text-red-400 ring-1 ring-red-500/50'
+                      : 'bg-white/10 text-gray-400 ring-1 ring-white/20 active:bg-white/20'
+                  }`}
+                >
+                  {mode.name}
+                </button>
+              ))}
+            </div>
+
+            {/* Drill de précision : zones sur la tête de l'adversaire choisi */}
+            {fightMode === 'target' && (
+              <p className="text-center text-xs text-gray-500">
+                Touche la zone allumée sur l'adversaire
+              </p>
+            )}
+
+            {/* Séquence du mode rythme */}
+            {isRhythmMode && (
+              <div className="flex flex-wrap justify-center gap-2">
+                {rhythmTracksStatus === 'loading' && (
+                  <span className="text-xs text-gray-500">Chargement des séquences...</span>
+                )}
+                {rhythmTracksStatus === 'error' && (
+                  <span className="text-xs text-red-400">Séquences indisponibles</span>
+                )}
+                {rhythmTracks.map((track) => (
+                  <button
+                    key={track.id}
+                    onClick={() => selectTrack(track.id)}
+                    className={`flex flex-col items-center rounded-xl px-3 py-1 transition-all ${
+                      selectedTrackId === track.id
+                        ? 'bg-cyan-500/20 text-cyan-300 ring-1 ring-cyan-500/50'
+                        : 'bg-white/10 text-gray-400 ring-1 ring-white/20 active:bg-white/20'
+                    }`}
+                  >
+                    <span className="text-sm font-bold">{track.name}</span>
+                    <span className="text-[10px]">{track.bpm} BPM</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Riposte de l'adversaire */}
+            <button
+              onClick={() => setOpponentAIEnabled(!isOpponentAIEnabled)}
+              className={`rounded-full px-3 py-1 text-sm font-medium transition-all ${
+                isOpponentAIEnabled
+                  ? 'bg-red-500/20 text-red-400 ring-1 ring-red-500/50'
+                  : 'bg-white/10 text-gray-400 ring-1 ring-white/20 active:bg-white/20'
+              }`}
+            >
+              {isOpponentAIEnabled ? 'Riposte ON' : 'Riposte OFF'}
+            </button>
+
+            {/* Historique des sessions */}
+            <button
+              onClick={() => setShowStats(true)}
+              className="rounded-full bg-white/10 px-3 py-1 text-sm font-medium text-gray-400 ring-1 ring-white/20 transition-all active:bg-white/20"
+            >
+              Statistiques
+            </button>
+
+            {/* Succès et contenus débloqués */}
+            <button
+              onClick={() => setShowAchievements(true)}
+              className="rounded-full bg-white/10 px-3 py-1 text-sm font-medium text-gray-400 ring-1 ring-white/20 transition-all active:bg-white/20"
+            >
+              Succès
+            </button>
+          </div>
+
           {/* Fight Button - Large and Prominent */}
           <button
             onClick={startFight}
-            className="group relative w-full max-w-xs overflow-hidden rounded-2xl bg-gradient-to-r from-red-600 via-red-500 to-orange-500 py-4 text-xl font-black uppercase tracking-wider text-white shadow-lg shadow-red-500/30 transition-all duration-300 active:scale-95 sm:py-5 sm:text-2xl"
+            disabled={isRhythmMode && !selectedTrackId}
+            className="group relative w-full max-w-xs overflow-hidden rounded-2xl bg-gradient-to-r from-red-600 via-red-500 to-orange-500 py-4 text-xl font-black uppercase tracking-wider text-white shadow-lg shadow-red-500/30 transition-all duration-300 active:scale-95 disabled:opacity-40 sm:py-5 sm:text-2xl"
           >
             {/* Shine effect */}
             <div className="absolute inset-0 -translate-x-full bg-gradient-to-r from-transparent via-white/20 to-transparent transition-transform duration-700 group-hover:translate-x-full" />
@@ -230,12 +479,15 @@ export function UI() {
         </div>
       )}
 
-      {/* COUNTDOWN et FIGHTING - HUD */}
-      {(gameState === 'COUNTDOWN' || gameState === 'FIGHTING') && (
+      {/* COUNTDOWN, FIGHTING, KNOCKDOWN et BETWEEN_ROUNDS - HUD */}
+      {(gameState === 'COUNTDOWN' || gameState === 'FIGHTING' || gameState === 'KNOCKDOWN' || gameState === 'BETWEEN_ROUNDS') && (
         <>
-          {/* GameHUD (timer, score, countdown) */}
+          {/* GameHUD (timer, score, countdown, knockdown, repos) */}
           <GameHUD />
 
+          {/* Effets d'impact (coups portés et encaissés) */}
+          <ImpactOverlay />
+
           {/* Indicateur de tracking caméra (en bas du score, donc à droite) */}
           {isCameraEnabled && gameState === 'FIGHTING' && (
             <div className="pointer-events-auto absolute right-4 top-28 flex items-center gap-2">
@@ -278,6 +530,21 @@ export function UI() {
       {/* Écran de résultats */}
       <ResultsScreen />
 
+      {/* Écran de statistiques (lobby) */}
+      {showStats && gameState === 'LOBBY' && <StatsScreen onClose={() => setShowStats(false)} />}
+
+      {/* Écran des succès (lobby) */}
+      {showAchievements && gameState === 'LOBBY' && <AchievementsScreen onClose={() => setShowAchievements(false)} />}
+
+      {/* Notification de succès débloqué */}
+      <AchievementToast />
+
+      {/* Relecture d'enregistrements du hand tracking (dev) */}
+      {import.meta.env.DEV && <ReplayPanel />}
+
+      {/* Inspection et rendu de debug de la physique (dev) */}
+      {import.meta.env.DEV && <PhysicsInspectorPanel />}
+
       {/* Modal de crop */}
       {showCropper && rawImageUrl && (
         <FaceCropper
@@ -1,6 +1,7 @@
 import { createContext, useContext, useRef, useCallback, type ReactNode } from 'react'
 import gsap from 'gsap'
 import type { Object3D, Camera } from 'three'
+import { useGameStore, getStaminaEfficiency } from '../stores'
 import type { PunchType } from '../stores'
 
 // Type pour les gants (peut être Group ou Mesh)
@@ -207,11 +208,16 @@ export function AnimationProvider({ children }: { children: ReactNode }) {
       const duration = config.duration * (1 - velocity * 0.3)
       const directionX = hand === 'left' ? -config.targetX : config.targetX
 
+      // Coup lancé (endurance, mode rythme) : la fatigue ralentit l'animation
+      // (endurance relue après la dépense du coup)
+      useGameStore.getState().throwPunch(type, hand)
+      const efficiency = getStaminaEfficiency(useGameStore.getState().stamina)
       const tl = gsap.timeline({
         onComplete: () => {
           isAnimating.current = false
         },
       })
+      tl.timeScale(efficiency)
 
       // Phase 1: Coup vers l'avant
       tl.to(glove.position, {
@@ -7,10 +7,39 @@ export { usePunchAnimation } from './usePunchAnimation'
 
 export { useHandTracking } from './useHandTracking'
 
+export { usePoseTracking } from './usePoseTracking'
+
 export { useUnifiedInput } from './useUnifiedInput'
 export type { CameraInputCallbacks } from './useUnifiedInput'
 
 export { useHandTrackingLogger } from './useHandTrackingLogger'
 
+export { useHandTrackingReplay } from './useHandTrackingReplay'
+
+export { useOpponentAI } from './useOpponentAI'
+
+export { useDefenseInput } from './useDefenseInput'
+
+export { useKeyboardInput } from './useKeyboardInput'
+export type { KeyboardPunchCallbacks } from './useKeyboardInput'
+
+export { useGamepadInput, detectGamepadPunches, createGamepadReadState } from './useGamepadInput'
+export type { GamepadInputCallbacks, GamepadReadState, GamepadPunch } from './useGamepadInput'
+
 export { useAmmoPhysics } from './useAmmoPhysics'
 export type { AmmoPhysicsConfig, SoftBodyState } from './useAmmoPhysics'
+
+export { usePhysicsBackend } from './usePhysicsBackend'
+
+export { usePhysicsClock } from './usePhysicsClock'
+
+export { usePhysicsRewind } from './usePhysicsRewind'
+
+export { useRoundStart } from './useRoundStart'
+
+export { useAchievementTracker } from './useAchievementTracker'
+
+export { useXPBDWorker } from './useXPBDWorker'
+
+export { useJellyBodyPart } from './useJellyBodyPart'
+export type { JellyBodyPartOptions } from './useJellyBodyPart'
@@ -0,0 +1,28 @@
+import { useEffect } from 'react'
+import { useAchievementStore, useGameStore } from '../stores'
+import { GameEvents } from '../systems/GameEvents'
+
+/**
+ * Hook qui relie les événements de jeu au moteur de succès
+ * - Charge les définitions (succès + contenus débloquables)
+ * - Transmet les événements de GameEvents à useAchievementStore
+ *
+ * Les événements du lobby (clics sur la tête, mur qui tombe...) ne comptent pas
+ * Monté une seule fois dans l'UI (pas de re-render : lecture via getState())
+ */
+export function useAchievementTracker(): void {
+  const loadDefinitions = useAchievementStore((state) => state.loadDefinitions)
+
+  useEffect(() => {
+    loadDefinitions()
+  }, [loadDefinitions])
+
+  useEffect(() => {
+    return GameEvents.subscribe((event) => {
+      if (useGameStore.getState().gameState === 'LOBBY') return
+      useAchievementStore.getState().handleEvent(event)
+    })
+  }, [])
+}
+
+export default useAchievementTracker
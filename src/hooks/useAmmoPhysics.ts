@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
 import * as THREE from 'three'
+import { PhysicsClock } from '../systems/PhysicsClock'
 
 /**
  * Déclaration du type Ammo global
@@ -31,6 +32,7 @@ export interface SoftBodyState {
   indexAssociation: number[][]
   gravityDisabled?: boolean // Si true, applique une force anti-gravité
   mass?: number // Masse totale du soft body
+  previousNodes?: Float32Array // Nodes avant le dernier pas (interpolation de rendu)
 }
 
 /**
@@ -74,6 +76,50 @@ const softBodiesGlobal: SoftBodyState[] = []
 const rigidBodiesGlobal: Map<string, RigidBodyState> = new Map()
 const readyCallbacks: Array<() => void> = []
 
+// Horloge : un seul stepper pour le monde partagé, tant qu'un composant l'utilise
+let clockUsers = 0
+let unregisterClock: (() => void) | null = null
+
+/**
+ * Un pas fixe du monde partagé (appelé par PhysicsClock)
+ */
+function stepWorld(fixedDeltaTime: number): void {
+  if (!physicsWorldInstance) return
+
+  // État avant le dernier pas de la frame, pour l'interpolation de rendu
+  if (PhysicsClock.isLastSubStep) {
+    for (const state of softBodiesGlobal) {
+      const numNodes = state.indexAssociation.length
+      const previous = state.previousNodes?.length === numNodes * 3 ? state.previousNodes : new Float32Array(numNodes * 3)
+      const nodes = state.softBody.get_m_nodes()
+      for (let i = 0; i < numNodes; i++) {
+        const nodePos = nodes.at(i).get_m_x()
+        previous[i * 3] = nodePos.x()
+        previous[i * 3 + 1] = nodePos.y()
+        previous[i * 3 + 2] = nodePos.z()
+      }
+      state.previousNodes = previous
+    }
+  }
+
+  // Un seul pas de durée fixe (maxSubSteps = 0 : pas d'accumulateur ni d'interpolation Bullet)
+  physicsWorldInstance.stepSimulation(fixedDeltaTime, 0)
+}
+
+/**
+ * Enregistrer le monde partagé auprès de PhysicsClock (compté par composant)
+ * @returns Fonction de libération
+ */
+function acquireClock(): () => void {
+  if (clockUsers++ === 0) unregisterClock = PhysicsClock.register('ammo-physics-world', stepWorld)
+  return () => {
+    if (--clockUsers === 0) {
+      unregisterClock?.()
+      unregisterClock = null
+    }
+  }
+}
+
 // Groupes de collision
 export const COLLISION_GROUPS = {
   GLOVES: 1,       // 0b0001
@@ -223,6 +269,12 @@ export function useAmmoPhysics(_config: Partial<AmmoPhysicsConfig> = {}) {
     }
   }, [])
 
+  // Monde avancé par pas fixes par l'horloge physique
+  useEffect(() => {
+    if (!isReady) return
+    return acquireClock()
+  }, [isReady])
+
   /**
    * Traiter une géométrie pour créer les données ammo
    */
@@ -1009,15 +1061,14 @@ export function useAmmoPhysics(_config: Partial<AmmoPhysicsConfig> = {}) {
   }, [])
 
   /**
-   * Mettre à jour la physique et synchroniser les meshes
+   * Synchroniser les meshes des soft bodies, interpolés entre les deux derniers pas
+   * À appeler dans useFrame : le monde est avancé par PhysicsClock
    */
-  const updatePhysics = useCallback((deltaTime: number) => {
-    const physicsWorld = physicsWorldRef.current
-    if (!physicsWorld) return
-
-    physicsWorld.stepSimulation(deltaTime, 5)  // Réduit de 10 à 5 pour perf
+  const syncMeshes = useCallback(() => {
+    if (!physicsWorldRef.current) return
+    const alpha = PhysicsClock.alpha
 
-    for (const { mesh, softBody, indexAssociation } of softBodiesGlobal) {
+    for (const { mesh, softBody, indexAssociation, previousNodes } of softBodiesGlobal) {
       const geometry = mesh.geometry
       const positionAttr = geometry.attributes.position
       if (!positionAttr) continue
@@ -1028,13 +1079,19 @@ export function useAmmoPhysics(_config: Partial<AmmoPhysicsConfig> = {}) {
 
       const nodes = softBody.get_m_nodes()
       const numNodes = indexAssociation.length
+      const previous = previousNodes?.length === numNodes * 3 ? previousNodes : undefined
 
       for (let j = 0; j < numNodes; j++) {
         const node = nodes.at(j)
         const nodePos = node.get_m_x()
-        const x = nodePos.x()
-        const y = nodePos.y()
-        const z = nodePos.z()
+        let x = nodePos.x()
+        let y = nodePos.y()
+        let z = nodePos.z()
+        if (previous) {
+          x = previous[j * 3]! + (x - previous[j * 3]!) * alpha
+          y = previous[j * 3 + 1]! + (y - previous[j * 3 + 1]!) * alpha
+          z = previous[j * 3 + 2]! + (z - previous[j * 3 + 2]!) * alpha
+        }
 
         const nodeNormal = node.get_m_n()
         const nx = nodeNormal.x()
@@ -1266,7 +1323,7 @@ export function useAmmoPhysics(_config: Partial<AmmoPhysicsConfig> = {}) {
     rigidBodies: rigidBodiesGlobal,
 
     // Common
-    updatePhysics,
+    syncMeshes,
     cleanup,
   }
 }
@@ -0,0 +1,156 @@
+import { useEffect } from 'react'
+import { useGameStore, useHandTrackingStore, useOpponentAIStore, usePoseStore } from '../stores'
+
+// Pointeur (souris / tactile) : maintien = garde, swipe horizontal rapide = esquive
+const BLOCK_HOLD_DELAY = 250  // Durée de maintien avant de lever la garde (ms)
+const HOLD_MOVE_TOLERANCE = 20 // Mouvement toléré pendant le maintien (px)
+const DODGE_SWIPE_DISTANCE = 80 // Distance horizontale minimum du swipe (px)
+const DODGE_SWIPE_TIME = 300    // Durée maximum du swipe (ms)
+
+// Hand tracking (coordonnées normalisées 0-1)
+const GUARD_RAISE_OFFSET = 0.12 // Poignets plus hauts que la calibration
+const GUARD_Y_UNCALIBRATED = 0.35 // Hauteur de garde sans calibration
+const LEAN_OFFSET = 0.15 // Décalage horizontal moyen des deux mains (buste penché)
+const LEAN_CENTER_UNCALIBRATED = 0.5
+
+// Suivi du corps : décalage de la tête (nez) ou inclinaison du buste qui déclenche une esquive (-1 à 1)
+const HEAD_DODGE_THRESHOLD = 0.6
+const LEAN_DODGE_THRESHOLD = 0.6
+// Accroupissement (0 à 1) qui déclenche une esquive
+const DUCK_DODGE_THRESHOLD = 0.5
+
+/**
+ * Hook de défense du joueur (contre la riposte de l'adversaire)
+ * - Souris / tactile : maintien sur le canvas → garde, swipe horizontal → esquive
+ * - Hand tracking : deux mains levées → garde
+ * - Esquive caméra : décalage de la tête ou du buste, accroupissement (suivi du corps),
+ *   à défaut les deux mains décalées (le buste les entraîne)
+ *
+ * Actif uniquement pendant FIGHTING avec la riposte activée
+ */
+export function useDefenseInput(): void {
+  const gameState = useGameStore((state) => state.gameState)
+  const isEnabled = useOpponentAIStore((state) => state.isEnabled)
+
+  // Souris / tactile
+  useEffect(() => {
+    if (!isEnabled || gameState !== 'FIGHTING') return
+
+    let holdTimer: ReturnType<typeof setTimeout> | null = null
+    let start: { x: number; y: number; time: number } | null = null
+
+    const clearHold = () => {
+      if (holdTimer) {
+        clearTimeout(holdTimer)
+        holdTimer = null
+      }
+    }
+
+    const handlePointerDown = (event: PointerEvent) => {
+      // Ignorer les clics sur les éléments UI
+      const target = event.target as HTMLElement
+      if (target.tagName !== 'CANVAS') return
+
+      start = { x: event.clientX, y: event.clientY, time: performance.now() }
+      clearHold()
+      holdTimer = setTimeout(() => {
+        useOpponentAIStore.getState().setBlocking(true)
+      }, BLOCK_HOLD_DELAY)
+    }
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!start) return
+
+      const dx = event.clientX - start.x
+      const dy = event.clientY - start.y
+
+      // Un mouvement annule le maintien (sauf si la garde est déjà levée)
+      if (Math.hypot(dx, dy) > HOLD_MOVE_TOLERANCE) clearHold()
+
+      // Swipe horizontal rapide → esquive du côté du swipe
+      const elapsed = performance.now() - start.time
+      if (elapsed <= DODGE_SWIPE_TIME && Math.abs(dx) >= DODGE_SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+        useOpponentAIStore.getState().startDodge(dx < 0 ? 'left' : 'right')
+        start = null
+      }
+    }
+
+    const handlePointerUp = () => {
+      clearHold()
+      start = null
+      useOpponentAIStore.getState().setBlocking(false)
+    }
+
+    window.addEventListener('pointerdown', handlePointerDown)
+    window.addEventListener('pointermove', handlePointerMove)
+    window.addEventListener('pointerup', handlePointerUp)
+    window.addEventListener('pointercancel', handlePointerUp)
+
+    return () => {
+      clearHold()
+      window.removeEventListener('pointerdown', handlePointerDown)
+      window.removeEventListener('pointermove', handlePointerMove)
+      window.removeEventListener('pointerup', handlePointerUp)
+      window.removeEventListener('pointercancel', handlePointerUp)
+      useOpponentAIStore.getState().setBlocking(false)
+    }
+  }, [isEnabled, gameState])
+
+  // Hand tracking (lecture via subscribe, pas de re-render)
+  useEffect(() => {
+    if (!isEnabled || gameState !== 'FIGHTING') return
+
+    const unsubscribe = useHandTrackingStore.subscribe((state) => {
+      const leftWrist = state.leftHand?.landmarks[0]
+      const rightWrist = state.rightHand?.landmarks[0]
+      if (!(state.isCameraEnabled || state.isReplaying) || !leftWrist || !rightWrist) return
+
+      const ai = useOpponentAIStore.getState()
+
+      // Garde : les deux poignets levés (y vers le haut = plus petit)
+      const leftGuardY = state.leftCalibration
+        ? state.leftCalibration.y - GUARD_RAISE_OFFSET
+        : GUARD_Y_UNCALIBRATED
+      const rightGuardY = state.rightCalibration
+        ? state.rightCalibration.y - GUARD_RAISE_OFFSET
+        : GUARD_Y_UNCALIBRATED
+      ai.setBlocking(leftWrist.y < leftGuardY && rightWrist.y < rightGuardY)
+
+      // Esquive sans suivi du corps : les deux mains suivent le buste quand il se penche
+      // (corps détecté : la tête est mesurée directement, voir plus bas)
+      if (usePoseStore.getState().metrics) return
+      const center = (leftWrist.x + rightWrist.x) / 2
+      const calibratedCenter = state.leftCalibration && state.rightCalibration
+        ? (state.leftCalibration.x + state.rightCalibration.x) / 2
+        : LEAN_CENTER_UNCALIBRATED
+      const lean = center - calibratedCenter
+
+      // L'image caméra est en miroir : x croissant = gauche du joueur
+      if (lean > LEAN_OFFSET) ai.startDodge('left')
+      else if (lean < -LEAN_OFFSET) ai.startDodge('right')
+    })
+
+    return () => {
+      unsubscribe()
+      useOpponentAIStore.getState().setBlocking(false)
+    }
+  }, [isEnabled, gameState])
+
+  // Suivi du corps : esquive quand la tête (nez) ou le buste sort de la ligne, ou accroupi
+  useEffect(() => {
+    if (!isEnabled || gameState !== 'FIGHTING') return
+
+    return usePoseStore.subscribe((state) => {
+      const metrics = state.metrics
+      if (!metrics) return
+
+      const ai = useOpponentAIStore.getState()
+      if (metrics.headLean <= -HEAD_DODGE_THRESHOLD || metrics.lean <= -LEAN_DODGE_THRESHOLD) ai.startDodge('left')
+      else if (metrics.headLean >= HEAD_DODGE_THRESHOLD || metrics.lean >= LEAN_DODGE_THRESHOLD) ai.startDodge('right')
+      // Accroupi : esquive du côté où le buste penche
+      else if (metrics.duck >= DUCK_DODGE_THRESHOLD) ai.startDodge(metrics.lean < 0 ? 'left' : 'right')
+    })
+  }, [isEnabled, gameState])
+}
+
+export default useDefenseInput
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { createGamepadReadState, detectGamepadPunches, type GamepadReadState } from './useGamepadInput'
+
+// Cadence de lecture (ms entre deux frames)
+const FRAME_MS = 1000 / 60
+
+interface GamepadInput {
+  leftTrigger?: number
+  rightTrigger?: number
+  leftStick?: [number, number]
+  rightStick?: [number, number]
+}
+
+/**
+ * Faux Gamepad (mapping "standard") : gâchettes en buttons[6]/[7], sticks en axes 0-3
+ */
+function createGamepad({ leftTrigger = 0, rightTrigger = 0, leftStick = [0, 0], rightStick = [0, 0] }: GamepadInput): Gamepad {
+  const buttons = Array.from({ length: 8 }, () => ({ value: 0, pressed: false, touched: false }))
+  buttons[6] = { value: leftTrigger, pressed: leftTrigger > 0, touched: leftTrigger > 0 }
+  buttons[7] = { value: rightTrigger, pressed: rightTrigger > 0, touched: rightTrigger > 0 }
+  return { buttons, axes: [...leftStick, ...rightStick], connected: true } as unknown as Gamepad
+}
+
+/**
+ * Rejoue une suite d'entrées (une par frame) et retourne tous les coups détectés
+ */
+function play(inputs: GamepadInput[], state: GamepadReadState = createGamepadReadState(), start = 1000) {
+  return inputs.flatMap((input, i) => detectGamepadPunches(createGamepad(input), state, start + i * FRAME_MS))
+}
+
+describe('detectGamepadPunches', () => {
+  it('fires a jab at the trigger peak with the peak as velocity', () => {
+    const punches = play([
+      { rightTrigger: 0.2 },
+      { rightTrigger: 0.5 },
+      { rightTrigger: 0.8 },
+      { rightTrigger: 0.8 },
+      { rightTrigger: 0.6 },
+    ])
+
+    expect(punches).toEqual([{ type: 'jab', hand: 'right', velocity: 0.8 }])
+  })
+
+  it('ignores a trigger press below the threshold', () => {
+    const punches = play([{ leftTrigger: 0.2 }, { leftTrigger: 0.25 }, { leftTrigger: 0.25 }, { leftTrigger: 0 }])
+
+    expect(punches).toEqual([])
+  })
+
+  it('turns a sideways stick flick into a hook', () => {
+    const punches = play([{ leftStick: [0, 0] }, { leftStick: [-0.5, 0] }, { leftStick: [-1, 0] }])
+
+    expect(punches).toHaveLength(1)
+    expect(punches[0]).toMatchObject({ type: 'hook', hand: 'left' })
+    expect(punches[0]?.velocity).toBeGreaterThan(0.3)
+  })
+
+  it('turns an upward stick flick into an uppercut', () => {
+    const punches = play([{ rightStick: [0, 0] }, { rightStick: [0, -0.5] }, { rightStick: [0, -1] }])
+
+    expect(punches).toHaveLength(1)
+    expect(punches[0]).toMatchObject({ type: 'uppercut', hand: 'right' })
+  })
+
+  it('does not punch on a slow stick move', () => {
+    // Centre → bord en ~300 ms : au-delà de stickFlickMaxTime
+    const slow = Array.from({ length: 20 }, (_, i): GamepadInput => ({ leftStick: [-(0.3 + i * 0.035), 0] }))
+    const punches = play([{ leftStick: [0, 0] }, ...slow])
+
+    expect(punches).toEqual([])
+  })
+
+  it('holds back a press inside the per-hand cooldown until it ends', () => {
+    const state = createGamepadReadState()
+    // Jab droit, puis crochet du stick droit pendant le cooldown
+    const first = play([{ rightTrigger: 0.6 }, { rightTrigger: 0.6 }], state, 1000)
+    const during = play([{ rightTrigger: 0 }, { rightStick: [0.5, 0] }, { rightStick: [1, 0] }], state, 1040)
+    // Stick toujours au bord après le cooldown : le crochet part
+    const after = play([{ rightStick: [1, 0] }], state, 1200)
+
+    expect(first).toEqual([{ type: 'jab', hand: 'right', velocity: 0.6 }])
+    expect(during).toEqual([])
+    expect(after).toHaveLength(1)
+    expect(after[0]).toMatchObject({ type: 'hook', hand: 'right' })
+  })
+
+  it('keeps the cooldown per hand', () => {
+    const punches = play([
+      { leftTrigger: 0.7, rightTrigger: 0.7 },
+      { leftTrigger: 0.7, rightTrigger: 0.7 },
+    ])
+
+    expect(punches).toEqual([
+      { type: 'jab', hand: 'left', velocity: 0.7 },
+      { type: 'jab', hand: 'right', velocity: 0.7 },
+    ])
+  })
+})
@@ -0,0 +1,252 @@
+import { useEffect, useRef, useState } from 'react'
+import { ImpactManager } from '../systems/ImpactManager'
+import type { PunchData } from './useGestureInput'
+import type { PunchType, PunchHand } from '../stores'
+
+/**
+ * Seuils pour la détection de coup à la manette (mapping "standard")
+ */
+const GAMEPAD_CONFIG = {
+  // Gâchettes (LT = buttons[6], RT = buttons[7]) → jab
+  triggerThreshold: 0.3, // Course minimum pour déclencher un coup
+  triggerRelease: 0.1,   // Course sous laquelle la gâchette est relâchée
+  // Sticks (gauche = axes 0/1, droit = axes 2/3) → crochet / uppercut
+  stickDeadzone: 0.25,   // Stick considéré au centre en dessous
+  stickFlickMagnitude: 0.9, // Amplitude à atteindre pour un coup
+  stickFlickMaxTime: 200,   // Durée maximum du mouvement centre → bord (ms)
+  stickFlickFastTime: 40,   // Durée d'un mouvement à pleine vitesse (ms)
+  // Délai minimum entre deux coups de la même main (ms)
+  punchCooldown: 150,
+}
+
+/**
+ * Vibration à l'impact
+ */
+const RUMBLE_CONFIG = {
+  duration: 120,   // ms
+  minMagnitude: 0.2,
+}
+
+/**
+ * Position écran des gants au repos (pourcentage 0-1)
+ */
+const GAMEPAD_PUNCH_POSITIONS: Record<PunchHand, [number, number]> = {
+  left: [0.25, 0.65],
+  right: [0.75, 0.65],
+}
+
+/**
+ * État de lecture d'une main (gâchette + stick)
+ */
+interface GamepadHandState {
+  triggerPeak: number       // Course max de la gâchette depuis la pression
+  triggerFired: boolean     // Coup déjà lancé pour cette pression
+  stickLeftCenterAt: number | null // Moment où le stick a quitté le centre
+  stickFired: boolean       // Coup déjà lancé pour ce mouvement
+  lastPunchTime: number
+}
+
+/**
+ * État de lecture d'une manette (conservé entre deux lectures)
+ */
+export interface GamepadReadState {
+  left: GamepadHandState
+  right: GamepadHandState
+}
+
+/**
+ * Coup détecté à la manette
+ */
+export interface GamepadPunch {
+  type: PunchType
+  hand: PunchHand
+  velocity: number // 0-1 : course de la gâchette ou vitesse du stick
+}
+
+export const createGamepadReadState = (): GamepadReadState => ({
+  left: { triggerPeak: 0, triggerFired: false, stickLeftCenterAt: null, stickFired: false, lastPunchTime: 0 },
+  right: { triggerPeak: 0, triggerFired: false, stickLeftCenterAt: null, stickFired: false, lastPunchTime: 0 },
+})
+
+/**
+ * Gâchette : le coup part quand la gâchette arrête d'avancer,
+ * la course atteinte donne la force
+ * Pendant le cooldown (ready = false), la pression reste armée : le coup part à la fin du cooldown
+ */
+function readTrigger(value: number, state: GamepadHandState, ready: boolean): number | null {
+  if (value < GAMEPAD_CONFIG.triggerRelease) {
+    state.triggerPeak = 0
+    state.triggerFired = false
+    return null
+  }
+
+  const isRising = value > state.triggerPeak
+  state.triggerPeak = Math.max(state.triggerPeak, value)
+
+  if (state.triggerFired || isRising || state.triggerPeak < GAMEPAD_CONFIG.triggerThreshold) return null
+  if (!ready) return null
+  state.triggerFired = true
+  return state.triggerPeak
+}
+
+/**
+ * Stick : un mouvement rapide du centre vers le bord lance un coup
+ * (haut → uppercut, côté → crochet), la vitesse du mouvement donne la force
+ * Pendant le cooldown (ready = false), le mouvement reste armé comme pour la gâchette
+ */
+function readStick(
+  x: number,
+  y: number,
+  state: GamepadHandState,
+  now: number,
+  ready: boolean
+): { type: PunchType; velocity: number } | null {
+  const magnitude = Math.hypot(x, y)
+
+  if (magnitude < GAMEPAD_CONFIG.stickDeadzone) {
+    state.stickLeftCenterAt = null
+    state.stickFired = false
+    return null
+  }
+
+  if (state.stickLeftCenterAt === null) state.stickLeftCenterAt = now
+  if (state.stickFired || magnitude < GAMEPAD_CONFIG.stickFlickMagnitude) return null
+  if (!ready) return null
+  state.stickFired = true
+
+  // Trop lent : le joueur déplace le stick, il ne frappe pas
+  const elapsed = now - state.stickLeftCenterAt
+  if (elapsed > GAMEPAD_CONFIG.stickFlickMaxTime) return null
+
+  // Haut = y négatif ; vers le bas : pas de coup
+  const type: PunchType | null = -y > Math.abs(x) ? 'uppercut' : Math.abs(x) >= Math.abs(y) ? 'hook' : null
+  if (!type) return null
+
+  const velocity = Math.min(1, GAMEPAD_CONFIG.stickFlickFastTime / Math.max(elapsed, 1))
+  return { type, velocity: Math.max(velocity, 0.3) }
+}
+
+/**
+ * Lit une manette et retourne les coups détectés depuis la lecture précédente
+ * Fonction pure hors `state` (testable avec un faux Gamepad)
+ */
+export function detectGamepadPunches(gamepad: Gamepad, state: GamepadReadState, now: number): GamepadPunch[] {
+  const punches: GamepadPunch[] = []
+  const inputs: { hand: PunchHand; trigger: number; x: number; y: number }[] = [
+    { hand: 'left', trigger: gamepad.buttons[6]?.value ?? 0, x: gamepad.axes[0] ?? 0, y: gamepad.axes[1] ?? 0 },
+    { hand: 'right', trigger: gamepad.buttons[7]?.value ?? 0, x: gamepad.axes[2] ?? 0, y: gamepad.axes[3] ?? 0 },
+  ]
+
+  for (const { hand, trigger, x, y } of inputs) {
+    const handState = state[hand]
+    // Cooldown entre les coups de la même main (l'état est tout de même mis à jour)
+    const ready = now - handState.lastPunchTime >= GAMEPAD_CONFIG.punchCooldown
+    const triggerVelocity = readTrigger(trigger, handState, ready)
+    const stickPunch = readStick(x, y, handState, now, ready)
+
+    if (stickPunch) {
+      punches.push({ ...stickPunch, hand })
+      handState.lastPunchTime = now
+      // Gâchette pressée en même temps : le jab part après le cooldown
+      if (triggerVelocity !== null) handState.triggerFired = false
+    } else if (triggerVelocity !== null) {
+      punches.push({ type: 'jab', hand, velocity: triggerVelocity })
+      handState.lastPunchTime = now
+    }
+  }
+
+  return punches
+}
+
+/**
+ * Première manette branchée (null si aucune)
+ */
+function getConnectedGamepad(): Gamepad | null {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null
+  return navigator.getGamepads().find((gamepad): gamepad is Gamepad => !!gamepad && gamepad.connected) ?? null
+}
+
+/**
+ * Callbacks pour la manette (même format que useMousePunch)
+ */
+export interface GamepadInputCallbacks {
+  onLeftPunch?: (data: PunchData) => void
+  onRightPunch?: (data: PunchData) => void
+}
+
+/**
+ * Hook pour la manette (Gamepad API)
+ * - Gâchettes → jab (force = course de la gâchette)
+ * - Sticks (mouvement rapide) → crochet / uppercut (force = vitesse du stick)
+ * - Vibration à chaque impact (ImpactManager)
+ *
+ * La Gamepad API n'a pas d'événement par bouton : lecture à chaque frame
+ * @returns true si une manette est branchée
+ */
+export function useGamepadInput(callbacks: GamepadInputCallbacks, enabled = true): boolean {
+  const [isConnected, setIsConnected] = useState(() => getConnectedGamepad() !== null)
+
+  // Callbacks dans une ref pour ne pas relancer la boucle à chaque render
+  const callbacksRef = useRef(callbacks)
+  callbacksRef.current = callbacks
+
+  // Branchement / débranchement
+  useEffect(() => {
+    const handleChange = () => setIsConnected(getConnectedGamepad() !== null)
+    window.addEventListener('gamepadconnected', handleChange)
+    window.addEventListener('gamepaddisconnected', handleChange)
+    return () => {
+      window.removeEventListener('gamepadconnected', handleChange)
+      window.removeEventListener('gamepaddisconnected', handleChange)
+    }
+  }, [])
+
+  // Lecture des coups
+  useEffect(() => {
+    if (!enabled || !isConnected) return
+
+    const state = createGamepadReadState()
+    let frameId = 0
+
+    const poll = () => {
+      const gamepad = getConnectedGamepad()
+      if (gamepad) {
+        for (const punch of detectGamepadPunches(gamepad, state, performance.now())) {
+          const [x, y] = GAMEPAD_PUNCH_POSITIONS[punch.hand]
+          const data: PunchData = {
+            type: punch.type,
+            velocity: punch.velocity,
+            direction: [0, 0],
+            screenPosition: [x * window.innerWidth, y * window.innerHeight],
+          }
+          if (punch.hand === 'left') callbacksRef.current.onLeftPunch?.(data)
+          else callbacksRef.current.onRightPunch?.(data)
+        }
+      }
+      frameId = requestAnimationFrame(poll)
+    }
+
+    frameId = requestAnimationFrame(poll)
+    return () => cancelAnimationFrame(frameId)
+  }, [enabled, isConnected])
+
+  // Vibration à l'impact (proportionnelle à la force)
+  useEffect(() => {
+    if (!enabled || !isConnected) return
+
+    return ImpactManager.subscribe((impact) => {
+      const magnitude = Math.max(RUMBLE_CONFIG.minMagnitude, impact.strength)
+      getConnectedGamepad()?.vibrationActuator?.playEffect('dual-rumble', {
+        duration: RUMBLE_CONFIG.duration,
+        strongMagnitude: magnitude,
+        weakMagnitude: magnitude * 0.5,
+      }).catch(() => {
+        // Manette sans vibration
+      })
+    })
+  }, [enabled, isConnected])
+
+  return isConnected
+}
+
+export default useGamepadInput
@@ -1,11 +1,9 @@
 import { useCallback, useEffect, useRef } from 'react'
-import { useHandTrackingStore, type HandState } from '../stores/useHandTrackingStore'
-import {
-  FilesetResolver,
-  HandLandmarker,
-  type HandLandmarkerResult,
-  type NormalizedLandmark,
-} from '@mediapipe/tasks-vision'
+import { useHandTrackingStore, type HandState, type HandTrackingMode } from '../stores/useHandTrackingStore'
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision'
+import { toDetectedHands, type DetectedHand, type WorkerMessage, type WorkerResponse } from '../workers/handTrackingWorker'
+import { HandLandmarkFilter, type LandmarkFilterSettings } from '../utils/LandmarkFilters'
+import { MEDIAPIPE_BUNDLE_URL, MEDIAPIPE_WASM_URL } from '../utils/MediaPipeAssets'
 
 /**
  * Options pour le hook useHandTracking
@@ -14,6 +12,7 @@ interface UseHandTrackingOptions {
   targetFps?: number // FPS cible pour le tracking (défaut: 30)
   minDetectionConfidence?: number // Confiance minimum pour détecter (défaut: 0.5)
   minTrackingConfidence?: number // Confiance minimum pour tracker (défaut: 0.5)
+  mode?: HandTrackingMode // Thread d'exécution (défaut: réglage du store)
 }
 
 /**
@@ -29,7 +28,7 @@ interface UseHandTrackingReturn {
 }
 
 // Configuration par défaut
-const DEFAULT_OPTIONS: Required<UseHandTrackingOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<UseHandTrackingOptions, 'mode'>> = {
   targetFps: 30,
   minDetectionConfidence: 0.5,
   minTrackingConfidence: 0.5,
@@ -49,25 +48,97 @@ const CAMERA_CONSTRAINTS: MediaStreamConstraints = {
 const VELOCITY_HISTORY_SIZE = 3
 
 /**
- * Interface pour une main détectée
+ * Filtres de lissage d'une main (landmarks image + landmarks monde)
  */
-interface DetectedHand {
-  handedness: 'Left' | 'Right'
-  landmarks: NormalizedLandmark[]
-  worldLandmarks: { x: number; y: number; z: number }[]
+interface HandFilters {
+  landmarks: HandLandmarkFilter
+  world: HandLandmarkFilter
+}
+
+const createHandFilters = (settings: LandmarkFilterSettings): HandFilters => ({
+  landmarks: new HandLandmarkFilter(settings, 'image'),
+  world: new HandLandmarkFilter(settings, 'world'),
+})
+
+// Main perdue : l'historique des filtres n'a plus de sens
+const resetHandFilters = (filters: HandFilters): void => {
+  filters.landmarks.reset()
+  filters.world.reset()
+}
+
+/**
+ * Lisse les landmarks d'une main avant le calcul de position et de vélocité
+ */
+function filterHand(hand: DetectedHand, filters: HandFilters, timestamp: number): DetectedHand {
+  return {
+    handedness: hand.handedness,
+    landmarks: filters.landmarks.apply(hand.landmarks, timestamp),
+    worldLandmarks: filters.world.apply(hand.worldLandmarks, timestamp),
+  }
+}
+
+/**
+ * Crée le worker de hand tracking et attend le chargement du modèle
+ */
+function createHandTrackingWorker(config: Required<Omit<UseHandTrackingOptions, 'mode'>>): Promise<Worker> {
+  // Worker classique : MediaPipe y charge son loader WASM avec importScripts()
+  const worker = new Worker(new URL('../workers/handTrackingWorkerImpl.ts', import.meta.url), { type: 'classic' })
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      worker.removeEventListener('message', handleMessage)
+      worker.removeEventListener('error', handleError)
+    }
+    const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+      if (event.data.type === 'ready') {
+        cleanup()
+        resolve(worker)
+      } else if (event.data.type === 'error') {
+        cleanup()
+        worker.terminate()
+        reject(new Error(event.data.error ?? 'Worker initialization failed'))
+      }
+    }
+    // Script du worker ou bundle MediaPipe introuvable
+    const handleError = (event: ErrorEvent) => {
+      cleanup()
+      worker.terminate()
+      reject(new Error(event.message || 'Worker failed to load'))
+    }
+    worker.addEventListener('message', handleMessage)
+    worker.addEventListener('error', handleError)
+
+    const message: WorkerMessage = {
+      type: 'init',
+      payload: {
+        bundleUrl: MEDIAPIPE_BUNDLE_URL,
+        wasmUrl: MEDIAPIPE_WASM_URL,
+        numHands: 2,
+        minDetectionConfidence: config.minDetectionConfidence,
+        minTrackingConfidence: config.minTrackingConfidence,
+      },
+    }
+    worker.postMessage(message)
+  })
 }
 
 /**
  * Hook pour gérer le hand tracking via MediaPipe
- * Exécute MediaPipe dans le thread principal (utilise WebGL pour l'inférence)
+ * - mode "main" : MediaPipe dans le thread principal (WebGL pour l'inférence)
+ * - mode "worker" : MediaPipe dans un Web Worker, frames transférées en ImageBitmap
+ *   (une seule frame en cours de traitement, les autres ne sont pas capturées)
  */
 export function useHandTracking(
   options: UseHandTrackingOptions = {}
 ): UseHandTrackingReturn {
-  const config = { ...DEFAULT_OPTIONS, ...options }
+  const { mode: modeOverride, ...configOptions } = options
+  const config = { ...DEFAULT_OPTIONS, ...configOptions }
 
   // Refs
   const handLandmarkerRef = useRef<HandLandmarker | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+  const isWorkerBusyRef = useRef<boolean>(false)
+  const activeModeRef = useRef<HandTrackingMode | null>(null)
   const videoRef = useRef<HTMLVideoElement | null>(null)
   const streamRef = useRef<MediaStream | null>(null)
   const animationFrameRef = useRef<number | null>(null)
@@ -79,17 +150,24 @@ export function useHandTracking(
   const leftHandHistoryRef = useRef<{ pos: { x: number; y: number; z: number }; time: number }[]>([])
   const rightHandHistoryRef = useRef<{ pos: { x: number; y: number; z: number }; time: number }[]>([])
 
+  // Lissage des landmarks (un jeu de filtres par main)
+  const filterSettings = useHandTrackingStore((state) => state.filterSettings)
+  const leftHandFiltersRef = useRef<HandFilters>(createHandFilters(filterSettings))
+  const rightHandFiltersRef = useRef<HandFilters>(createHandFilters(filterSettings))
+
   // Store
   const {
     isCameraEnabled,
     isTracking,
     isInitializing,
+    trackingMode,
     setLeftHand,
     setRightHand,
     setCameraPermission,
     setIsTracking,
     setIsInitializing,
   } = useHandTrackingStore()
+  const mode = modeOverride ?? trackingMode
 
   /**
    * Calcule la vélocité à partir de l'historique des positions
@@ -165,7 +243,7 @@ export function useHandTracking(
       updateHistory(history, worldWrist, timestamp)
 
       return {
-        landmarks: hand.landmarks.map((l) => ({ x: l.x, y: l.y, z: l.z })),
+        landmarks: hand.landmarks,
         screenPosition,
         velocity,
         lastUpdate: timestamp,
@@ -178,28 +256,10 @@ export function useHandTracking(
    * Traite les résultats de détection
    */
   const processResults = useCallback(
-    (results: HandLandmarkerResult, timestamp: number) => {
+    (hands: DetectedHand[], timestamp: number) => {
       const screenWidth = window.innerWidth
       const screenHeight = window.innerHeight
 
-      // Convertir les résultats en DetectedHand[]
-      const hands: DetectedHand[] = []
-      if (results.landmarks && results.handednesses) {
-        for (let i = 0; i < results.landmarks.length; i++) {
-          const handedness = results.handednesses[i]?.[0]
-          const landmarks = results.landmarks[i]
-          if (handedness && landmarks) {
-            hands.push({
-              // MediaPipe retourne "Left" ou "Right" du point de vue anatomique de l'utilisateur
-              // Donc "Left" = main gauche de l'utilisateur, pas besoin d'inverser
-              handedness: handedness.categoryName as 'Left' | 'Right',
-              landmarks,
-              worldLandmarks: results.worldLandmarks?.[i] ?? [],
-            })
-          }
-        }
-      }
-
       // Trouver la main gauche et droite
       const leftHand = hands.find((h) => h.handedness === 'Left')
       const rightHand = hands.find((h) => h.handedness === 'Right')
@@ -207,7 +267,7 @@ export function useHandTracking(
       // Convertir et mettre à jour le store
       if (leftHand) {
         const state = detectedHandToState(
-          leftHand,
+          filterHand(leftHand, leftHandFiltersRef.current, timestamp),
           leftHandHistoryRef.current,
           timestamp,
           screenWidth,
@@ -217,11 +277,12 @@ export function useHandTracking(
       } else {
         setLeftHand(null)
         leftHandHistoryRef.current = []
+        resetHandFilters(leftHandFiltersRef.current)
       }
 
       if (rightHand) {
         const state = detectedHandToState(
-          rightHand,
+          filterHand(rightHand, rightHandFiltersRef.current, timestamp),
           rightHandHistoryRef.current,
           timestamp,
           screenWidth,
@@ -231,6 +292,7 @@ export function useHandTracking(
       } else {
         setRightHand(null)
         rightHandHistoryRef.current = []
+        resetHandFilters(rightHandFiltersRef.current)
       }
     },
     [detectedHandToState, setLeftHand, setRightHand]
@@ -244,8 +306,9 @@ export function useHandTracking(
 
     const video = videoRef.current
     const handLandmarker = handLandmarkerRef.current
+    const worker = workerRef.current
 
-    if (!video || !handLandmarker || video.readyState < 2) {
+    if (!video || (!handLandmarker && !worker) || video.readyState < 2) {
       animationFrameRef.current = requestAnimationFrame(detectLoop)
       return
     }
@@ -255,14 +318,34 @@ export function useHandTracking(
 
     // Throttle au FPS cible
     if (now - lastFrameTimeRef.current >= targetInterval) {
-      lastFrameTimeRef.current = now
-
-      try {
-        // Détecter les mains directement (WebGL inference)
-        const results = handLandmarker.detectForVideo(video, now)
-        processResults(results, now)
-      } catch (err) {
-        console.error('[HandTracking] Detection error:', err)
+      if (worker) {
+        // Backpressure : pas de nouvelle frame tant que la précédente n'est pas traitée
+        if (!isWorkerBusyRef.current) {
+          lastFrameTimeRef.current = now
+          isWorkerBusyRef.current = true
+          createImageBitmap(video)
+            .then((bitmap) => {
+              if (workerRef.current !== worker) {
+                bitmap.close()
+                return
+              }
+              const message: WorkerMessage = { type: 'process', payload: bitmap, timestamp: now }
+              worker.postMessage(message, [bitmap])
+            })
+            .catch((err) => {
+              isWorkerBusyRef.current = false
+              console.error('[HandTracking] Frame capture error:', err)
+            })
+        }
+      } else if (handLandmarker) {
+        lastFrameTimeRef.current = now
+        try {
+          // Détecter les mains directement (WebGL inference)
+          const results = handLandmarker.detectForVideo(video, now)
+          processResults(toDetectedHands(results), now)
+        } catch (err) {
+          console.error('[HandTracking] Detection error:', err)
+        }
       }
     }
 
@@ -274,9 +357,7 @@ export function useHandTracking(
    */
   const initializeHandLandmarker = useCallback(async (): Promise<HandLandmarker> => {
     // Charger le fileset (WASM et modèles)
-    const vision = await FilesetResolver.forVisionTasks(
-      'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-    )
+    const vision = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL)
 
     // Créer le HandLandmarker
     const handLandmarker = await HandLandmarker.createFromOptions(vision, {
@@ -317,8 +398,29 @@ export function useHandTracking(
       }
 
       // Initialiser MediaPipe
-      console.log('[HandTracking] Initializing MediaPipe HandLandmarker...')
-      handLandmarkerRef.current = await initializeHandLandmarker()
+      console.log(`[HandTracking] Initializing MediaPipe HandLandmarker (${mode} thread)...`)
+      activeModeRef.current = mode
+      if (mode === 'worker') {
+        const worker = await createHandTrackingWorker(config)
+        worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+          const response = event.data
+          if (response.type === 'result' && response.payload) {
+            isWorkerBusyRef.current = false
+            if (isRunningRef.current) processResults(toDetectedHands(response.payload.results), response.payload.timestamp)
+          } else if (response.type === 'error') {
+            isWorkerBusyRef.current = false
+            console.error('[HandTracking] Worker error:', response.error)
+          }
+        })
+        // Exception non rattrapée dans le worker : la frame en cours ne répondra jamais
+        worker.addEventListener('error', (event) => {
+          isWorkerBusyRef.current = false
+          console.error('[HandTracking] Worker error:', event.message)
+        })
+        workerRef.current = worker
+      } else {
+        handLandmarkerRef.current = await initializeHandLandmarker()
+      }
       console.log('[HandTracking] MediaPipe ready')
 
       // Marquer comme prêt
@@ -346,6 +448,10 @@ export function useHandTracking(
   }, [
     isTracking,
     isInitializing,
+    mode,
+    config.minDetectionConfidence,
+    config.minTrackingConfidence,
+    processResults,
     detectLoop,
     initializeHandLandmarker,
     setCameraPermission,
@@ -371,6 +477,19 @@ export function useHandTracking(
       handLandmarkerRef.current = null
     }
 
+    // Arrêter le worker (libère le modèle puis termine le thread)
+    if (workerRef.current) {
+      const worker = workerRef.current
+      const message: WorkerMessage = { type: 'stop' }
+      worker.postMessage(message)
+      worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+        if (event.data.type === 'stopped') worker.terminate()
+      })
+      workerRef.current = null
+      isWorkerBusyRef.current = false
+    }
+    activeModeRef.current = null
+
     // Arrêter le stream caméra
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((track) => track.stop())
@@ -385,6 +504,8 @@ export function useHandTracking(
     // Reset l'historique
     leftHandHistoryRef.current = []
     rightHandHistoryRef.current = []
+    resetHandFilters(leftHandFiltersRef.current)
+    resetHandFilters(rightHandFiltersRef.current)
 
     // Reset le store
     setLeftHand(null)
@@ -404,6 +525,19 @@ export function useHandTracking(
     }
   }, [isCameraEnabled, isTracking, isInitializing, startTracking, stopTracking])
 
+  // Nouveaux réglages de lissage : repartir de filtres vierges
+  useEffect(() => {
+    leftHandFiltersRef.current = createHandFilters(filterSettings)
+    rightHandFiltersRef.current = createHandFilters(filterSettings)
+  }, [filterSettings])
+
+  // Changement de thread pendant le tracking : redémarrer (l'effet ci-dessus relance)
+  useEffect(() => {
+    if (isTracking && activeModeRef.current && activeModeRef.current !== mode) {
+      stopTracking()
+    }
+  }, [mode, isTracking, stopTracking])
+
   // Cleanup au démontage
   useEffect(() => {
     return () => {
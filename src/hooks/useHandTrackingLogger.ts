@@ -1,5 +1,9 @@
 import { useEffect, useRef, useCallback } from 'react'
 import { useHandTrackingStore, type HandState } from '../stores/useHandTrackingStore'
+import { compareFilters } from '../utils/LandmarkFilters'
+import type { PunchSession } from '../utils/PunchClassifier'
+import type { DataSample, PunchEvent, HandTrackingRecording } from '../utils/HandTrackingReplay'
+import type { PunchHand, PunchType } from '../stores/useGameStore'
 
 /**
  * Configuration du logger
@@ -19,36 +23,6 @@ const LOGGER_CONFIG = {
   maxRecordDuration: 30000,
 }
 
-/**
- * Structure d'un échantillon de données
- */
-interface DataSample {
-  timestamp: number
-  leftHand: {
-    position: { x: number; y: number; z: number } | null
-    screenPosition: { x: number; y: number } | null
-    velocity: { x: number; y: number; z: number } | null
-  }
-  rightHand: {
-    position: { x: number; y: number; z: number } | null
-    screenPosition: { x: number; y: number } | null
-    velocity: { x: number; y: number; z: number } | null
-  }
-}
-
-/**
- * Structure d'un événement de coup
- */
-interface PunchEvent {
-  timestamp: number
-  hand: 'left' | 'right'
-  type: 'jab' | 'hook' | 'uppercut'
-  velocity: number
-  handPosition: { x: number; y: number; z: number }
-  glovePosition: { x: number; y: number }
-  velocityVector: { x: number; y: number; z: number }
-}
-
 /**
  * Hook pour logger et analyser les données du hand tracking
  */
@@ -62,16 +36,20 @@ export function useHandTrackingLogger(enabled: boolean = true) {
   const startTimeRef = useRef<number>(0)
   const isRecordingRef = useRef<boolean>(false)
   const lastLogTimeRef = useRef<number>(0)
+  // Étiquette des coups de la session (entraînement du classifieur)
+  const labelRef = useRef<{ hand: PunchHand; type: PunchType } | null>(null)
 
   /**
    * Démarre l'enregistrement
+   * @param label Coup réellement donné pendant la session (remplace le type détecté à l'export)
    */
-  const startRecording = useCallback(() => {
+  const startRecording = useCallback((label?: { hand: PunchHand; type: PunchType }) => {
     samplesRef.current = []
     punchEventsRef.current = []
+    labelRef.current = label ?? null
     startTimeRef.current = performance.now()
     isRecordingRef.current = true
-    console.log('[HandTrackingLogger] 🎬 Recording started')
+    console.log(`[HandTrackingLogger] 🎬 Recording started${label ? ` (${label.hand} ${label.type})` : ''}`)
   }, [])
 
   /**
@@ -138,6 +116,21 @@ export function useHandTrackingLogger(enabled: boolean = true) {
       console.log(`  Vélocité Z: min=${Math.min(...rightZVelocities).toFixed(4)}, max=${Math.max(...rightZVelocities).toFixed(4)}`)
     }
 
+    // Comparer les filtres de lissage sur la trajectoire du poignet
+    for (const hand of ['leftHand', 'rightHand'] as const) {
+      const trajectory = samples
+        .filter((s) => s[hand].position)
+        .map((s) => ({ position: s[hand].position!, timestamp: s.timestamp }))
+      if (trajectory.length < 3) continue
+      // Tremblement (plus bas = plus lisse) et écart à la trajectoire brute (latence) :
+      // enregistrer avec le lissage "Aucun" pour comparer sur les données brutes
+      console.log(`\n🎚️ LISSAGE ${hand === 'leftHand' ? 'MAIN GAUCHE' : 'MAIN DROITE'}:`)
+      const { filterSettings } = useHandTrackingStore.getState()
+      for (const { type, jitter, lag } of compareFilters(trajectory, filterSettings)) {
+        console.log(`  ${type.padEnd(8)} tremblement=${jitter.toFixed(5)} écart=${lag.toFixed(5)}`)
+      }
+    }
+
     // Analyser les coups
     if (punches.length > 0) {
       console.log('\n👊 COUPS DÉTECTÉS:')
@@ -165,6 +158,47 @@ export function useHandTrackingLogger(enabled: boolean = true) {
     console.log('\n================================\n')
   }, [])
 
+  /**
+   * Exporte l'enregistrement au format d'entraînement du classifieur (JSON)
+   * Voir scripts/punch-classifier.ts
+   */
+  const exportSession = useCallback((): string => {
+    const label = labelRef.current
+    const toPoint = (position: { x: number; y: number; z: number } | null): [number, number, number] | null =>
+      position ? [position.x, position.y, position.z] : null
+
+    const session: PunchSession = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      frames: samplesRef.current.map((sample) => ({
+        t: sample.timestamp,
+        left: toPoint(sample.leftHand.position),
+        right: toPoint(sample.rightHand.position),
+      })),
+      punches: punchEventsRef.current.map((punch) => ({
+        t: punch.timestamp,
+        hand: label?.hand ?? punch.hand,
+        type: label?.type ?? punch.type,
+      })),
+    }
+    return JSON.stringify(session)
+  }, [])
+
+  /**
+   * Exporte l'enregistrement brut pour la relecture (voir useHandTrackingReplay)
+   */
+  const exportRecording = useCallback((): string => {
+    const samples = samplesRef.current
+    const recording: HandTrackingRecording = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      duration: (samples[samples.length - 1]?.timestamp ?? 0) - (samples[0]?.timestamp ?? 0),
+      samples,
+      punches: punchEventsRef.current,
+    }
+    return JSON.stringify(recording)
+  }, [])
+
   /**
    * Log un coup détecté
    */
@@ -209,13 +243,13 @@ export function useHandTrackingLogger(enabled: boolean = true) {
     [enabled, leftHand, rightHand]
   )
 
-  // Logger les positions périodiquement
+  // Enregistrer chaque mise à jour, logger les positions périodiquement
   useEffect(() => {
     if (!enabled || !isTracking || !LOGGER_CONFIG.logPositions) return
 
     const now = performance.now()
-    if (now - lastLogTimeRef.current < LOGGER_CONFIG.positionLogInterval) return
-    lastLogTimeRef.current = now
+    const shouldLog = now - lastLogTimeRef.current >= LOGGER_CONFIG.positionLogInterval
+    if (!shouldLog && !isRecordingRef.current) return
 
     // Créer l'échantillon
     const sample: DataSample = {
@@ -224,6 +258,7 @@ export function useHandTrackingLogger(enabled: boolean = true) {
         position: leftHand?.landmarks[0]
           ? { x: leftHand.landmarks[0].x, y: leftHand.landmarks[0].y, z: leftHand.landmarks[0].z }
           : null,
+        landmarks: leftHand?.landmarks ?? null,
         screenPosition: leftHand?.screenPosition ?? null,
         velocity: leftHand?.velocity ?? null,
       },
@@ -231,6 +266,7 @@ export function useHandTrackingLogger(enabled: boolean = true) {
         position: rightHand?.landmarks[0]
           ? { x: rightHand.landmarks[0].x, y: rightHand.landmarks[0].y, z: rightHand.landmarks[0].z }
           : null,
+        landmarks: rightHand?.landmarks ?? null,
         screenPosition: rightHand?.screenPosition ?? null,
         velocity: rightHand?.velocity ?? null,
       },
@@ -247,6 +283,9 @@ export function useHandTrackingLogger(enabled: boolean = true) {
     }
 
     // Log périodique des positions
+    if (!shouldLog) return
+    lastLogTimeRef.current = now
+
     if (import.meta.env.DEV && LOGGER_CONFIG.logVelocity) {
       const leftInfo = leftHand
         ? `L: z=${leftHand.landmarks[0]?.z.toFixed(4) ?? 'N/A'} vz=${leftHand.velocity.z.toFixed(4)}`
@@ -265,6 +304,8 @@ export function useHandTrackingLogger(enabled: boolean = true) {
     stopRecording,
     logPunch,
     analyzeRecording,
+    exportSession,
+    exportRecording,
     samplesCount: samplesRef.current.length,
     punchesCount: punchEventsRef.current.length,
   }
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react'
+import { useHandTrackingStore } from '../stores/useHandTrackingStore'
+import { useHandTrackingReplayStore } from '../stores/useHandTrackingReplayStore'
+import { parseRecording, sampleHandToState, sampleIndexAt } from '../utils/HandTrackingReplay'
+
+/**
+ * Hook de relecture : rejoue l'enregistrement chargé dans useHandTrackingReplayStore
+ * à travers useHandTrackingStore, comme une caméra virtuelle
+ * - la caméra est coupée pendant la relecture, la réactiver ferme l'enregistrement
+ * - chaque échantillon est publié une seule fois (comme une frame MediaPipe)
+ * - au-delà de la vitesse 1, des échantillons peuvent être sautés
+ */
+export function useHandTrackingReplay(): void {
+  const recording = useHandTrackingReplayStore((state) => state.recording)
+  const isPlaying = useHandTrackingReplayStore((state) => state.isPlaying)
+  const currentTime = useHandTrackingReplayStore((state) => state.currentTime)
+  const isCameraEnabled = useHandTrackingStore((state) => state.isCameraEnabled)
+
+  // Dernier échantillon publié
+  const lastIndexRef = useRef<number>(-1)
+
+  // Enregistrement chargé : remplacer la caméra
+  useEffect(() => {
+    if (!recording) return
+
+    const handTracking = useHandTrackingStore.getState()
+    handTracking.setCameraEnabled(false)
+    handTracking.setIsReplaying(true)
+    lastIndexRef.current = -1
+
+    return () => {
+      const state = useHandTrackingStore.getState()
+      state.setIsReplaying(false)
+      state.setLeftHand(null)
+      state.setRightHand(null)
+    }
+  }, [recording])
+
+  // Caméra réactivée : fin de la relecture
+  useEffect(() => {
+    if (isCameraEnabled && useHandTrackingReplayStore.getState().recording) {
+      useHandTrackingReplayStore.getState().unload()
+    }
+  }, [isCameraEnabled])
+
+  // Avancer le temps de lecture
+  useEffect(() => {
+    if (!isPlaying) return
+
+    let animationFrame = 0
+    let lastTime = performance.now()
+
+    const tick = (now: number) => {
+      const replay = useHandTrackingReplayStore.getState()
+      if (!replay.recording) return
+
+      const next = replay.currentTime + (now - lastTime) * replay.speed
+      lastTime = now
+
+      if (next >= replay.recording.duration) {
+        replay.seek(replay.recording.duration)
+        replay.pause()
+        return
+      }
+      replay.seek(next)
+      animationFrame = requestAnimationFrame(tick)
+    }
+
+    animationFrame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(animationFrame)
+  }, [isPlaying])
+
+  // Publier l'échantillon courant (lecture ou déplacement)
+  useEffect(() => {
+    if (!recording) return
+
+    const index = sampleIndexAt(recording, currentTime)
+    if (index === lastIndexRef.current) return
+    lastIndexRef.current = index
+
+    const sample = recording.samples[index]
+    const handTracking = useHandTrackingStore.getState()
+    const now = performance.now()
+    handTracking.setLeftHand(sample ? sampleHandToState(sample.leftHand, now) : null)
+    handTracking.setRightHand(sample ? sampleHandToState(sample.rightHand, now) : null)
+  }, [recording, currentTime])
+}
+
+/**
+ * Expose la relecture globalement (console, tests de régression automatisés)
+ */
+if (typeof window !== 'undefined' && import.meta.env.DEV) {
+  (window as unknown as Record<string, unknown>).__handTrackingReplay = {
+    load: (json: string, name = 'console') => {
+      const recording = parseRecording(JSON.parse(json))
+      if (recording) useHandTrackingReplayStore.getState().loadRecording(recording, name)
+      return !!recording
+    },
+    getStore: () => useHandTrackingReplayStore.getState(),
+  }
+}
+
+export default useHandTrackingReplay
@@ -1,7 +1,9 @@
 import { useCallback } from 'react'
 import { useThree } from '@react-three/fiber'
 import { Vector3 } from 'three'
-import { useGameStore, ImpactManager } from '../stores'
+import { useGameStore, ImpactManager, getActivePhysicsBackend } from '../stores'
+import { PhysicsSceneManager } from '../systems/PhysicsSceneManager'
+import { getPhysicsBackend } from '../physics'
 import type { PunchData } from './useGestureInput'
 import type { PunchType } from '../stores'
 
@@ -24,6 +26,25 @@ const BASE_DAMAGE = 15
  */
 const CRITICAL_THRESHOLD = 0.85
 
+/**
+ * Catégories physiques frappables (adversaires soft body / rigides, briques)
+ */
+const HIT_CATEGORIES = ['opponent', 'brickwall']
+
+/**
+ * Portée du rayon caméra → adversaire
+ */
+const MAX_HIT_DISTANCE = 50
+
+/**
+ * Briques du mur quand elles sont simulées par Rapier (hors PhysicsSceneManager)
+ */
+function rapierBrickHit(origin: Vector3, direction: Vector3) {
+  const backend = getPhysicsBackend(getActivePhysicsBackend(useGameStore.getState()))
+  if (backend.type !== 'rapier' || !backend.isReady) return null
+  return backend.raycast(origin, direction, MAX_HIT_DISTANCE, 'brickwall')
+}
+
 /**
  * Hook pour gérer la détection des hits et connecter
  * le système d'input aux stores (dégâts + déformation)
@@ -35,7 +56,8 @@ export function useHitDetection() {
   const gameState = useGameStore((state) => state.gameState)
 
   /**
-   * Convertit une position écran en position 3D sur la sphère de l'adversaire
+   * Convertit une position écran en position 3D sur la surface de l'adversaire
+   * (raycast physique : soft body, briques...), plan z=0 si rien n'est touché
    */
   const screenToHitPoint = useCallback(
     (screenX: number, screenY: number): [number, number, number] => {
@@ -49,8 +71,12 @@ export function useHitDetection() {
         .sub(camera.position)
         .normalize()
 
-      // Point d'impact approximatif sur une sphère à z=0 de rayon 1
-      // On simplifie en projetant sur un plan z=0 pour le MVP
+      // Surface réellement touchée (monde Ammo, ou briques Rapier)
+      const hit = PhysicsSceneManager.raycast(camera.position, direction, MAX_HIT_DISTANCE, HIT_CATEGORIES)
+        ?? rapierBrickHit(camera.position, direction)
+      if (hit) return [hit.point.x, hit.point.y, hit.point.z]
+
+      // Aucun adversaire physique sous le doigt : plan z=0
       const t = -camera.position.z / direction.z
       const hitPoint = new Vector3()
         .copy(camera.position)
@@ -0,0 +1,96 @@
+import { useEffect, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { useJellyPhysicsStore } from '../stores/useJellyPhysicsStore'
+
+// Configuration par défaut
+const JELLY_PART_CONFIG = {
+  compliance: 0.00001,     // Assez raide pour revenir au repos après un impact
+  displacementScale: 0.2,  // Les impulsions jelly sont amplifiées : amplitude rendue réduite
+}
+
+/**
+ * Options d'une partie de la tête simulée par le solveur jelly
+ */
+export interface JellyBodyPartOptions {
+  // Position du mesh dans le groupe de la tête (repère des impacts)
+  offset?: [number, number, number]
+  // Vertices fixes (coordonnées locales au mesh) : ancrages de la partie
+  isFixed?: (x: number, y: number, z: number) => boolean
+  // Souplesse des contraintes de distance
+  compliance?: number
+  // Facteur appliqué aux déplacements rendus
+  displacementScale?: number
+}
+
+/**
+ * Hook qui simule les vertices d'une géométrie avec le solveur XPBD jelly
+ *
+ * Les vertices sont ajoutés comme particules au montage (retirés au démontage)
+ * et, à chaque frame, la géométrie suit les déplacements interpolés lus
+ * directement dans le buffer du solveur (getDisplacements, sans copie).
+ *
+ * @param partId ID unique de la partie (ex: 'cranium', 'leftCheek')
+ * @param geometry Géométrie déformée (positions réécrites, repos restauré au démontage)
+ */
+export function useJellyBodyPart(
+  partId: string,
+  geometry: THREE.BufferGeometry,
+  options: JellyBodyPartOptions = {}
+): void {
+  // Positions au repos de la géométrie (null = partie non initialisée)
+  const restPositionsRef = useRef<Float32Array | null>(null)
+
+  // Options lues via ref : les changer ne réinitialise pas la partie
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  useEffect(() => {
+    const attribute = geometry.attributes.position as THREE.BufferAttribute
+    const restPositions = Float32Array.from(attribute.array)
+    const { offset = [0, 0, 0], isFixed, compliance = JELLY_PART_CONFIG.compliance } = optionsRef.current
+    const [ox, oy, oz] = offset
+
+    // Particules dans le repère de la tête
+    const vertices = new Float32Array(restPositions.length)
+    const fixedIndices: number[] = []
+    for (let i = 0; i < restPositions.length; i += 3) {
+      const x = restPositions[i]!
+      const y = restPositions[i + 1]!
+      const z = restPositions[i + 2]!
+      vertices[i] = x + ox
+      vertices[i + 1] = y + oy
+      vertices[i + 2] = z + oz
+      if (isFixed?.(x, y, z)) fixedIndices.push(i / 3)
+    }
+
+    const { initBodyPart, removeBodyPart } = useJellyPhysicsStore.getState()
+    initBodyPart(partId, vertices, { compliance, fixedIndices })
+    restPositionsRef.current = restPositions
+
+    return () => {
+      removeBodyPart(partId)
+      restPositionsRef.current = null
+      attribute.array.set(restPositions)
+      attribute.needsUpdate = true
+    }
+  }, [partId, geometry])
+
+  useFrame(() => {
+    const restPositions = restPositionsRef.current
+    if (!restPositions) return
+
+    const displacements = useJellyPhysicsStore.getState().getDisplacements(partId)
+    if (!displacements || displacements.length !== restPositions.length) return
+
+    const scale = optionsRef.current.displacementScale ?? JELLY_PART_CONFIG.displacementScale
+    const attribute = geometry.attributes.position as THREE.BufferAttribute
+    const positions = attribute.array
+    for (let i = 0; i < restPositions.length; i++) {
+      positions[i] = restPositions[i]! + displacements[i]! * scale
+    }
+    attribute.needsUpdate = true
+  })
+}
+
+export default useJellyBodyPart
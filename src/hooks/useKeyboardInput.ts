@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react'
+import { useGameStore, useKeyBindingsStore, useOpponentAIStore } from '../stores'
+import type { KeyAction, PunchType, PunchHand } from '../stores'
+import type { PunchData } from './useGestureInput'
+
+/**
+ * Coup associé à chaque action de frappe
+ */
+const KEY_PUNCHES: Partial<Record<KeyAction, { type: PunchType; hand: PunchHand }>> = {
+  leftJab: { type: 'jab', hand: 'left' },
+  leftHook: { type: 'hook', hand: 'left' },
+  leftUppercut: { type: 'uppercut', hand: 'left' },
+  rightJab: { type: 'jab', hand: 'right' },
+  rightHook: { type: 'hook', hand: 'right' },
+  rightUppercut: { type: 'uppercut', hand: 'right' },
+}
+
+// Vélocité d'un coup au clavier (même valeur que le clic souris)
+const KEY_PUNCH_VELOCITY = 0.6
+
+// Position écran des gants au repos (pourcentage 0-1)
+const KEY_PUNCH_POSITIONS: Record<PunchHand, [number, number]> = {
+  left: [0.25, 0.65],
+  right: [0.75, 0.65],
+}
+
+/**
+ * Callbacks pour le clavier (même format que useMousePunch)
+ */
+export interface KeyboardPunchCallbacks {
+  onLeftPunch: (data: PunchData) => void
+  onRightPunch: (data: PunchData) => void
+}
+
+/**
+ * Hook pour le contrôle au clavier (touches configurables, voir useKeyBindingsStore)
+ * - Jab / crochet / uppercut de chaque main
+ * - Garde (maintien) et esquives, si la riposte est activée
+ *
+ * Actif uniquement pendant FIGHTING, désactivé pendant la réassignation d'une touche
+ */
+export function useKeyboardInput(callbacks: KeyboardPunchCallbacks): void {
+  const gameState = useGameStore((state) => state.gameState)
+  const isDefenseEnabled = useOpponentAIStore((state) => state.isEnabled)
+
+  // Callbacks dans une ref pour ne pas réabonner à chaque render
+  const callbacksRef = useRef(callbacks)
+  callbacksRef.current = callbacks
+
+  useEffect(() => {
+    if (gameState !== 'FIGHTING') return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Ignorer la saisie de texte et la réassignation en cours
+      const target = event.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
+      if (useKeyBindingsStore.getState().rebindingAction) return
+
+      const action = useKeyBindingsStore.getState().getActionForKey(event.code)
+      if (!action) return
+      event.preventDefault()
+      if (event.repeat) return
+
+      const punch = KEY_PUNCHES[action]
+      if (punch) {
+        const [x, y] = KEY_PUNCH_POSITIONS[punch.hand]
+        const data: PunchData = {
+          type: punch.type,
+          velocity: KEY_PUNCH_VELOCITY,
+          direction: [0, 0],
+          screenPosition: [x * window.innerWidth, y * window.innerHeight],
+        }
+        if (punch.hand === 'left') callbacksRef.current.onLeftPunch(data)
+        else callbacksRef.current.onRightPunch(data)
+        return
+      }
+
+      if (!isDefenseEnabled) return
+      const ai = useOpponentAIStore.getState()
+      if (action === 'block') ai.setBlocking(true)
+      else if (action === 'dodgeLeft') ai.startDodge('left')
+      else if (action === 'dodgeRight') ai.startDodge('right')
+    }
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (!isDefenseEnabled) return
+      if (useKeyBindingsStore.getState().getActionForKey(event.code) === 'block') {
+        useOpponentAIStore.getState().setBlocking(false)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+      if (isDefenseEnabled) useOpponentAIStore.getState().setBlocking(false)
+    }
+  }, [gameState, isDefenseEnabled])
+}
+
+export default useKeyboardInput
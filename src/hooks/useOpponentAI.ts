@@ -0,0 +1,44 @@
+import { useEffect } from 'react'
+import { useGameStore, useOpponentAIStore } from '../stores'
+
+/**
+ * Intervalle de mise à jour de l'IA (ms)
+ * Suffisant pour des fenêtres de réaction de 600ms+, sans passer par useFrame
+ */
+const AI_TICK_INTERVAL = 50
+
+/**
+ * Hook qui fait vivre l'IA adverse pendant le combat
+ * - Avance la machine à états (idle → telegraph → strike → recover)
+ * - Applique les coups qui passent la défense à playerHp (reset du combo)
+ *
+ * Monté une seule fois dans l'UI (pas de re-render : lecture via getState())
+ */
+export function useOpponentAI(): void {
+  const gameState = useGameStore((state) => state.gameState)
+  const isEnabled = useOpponentAIStore((state) => state.isEnabled)
+
+  useEffect(() => {
+    if (!isEnabled || gameState !== 'FIGHTING') return
+
+    let lastTick = performance.now()
+
+    const interval = setInterval(() => {
+      const now = performance.now()
+      const resolved = useOpponentAIStore.getState().tick(now - lastTick)
+      lastTick = now
+
+      if (resolved && resolved.outcome === 'hit') {
+        useGameStore.getState().playerTakeDamage(resolved.damage)
+      }
+    }, AI_TICK_INTERVAL)
+
+    return () => {
+      clearInterval(interval)
+      // Annuler l'attaque en cours (knockdown, fin de round...)
+      useOpponentAIStore.getState().reset()
+    }
+  }, [isEnabled, gameState])
+}
+
+export default useOpponentAI
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import { useGameStore, getActivePhysicsBackend } from '../stores'
+import { getPhysicsBackend, type PhysicsBackend } from '../physics'
+
+interface UsePhysicsBackendReturn {
+  backend: PhysicsBackend
+  isReady: boolean
+}
+
+/**
+ * Hook d'accès au moteur physique de l'adversaire courant (voir getActivePhysicsBackend)
+ * Initialise le moteur au besoin ; changer de moteur remonte les composants
+ * qui en dépendent (key sur le moteur dans AmmoVolumeDemo)
+ */
+export function usePhysicsBackend(): UsePhysicsBackendReturn {
+  const backendType = useGameStore(getActivePhysicsBackend)
+  const backend = getPhysicsBackend(backendType)
+  const [isReady, setIsReady] = useState(backend.isReady)
+
+  useEffect(() => {
+    if (backend.isReady) {
+      setIsReady(true)
+      return
+    }
+
+    let cancelled = false
+    setIsReady(false)
+    backend
+      .initialize()
+      .then(() => {
+        if (!cancelled) setIsReady(true)
+      })
+      .catch((error) => {
+        console.error(`[usePhysicsBackend] Failed to initialize ${backend.type}:`, error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [backend])
+
+  return { backend, isReady: isReady && backend.isReady }
+}
+
+export default usePhysicsBackend
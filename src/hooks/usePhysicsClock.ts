@@ -0,0 +1,21 @@
+import { useFrame } from '@react-three/fiber'
+import { PhysicsClock } from '../systems/PhysicsClock'
+
+/**
+ * Priorité de frame de l'horloge : négative pour passer avant les useFrame
+ * des composants (qui synchronisent leurs meshes avec PhysicsClock.alpha),
+ * sans prendre la main sur le rendu
+ */
+const PHYSICS_CLOCK_PRIORITY = -1
+
+/**
+ * Hook qui avance l'horloge physique à chaque frame
+ * À monter une seule fois, dans le composant racine de la scène
+ */
+export function usePhysicsClock(): void {
+  useFrame((_, delta) => {
+    PhysicsClock.update(delta)
+  }, PHYSICS_CLOCK_PRIORITY)
+}
+
+export default usePhysicsClock
@@ -0,0 +1,135 @@
+import { useEffect } from 'react'
+import {
+  PhysicsClock,
+  PhysicsSceneManager,
+  getActivePhysicsBackend,
+  useFluffySoftBodyStore,
+  useGameStore,
+  useJellyPhysicsStore,
+  useKeyBindingsStore,
+  type PhysicsSnapshot,
+} from '../stores'
+import type { XPBDSnapshot } from '../physics/types'
+
+/**
+ * État physique complet de la scène : monde Ammo + solveurs XPBD
+ */
+interface WorldSnapshot {
+  scene: PhysicsSnapshot
+  jelly: XPBDSnapshot
+  fluffy: XPBDSnapshot | null
+}
+
+// Configuration du rewind
+const REWIND_CONFIG = {
+  duration: 2,              // Secondes remontées par le rewind
+  interval: 12,             // Pas d'horloge entre deux snapshots (0.1 s à 120 Hz)
+  key: 'Backspace',
+}
+
+const HISTORY_SIZE = Math.round(REWIND_CONFIG.duration / (REWIND_CONFIG.interval * PhysicsClock.fixedDeltaTime)) + 1
+
+/**
+ * Capturer l'état de toutes les simulations
+ * @param target - Snapshot à réécrire (tableaux réutilisés quand les tailles n'ont pas changé)
+ */
+function captureWorld(target?: WorldSnapshot): WorldSnapshot {
+  const fluffy = useFluffySoftBodyStore.getState()
+  const scene = PhysicsSceneManager.snapshot(undefined, target?.scene)
+  const jelly = useJellyPhysicsStore.getState().solver.snapshot(target?.jelly)
+  const fluffySnapshot = fluffy.isInitialized ? fluffy.solver.snapshot(target?.fluffy ?? undefined) : null
+  if (!target) return { scene, jelly, fluffy: fluffySnapshot }
+
+  target.scene = scene
+  target.jelly = jelly
+  target.fluffy = fluffySnapshot
+  return target
+}
+
+/**
+ * Le mur de briques Rapier vit hors du monde Ammo et n'a pas de snapshot : pas de rewind
+ */
+function canRewind(): boolean {
+  return getActivePhysicsBackend(useGameStore.getState()) === 'ammo'
+}
+
+/**
+ * Restaurer l'état de toutes les simulations
+ */
+function restoreWorld(snapshot: WorldSnapshot): void {
+  PhysicsSceneManager.restore(snapshot.scene)
+  useJellyPhysicsStore.getState().solver.restore(snapshot.jelly)
+  const fluffy = useFluffySoftBodyStore.getState()
+  if (snapshot.fluffy && fluffy.isInitialized) fluffy.solver.restore(snapshot.fluffy)
+}
+
+/**
+ * Hook de debug (DEV uniquement) : Retour arrière remonte la physique de 2 secondes
+ *
+ * Un snapshot est pris tous les 12 pas d'horloge dans un historique circulaire
+ * (emplacements réécrits sur place, sans allocation une fois remplis) ;
+ * la touche restaure le plus ancien puis vide l'historique.
+ * Sans effet si la touche est assignée à une action de jeu, ni sur le mur Rapier.
+ * À monter une seule fois, à côté de usePhysicsClock.
+ */
+export function usePhysicsRewind(): void {
+  useEffect(() => {
+    if (!import.meta.env.DEV) return
+
+    // Historique circulaire : next = prochain emplacement écrit, count = snapshots valides
+    const slots: (WorldSnapshot | undefined)[] = new Array(HISTORY_SIZE)
+    let next = 0
+    let count = 0
+    let stepsSinceSnapshot = 0
+
+    const unregister = PhysicsClock.register('rewind-history', () => {
+      if (!PhysicsSceneManager.isReady) return
+      if (!canRewind()) {
+        count = 0
+        return
+      }
+      if (++stepsSinceSnapshot < REWIND_CONFIG.interval) return
+      stepsSinceSnapshot = 0
+      slots[next] = captureWorld(slots[next])
+      next = (next + 1) % HISTORY_SIZE
+      count = Math.min(count + 1, HISTORY_SIZE)
+    })
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== REWIND_CONFIG.key || event.repeat) return
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return
+      if (useKeyBindingsStore.getState().getActionForKey(event.code)) return
+
+      if (!canRewind()) {
+        console.warn('[PhysicsRewind] Rewind is not available with the Rapier backend')
+        return
+      }
+      const oldest = count > 0 ? slots[(next - count + HISTORY_SIZE) % HISTORY_SIZE] : undefined
+      if (!oldest) return
+      event.preventDefault()
+      restoreWorld(oldest)
+      count = 0
+      stepsSinceSnapshot = 0
+      console.log('[PhysicsRewind] Rewound physics by up to 2s')
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      unregister()
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [])
+}
+
+/**
+ * Expose les snapshots globalement (console, tests de non-régression sur état de référence)
+ */
+if (typeof window !== 'undefined' && import.meta.env.DEV) {
+  (window as unknown as Record<string, unknown>).__physicsSnapshot = {
+    capture: captureWorld,
+    restore: restoreWorld,
+  }
+}
+
+export default usePhysicsRewind
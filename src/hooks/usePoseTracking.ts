@@ -0,0 +1,298 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { FilesetResolver, PoseLandmarker } from '@mediapipe/tasks-vision'
+import { usePoseStore } from '../stores/usePoseStore'
+import { useHandTrackingStore } from '../stores/useHandTrackingStore'
+import { analyzePose, createPoseBaseline, type PosePoint } from '../utils/PoseAnalysis'
+import { MEDIAPIPE_BUNDLE_URL, MEDIAPIPE_WASM_URL } from '../utils/MediaPipeAssets'
+import type { PoseWorkerMessage, PoseWorkerResponse } from '../workers/poseTrackingWorker'
+
+/**
+ * Options pour le hook usePoseTracking
+ */
+interface UsePoseTrackingOptions {
+  targetFps?: number // FPS cible (défaut: 15, le buste bouge moins vite que les mains)
+  minDetectionConfidence?: number // Confiance minimum pour détecter (défaut: 0.5)
+  minTrackingConfidence?: number // Confiance minimum pour tracker (défaut: 0.5)
+}
+
+// Configuration par défaut
+const DEFAULT_OPTIONS: Required<UsePoseTrackingOptions> = {
+  targetFps: 15,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+}
+
+const MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task'
+
+/**
+ * Met à jour les mesures du buste (landmarks null = corps non détecté)
+ */
+function applyPose(landmarks: PosePoint[] | null | undefined, worldLandmarks: PosePoint[] | null | undefined): void {
+  const store = usePoseStore.getState()
+
+  if (!landmarks || !worldLandmarks) {
+    store.setMetrics(null)
+  } else {
+    const baseline = store.baseline ?? createPoseBaseline(landmarks)
+    if (baseline && !store.baseline) store.setBaseline(baseline)
+    store.setMetrics(baseline ? analyzePose(landmarks, worldLandmarks, baseline, store.metrics) : null)
+  }
+}
+
+/**
+ * Crée le worker du suivi du corps et attend le chargement du modèle
+ */
+function createPoseTrackingWorker(
+  config: Pick<Required<UsePoseTrackingOptions>, 'minDetectionConfidence' | 'minTrackingConfidence'>
+): Promise<Worker> {
+  // Worker classique : MediaPipe y charge son loader WASM avec importScripts()
+  const worker = new Worker(new URL('../workers/poseTrackingWorkerImpl.ts', import.meta.url), { type: 'classic' })
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      worker.removeEventListener('message', handleMessage)
+      worker.removeEventListener('error', handleError)
+    }
+    const handleMessage = (event: MessageEvent<PoseWorkerResponse>) => {
+      if (event.data.type === 'ready') {
+        cleanup()
+        resolve(worker)
+      } else if (event.data.type === 'error') {
+        cleanup()
+        worker.terminate()
+        reject(new Error(event.data.error ?? 'Worker initialization failed'))
+      }
+    }
+    // Script du worker ou bundle MediaPipe introuvable
+    const handleError = (event: ErrorEvent) => {
+      cleanup()
+      worker.terminate()
+      reject(new Error(event.message || 'Worker failed to load'))
+    }
+    worker.addEventListener('message', handleMessage)
+    worker.addEventListener('error', handleError)
+
+    const message: PoseWorkerMessage = {
+      type: 'init',
+      payload: {
+        bundleUrl: MEDIAPIPE_BUNDLE_URL,
+        wasmUrl: MEDIAPIPE_WASM_URL,
+        minDetectionConfidence: config.minDetectionConfidence,
+        minTrackingConfidence: config.minTrackingConfidence,
+      },
+    }
+    worker.postMessage(message)
+  })
+}
+
+/**
+ * Hook pour le suivi du corps via MediaPipe PoseLandmarker
+ * Réutilise la vidéo de useHandTracking : actif quand le hand tracking tourne
+ * et que le suivi du corps est activé (usePoseStore.isPoseEnabled)
+ *
+ * L'inférence tourne dans un Web Worker (frames transférées en ImageBitmap,
+ * une seule en cours de traitement) ; sur le thread principal seulement si
+ * le worker ne se charge pas
+ *
+ * La position neutre est capturée à la première frame et à chaque calibration des mains
+ */
+export function usePoseTracking(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  options: UsePoseTrackingOptions = {}
+): void {
+  const config = { ...DEFAULT_OPTIONS, ...options }
+
+  // Refs
+  const poseLandmarkerRef = useRef<PoseLandmarker | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+  const isWorkerBusyRef = useRef<boolean>(false)
+  const animationFrameRef = useRef<number | null>(null)
+  const lastFrameTimeRef = useRef<number>(0)
+  const isRunningRef = useRef<boolean>(false)
+
+  // Store
+  const isPoseEnabled = usePoseStore((state) => state.isPoseEnabled)
+  const isHandTracking = useHandTrackingStore((state) => state.isTracking)
+  const isCalibrated = useHandTrackingStore((state) => state.isCalibrated)
+
+  /**
+   * Boucle de détection
+   */
+  const detectLoop = useCallback(() => {
+    if (!isRunningRef.current) return
+
+    const video = videoRef.current
+    const poseLandmarker = poseLandmarkerRef.current
+    const worker = workerRef.current
+    const now = performance.now()
+
+    if (video && video.readyState >= 2 && now - lastFrameTimeRef.current >= 1000 / config.targetFps) {
+      if (worker) {
+        // Backpressure : pas de nouvelle frame tant que la précédente n'est pas traitée
+        if (!isWorkerBusyRef.current) {
+          lastFrameTimeRef.current = now
+          isWorkerBusyRef.current = true
+          createImageBitmap(video)
+            .then((bitmap) => {
+              if (workerRef.current !== worker) {
+                bitmap.close()
+                return
+              }
+              const message: PoseWorkerMessage = { type: 'process', payload: bitmap, timestamp: now }
+              worker.postMessage(message, [bitmap])
+            })
+            .catch((err) => {
+              isWorkerBusyRef.current = false
+              console.error('[PoseTracking] Frame capture error:', err)
+            })
+        }
+      } else if (poseLandmarker) {
+        lastFrameTimeRef.current = now
+        try {
+          const results = poseLandmarker.detectForVideo(video, now)
+          applyPose(results.landmarks[0], results.worldLandmarks[0])
+        } catch (err) {
+          console.error('[PoseTracking] Detection error:', err)
+        }
+      }
+    }
+
+    animationFrameRef.current = requestAnimationFrame(detectLoop)
+  }, [videoRef, config.targetFps])
+
+  /**
+   * Démarre le suivi du corps
+   */
+  const startTracking = useCallback(async (): Promise<void> => {
+    const store = usePoseStore.getState()
+    if (store.isTracking || store.isInitializing) return
+
+    store.setIsInitializing(true)
+    try {
+      console.log('[PoseTracking] Initializing MediaPipe PoseLandmarker (worker thread)...')
+      const worker = await createPoseTrackingWorker({
+        minDetectionConfidence: config.minDetectionConfidence,
+        minTrackingConfidence: config.minTrackingConfidence,
+      }).catch((error) => {
+        console.warn('[PoseTracking] Worker unavailable, falling back to main thread:', error)
+        return null
+      })
+
+      // Arrêté pendant le chargement (reset du store)
+      if (!usePoseStore.getState().isInitializing) {
+        worker?.terminate()
+        return
+      }
+
+      if (worker) {
+        worker.addEventListener('message', (event: MessageEvent<PoseWorkerResponse>) => {
+          const response = event.data
+          if (response.type === 'result' && response.payload) {
+            isWorkerBusyRef.current = false
+            if (isRunningRef.current) applyPose(response.payload.landmarks, response.payload.worldLandmarks)
+          } else if (response.type === 'error') {
+            isWorkerBusyRef.current = false
+            console.error('[PoseTracking] Worker error:', response.error)
+          }
+        })
+        // Exception non rattrapée dans le worker : la frame en cours ne répondra jamais
+        worker.addEventListener('error', (event) => {
+          isWorkerBusyRef.current = false
+          console.error('[PoseTracking] Worker error:', event.message)
+        })
+        workerRef.current = worker
+        console.log('[PoseTracking] MediaPipe ready')
+
+        store.setIsInitializing(false)
+        store.setIsTracking(true)
+        isRunningRef.current = true
+        animationFrameRef.current = requestAnimationFrame(detectLoop)
+        return
+      }
+
+      const vision = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL)
+      const poseLandmarker = await PoseLandmarker.createFromOptions(vision, {
+        baseOptions: {
+          modelAssetPath: MODEL_URL,
+          delegate: 'GPU',
+        },
+        runningMode: 'VIDEO',
+        numPoses: 1,
+        minPoseDetectionConfidence: config.minDetectionConfidence,
+        minPosePresenceConfidence: config.minTrackingConfidence,
+        minTrackingConfidence: config.minTrackingConfidence,
+      })
+
+      // Arrêté pendant le chargement (reset du store)
+      if (!usePoseStore.getState().isInitializing) {
+        poseLandmarker.close()
+        return
+      }
+      poseLandmarkerRef.current = poseLandmarker
+      console.log('[PoseTracking] MediaPipe ready')
+
+      store.setIsInitializing(false)
+      store.setIsTracking(true)
+      isRunningRef.current = true
+      animationFrameRef.current = requestAnimationFrame(detectLoop)
+    } catch (error) {
+      store.setIsInitializing(false)
+      console.error('[PoseTracking] Failed to start:', error)
+    }
+  }, [config.minDetectionConfidence, config.minTrackingConfidence, detectLoop])
+
+  /**
+   * Arrête le suivi du corps
+   */
+  const stopTracking = useCallback(() => {
+    isRunningRef.current = false
+
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current)
+      animationFrameRef.current = null
+    }
+
+    if (poseLandmarkerRef.current) {
+      poseLandmarkerRef.current.close()
+      poseLandmarkerRef.current = null
+    }
+
+    // Arrêter le worker (libère le modèle puis termine le thread)
+    if (workerRef.current) {
+      const worker = workerRef.current
+      const message: PoseWorkerMessage = { type: 'stop' }
+      worker.postMessage(message)
+      worker.addEventListener('message', (event: MessageEvent<PoseWorkerResponse>) => {
+        if (event.data.type === 'stopped') worker.terminate()
+      })
+      workerRef.current = null
+      isWorkerBusyRef.current = false
+    }
+
+    usePoseStore.getState().reset()
+  }, [])
+
+  // Démarrer/arrêter avec le hand tracking (la vidéo doit tourner)
+  useEffect(() => {
+    if (isPoseEnabled && isHandTracking) {
+      startTracking()
+    } else {
+      stopTracking()
+    }
+  }, [isPoseEnabled, isHandTracking, startTracking, stopTracking])
+
+  // Calibration des mains : le joueur est en garde, recapturer la position neutre
+  useEffect(() => {
+    if (isCalibrated) usePoseStore.getState().setBaseline(null)
+  }, [isCalibrated])
+
+  // Cleanup au démontage
+  useEffect(() => {
+    return () => {
+      stopTracking()
+    }
+  }, [stopTracking])
+}
+
+export default usePoseTracking
@@ -2,6 +2,7 @@ import { useRef, useCallback } from 'react'
 import { useThree } from '@react-three/fiber'
 import gsap from 'gsap'
 import type { Mesh } from 'three'
+import { useGameStore, getStaminaEfficiency } from '../stores'
 import type { PunchType } from '../stores'
 
 /**
@@ -86,6 +87,12 @@ export function usePunchAnimation(refs: PunchAnimationRefs) {
 
       currentTimeline.current = tl
 
+      // Coup lancé (endurance, mode rythme) : la fatigue ralentit l'animation
+      // (endurance relue après la dépense du coup)
+      useGameStore.getState().throwPunch(type, hand)
+      const efficiency = getStaminaEfficiency(useGameStore.getState().stamina)
+      tl.timeScale(efficiency)
+
       // Phase 1: Coup vers l'avant
       tl.to(gloveRef.current.position, {
         x: restPos.x + directionX * 0.5,
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react'
+import { useGameStore } from '../stores'
+
+/**
+ * Hook appelé au début de chaque round (entrée en COUNTDOWN, premier round compris)
+ *
+ * Sert à remettre la scène dans son état initial entre les rounds
+ * (restauration d'un snapshot physique plutôt que reconstruction).
+ *
+ * @param onRoundStart Callback recevant le numéro du round (1-based)
+ */
+export function useRoundStart(onRoundStart: (round: number) => void): void {
+  // Ref pour garder la dernière version du callback sans se réabonner
+  const callbackRef = useRef(onRoundStart)
+  callbackRef.current = onRoundStart
+
+  useEffect(() => {
+    return useGameStore.subscribe((state, prevState) => {
+      if (state.gameState === 'COUNTDOWN' && prevState.gameState !== 'COUNTDOWN') {
+        callbackRef.current(state.currentRound)
+      }
+    })
+  }, [])
+}
+
+export default useRoundStart
@@ -1,56 +1,30 @@
 import { useCallback, useEffect, useRef } from 'react'
 import { useHandTrackingStore, type HandState, type CalibrationPoint } from '../stores/useHandTrackingStore'
 import type { PunchData, PunchDragCallbacks } from './useGestureInput'
-import type { PunchType } from '../stores'
+import type { PunchHand } from '../stores'
+import { usePunchClassifierStore } from '../stores/usePunchClassifierStore'
+import { usePoseStore } from '../stores/usePoseStore'
+import { useCalibrationStore } from '../stores/useCalibrationStore'
+import { createDefaultMapping, mapToScreen, type HandMapping } from '../utils/CalibrationMapping'
+import type { PoseStance } from '../utils/PoseAnalysis'
+import { classifyPunch, TRAJECTORY_FRAMES, type RecordedFrame } from '../utils/PunchClassifier'
+import { createHandInputState, detectPunch, PUNCH_CONFIG, type HandInputState } from '../utils/PunchDetection'
 
 /**
- * Seuils pour la détection de coup via caméra
+ * Confiance minimum du classifieur appris (sinon : type déterminé par les seuils)
  */
-const PUNCH_CONFIG = {
-  // Seuil de vélocité Z pour déclencher un coup (unités par seconde)
-  // Négatif = vers la caméra = vers l'adversaire
-  velocityThreshold: 0.12,
-  // Seuil de vélocité Y pour un uppercut (mouvement vers le haut)
-  uppercutThreshold: 0.08,
-  // Seuil de vélocité X pour un hook (mouvement latéral)
-  hookThreshold: 0.1,
-  // Vélocité max pour normalisation
-  maxVelocity: 0.5,
-  // Délai minimum entre deux coups de la même main (ms)
-  punchCooldown: 250,
-  // Seuil de position Z pour détecter un "armé" (main qui recule)
-  windupZThreshold: 0.02,
-  // Position Z de référence pour calculer l'extension du bras
-  // Plus la valeur est basse, plus le bras est tendu vers l'avant
-  punchExtensionBonus: 0.03,
-}
+const MIN_CLASSIFIER_CONFIDENCE = 0.6
 
 /**
- * Positions de repos des gants sur l'écran (en pourcentage 0-1)
+ * Suivi du corps (voir usePoseTracking)
  */
-const GLOVE_REST_POSITIONS = {
-  left: { x: 0.25, y: 0.65 },  // 25% depuis la gauche, 65% depuis le haut
-  right: { x: 0.75, y: 0.65 }, // 75% depuis la gauche, 65% depuis le haut
-}
-
-/**
- * Facteur de sensibilité pour le mouvement (amplifie les mouvements de main)
- */
-const MOVEMENT_SENSITIVITY = 2.0
-
-/**
- * État d'une main pour l'input unifié
- */
-interface HandInputState {
-  isActive: boolean
-  screenPosition: { x: number; y: number }
-  lastPunchTime: number
-  // Position Z de calibration (référence pour l'extension)
-  calibratedZ: number | null
-  // Position Z précédente pour détecter le "wind-up"
-  previousZ: number | null
-  // Indique si la main est en phase d'armé
-  isWindingUp: boolean
+const POSE_CONFIG = {
+  // Bonus de vélocité par radian de rotation des épaules dans le sens du coup
+  rotationPowerBonus: 0.5,
+  // Bonus max (comme l'extension du bras)
+  maxRotationBonus: 0.3,
+  // Abaissement du coup accroupi (part de la hauteur d'écran) : coups au corps
+  duckPunchDrop: 0.2,
 }
 
 /**
@@ -86,118 +60,55 @@ interface UseUnifiedInputReturn {
   rightHandActive: boolean
   // Calibration
   isCalibrated: boolean
+  // Garde détectée par le suivi du corps (null = suivi inactif)
+  stance: PoseStance | null
+}
+
+/**
+ * Mapping caméra → gants d'une main
+ * Calibration guidée du profil si disponible, sinon mapping historique
+ * (positions de repos fixes autour du point de calibration simple)
+ */
+function getHandMapping(handSide: 'left' | 'right', calibration: CalibrationPoint | null): HandMapping {
+  const guided = useCalibrationStore.getState().profile?.[handSide]
+  return guided ?? createDefaultMapping(handSide, calibration)
 }
 
 /**
- * Calcule la position écran calibrée pour une main
- * Utilise directement screenPosition (déjà en miroir) et mappe vers la zone de jeu
+ * Calcule la position écran calibrée pour une main (en pixels)
  */
 function calculateCalibratedPosition(
   hand: HandState,
-  calibration: CalibrationPoint | null,
-  handSide: 'left' | 'right',
+  mapping: HandMapping,
   screenWidth: number,
   screenHeight: number
 ): { x: number; y: number } {
-  // Utiliser screenPosition qui est déjà correctement calculé avec le miroir
-  // C'est la même position que le cercle bleu de debug
-  const currentScreenPos = hand.screenPosition
-
-  // Position de repos du gant (en pixels)
-  const restPosition = {
-    x: GLOVE_REST_POSITIONS[handSide].x * screenWidth,
-    y: GLOVE_REST_POSITIONS[handSide].y * screenHeight,
-  }
+  const wrist = hand.landmarks[0]
+  if (!wrist) return hand.screenPosition
 
-  if (!calibration) {
-    // Sans calibration, utiliser directement la position écran
-    return currentScreenPos
-  }
-
-  // Convertir la calibration en coordonnées écran (avec miroir)
-  const calibrationScreen = {
-    x: (1 - calibration.x) * screenWidth,
-    y: calibration.y * screenHeight,
-  }
-
-  // Calculer le delta depuis la position calibrée (en pixels)
-  const deltaX = (currentScreenPos.x - calibrationScreen.x) * MOVEMENT_SENSITIVITY
-  const deltaY = (currentScreenPos.y - calibrationScreen.y) * MOVEMENT_SENSITIVITY
-
-  // Appliquer le delta à la position de repos du gant
-  const calibratedX = restPosition.x + deltaX
-  const calibratedY = restPosition.y + deltaY
-
-  // Clamp aux limites de l'écran
-  return {
-    x: Math.max(0, Math.min(screenWidth, calibratedX)),
-    y: Math.max(0, Math.min(screenHeight, calibratedY)),
-  }
+  const position = mapToScreen(mapping, wrist)
+  return { x: position.x * screenWidth, y: position.y * screenHeight }
 }
 
 /**
- * Détecte si un mouvement de main constitue un coup
- * Utilise la vélocité Z + position Z pour une détection plus précise
+ * Bonus de puissance : rotation des épaules depuis la garde, dans le sens du coup
+ * (un direct du droit avance l'épaule droite)
  */
-function detectPunch(
-  hand: HandState,
-  handState: HandInputState
-): { isPunch: boolean; type: PunchType; velocity: number; extensionBonus: number } | null {
-  const now = Date.now()
-
-  // Cooldown entre les coups
-  if (now - handState.lastPunchTime < PUNCH_CONFIG.punchCooldown) {
-    return null
-  }
-
-  // Vérifier la vélocité Z (négatif = vers l'écran/adversaire)
-  const velZ = hand.velocity.z
-  if (velZ > -PUNCH_CONFIG.velocityThreshold) {
-    return null
-  }
-
-  // Position Z actuelle du poignet
-  const currentZ = hand.landmarks[0]?.z ?? 0
-
-  // Calculer le bonus d'extension (si la main est plus avancée que la calibration)
-  let extensionBonus = 0
-  if (handState.calibratedZ !== null) {
-    // Différence de Z par rapport à la calibration
-    // Plus négatif = plus avancé vers la caméra
-    const zDelta = handState.calibratedZ - currentZ
-    if (zDelta > PUNCH_CONFIG.punchExtensionBonus) {
-      extensionBonus = Math.min(zDelta / 0.1, 0.3) // Max 30% de bonus
-    }
-  }
+function getRotationBonus(hand: PunchHand): number {
+  const metrics = usePoseStore.getState().metrics
+  if (!metrics) return 0
 
-  // Déterminer le type de coup basé sur la direction du mouvement
-  let type: PunchType = 'jab'
-  const velY = hand.velocity.y
-  const velX = Math.abs(hand.velocity.x)
-
-  // Uppercut: mouvement vers le haut (Y négatif en coordonnées écran = vers le haut)
-  if (velY < -PUNCH_CONFIG.uppercutThreshold) {
-    type = 'uppercut'
-  }
-  // Hook: mouvement latéral important
-  else if (velX > PUNCH_CONFIG.hookThreshold && velX > Math.abs(velZ) * 0.5) {
-    type = 'hook'
-  }
-
-  // Normaliser la vélocité entre 0 et 1
-  const rawVelocity = Math.abs(velZ)
-  const baseVelocity = Math.min(rawVelocity / PUNCH_CONFIG.maxVelocity, 1)
-
-  // Ajouter le bonus d'extension
-  const velocity = Math.min(baseVelocity + extensionBonus, 1)
-
-  return { isPunch: true, type, velocity, extensionBonus }
+  const rotation = metrics.shoulderRotation - metrics.stanceRotation
+  const towardPunch = hand === 'right' ? rotation : -rotation
+  return Math.min(Math.max(towardPunch * POSE_CONFIG.rotationPowerBonus, 0), POSE_CONFIG.maxRotationBonus)
 }
 
 /**
  * Hook unifié pour gérer les entrées tactile et caméra
  * En mode tactile: utilise les callbacks existants de usePunchDrag
- * En mode caméra: traduit les mouvements de mains en actions de gants
+ * En mode caméra: traduit les mouvements de mains en actions de gants,
+ *   complétés par le suivi du corps s'il est actif (puissance, coups au corps)
+ *   (les esquives au buste sont gérées par useDefenseInput)
  */
 export function useUnifiedInput(options: UseUnifiedInputOptions): UseUnifiedInputReturn {
   // Note: touchCallbacks est passé pour la cohérence de l'interface mais n'est pas utilisé ici
@@ -210,28 +121,31 @@ export function useUnifiedInput(options: UseUnifiedInputOptions): UseUnifiedInpu
     rightHand,
     isCameraEnabled,
     isTracking,
+    isReplaying,
     isCalibrated,
     leftCalibration,
     rightCalibration,
   } = useHandTrackingStore()
 
+  // Caméra active ou enregistrement rejoué (même traitement)
+  const hasHandInput = (isCameraEnabled && isTracking) || isReplaying
+
+  // Suivi du corps
+  const isPoseTracking = usePoseStore((state) => state.isTracking)
+  const stance = usePoseStore((state) => state.metrics?.stance ?? null)
+
   // État local des mains
-  const leftHandState = useRef<HandInputState>({
-    isActive: false,
-    screenPosition: { x: 0, y: 0 },
-    lastPunchTime: 0,
-    calibratedZ: null,
-    previousZ: null,
-    isWindingUp: false,
-  })
-  const rightHandState = useRef<HandInputState>({
-    isActive: false,
-    screenPosition: { x: 0, y: 0 },
-    lastPunchTime: 0,
-    calibratedZ: null,
-    previousZ: null,
-    isWindingUp: false,
-  })
+  const leftHandState = useRef<HandInputState>(createHandInputState())
+  const rightHandState = useRef<HandInputState>(createHandInputState())
+
+  // Trajectoires récentes des deux poignets (pour le classifieur appris)
+  const framesRef = useRef<RecordedFrame[]>([])
+
+  // Classifieur appris (optionnel, voir utils/PunchClassifier)
+  const loadClassifier = usePunchClassifierStore((state) => state.loadModel)
+  useEffect(() => {
+    if (useCameraInput) loadClassifier()
+  }, [useCameraInput, loadClassifier])
 
   /**
    * Traite les mises à jour d'une main
@@ -242,7 +156,7 @@ export function useUnifiedInput(options: UseUnifiedInputOptions): UseUnifiedInpu
       calibration: CalibrationPoint | null,
       handState: React.MutableRefObject<HandInputState>,
       onMove: ((x: number, y: number) => void) | undefined,
-      onPunch: ((data: PunchData) => void) | undefined,
+      onPunch: (hand: PunchHand, data: PunchData) => void,
       handSide: 'left' | 'right'
     ) => {
       if (!hand) {
@@ -257,17 +171,19 @@ export function useUnifiedInput(options: UseUnifiedInputOptions): UseUnifiedInpu
       }
 
       const currentZ = hand.landmarks[0]?.z ?? 0
+      const mapping = getHandMapping(handSide, calibration)
+      handState.current.reach = mapping.reach
 
       // Main détectée pour la première fois ou après calibration
       if (!handState.current.isActive) {
         handState.current.isActive = true
-        // Initialiser la position Z de calibration
-        handState.current.calibratedZ = currentZ
+        // Initialiser la position Z de calibration (garde calibrée si connue)
+        handState.current.calibratedZ = mapping.guardZ ?? currentZ
       }
 
       // Mettre à jour la calibration Z si on a une calibration globale
       if (calibration && handState.current.calibratedZ === null) {
-        handState.current.calibratedZ = currentZ
+        handState.current.calibratedZ = mapping.guardZ ?? currentZ
       }
 
       // Détecter le "wind-up" (main qui recule avant de frapper)
@@ -283,8 +199,7 @@ export function useUnifiedInput(options: UseUnifiedInputOptions): UseUnifiedInpu
       // Calculer la position écran calibrée
       const screenPosition = calculateCalibratedPosition(
         hand,
-        calibration,
-        handSide,
+        mapping,
         window.innerWidth,
         window.innerHeight
       )
@@ -296,25 +211,49 @@ export function useUnifiedInput(options: UseUnifiedInputOptions): UseUnifiedInpu
       // Détecter un coup
       const punchResult = detectPunch(hand, handState.current)
       if (punchResult && punchResult.isPunch) {
-        handState.current.lastPunchTime = Date.now()
+        const now = Date.now()
+        handState.current.lastPunchTime = now
         handState.current.isWindingUp = false
 
+        // Le seuil de vélocité détecte le coup, le classifieur (s'il est chargé)
+        // décide du type et de la main sur la trajectoire des deux poignets
+        const model = usePunchClassifierStore.getState().model
+        const classification = model ? classifyPunch(model, framesRef.current) : null
+        const isClassified = !!classification && classification.confidence >= MIN_CLASSIFIER_CONFIDENCE
+        const punchHand = isClassified ? classification.hand : handSide
+        const punchType = isClassified ? classification.type : punchResult.type
+        const punchHandState = (punchHand === 'left' ? leftHandState : rightHandState).current
+
+        // Coup attribué à l'autre main : son cooldown s'applique aussi
+        if (punchHandState !== handState.current) {
+          if (now - punchHandState.lastPunchTime < PUNCH_CONFIG.punchCooldown) return
+          punchHandState.lastPunchTime = now
+        }
+        const punchPosition = punchHandState.screenPosition
+
+        // Suivi du corps : rotation des épaules = puissance, accroupi = coup plus bas
+        const rotationBonus = getRotationBonus(punchHand)
+        const duck = usePoseStore.getState().metrics?.duck ?? 0
+        const velocity = Math.min(punchResult.velocity + rotationBonus, 1)
+        const punchY = Math.min(punchPosition.y + duck * POSE_CONFIG.duckPunchDrop * window.innerHeight, window.innerHeight)
+
         const punchData: PunchData = {
-          type: punchResult.type,
-          velocity: punchResult.velocity,
-          direction: [0, handSide === 'left' ? -1 : 1],
-          screenPosition: [screenPosition.x, screenPosition.y],
+          type: punchType,
+          velocity,
+          direction: [0, punchHand === 'left' ? -1 : 1],
+          screenPosition: [punchPosition.x, punchY],
         }
 
         // Log détaillé en dev
         if (import.meta.env.DEV) {
           console.log(
-            `[${handSide.toUpperCase()}] ${punchResult.type} | vel: ${punchResult.velocity.toFixed(2)} ` +
-            `(base + ${punchResult.extensionBonus.toFixed(2)} ext) | z: ${currentZ.toFixed(4)}`
+            `[${punchHand.toUpperCase()}] ${punchType} | vel: ${velocity.toFixed(2)} ` +
+            `(base + ${punchResult.extensionBonus.toFixed(2)} ext + ${rotationBonus.toFixed(2)} rot) | z: ${currentZ.toFixed(4)}` +
+            (isClassified ? ` | classifieur ${(classification.confidence * 100).toFixed(0)}%` : '')
           )
         }
 
-        onPunch?.(punchData)
+        onPunch(punchHand, punchData)
       }
     },
     []
@@ -322,17 +261,32 @@ export function useUnifiedInput(options: UseUnifiedInputOptions): UseUnifiedInpu
 
   // Traiter les mises à jour des mains quand en mode caméra
   useEffect(() => {
-    if (!useCameraInput || !isCameraEnabled || !isTracking) {
+    if (!useCameraInput || !hasHandInput) {
       return
     }
 
+    // Enregistrer la frame pour le classifieur (poignets en coordonnées normalisées)
+    const leftWrist = leftHand?.landmarks[0]
+    const rightWrist = rightHand?.landmarks[0]
+    framesRef.current.push({
+      t: performance.now(),
+      left: leftWrist ? [leftWrist.x, leftWrist.y, leftWrist.z] : null,
+      right: rightWrist ? [rightWrist.x, rightWrist.y, rightWrist.z] : null,
+    })
+    if (framesRef.current.length > TRAJECTORY_FRAMES) framesRef.current.shift()
+
+    const onPunch = (hand: PunchHand, data: PunchData) => {
+      if (hand === 'left') cameraCallbacks.onLeftPunch?.(data)
+      else cameraCallbacks.onRightPunch?.(data)
+    }
+
     // Traiter la main gauche (avec calibration si disponible)
     processHandUpdate(
       leftHand,
       leftCalibration,
       leftHandState,
       cameraCallbacks.onLeftHandMove,
-      cameraCallbacks.onLeftPunch,
+      onPunch,
       'left'
     )
 
@@ -342,7 +296,7 @@ export function useUnifiedInput(options: UseUnifiedInputOptions): UseUnifiedInpu
       rightCalibration,
       rightHandState,
       cameraCallbacks.onRightHandMove,
-      cameraCallbacks.onRightPunch,
+      onPunch,
       'right'
     )
   }, [
@@ -351,8 +305,7 @@ export function useUnifiedInput(options: UseUnifiedInputOptions): UseUnifiedInpu
     leftCalibration,
     rightCalibration,
     useCameraInput,
-    isCameraEnabled,
-    isTracking,
+    hasHandInput,
     cameraCallbacks,
     processHandUpdate,
   ])
@@ -360,29 +313,18 @@ export function useUnifiedInput(options: UseUnifiedInputOptions): UseUnifiedInpu
   // Reset les états quand on change de mode
   useEffect(() => {
     if (!useCameraInput) {
-      leftHandState.current = {
-        isActive: false,
-        screenPosition: { x: 0, y: 0 },
-        lastPunchTime: 0,
-        calibratedZ: null,
-        previousZ: null,
-        isWindingUp: false,
-      }
-      rightHandState.current = {
-        isActive: false,
-        screenPosition: { x: 0, y: 0 },
-        lastPunchTime: 0,
-        calibratedZ: null,
-        previousZ: null,
-        isWindingUp: false,
-      }
+      leftHandState.current = createHandInputState()
+      rightHandState.current = createHandInputState()
     }
   }, [useCameraInput])
 
+  const isCameraActive = useCameraInput && hasHandInput
+
   return {
-    inputSource: useCameraInput && isCameraEnabled && isTracking ? 'camera' : 'touch',
+    inputSource: isCameraActive ? 'camera' : 'touch',
     leftHandActive: leftHandState.current.isActive,
     rightHandActive: rightHandState.current.isActive,
     isCalibrated,
+    stance: isCameraActive && isPoseTracking ? stance : null,
   }
 }
@@ -0,0 +1,43 @@
+import { useEffect } from 'react'
+import { canUseSharedMemory, type XPBDSolver } from '../physics'
+import { usePhysicsDebugStore } from '../stores/usePhysicsDebugStore'
+
+/**
+ * Crée le worker du solveur XPBD
+ */
+function createXPBDWorker(): Worker {
+  return new Worker(new URL('../workers/xpbdWorkerImpl.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Hook qui délègue les pas d'un solveur XPBD à un Web Worker tant qu'il est monté
+ *
+ * Les particules sont dans un SharedArrayBuffer : le rendu lit positions et
+ * déplacements sans copie. Sans mémoire partagée (page non isolée par
+ * COOP/COEP), le solveur reste sur le thread principal.
+ * En mode déterministe (PhysicsClock), les pas restent aussi sur le thread
+ * principal : un pas du worker se termine à une frame imprévisible.
+ *
+ * @param solver Solveur à déléguer
+ * @param enabled Désactivé = simulation sur le thread principal
+ */
+export function useXPBDWorker(solver: XPBDSolver, enabled: boolean = true): void {
+  const isDeterministic = usePhysicsDebugStore((state) => state.deterministic)
+
+  useEffect(() => {
+    if (!enabled || isDeterministic || !canUseSharedMemory()) return
+
+    const worker = createXPBDWorker()
+    if (!solver.attachWorker(worker)) {
+      worker.terminate()
+      return
+    }
+
+    return () => {
+      solver.detachWorker()
+      worker.terminate()
+    }
+  }, [solver, enabled, isDeterministic])
+}
+
+export default useXPBDWorker
@@ -0,0 +1,253 @@
+/**
+ * AmmoBackend - Implémentation Ammo.js de PhysicsBackend
+ *
+ * S'appuie sur PhysicsSceneManager, qui adopte le monde créé par AmmoVolumeDemo
+ * (window.__ammoPhysicsWorld). Ce monde est avancé par AmmoVolumeDemo, qui
+ * relève aussi les contacts (PhysicsSceneManager.processContacts) : step() ne fait rien.
+ */
+
+import * as THREE from 'three'
+import { PhysicsSceneManager } from '../systems/PhysicsSceneManager'
+import type {
+  CollisionListener,
+  PhysicsBackend,
+  RaycastHit,
+  RigidBodyDesc,
+  SpringDesc,
+} from './PhysicsBackend'
+
+// Flags Bullet
+const CF_KINEMATIC_OBJECT = 2
+const DISABLE_DEACTIVATION = 4
+
+// Intervalle de vérification du monde d'AmmoVolumeDemo (ms)
+const WORLD_POLL_INTERVAL = 100
+
+class AmmoBackendClass implements PhysicsBackend {
+  readonly type = 'ammo' as const
+
+  private Ammo: any = null
+  private transformAux: any = null
+  private vecAux: any = null
+  private quatAux: any = null
+  private initPromise: Promise<void> | null = null
+
+  get isReady(): boolean {
+    return this.Ammo !== null && PhysicsSceneManager.isReady
+  }
+
+  /**
+   * Attendre le monde d'AmmoVolumeDemo puis l'adopter via PhysicsSceneManager
+   */
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = new Promise<void>((resolve) => {
+        const poll = () => {
+          if ((window as any).__ammoPhysicsWorld && (window as any).__ammoInstance) resolve()
+          else setTimeout(poll, WORLD_POLL_INTERVAL)
+        }
+        poll()
+      })
+        .then(() => PhysicsSceneManager.initialize())
+        .then(() => {
+          const Ammo = PhysicsSceneManager.getAmmo()
+          this.transformAux = new Ammo.btTransform()
+          this.vecAux = new Ammo.btVector3(0, 0, 0)
+          this.quatAux = new Ammo.btQuaternion(0, 0, 0, 1)
+          this.Ammo = Ammo
+        })
+    }
+    return this.initPromise
+  }
+
+  /**
+   * Le monde est avancé (et ses contacts relevés) par AmmoVolumeDemo
+   */
+  step(_deltaTime: number): void {}
+
+  // =============================================
+  // RIGID BODIES
+  // =============================================
+
+  createRigidBody(id: string, desc: RigidBodyDesc): void {
+    if (!this.isReady) {
+      console.warn('[AmmoBackend] Not initialized, cannot create rigid body')
+      return
+    }
+
+    const shape = desc.shape.type === 'sphere'
+      ? PhysicsSceneManager.createSphereShape(desc.shape.radius)
+      : PhysicsSceneManager.createBoxShape(desc.shape.halfExtents)
+    if (desc.margin !== undefined) shape.setMargin(desc.margin)
+    const mass = desc.kinematic ? 0 : desc.mass
+    const body = PhysicsSceneManager.createRigidBody(shape, mass, desc.position, desc.quaternion)
+
+    if (desc.friction !== undefined) body.setFriction(desc.friction)
+    if (desc.restitution !== undefined) body.setRestitution(desc.restitution)
+    if (desc.linearDamping !== undefined || desc.angularDamping !== undefined) {
+      body.setDamping(desc.linearDamping ?? 0, desc.angularDamping ?? 0)
+    }
+    if (desc.kinematic) {
+      body.setCollisionFlags(body.getCollisionFlags() | CF_KINEMATIC_OBJECT)
+      body.setActivationState(DISABLE_DEACTIVATION)
+    }
+    if (desc.ccd) {
+      const size = desc.shape.type === 'sphere'
+        ? desc.shape.radius
+        : Math.min(desc.shape.halfExtents.x, desc.shape.halfExtents.y, desc.shape.halfExtents.z)
+      body.setCcdMotionThreshold(size * 0.5)
+      body.setCcdSweptSphereRadius(size * 0.8)
+    }
+
+    PhysicsSceneManager.addRigidBody(id, body, undefined, desc.category)
+
+    // Après l'ajout : addRigidBody impose la gravité du monde
+    if (desc.disableGravity) {
+      this.vecAux.setValue(0, 0, 0)
+      body.setGravity(this.vecAux)
+    }
+  }
+
+  removeRigidBody(id: string): boolean {
+    return PhysicsSceneManager.removeRigidBody(id)
+  }
+
+  hasRigidBody(id: string): boolean {
+    return PhysicsSceneManager.hasRigidBody(id)
+  }
+
+  private readTransform(id: string): any {
+    const motionState = PhysicsSceneManager.getRigidBody(id)?.body.getMotionState()
+    if (!motionState) return null
+    motionState.getWorldTransform(this.transformAux)
+    return this.transformAux
+  }
+
+  getPosition(id: string, out: THREE.Vector3): boolean {
+    const transform = this.readTransform(id)
+    if (!transform) return false
+    const origin = transform.getOrigin()
+    out.set(origin.x(), origin.y(), origin.z())
+    return true
+  }
+
+  getQuaternion(id: string, out: THREE.Quaternion): boolean {
+    const transform = this.readTransform(id)
+    if (!transform) return false
+    const rotation = transform.getRotation()
+    out.set(rotation.x(), rotation.y(), rotation.z(), rotation.w())
+    return true
+  }
+
+  getLinearVelocity(id: string, out: THREE.Vector3): boolean {
+    const body = PhysicsSceneManager.getRigidBody(id)?.body
+    if (!body) return false
+    const velocity = body.getLinearVelocity()
+    out.set(velocity.x(), velocity.y(), velocity.z())
+    return true
+  }
+
+  setKinematicTarget(id: string, position: THREE.Vector3, quaternion?: THREE.Quaternion): void {
+    const motionState = PhysicsSceneManager.getRigidBody(id)?.body.getMotionState()
+    if (!motionState) return
+
+    const transform = this.transformAux
+    motionState.getWorldTransform(transform)
+    this.vecAux.setValue(position.x, position.y, position.z)
+    transform.setOrigin(this.vecAux)
+    if (quaternion) {
+      this.quatAux.setValue(quaternion.x, quaternion.y, quaternion.z, quaternion.w)
+      transform.setRotation(this.quatAux)
+    }
+    motionState.setWorldTransform(transform)
+  }
+
+  applyImpulse(id: string, impulse: THREE.Vector3): void {
+    const body = PhysicsSceneManager.getRigidBody(id)?.body
+    if (!body) return
+    this.vecAux.setValue(impulse.x, impulse.y, impulse.z)
+    body.applyCentralImpulse(this.vecAux)
+    body.activate()
+  }
+
+  // =============================================
+  // RESSORTS
+  // =============================================
+
+  /**
+   * Ressort 6DOF sur les 3 axes linéaires, équilibre = position actuelle
+   */
+  createSpring(id: string, desc: SpringDesc): void {
+    const bodyA = PhysicsSceneManager.getRigidBody(desc.bodyA)?.body
+    const bodyB = PhysicsSceneManager.getRigidBody(desc.bodyB)?.body
+    if (!this.isReady || !bodyA || !bodyB) {
+      console.warn(`[AmmoBackend] Cannot create spring ${id}: missing bodies`)
+      return
+    }
+    const Ammo = this.Ammo
+
+    const frameInA = new Ammo.btTransform()
+    frameInA.setIdentity()
+    const frameInB = new Ammo.btTransform()
+    frameInB.setIdentity()
+
+    const spring = new Ammo.btGeneric6DofSpringConstraint(bodyA, bodyB, frameInA, frameInB, true)
+    Ammo.destroy(frameInA)
+    Ammo.destroy(frameInB)
+
+    const limit = desc.linearLimit ?? 1e6
+    const lower = new Ammo.btVector3(-limit, -limit, -limit)
+    const upper = new Ammo.btVector3(limit, limit, limit)
+    spring.setLinearLowerLimit(lower)
+    spring.setLinearUpperLimit(upper)
+    Ammo.destroy(lower)
+    Ammo.destroy(upper)
+
+    for (let i = 0; i < 3; i++) {
+      spring.enableSpring(i, true)
+      spring.setStiffness(i, desc.stiffness)
+      spring.setDamping(i, desc.damping)
+    }
+    spring.setEquilibriumPoint()
+
+    PhysicsSceneManager.addConstraint(id, spring, desc.category, { bodyA, bodyB, spring: true })
+  }
+
+  removeSpring(id: string): boolean {
+    return PhysicsSceneManager.removeConstraint(id)
+  }
+
+  // =============================================
+  // REQUÊTES
+  // =============================================
+
+  /**
+   * Premier body touché par le rayon (requête de PhysicsSceneManager)
+   */
+  raycast(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number, category?: string): RaycastHit | null {
+    return PhysicsSceneManager.raycast(origin, direction, maxDistance, category)
+  }
+
+  /**
+   * Contacts relevés par PhysicsSceneManager (début et fin)
+   */
+  onCollision(listener: CollisionListener): () => void {
+    const unsubscribeBegin = PhysicsSceneManager.onContactBegin(({ bodyA, bodyB }) =>
+      listener({ bodyA, bodyB, started: true })
+    )
+    const unsubscribeEnd = PhysicsSceneManager.onContactEnd(({ bodyA, bodyB }) =>
+      listener({ bodyA, bodyB, started: false })
+    )
+    return () => {
+      unsubscribeBegin()
+      unsubscribeEnd()
+    }
+  }
+
+  clearCategory(category: string): void {
+    PhysicsSceneManager.clearCategory(category)
+  }
+}
+
+// Singleton exporté
+export const AmmoBackend = new AmmoBackendClass()
@@ -0,0 +1,80 @@
+/**
+ * HitZones - Zones d'impact d'une tête (drill de précision, effets cartoon)
+ *
+ * Repère local de la tête JellyHead : Y vers le haut, Z vers le joueur,
+ * rayon HEAD_LOCAL_RADIUS. Les autres adversaires y ramènent leurs impacts
+ * via toHeadLocal (centre et rayon de leur tête dans le monde).
+ */
+
+import type { HitZone } from './types'
+
+/**
+ * Rayon de la tête dans le repère local des zones
+ */
+export const HEAD_LOCAL_RADIUS = 0.4
+
+/**
+ * Position de chaque zone à la surface de la tête (repère local, marqueur de cible)
+ */
+export const HIT_ZONE_ANCHORS: Record<HitZone, [number, number, number]> = {
+  cranium: [0, 0.38, 0.2],
+  forehead: [0, 0.3, 0.3],
+  leftEye: [-0.12, 0.08, 0.36],
+  rightEye: [0.12, 0.08, 0.36],
+  nose: [0, -0.02, 0.44],
+  leftCheek: [-0.22, -0.02, 0.24],
+  rightCheek: [0.22, -0.02, 0.24],
+  jaw: [0, -0.24, 0.22],
+  leftEar: [-0.36, 0.02, 0.05],
+  rightEar: [0.36, 0.02, 0.05],
+}
+
+/**
+ * Ramène un point du monde dans le repère local de la tête
+ * @param center Centre de la tête (monde)
+ * @param radius Rayon de la tête (monde)
+ */
+export function toHeadLocal(
+  point: { x: number; y: number; z: number },
+  center: readonly [number, number, number],
+  radius: number
+): [number, number, number] {
+  const scale = HEAD_LOCAL_RADIUS / radius
+  return [
+    (point.x - center[0]) * scale,
+    (point.y - center[1]) * scale,
+    (point.z - center[2]) * scale,
+  ]
+}
+
+/**
+ * Détermine la zone d'impact à partir de la position 3D
+ * Coordonnées en espace local de la tête (Y-up, Z-forward)
+ */
+export function determineHitZone(hitPoint: [number, number, number]): HitZone {
+  const [x, y, z] = hitPoint
+
+  // Zones verticales
+  if (y > 0.25) {
+    // Haut de la tête
+    if (Math.abs(x) < 0.12 && z > 0.2) return 'forehead'
+    return 'cranium'
+  }
+
+  if (y > -0.1) {
+    // Niveau yeux/joues
+    if (z > 0.25) {
+      // Face avant
+      if (x < -0.08) return 'leftEye'
+      if (x > 0.08) return 'rightEye'
+      return 'nose'
+    }
+    if (Math.abs(x) > 0.3) {
+      return x < 0 ? 'leftEar' : 'rightEar'
+    }
+    return x < 0 ? 'leftCheek' : 'rightCheek'
+  }
+
+  // En dessous = mâchoire
+  return 'jaw'
+}
@@ -0,0 +1,104 @@
+import * as THREE from 'three'
+
+/**
+ * Moteurs physiques disponibles
+ * - ammo: Ammo.js (Bullet), soft bodies, monde partagé avec AmmoVolumeDemo
+ * - rapier: Rapier (rigid bodies seulement), plus léger pour les appareils modestes
+ */
+export type PhysicsBackendType = 'ammo' | 'rapier'
+
+/**
+ * Forme de collision d'un rigid body
+ */
+export type BodyShape =
+  | { type: 'sphere'; radius: number }
+  | { type: 'box'; halfExtents: THREE.Vector3 }
+
+/**
+ * Description d'un rigid body, indépendante du moteur
+ */
+export interface RigidBodyDesc {
+  shape: BodyShape
+  mass: number                 // 0 = statique
+  position: THREE.Vector3
+  quaternion?: THREE.Quaternion
+  kinematic?: boolean          // Déplacé par le code (setKinematicTarget)
+  friction?: number
+  restitution?: number
+  linearDamping?: number
+  angularDamping?: number
+  disableGravity?: boolean
+  ccd?: boolean                // Détection continue (objets rapides)
+  margin?: number              // Marge de collision (Ammo uniquement)
+  category?: string            // 'gloves', 'opponent', 'environment', etc.
+}
+
+/**
+ * Ressort linéaire entre deux rigid bodies (équilibre = position à la création)
+ */
+export interface SpringDesc {
+  bodyA: string
+  bodyB: string
+  stiffness: number
+  damping: number
+  linearLimit?: number         // Débattement max par axe (ignoré si non supporté)
+  category?: string
+}
+
+/**
+ * Résultat d'un raycast
+ */
+export interface RaycastHit {
+  bodyId: string
+  point: THREE.Vector3
+  normal: THREE.Vector3
+  distance: number
+}
+
+/**
+ * Début / fin de contact entre deux bodies enregistrés
+ */
+export interface CollisionEvent {
+  bodyA: string
+  bodyB: string
+  started: boolean
+}
+
+export type CollisionListener = (event: CollisionEvent) => void
+
+/**
+ * Interface commune des moteurs physiques
+ * Les bodies sont identifiés par ID (comme dans PhysicsSceneManager)
+ */
+export interface PhysicsBackend {
+  readonly type: PhysicsBackendType
+  readonly isReady: boolean
+
+  initialize(): Promise<void>
+
+  // Avancer la simulation et relever les collisions
+  step(deltaTime: number): void
+
+  // Rigid bodies
+  createRigidBody(id: string, desc: RigidBodyDesc): void
+  removeRigidBody(id: string): boolean
+  hasRigidBody(id: string): boolean
+  getPosition(id: string, out: THREE.Vector3): boolean
+  getQuaternion(id: string, out: THREE.Quaternion): boolean
+  getLinearVelocity(id: string, out: THREE.Vector3): boolean
+  setKinematicTarget(id: string, position: THREE.Vector3, quaternion?: THREE.Quaternion): void
+  applyImpulse(id: string, impulse: THREE.Vector3): void
+
+  // Ressorts
+  createSpring(id: string, desc: SpringDesc): void
+  removeSpring(id: string): boolean
+
+  // Requêtes
+  raycast(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number, category?: string): RaycastHit | null
+
+  // Collisions (retourne la fonction de désabonnement)
+  onCollision(listener: CollisionListener): () => void
+
+  // Supprimer ressorts et bodies d'une catégorie
+  clearCategory(category: string): void
+}
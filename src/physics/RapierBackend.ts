@@ -0,0 +1,341 @@
+/**
+ * RapierBackend - Implémentation Rapier de PhysicsBackend
+ *
+ * Monde Rapier autonome (rigid bodies seulement), chargé à la demande :
+ * le WASM n'est téléchargé que si ce moteur est choisi.
+ * Pas fixe de PhysicsClock (1/120 s) : un pas Rapier par pas de l'horloge.
+ */
+
+import * as THREE from 'three'
+import type { Collider, EventQueue, ImpulseJoint, RigidBody, World } from '@dimforge/rapier3d-compat'
+import { PhysicsClock } from '../systems/PhysicsClock'
+import type {
+  CollisionEvent,
+  CollisionListener,
+  PhysicsBackend,
+  RaycastHit,
+  RigidBodyDesc,
+  SpringDesc,
+} from './PhysicsBackend'
+
+type RapierModule = typeof import('@dimforge/rapier3d-compat')['default']
+
+// Configuration du monde
+const RAPIER_CONFIG = {
+  gravity: -9.8,
+  fixedTimeStep: PhysicsClock.fixedDeltaTime,
+  maxSubSteps: 10,
+}
+
+// Sol de la salle (mêmes dimensions que le sol Ammo d'AmmoVolumeDemo)
+const GROUND = {
+  id: 'ground',
+  halfExtents: new THREE.Vector3(8, 0.5, 6),
+  position: new THREE.Vector3(0, -0.5, 0),
+}
+
+interface RapierBodyEntry {
+  body: RigidBody
+  collider: Collider
+  category: string
+}
+
+interface RapierSpringEntry {
+  joints: ImpulseJoint[] // Ressort + corde de limite éventuelle
+  category: string
+}
+
+class RapierBackendClass implements PhysicsBackend {
+  readonly type = 'rapier' as const
+
+  private RAPIER: RapierModule | null = null
+  private world: World | null = null
+  private eventQueue: EventQueue | null = null
+  private accumulator = 0
+  private initPromise: Promise<void> | null = null
+
+  // Registres par ID
+  private bodies: Map<string, RapierBodyEntry> = new Map()
+  private springs: Map<string, RapierSpringEntry> = new Map()
+
+  // Handle de collider → ID
+  private idsByCollider: Map<number, string> = new Map()
+  private listeners: Set<CollisionListener> = new Set()
+
+  get isReady(): boolean {
+    return this.world !== null
+  }
+
+  /**
+   * Charger Rapier et créer le monde (avec le sol de la salle)
+   */
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        const RAPIER = (await import('@dimforge/rapier3d-compat')).default
+        await RAPIER.init()
+
+        this.RAPIER = RAPIER
+        this.world = new RAPIER.World({ x: 0, y: RAPIER_CONFIG.gravity, z: 0 })
+        this.world.timestep = RAPIER_CONFIG.fixedTimeStep
+        this.eventQueue = new RAPIER.EventQueue(true)
+
+        this.createRigidBody(GROUND.id, {
+          shape: { type: 'box', halfExtents: GROUND.halfExtents },
+          mass: 0,
+          position: GROUND.position,
+          friction: 0.5,
+          category: 'environment',
+        })
+
+        console.log('[RapierBackend] Created physics world')
+      })()
+    }
+    return this.initPromise
+  }
+
+  /**
+   * Avancer la simulation par pas fixes et relever les collisions
+   */
+  step(deltaTime: number): void {
+    const world = this.world
+    const eventQueue = this.eventQueue
+    if (!world || !eventQueue) return
+
+    const { fixedTimeStep, maxSubSteps } = RAPIER_CONFIG
+    this.accumulator = Math.min(this.accumulator + deltaTime, fixedTimeStep * maxSubSteps)
+
+    while (this.accumulator >= fixedTimeStep) {
+      world.step(eventQueue)
+      this.accumulator -= fixedTimeStep
+
+      eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+        const bodyA = this.idsByCollider.get(handle1)
+        const bodyB = this.idsByCollider.get(handle2)
+        if (bodyA && bodyB) this.emit({ bodyA, bodyB, started })
+      })
+    }
+  }
+
+  private emit(event: CollisionEvent): void {
+    for (const listener of this.listeners) listener(event)
+  }
+
+  // =============================================
+  // RIGID BODIES
+  // =============================================
+
+  createRigidBody(id: string, desc: RigidBodyDesc): void {
+    const RAPIER = this.RAPIER
+    const world = this.world
+    if (!RAPIER || !world) {
+      console.warn('[RapierBackend] Not initialized, cannot create rigid body')
+      return
+    }
+
+    // Remplacer l'ancien si existe
+    if (this.bodies.has(id)) {
+      this.removeRigidBody(id)
+    }
+
+    const isDynamic = !desc.kinematic && desc.mass > 0
+    const bodyDesc = desc.kinematic
+      ? RAPIER.RigidBodyDesc.kinematicPositionBased()
+      : isDynamic ? RAPIER.RigidBodyDesc.dynamic() : RAPIER.RigidBodyDesc.fixed()
+
+    bodyDesc.setTranslation(desc.position.x, desc.position.y, desc.position.z)
+    if (desc.quaternion) bodyDesc.setRotation(desc.quaternion)
+    if (desc.linearDamping !== undefined) bodyDesc.setLinearDamping(desc.linearDamping)
+    if (desc.angularDamping !== undefined) bodyDesc.setAngularDamping(desc.angularDamping)
+    if (desc.disableGravity) bodyDesc.setGravityScale(0)
+    if (desc.ccd) bodyDesc.setCcdEnabled(true)
+
+    const body = world.createRigidBody(bodyDesc)
+
+    const { shape } = desc
+    const colliderDesc = shape.type === 'sphere'
+      ? RAPIER.ColliderDesc.ball(shape.radius)
+      : RAPIER.ColliderDesc.cuboid(shape.halfExtents.x, shape.halfExtents.y, shape.halfExtents.z)
+    if (isDynamic) colliderDesc.setMass(desc.mass)
+    if (desc.friction !== undefined) colliderDesc.setFriction(desc.friction)
+    if (desc.restitution !== undefined) colliderDesc.setRestitution(desc.restitution)
+    colliderDesc.setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS)
+
+    const collider = world.createCollider(colliderDesc, body)
+
+    this.bodies.set(id, { body, collider, category: desc.category ?? 'default' })
+    this.idsByCollider.set(collider.handle, id)
+  }
+
+  removeRigidBody(id: string): boolean {
+    const entry = this.bodies.get(id)
+    if (!entry || !this.world) return false
+
+    // Les joints attachés sont supprimés avec le body
+    for (const [springId, spring] of this.springs) {
+      if (spring.joints.some((joint) => joint.body1().handle === entry.body.handle || joint.body2().handle === entry.body.handle)) {
+        this.springs.delete(springId)
+      }
+    }
+
+    this.idsByCollider.delete(entry.collider.handle)
+    this.world.removeRigidBody(entry.body)
+    this.bodies.delete(id)
+    return true
+  }
+
+  hasRigidBody(id: string): boolean {
+    return this.bodies.has(id)
+  }
+
+  getPosition(id: string, out: THREE.Vector3): boolean {
+    const body = this.bodies.get(id)?.body
+    if (!body) return false
+    const translation = body.translation()
+    out.set(translation.x, translation.y, translation.z)
+    return true
+  }
+
+  getQuaternion(id: string, out: THREE.Quaternion): boolean {
+    const body = this.bodies.get(id)?.body
+    if (!body) return false
+    const rotation = body.rotation()
+    out.set(rotation.x, rotation.y, rotation.z, rotation.w)
+    return true
+  }
+
+  getLinearVelocity(id: string, out: THREE.Vector3): boolean {
+    const body = this.bodies.get(id)?.body
+    if (!body) return false
+    const velocity = body.linvel()
+    out.set(velocity.x, velocity.y, velocity.z)
+    return true
+  }
+
+  setKinematicTarget(id: string, position: THREE.Vector3, quaternion?: THREE.Quaternion): void {
+    const body = this.bodies.get(id)?.body
+    if (!body) return
+    body.setNextKinematicTranslation(position)
+    if (quaternion) body.setNextKinematicRotation(quaternion)
+  }
+
+  applyImpulse(id: string, impulse: THREE.Vector3): void {
+    this.bodies.get(id)?.body.applyImpulse(impulse, true)
+  }
+
+  // =============================================
+  // RESSORTS
+  // =============================================
+
+  /**
+   * Ressort isotrope vers la position relative actuelle de B
+   * Rapier n'a pas de limite par axe : le débattement est borné par une corde
+   */
+  createSpring(id: string, desc: SpringDesc): void {
+    const RAPIER = this.RAPIER
+    const world = this.world
+    const bodyA = this.bodies.get(desc.bodyA)?.body
+    const bodyB = this.bodies.get(desc.bodyB)?.body
+    if (!RAPIER || !world || !bodyA || !bodyB) {
+      console.warn(`[RapierBackend] Cannot create spring ${id}: missing bodies`)
+      return
+    }
+
+    if (this.springs.has(id)) {
+      this.removeSpring(id)
+    }
+
+    // Ancre sur A = position actuelle de B dans le repère local de A
+    const positionA = bodyA.translation()
+    const positionB = bodyB.translation()
+    const rotationA = bodyA.rotation()
+    const anchorA = new THREE.Vector3(positionB.x - positionA.x, positionB.y - positionA.y, positionB.z - positionA.z)
+      .applyQuaternion(new THREE.Quaternion(rotationA.x, rotationA.y, rotationA.z, rotationA.w).invert())
+    const anchorB = { x: 0, y: 0, z: 0 }
+
+    const joints = [
+      world.createImpulseJoint(
+        RAPIER.JointData.spring(0, desc.stiffness, desc.damping, anchorA, anchorB),
+        bodyA,
+        bodyB,
+        true
+      ),
+    ]
+    if (desc.linearLimit !== undefined) {
+      joints.push(world.createImpulseJoint(RAPIER.JointData.rope(desc.linearLimit, anchorA, anchorB), bodyA, bodyB, true))
+    }
+
+    // Pas de collision entre les bodies reliés (comme addConstraint d'Ammo)
+    for (const joint of joints) joint.setContactsEnabled(false)
+
+    this.springs.set(id, { joints, category: desc.category ?? 'default' })
+  }
+
+  removeSpring(id: string): boolean {
+    const entry = this.springs.get(id)
+    if (!entry || !this.world) return false
+
+    for (const joint of entry.joints) {
+      this.world.removeImpulseJoint(joint, true)
+    }
+    this.springs.delete(id)
+    return true
+  }
+
+  // =============================================
+  // REQUÊTES
+  // =============================================
+
+  raycast(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number, category?: string): RaycastHit | null {
+    const RAPIER = this.RAPIER
+    const world = this.world
+    if (!RAPIER || !world) return null
+
+    const dir = direction.clone().normalize()
+    const ray = new RAPIER.Ray(origin, dir)
+    const hit = world.castRayAndGetNormal(
+      ray,
+      maxDistance,
+      true,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      (collider) => {
+        const id = this.idsByCollider.get(collider.handle)
+        return !!id && (!category || this.bodies.get(id)?.category === category)
+      }
+    )
+    if (!hit) return null
+
+    const bodyId = this.idsByCollider.get(hit.collider.handle)
+    if (!bodyId) return null
+
+    return {
+      bodyId,
+      point: origin.clone().addScaledVector(dir, hit.timeOfImpact),
+      normal: new THREE.Vector3(hit.normal.x, hit.normal.y, hit.normal.z),
+      distance: hit.timeOfImpact,
+    }
+  }
+
+  onCollision(listener: CollisionListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  clearCategory(category: string): void {
+    // Ressorts d'abord (dépendent des bodies)
+    for (const [id, entry] of this.springs) {
+      if (entry.category === category) this.removeSpring(id)
+    }
+    for (const [id, entry] of this.bodies) {
+      if (entry.category === category) this.removeRigidBody(id)
+    }
+  }
+}
+
+// Singleton exporté
+export const RapierBackend = new RapierBackendClass()
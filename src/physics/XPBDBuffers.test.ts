@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { copyParticle, copyParticleBuffers, createParticleBuffers } from './XPBDBuffers'
+
+describe('createParticleBuffers', () => {
+  it('gives each field its own range of one backing buffer', () => {
+    const buffers = createParticleBuffers(4)
+    buffers.positions.fill(1)
+    buffers.invMasses.fill(2)
+    buffers.sequence[0] = 3
+
+    expect(buffers.positions).toHaveLength(12)
+    expect(buffers.invMasses).toHaveLength(4)
+    expect(buffers.prevPositions.every((value) => value === 0)).toBe(true)
+    expect(buffers.displacements.every((value) => value === 0)).toBe(true)
+    expect(buffers.positions.buffer).toBe(buffers.buffer)
+    expect(buffers.sequence.buffer).toBe(buffers.buffer)
+  })
+
+  it('maps the same fields onto a buffer received from another thread', () => {
+    const source = createParticleBuffers(2)
+    source.velocities.set([1, 2, 3, 4, 5, 6])
+    source.sequence[0] = 8
+
+    const view = createParticleBuffers(2, source.buffer)
+    expect(Array.from(view.velocities)).toEqual([1, 2, 3, 4, 5, 6])
+    expect(view.sequence[0]).toBe(8)
+  })
+})
+
+describe('copyParticleBuffers / copyParticle', () => {
+  it('copies every field of the first particles into a larger buffer', () => {
+    const source = createParticleBuffers(2)
+    source.positions.set([1, 2, 3, 4, 5, 6])
+    source.restPositions.set([7, 8, 9, 10, 11, 12])
+    source.invMasses.set([0.5, 0])
+
+    const target = createParticleBuffers(4)
+    copyParticleBuffers(source, target, 2)
+    expect(Array.from(target.positions.subarray(0, 6))).toEqual([1, 2, 3, 4, 5, 6])
+    expect(Array.from(target.restPositions.subarray(0, 6))).toEqual([7, 8, 9, 10, 11, 12])
+    expect(Array.from(target.invMasses)).toEqual([0.5, 0, 0, 0])
+  })
+
+  it('moves one particle to another index', () => {
+    const source = createParticleBuffers(2)
+    source.positions.set([1, 2, 3, 4, 5, 6])
+    source.invMasses.set([1, 0.25])
+
+    const target = createParticleBuffers(2)
+    copyParticle(source, 1, target, 0)
+    expect(Array.from(target.positions)).toEqual([4, 5, 6, 0, 0, 0])
+    expect(target.invMasses[0]).toBe(0.25)
+  })
+})
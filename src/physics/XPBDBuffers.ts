@@ -0,0 +1,98 @@
+/**
+ * XPBDBuffers - Stockage des particules XPBD en structure de tableaux
+ *
+ * Un seul buffer par solveur, découpé en Float32Array (xyz par particule) :
+ * positions, positions précédentes, vélocités, repos, début du dernier pas,
+ * déplacements de rendu, puis masses inverses (1 float par particule).
+ *
+ * Le buffer est un SharedArrayBuffer quand la page est isolée (COOP/COEP) :
+ * un worker peut alors simuler et le thread principal lire sans copie.
+ * Un compteur de séquence (Int32, en fin de buffer) signale les publications
+ * du worker en cours (seqlock, voir XPBDSolver.publishState).
+ */
+
+// Champs xyz, dans l'ordre du buffer
+const VECTOR_FIELDS = [
+  'positions',
+  'prevPositions',
+  'velocities',
+  'restPositions',
+  'stepStartPositions',
+  'displacements',
+] as const
+
+type VectorField = (typeof VECTOR_FIELDS)[number]
+
+// Floats par particule : 3 par champ xyz + masse inverse
+const FLOATS_PER_PARTICLE = VECTOR_FIELDS.length * 3 + 1
+
+/**
+ * Vues sur le buffer d'un solveur (capacité fixe, réalloué pour grandir)
+ */
+export type XPBDParticleBuffers = Record<VectorField, Float32Array> & {
+  buffer: ArrayBufferLike
+  capacity: number
+  invMasses: Float32Array
+  sequence: Int32Array  // Impair pendant une publication du worker
+}
+
+/**
+ * Mémoire partagée utilisable (SharedArrayBuffer + page isolée)
+ */
+export function canUseSharedMemory(): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true
+}
+
+/**
+ * Le buffer est-il partageable avec un worker ?
+ */
+export function isSharedBuffer(buffer: ArrayBufferLike): buffer is SharedArrayBuffer {
+  return typeof SharedArrayBuffer !== 'undefined' && buffer instanceof SharedArrayBuffer
+}
+
+/**
+ * Créer les vues d'un buffer de particules
+ * @param buffer Buffer existant (reçu d'un autre thread) ; alloué sinon, partagé si possible
+ */
+export function createParticleBuffers(capacity: number, buffer?: ArrayBufferLike): XPBDParticleBuffers {
+  const byteLength = capacity * FLOATS_PER_PARTICLE * Float32Array.BYTES_PER_ELEMENT + Int32Array.BYTES_PER_ELEMENT
+  const storage = buffer ?? (canUseSharedMemory() ? new SharedArrayBuffer(byteLength) : new ArrayBuffer(byteLength))
+
+  const fields = {} as Record<VectorField, Float32Array>
+  let offset = 0
+  for (const field of VECTOR_FIELDS) {
+    fields[field] = new Float32Array(storage, offset, capacity * 3)
+    offset += capacity * 3 * Float32Array.BYTES_PER_ELEMENT
+  }
+
+  const invMasses = new Float32Array(storage, offset, capacity)
+  offset += capacity * Float32Array.BYTES_PER_ELEMENT
+
+  return {
+    ...fields,
+    buffer: storage,
+    capacity,
+    invMasses,
+    sequence: new Int32Array(storage, offset, 1),
+  }
+}
+
+/**
+ * Copier les `count` premières particules d'un buffer à l'autre (tous les champs)
+ */
+export function copyParticleBuffers(source: XPBDParticleBuffers, target: XPBDParticleBuffers, count: number): void {
+  for (const field of VECTOR_FIELDS) {
+    target[field].set(source[field].subarray(0, count * 3))
+  }
+  target.invMasses.set(source.invMasses.subarray(0, count))
+}
+
+/**
+ * Copier une particule (tous les champs) d'un index à l'autre
+ */
+export function copyParticle(source: XPBDParticleBuffers, from: number, target: XPBDParticleBuffers, to: number): void {
+  for (const field of VECTOR_FIELDS) {
+    target[field].set(source[field].subarray(from * 3, from * 3 + 3), to * 3)
+  }
+  target.invMasses[to] = source.invMasses[from]!
+}
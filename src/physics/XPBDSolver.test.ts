@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from 'vitest'
+import * as THREE from 'three'
+import { XPBDSolver } from './XPBDSolver'
+import { createParticleBuffers } from './XPBDBuffers'
+import type { Constraint, DistanceConstraint, Particle } from './types'
+
+const DT = 1 / 120
+
+/**
+ * Particule au repos en (x, y, z)
+ */
+function createParticle(id: number, x: number, y = 0, z = 0, invMass = 1): Particle {
+  const position = new THREE.Vector3(x, y, z)
+  return {
+    id,
+    position: position.clone(),
+    prevPosition: position.clone(),
+    velocity: new THREE.Vector3(),
+    invMass,
+    restPosition: position.clone(),
+  }
+}
+
+function createDistance(a: number, b: number, restValue = 1): DistanceConstraint {
+  return { type: 'distance', particleIds: [a, b], restValue, compliance: 0, damping: 0 }
+}
+
+/**
+ * Chaîne de `count` particules espacées de 1, la première fixe
+ */
+function createChain(count: number): XPBDSolver {
+  const solver = new XPBDSolver({ floorY: -100 })
+  solver.addParticles(Array.from({ length: count }, (_, i) => createParticle(i, i, 0, 0, i === 0 ? 0 : 1)))
+  solver.addConstraints(Array.from({ length: count - 1 }, (_, i) => createDistance(i, i + 1)))
+  return solver
+}
+
+function stepMany(solver: XPBDSolver, steps: number): void {
+  for (let i = 0; i < steps; i++) solver.step(DT)
+}
+
+describe('XPBDSolver snapshot / restore', () => {
+  it('replays the same motion from a restored snapshot', () => {
+    const solver = createChain(5)
+    stepMany(solver, 30)
+    const snapshot = solver.snapshot()
+    stepMany(solver, 30)
+    const expected = Array.from(solver.getPositionsArray())
+
+    solver.restore(snapshot)
+    stepMany(solver, 30)
+    expect(Array.from(solver.getPositionsArray())).toEqual(expected)
+  })
+
+  it('is not changed by later steps', () => {
+    const solver = createChain(3)
+    const snapshot = solver.snapshot()
+    const before = Array.from(snapshot.positions)
+    stepMany(solver, 10)
+    expect(Array.from(snapshot.positions)).toEqual(before)
+  })
+
+  it('rewrites a previous snapshot in place when the particle count is unchanged', () => {
+    const solver = createChain(3)
+    const first = solver.snapshot()
+    const positions = first.positions
+    stepMany(solver, 10)
+
+    expect(solver.snapshot(first)).toBe(first)
+    expect(first.positions).toBe(positions)
+    expect(Array.from(first.positions)).toEqual(Array.from(solver.getPositionsArray()))
+
+    solver.addParticle(createParticle(3, 3))
+    expect(solver.snapshot(first).positions).toHaveLength(12)
+  })
+
+  it('skips particles that no longer exist', () => {
+    const solver = createChain(3)
+    const snapshot = solver.snapshot()
+    solver.removeParticles([1])
+    stepMany(solver, 10)
+    solver.restore(snapshot)
+
+    const position = new THREE.Vector3()
+    expect(solver.getInterpolatedPosition(2, 1, position)?.toArray()).toEqual([2, 0, 0])
+  })
+})
+
+describe('XPBDSolver.removeParticles', () => {
+  it('keeps the order of the remaining particles and drops their constraints', () => {
+    const solver = createChain(4)
+    solver.removeParticles([1, 42])
+
+    expect(solver.particleCount).toBe(3)
+    expect([0, 2, 3].map((id) => solver.indexOf(id))).toEqual([0, 1, 2])
+    expect(solver.indexOf(1)).toBe(-1)
+    expect(Array.from(solver.getPositionsArray())).toEqual([0, 0, 0, 2, 0, 0, 3, 0, 0])
+    // Seule la contrainte 2-3 ne touche pas la particule retirée
+    expect(solver.constraintCount).toBe(1)
+  })
+
+  it('leaves views taken before the removal untouched', () => {
+    const solver = createChain(3)
+    const view = solver.getPositionsArray()
+    solver.removeParticles([0])
+    stepMany(solver, 10)
+    expect(Array.from(view)).toEqual([0, 0, 0, 1, 0, 0, 2, 0, 0])
+  })
+
+  it('keeps contiguous ranges readable as displacements', () => {
+    const solver = createChain(4)
+    solver.removeParticles([0])
+    expect(solver.getDisplacements(1, 3, 1)).toHaveLength(9)
+    expect(solver.getDisplacements(2, 3, 1)).toBeNull()
+  })
+})
+
+describe('XPBDSolver constraints', () => {
+  it('rejects constraint types it does not solve', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const solver = createChain(2)
+    const volume: Constraint = { type: 'volume', particleIds: [0, 1], restValue: 1, compliance: 0, damping: 0 }
+    solver.addConstraint(volume)
+
+    expect(solver.constraintCount).toBe(1)
+    expect(warn).toHaveBeenCalledOnce()
+    warn.mockRestore()
+  })
+})
+
+describe('XPBDSolver.publishState', () => {
+  it('leaves an even sequence number after each publication', () => {
+    const solver = createChain(2)
+    const shared = createParticleBuffers(2)
+    solver.publishState(shared)
+    solver.publishState(shared)
+
+    expect(shared.sequence[0]).toBe(4)
+    expect(Array.from(shared.positions)).toEqual([0, 0, 0, 1, 0, 0])
+  })
+})
@@ -2,12 +2,96 @@ import * as THREE from 'three'
 import {
   Particle,
   Constraint,
+  ConstraintType,
   DistanceConstraint,
   PressureConstraint,
   XPBDConfig,
   DEFAULT_XPBD_CONFIG,
   ImpactData,
+  XPBDSnapshot,
+  PhysicsDebugDrawer,
 } from './types'
+import {
+  createParticleBuffers,
+  copyParticleBuffers,
+  copyParticle,
+  isSharedBuffer,
+  type XPBDParticleBuffers,
+} from './XPBDBuffers'
+import {
+  toWorkerConfig,
+  toWorkerImpact,
+  type WorkerMessage,
+  type WorkerResponse,
+} from '../workers/xpbdWorker'
+
+// Capacité initiale des buffers de particules (doublée si besoin)
+const INITIAL_CAPACITY = 64
+
+// Pas cumulés au plus pendant que le worker calcule (au-delà, le retard est abandonné)
+const MAX_QUEUED_STEPS = 12
+
+// Champs publiés par le worker à la fin de chaque pas
+const PUBLISHED_FIELDS = ['positions', 'prevPositions', 'velocities', 'stepStartPositions'] as const
+
+// Lectures recommencées au plus si le worker publie pendant la lecture (seqlock)
+const MAX_READ_ATTEMPTS = 64
+
+// Contraintes résolues ; 'volume', 'bending' et 'attachment' sont refusées à l'ajout
+const SOLVED_CONSTRAINT_TYPES: ReadonlySet<ConstraintType> = new Set(['distance', 'pressure'])
+
+// Rendu de debug : déformation (relative) à laquelle la couleur sature
+const STRAIN_COLOR_RANGE = 0.25
+const _strainColor = new THREE.Color()
+
+// Vecteurs temporaires du calcul de volume
+const _center = new THREE.Vector3()
+const _p0 = new THREE.Vector3()
+const _p1 = new THREE.Vector3()
+const _p2 = new THREE.Vector3()
+const _cross = new THREE.Vector3()
+
+/**
+ * Couleur d'une déformation : bleu (compression) → vert (repos) → rouge (étirement)
+ */
+function strainToColor(strain: number): number {
+  const t = THREE.MathUtils.clamp(strain / STRAIN_COLOR_RANGE, -1, 1)
+  return _strainColor.setHSL((1 - t) / 3, 1, 0.5).getHex()
+}
+
+/**
+ * Ajouter un vecteur au xyz d'index `index` d'un tableau
+ */
+function accumulate(array: Float32Array, index: number, v: THREE.Vector3): void {
+  const i = index * 3
+  array[i] = array[i]! + v.x
+  array[i + 1] = array[i + 1]! + v.y
+  array[i + 2] = array[i + 2]! + v.z
+}
+
+/**
+ * Contraintes résolues sur les index des particules dans les buffers
+ * (recompilées depuis les contraintes publiques à chaque changement de topologie)
+ */
+interface SolverDistanceConstraint {
+  type: 'distance'
+  a: number
+  b: number
+  restValue: number
+  compliance: number
+}
+
+interface SolverPressureConstraint {
+  type: 'pressure'
+  indices: Int32Array                    // Particules trouvées, dans l'ordre de particleIds
+  triangles: [number, number, number][]  // Index dans `indices`
+  normals: Float32Array                  // Normales accumulées (réutilisées)
+  restValue: number
+  pressure: number
+  compliance: number
+}
+
+type SolverConstraint = SolverDistanceConstraint | SolverPressureConstraint
 
 /**
  * Solveur XPBD (Extended Position Based Dynamics)
@@ -19,15 +103,32 @@ import {
  * 3. Résoudre contraintes (Gauss-Seidel)
  * 4. Mettre à jour vélocités
  * 5. Appliquer damping
+ *
+ * Particules stockées en structure de tableaux (XPBDBuffers), dans l'ordre
+ * d'ajout. Avec attachWorker, les pas sont calculés dans xpbdWorkerImpl et
+ * l'état est publié dans le buffer partagé : lectures sans copie ni attente.
  */
 export class XPBDSolver {
-  private particles: Map<number, Particle> = new Map()
+  private buffers: XPBDParticleBuffers = createParticleBuffers(0)
+  private ids: number[] = []
+  private indexById: Map<number, number> = new Map()
   private constraints: Constraint[] = []
+  private solverConstraints: SolverConstraint[] = []
+  private constraintsDirty = false
   private config: XPBDConfig
   private pendingImpacts: ImpactData[] = []
 
+  // Simulation déléguée (voir attachWorker)
+  private worker: Worker | null = null
+  private workerStateDirty = false
+  private workerBusy = false
+  private queuedSteps = 0
+  private queuedDt = 0
+
   // Vecteurs temporaires réutilisés (évite allocations)
   private _tempVec1 = new THREE.Vector3()
+  private _tempVec2 = new THREE.Vector3()
+  private debugPositions = new Float32Array(0) // Copie cohérente des positions (debugDraw)
 
   constructor(config: Partial<XPBDConfig> = {}) {
     this.config = { ...DEFAULT_XPBD_CONFIG, ...config }
@@ -37,35 +138,91 @@ export class XPBDSolver {
    * Ajouter une particule au système
    */
   addParticle(particle: Particle): void {
-    this.particles.set(particle.id, particle)
+    this.addParticles([particle])
   }
 
   /**
-   * Ajouter plusieurs particules
+   * Ajouter plusieurs particules (à la suite des existantes)
+   * Un ID déjà présent remplace la particule correspondante
    */
   addParticles(particles: Particle[]): void {
-    particles.forEach((p) => this.addParticle(p))
+    this.reserve(this.ids.length + particles.length)
+    const { positions, prevPositions, velocities, restPositions, stepStartPositions, invMasses } = this.buffers
+
+    for (const particle of particles) {
+      let index = this.indexById.get(particle.id)
+      if (index === undefined) {
+        index = this.ids.length
+        this.ids.push(particle.id)
+        this.indexById.set(particle.id, index)
+      }
+
+      const i = index * 3
+      particle.position.toArray(positions, i)
+      particle.prevPosition.toArray(prevPositions, i)
+      particle.velocity.toArray(velocities, i)
+      particle.restPosition.toArray(restPositions, i)
+      particle.position.toArray(stepStartPositions, i)
+      invMasses[index] = particle.invMass
+    }
+
+    this.constraintsDirty = true
+    this.workerStateDirty = true
+  }
+
+  /**
+   * Retirer des particules et les contraintes qui les utilisent
+   * Les particules restantes gardent leur ordre (plages contiguës préservées)
+   */
+  removeParticles(ids: number[]): void {
+    const removed = new Set(ids.filter((id) => this.indexById.has(id)))
+    if (removed.size === 0) return
+
+    // Nouveaux buffers : un pas en cours dans le worker publie dans les anciens
+    const source = this.buffers
+    this.buffers = createParticleBuffers(source.capacity)
+    const kept: number[] = []
+    this.ids.forEach((id, index) => {
+      if (removed.has(id)) return
+      copyParticle(source, index, this.buffers, kept.length)
+      kept.push(id)
+    })
+
+    this.ids = kept
+    this.indexById = new Map(kept.map((id, index) => [id, index]))
+    this.constraints = this.constraints.filter((c) => !c.particleIds.some((id) => removed.has(id)))
+    this.constraintsDirty = true
+    this.workerStateDirty = true
   }
 
   /**
-   * Récupérer une particule par ID
+   * Index d'une particule dans les buffers (-1 si inconnue)
    */
-  getParticle(id: number): Particle | undefined {
-    return this.particles.get(id)
+  indexOf(id: number): number {
+    return this.indexById.get(id) ?? -1
   }
 
   /**
    * Ajouter une contrainte
    */
   addConstraint(constraint: Constraint): void {
-    this.constraints.push(constraint)
+    this.addConstraints([constraint])
   }
 
   /**
    * Ajouter plusieurs contraintes
+   * Les types non résolus par le solveur sont ignorés avec un avertissement
    */
   addConstraints(constraints: Constraint[]): void {
-    this.constraints.push(...constraints)
+    for (const constraint of constraints) {
+      if (SOLVED_CONSTRAINT_TYPES.has(constraint.type)) {
+        this.constraints.push(constraint)
+      } else {
+        console.warn(`[XPBDSolver] Unsupported constraint type '${constraint.type}', ignored`)
+      }
+    }
+    this.constraintsDirty = true
+    this.workerStateDirty = true
   }
 
   /**
@@ -80,8 +237,17 @@ export class XPBDSolver {
    * @param dt Delta time en secondes
    */
   step(dt: number): void {
+    if (this.worker) {
+      this.requestWorkerStep(dt)
+      return
+    }
+
+    this.ensureSolverConstraints()
     const subDt = dt / this.config.substeps
 
+    const { positions, stepStartPositions } = this.buffers
+    stepStartPositions.set(positions.subarray(0, this.ids.length * 3))
+
     for (let sub = 0; sub < this.config.substeps; sub++) {
       // 1. Appliquer forces externes
       this.applyExternalForces(subDt)
@@ -107,58 +273,61 @@ export class XPBDSolver {
    * Appliquer gravité et impacts aux vélocités
    */
   private applyExternalForces(dt: number): void {
-    this.particles.forEach((particle) => {
-      if (particle.invMass === 0) return // Particule fixe
+    const { positions, velocities, invMasses } = this.buffers
+    const position = this._tempVec1
+    const velocity = this._tempVec2
+
+    for (let index = 0; index < this.ids.length; index++) {
+      if (invMasses[index] === 0) continue // Particule fixe
+
+      const i = index * 3
+      position.fromArray(positions, i)
+      velocity.fromArray(velocities, i)
 
       // Gravité
-      particle.velocity.addScaledVector(this.config.gravity, dt)
+      velocity.addScaledVector(this.config.gravity, dt)
 
       // Impacts
       for (const impact of this.pendingImpacts) {
-        const dist = particle.position.distanceTo(impact.position)
+        const dist = position.distanceTo(impact.position)
         if (dist < impact.radius) {
           // Falloff exponentiel pour effet cartoon
           const falloff = Math.pow(1 - dist / impact.radius, 2)
-          const impulse = this._tempVec1
-            .copy(impact.force)
-            .multiplyScalar(falloff * impact.intensity)
-
-          particle.velocity.add(impulse)
+          velocity.addScaledVector(impact.force, falloff * impact.intensity)
         }
       }
-    })
+
+      velocity.toArray(velocities, i)
+    }
   }
 
   /**
    * Prédire nouvelles positions (Euler explicite)
    */
   private predictPositions(dt: number): void {
-    this.particles.forEach((particle) => {
-      if (particle.invMass === 0) return
+    const { positions, prevPositions, velocities, invMasses } = this.buffers
 
-      // Sauvegarder position actuelle
-      particle.prevPosition.copy(particle.position)
+    for (let index = 0; index < this.ids.length; index++) {
+      if (invMasses[index] === 0) continue
 
-      // Prédire nouvelle position
-      particle.position.addScaledVector(particle.velocity, dt)
-    })
+      for (let i = index * 3; i < index * 3 + 3; i++) {
+        // Sauvegarder position actuelle, puis prédire la nouvelle
+        prevPositions[i] = positions[i]!
+        positions[i] = positions[i]! + velocities[i]! * dt
+      }
+    }
   }
 
   /**
    * Résoudre toutes les contraintes (Gauss-Seidel)
    */
   private solveConstraints(dt: number): void {
-    for (const constraint of this.constraints) {
-      switch (constraint.type) {
-        case 'distance':
-          this.solveDistanceConstraint(constraint as DistanceConstraint, dt)
-          break
-        case 'pressure':
-          this.solvePressureConstraint(constraint as PressureConstraint, dt)
-          break
-        case 'volume':
-          // TODO: Implémenter si nécessaire
-          break
+    const { positions, invMasses } = this.buffers
+    for (const constraint of this.solverConstraints) {
+      if (constraint.type === 'distance') {
+        this.solveDistanceConstraint(constraint, positions, invMasses, dt)
+      } else {
+        this.solvePressureConstraint(constraint, dt)
       }
     }
   }
@@ -170,42 +339,47 @@ export class XPBDSolver {
    * où α = compliance (souplesse)
    */
   private solveDistanceConstraint(
-    constraint: DistanceConstraint,
+    constraint: SolverDistanceConstraint,
+    positions: Float32Array,
+    invMasses: Float32Array,
     dt: number
   ): void {
-    const [id1, id2] = constraint.particleIds
-    const p1 = this.particles.get(id1)
-    const p2 = this.particles.get(id2)
-
-    if (!p1 || !p2) return
+    const i1 = constraint.a * 3
+    const i2 = constraint.b * 3
 
     // Direction entre les deux particules
-    const diff = this._tempVec1.subVectors(p2.position, p1.position)
-    const currentLength = diff.length()
+    const dx = positions[i2]! - positions[i1]!
+    const dy = positions[i2 + 1]! - positions[i1 + 1]!
+    const dz = positions[i2 + 2]! - positions[i1 + 2]!
+    const currentLength = Math.sqrt(dx * dx + dy * dy + dz * dz)
 
     if (currentLength < 0.0001) return // Éviter division par zéro
 
     // Erreur de contrainte
     const error = currentLength - constraint.restValue
 
-    // Normaliser direction
-    diff.divideScalar(currentLength)
-
     // Facteur de compliance XPBD
     const alpha = constraint.compliance / (dt * dt)
-    const totalInvMass = p1.invMass + p2.invMass
+    const w1 = invMasses[constraint.a]!
+    const w2 = invMasses[constraint.b]!
+    const totalInvMass = w1 + w2
 
     if (totalInvMass + alpha < 0.0001) return
 
-    // Multiplicateur de Lagrange
+    // Multiplicateur de Lagrange, rapporté à la direction non normalisée
     const lambda = -error / (totalInvMass + alpha)
+    const scale = lambda / currentLength
 
     // Corrections de position
-    if (p1.invMass > 0) {
-      p1.position.addScaledVector(diff, -lambda * p1.invMass)
+    if (w1 > 0) {
+      positions[i1] = positions[i1]! - dx * scale * w1
+      positions[i1 + 1] = positions[i1 + 1]! - dy * scale * w1
+      positions[i1 + 2] = positions[i1 + 2]! - dz * scale * w1
     }
-    if (p2.invMass > 0) {
-      p2.position.addScaledVector(diff, lambda * p2.invMass)
+    if (w2 > 0) {
+      positions[i2] = positions[i2]! + dx * scale * w2
+      positions[i2 + 1] = positions[i2 + 1]! + dy * scale * w2
+      positions[i2 + 2] = positions[i2 + 2]! + dz * scale * w2
     }
   }
 
@@ -218,64 +392,15 @@ export class XPBDSolver {
    * 3. Pousser chaque vertex selon sa normale pondérée par la pression
    */
   private solvePressureConstraint(
-    constraint: PressureConstraint,
+    constraint: SolverPressureConstraint,
     dt: number
   ): void {
-    const { particleIds, triangles, pressure, restValue: restVolume, compliance } = constraint
-
-    // Récupérer toutes les particules
-    const particles: Particle[] = []
-    for (const id of particleIds) {
-      const p = this.particles.get(id)
-      if (p) particles.push(p)
-    }
-
-    if (particles.length < 4 || triangles.length === 0) return
-
-    // 1. Calculer le centre de masse
-    const center = new THREE.Vector3()
-    for (const p of particles) {
-      center.add(p.position)
-    }
-    center.divideScalar(particles.length)
-
-    // 2. Calculer le volume actuel (somme des tétraèdres signés)
-    let currentVolume = 0
-    const normals = new Map<number, THREE.Vector3>()
-
-    // Initialiser les normales à zéro
-    for (const p of particles) {
-      normals.set(p.id, new THREE.Vector3())
-    }
-
-    for (const [i0, i1, i2] of triangles) {
-      const p0 = particles[i0]
-      const p1 = particles[i1]
-      const p2 = particles[i2]
-
-      if (!p0 || !p1 || !p2) continue
-
-      // Vecteurs des arêtes
-      const v0 = this._tempVec1.subVectors(p0.position, center)
-      const v1 = new THREE.Vector3().subVectors(p1.position, center)
-      const v2 = new THREE.Vector3().subVectors(p2.position, center)
-
-      // Volume du tétraèdre = (1/6) * |v0 · (v1 × v2)|
-      const cross = new THREE.Vector3().crossVectors(v1, v2)
-      const tetVolume = v0.dot(cross) / 6
+    const { indices, triangles, normals, pressure, restValue: restVolume, compliance } = constraint
 
-      currentVolume += tetVolume
+    if (indices.length < 4 || triangles.length === 0) return
 
-      // Calculer la normale du triangle (aire-pondérée)
-      const edge1 = new THREE.Vector3().subVectors(p1.position, p0.position)
-      const edge2 = new THREE.Vector3().subVectors(p2.position, p0.position)
-      const faceNormal = new THREE.Vector3().crossVectors(edge1, edge2)
-
-      // Accumuler les normales pour chaque vertex du triangle
-      normals.get(p0.id)?.add(faceNormal)
-      normals.get(p1.id)?.add(faceNormal)
-      normals.get(p2.id)?.add(faceNormal)
-    }
+    // 1-2. Volume actuel et normales des vertices
+    const currentVolume = this.computeVolume(constraint, normals)
 
     // 3. Calculer la correction de pression
     const volumeError = currentVolume - restVolume
@@ -287,110 +412,276 @@ export class XPBDSolver {
     const correction = (-volumeError / (restVolume + 0.001)) * pressureFactor
 
     // 4. Appliquer la correction à chaque particule selon sa normale
-    for (const p of particles) {
-      if (p.invMass === 0) continue
-
-      const normal = normals.get(p.id)
-      if (!normal) continue
+    const { positions, invMasses } = this.buffers
+    const normal = this._tempVec1
+    const position = this._tempVec2
+    for (let local = 0; local < indices.length; local++) {
+      const index = indices[local]!
+      const invMass = invMasses[index]!
+      if (invMass === 0) continue
 
       // Normaliser et appliquer
+      normal.fromArray(normals, local * 3)
       const len = normal.length()
       if (len > 0.0001) {
         normal.divideScalar(len)
 
         // Correction XPBD avec compliance
-        const lambda = correction / (p.invMass + alpha)
-        p.position.addScaledVector(normal, lambda * p.invMass)
+        const lambda = correction / (invMass + alpha)
+        position.fromArray(positions, index * 3).addScaledVector(normal, lambda * invMass).toArray(positions, index * 3)
       }
     }
   }
 
+  /**
+   * Volume actuel d'une contrainte de pression (tétraèdres signés depuis le centre)
+   * @param normals Si fourni, reçoit les normales des vertices (somme des normales
+   *                de faces pondérées par l'aire), dans l'ordre de `indices`
+   */
+  private computeVolume(
+    constraint: SolverPressureConstraint,
+    normals?: Float32Array,
+    positions: Float32Array = this.buffers.positions
+  ): number {
+    const { indices, triangles } = constraint
+    if (indices.length === 0) return 0
+
+    // Centre de masse
+    _center.set(0, 0, 0)
+    for (const index of indices) {
+      _center.add(_p0.fromArray(positions, index * 3))
+    }
+    _center.divideScalar(indices.length)
+
+    normals?.fill(0)
+    let volume = 0
+    for (const [i0, i1, i2] of triangles) {
+      const index0 = indices[i0]
+      const index1 = indices[i1]
+      const index2 = indices[i2]
+      if (index0 === undefined || index1 === undefined || index2 === undefined) continue
+
+      _p0.fromArray(positions, index0 * 3).sub(_center)
+      _p1.fromArray(positions, index1 * 3).sub(_center)
+      _p2.fromArray(positions, index2 * 3).sub(_center)
+
+      // Volume du tétraèdre = (1/6) * v0 · (v1 × v2)
+      volume += _p0.dot(_cross.crossVectors(_p1, _p2)) / 6
+
+      if (normals) {
+        // Normale du triangle (aire-pondérée), accumulée pour chaque vertex
+        _cross.crossVectors(_p1.sub(_p0), _p2.sub(_p0))
+        accumulate(normals, i0, _cross)
+        accumulate(normals, i1, _cross)
+        accumulate(normals, i2, _cross)
+      }
+    }
+    return volume
+  }
+
   /**
    * Mettre à jour vélocités à partir des changements de position
    */
   private updateVelocities(dt: number): void {
+    const { positions, prevPositions, velocities, invMasses } = this.buffers
     const invDt = 1 / dt
 
-    this.particles.forEach((particle) => {
-      if (particle.invMass === 0) return
+    for (let index = 0; index < this.ids.length; index++) {
+      if (invMasses[index] === 0) continue
 
       // Vélocité = (position - prevPosition) / dt
-      particle.velocity
-        .subVectors(particle.position, particle.prevPosition)
-        .multiplyScalar(invDt)
-    })
+      for (let i = index * 3; i < index * 3 + 3; i++) {
+        velocities[i] = (positions[i]! - prevPositions[i]!) * invDt
+      }
+    }
   }
 
   /**
    * Appliquer damping global (résistance de l'air)
    */
   private applyDamping(): void {
-    this.particles.forEach((particle) => {
-      if (particle.invMass === 0) return
-      particle.velocity.multiplyScalar(this.config.globalDamping)
-    })
+    const { velocities, invMasses } = this.buffers
+    const { globalDamping } = this.config
+
+    for (let index = 0; index < this.ids.length; index++) {
+      if (invMasses[index] === 0) continue
+      for (let i = index * 3; i < index * 3 + 3; i++) {
+        velocities[i] = velocities[i]! * globalDamping
+      }
+    }
   }
 
   /**
    * Collision avec le sol
    */
   enforceFloorCollision(): void {
-    this.particles.forEach((particle) => {
-      if (particle.position.y < this.config.floorY) {
-        particle.position.y = this.config.floorY
+    const { positions, velocities } = this.buffers
+    const { floorY } = this.config
+
+    for (let i = 0; i < this.ids.length * 3; i += 3) {
+      if (positions[i + 1]! < floorY) {
+        positions[i + 1] = floorY
         // Rebond avec friction
-        particle.velocity.y *= -0.5
-        particle.velocity.x *= 0.8
-        particle.velocity.z *= 0.8
+        velocities[i] = velocities[i]! * 0.8
+        velocities[i + 1] = velocities[i + 1]! * -0.5
+        velocities[i + 2] = velocities[i + 2]! * 0.8
       }
-    })
+    }
   }
 
   /**
    * Réinitialiser toutes les particules à leur position de repos
    */
   reset(): void {
-    this.particles.forEach((particle) => {
-      particle.position.copy(particle.restPosition)
-      particle.prevPosition.copy(particle.restPosition)
-      particle.velocity.set(0, 0, 0)
+    const length = this.ids.length * 3
+    const { positions, prevPositions, velocities, restPositions, stepStartPositions } = this.buffers
+    const rest = restPositions.subarray(0, length)
+    positions.set(rest)
+    prevPositions.set(rest)
+    stepStartPositions.set(rest)
+    velocities.fill(0, 0, length)
+    this.pendingImpacts = []
+    this.postToWorker({ type: 'reset' })
+  }
+
+  /**
+   * Capturer l'état dynamique des particules (positions, positions précédentes, vélocités)
+   * @param target - Snapshot précédent à réécrire : ses tableaux sont réutilisés
+   *   quand le nombre de particules n'a pas changé (historique sans allocation)
+   */
+  snapshot(target?: XPBDSnapshot): XPBDSnapshot {
+    return this.readPublished(() => this.copySnapshot(target))
+  }
+
+  private copySnapshot(target?: XPBDSnapshot): XPBDSnapshot {
+    const length = this.ids.length * 3
+    const { positions, prevPositions, velocities } = this.buffers
+    if (!target || target.positions.length !== length) {
+      return {
+        ids: [...this.ids],
+        positions: positions.slice(0, length),
+        prevPositions: prevPositions.slice(0, length),
+        velocities: velocities.slice(0, length),
+      }
+    }
+
+    target.ids.length = this.ids.length
+    this.ids.forEach((id, index) => { target.ids[index] = id })
+    target.positions.set(positions.subarray(0, length))
+    target.prevPositions.set(prevPositions.subarray(0, length))
+    target.velocities.set(velocities.subarray(0, length))
+    return target
+  }
+
+  /**
+   * Restaurer un snapshot (les particules inconnues sont ignorées)
+   * Les impacts en attente sont abandonnés
+   */
+  restore(snapshot: XPBDSnapshot): void {
+    const { positions, prevPositions, velocities, stepStartPositions } = this.buffers
+    snapshot.ids.forEach((id, index) => {
+      const target = this.indexById.get(id)
+      if (target === undefined) return
+      const from = index * 3
+      const to = target * 3
+      positions.set(snapshot.positions.subarray(from, from + 3), to)
+      prevPositions.set(snapshot.prevPositions.subarray(from, from + 3), to)
+      velocities.set(snapshot.velocities.subarray(from, from + 3), to)
     })
+    stepStartPositions.set(positions.subarray(0, this.ids.length * 3))
     this.pendingImpacts = []
+    this.postToWorker({ type: 'restore', payload: snapshot })
+  }
+
+  /**
+   * Position interpolée entre le début et la fin du dernier step
+   * @param alpha Fraction 0-1 (PhysicsClock.alpha)
+   */
+  getInterpolatedPosition(id: number, alpha: number, out: THREE.Vector3): THREE.Vector3 | null {
+    const index = this.indexById.get(id)
+    if (index === undefined) return null
+    const { positions, stepStartPositions } = this.buffers
+    return this.readPublished(() =>
+      out.fromArray(stepStartPositions, index * 3).lerp(this._tempVec1.fromArray(positions, index * 3), alpha)
+    )
+  }
+
+  /**
+   * Déplacements interpolés (position - repos) d'une plage contiguë de particules
+   * Écrits dans le buffer des déplacements et renvoyés en vue, sans copie :
+   * la vue reste valide jusqu'au prochain ajout / retrait de particules
+   * @param firstId ID de la première particule (les suivantes ajoutées à sa suite)
+   * @param alpha Fraction 0-1 (PhysicsClock.alpha)
+   */
+  getDisplacements(firstId: number, count: number, alpha: number): Float32Array | null {
+    const first = this.indexById.get(firstId)
+    if (first === undefined || first + count > this.ids.length) return null
+
+    const { positions, stepStartPositions, restPositions, displacements } = this.buffers
+    const end = (first + count) * 3
+    this.readPublished(() => {
+      for (let i = first * 3; i < end; i++) {
+        const start = stepStartPositions[i]!
+        displacements[i] = start + (positions[i]! - start) * alpha - restPositions[i]!
+      }
+    })
+    return displacements.subarray(first * 3, end)
+  }
+
+  /**
+   * Dessiner les contraintes colorées par déformation
+   * Distance : arête (longueur / longueur au repos), pression : particules (volume / volume au repos)
+   */
+  debugDraw(drawer: PhysicsDebugDrawer): void {
+    this.ensureSolverConstraints()
+
+    // Copie sous seqlock (comme getDisplacements) : pas de frame déchirée par une publication du worker
+    const length = this.ids.length * 3
+    if (this.debugPositions.length < length) this.debugPositions = new Float32Array(length)
+    const positions = this.debugPositions
+    this.readPublished(() => positions.set(this.buffers.positions.subarray(0, length)))
+
+    const from = this._tempVec1
+    const to = this._tempVec2
+
+    for (const constraint of this.solverConstraints) {
+      if (constraint.type === 'distance') {
+        if (constraint.restValue <= 0) continue
+        from.fromArray(positions, constraint.a * 3)
+        to.fromArray(positions, constraint.b * 3)
+        drawer.drawLine(from, to, strainToColor(from.distanceTo(to) / constraint.restValue - 1))
+      } else {
+        const color = strainToColor(this.computeVolume(constraint, undefined, positions) / (constraint.restValue + 0.001) - 1)
+        for (const index of constraint.indices) {
+          drawer.drawPoint(from.fromArray(positions, index * 3), color)
+        }
+      }
+    }
   }
 
   /**
    * Obtenir les positions comme Float32Array (pour GPU)
+   * Vue sur le buffer, sans copie
    */
   getPositionsArray(): Float32Array {
-    const positions = new Float32Array(this.particles.size * 3)
-    let i = 0
-    this.particles.forEach((particle) => {
-      positions[i++] = particle.position.x
-      positions[i++] = particle.position.y
-      positions[i++] = particle.position.z
-    })
-    return positions
+    return this.buffers.positions.subarray(0, this.ids.length * 3)
   }
 
   /**
    * Obtenir les déplacements par rapport aux positions de repos
+   * Vue sur le buffer, sans copie (voir getDisplacements)
    */
   getDisplacementsArray(): Float32Array {
-    const displacements = new Float32Array(this.particles.size * 3)
-    let i = 0
-    this.particles.forEach((particle) => {
-      displacements[i++] = particle.position.x - particle.restPosition.x
-      displacements[i++] = particle.position.y - particle.restPosition.y
-      displacements[i++] = particle.position.z - particle.restPosition.z
-    })
-    return displacements
+    const firstId = this.ids[0]
+    if (firstId === undefined) return new Float32Array(0)
+    return this.getDisplacements(firstId, this.ids.length, 1) ?? new Float32Array(0)
   }
 
   /**
    * Nombre de particules
    */
   get particleCount(): number {
-    return this.particles.size
+    return this.ids.length
   }
 
   /**
@@ -404,9 +695,14 @@ export class XPBDSolver {
    * Vider le système
    */
   clear(): void {
-    this.particles.clear()
+    this.buffers = createParticleBuffers(0)
+    this.ids = []
+    this.indexById.clear()
     this.constraints = []
+    this.solverConstraints = []
+    this.constraintsDirty = false
     this.pendingImpacts = []
+    this.workerStateDirty = true
   }
 
   /**
@@ -414,5 +710,220 @@ export class XPBDSolver {
    */
   setConfig(config: Partial<XPBDConfig>): void {
     this.config = { ...this.config, ...config }
+    this.postToWorker({ type: 'config', payload: toWorkerConfig(this.config) })
+  }
+
+  // =============================================
+  // BUFFERS
+  // =============================================
+
+  /**
+   * Agrandir les buffers pour contenir `count` particules
+   */
+  private reserve(count: number): void {
+    const { capacity } = this.buffers
+    if (count <= capacity) return
+
+    let newCapacity = Math.max(capacity, INITIAL_CAPACITY)
+    while (newCapacity < count) newCapacity *= 2
+
+    const buffers = createParticleBuffers(newCapacity)
+    copyParticleBuffers(this.buffers, buffers, this.ids.length)
+    this.buffers = buffers
+    this.workerStateDirty = true
+  }
+
+  /**
+   * Compiler les contraintes sur les index actuels des particules
+   * Les particules inconnues sont ignorées (pression) ou annulent la contrainte (distance)
+   */
+  private ensureSolverConstraints(): void {
+    if (!this.constraintsDirty) return
+
+    this.solverConstraints = []
+    for (const constraint of this.constraints) {
+      if (constraint.type === 'distance') {
+        const [id1, id2] = (constraint as DistanceConstraint).particleIds
+        const a = this.indexById.get(id1)
+        const b = this.indexById.get(id2)
+        if (a === undefined || b === undefined) continue
+        this.solverConstraints.push({
+          type: 'distance',
+          a,
+          b,
+          restValue: constraint.restValue,
+          compliance: constraint.compliance,
+        })
+      } else if (constraint.type === 'pressure') {
+        const { particleIds, triangles, pressure, restValue, compliance } = constraint as PressureConstraint
+        const indices: number[] = []
+        for (const id of particleIds) {
+          const index = this.indexById.get(id)
+          if (index !== undefined) indices.push(index)
+        }
+        this.solverConstraints.push({
+          type: 'pressure',
+          indices: Int32Array.from(indices),
+          triangles,
+          normals: new Float32Array(indices.length * 3),
+          restValue,
+          pressure,
+          compliance,
+        })
+      }
+    }
+    this.constraintsDirty = false
+  }
+
+  /**
+   * Remplacer particules et contraintes par l'état d'un autre solveur (côté worker)
+   */
+  loadState(ids: number[], constraints: Constraint[], source: XPBDParticleBuffers): void {
+    this.buffers = createParticleBuffers(source.capacity)
+    copyParticleBuffers(source, this.buffers, ids.length)
+    this.ids = [...ids]
+    this.indexById = new Map(ids.map((id, index) => [id, index]))
+    this.constraints = [...constraints]
+    this.constraintsDirty = true
+    this.pendingImpacts = []
+  }
+
+  /**
+   * Publier l'état dynamique dans les buffers d'un autre solveur (côté worker)
+   */
+  publishState(target: XPBDParticleBuffers): void {
+    const length = Math.min(this.ids.length, target.capacity) * 3
+    // Séquence impaire pendant l'écriture : les lectures en cours recommencent (readPublished)
+    Atomics.add(target.sequence, 0, 1)
+    for (const field of PUBLISHED_FIELDS) {
+      target[field].set(this.buffers[field].subarray(0, length))
+    }
+    Atomics.add(target.sequence, 0, 1)
+  }
+
+  /**
+   * Lire un état cohérent des champs publiés par le worker (seqlock)
+   * La lecture est recommencée si une publication a eu lieu pendant celle-ci ;
+   * sans worker, elle est faite une seule fois
+   */
+  private readPublished<T>(read: () => T): T {
+    if (!this.worker) return read()
+
+    const { sequence } = this.buffers
+    for (let attempt = 0; attempt < MAX_READ_ATTEMPTS; attempt++) {
+      const before = Atomics.load(sequence, 0)
+      if (before % 2 !== 0) continue
+      const result = read()
+      if (Atomics.load(sequence, 0) === before) return result
+    }
+    return read()
+  }
+
+  // =============================================
+  // WORKER
+  // =============================================
+
+  /**
+   * Déléguer les pas à un worker (xpbdWorkerImpl)
+   * Le worker publie l'état dans les buffers partagés à la fin de chaque pas ;
+   * les lectures (positions, déplacements, snapshot) restent synchrones
+   * @returns false si les buffers ne sont pas partagés (page non isolée)
+   */
+  attachWorker(worker: Worker): boolean {
+    if (!isSharedBuffer(this.buffers.buffer)) return false
+
+    this.detachWorker()
+    this.worker = worker
+    worker.addEventListener('message', this.handleWorkerResponse)
+    worker.addEventListener('error', this.handleWorkerFailure)
+    worker.addEventListener('messageerror', this.handleWorkerFailure)
+    this.postToWorker({ type: 'config', payload: toWorkerConfig(this.config) })
+    this.workerStateDirty = true
+    return true
+  }
+
+  /**
+   * Reprendre la simulation sur ce thread (le worker reste à terminer par l'appelant)
+   */
+  detachWorker(): void {
+    const worker = this.worker
+    if (!worker) return
+
+    worker.removeEventListener('message', this.handleWorkerResponse)
+    worker.removeEventListener('error', this.handleWorkerFailure)
+    worker.removeEventListener('messageerror', this.handleWorkerFailure)
+    this.worker = null
+    this.workerBusy = false
+    this.queuedSteps = 0
+
+    // Nouveaux buffers : un pas en cours dans le worker publie dans les anciens
+    const buffers = createParticleBuffers(this.buffers.capacity)
+    copyParticleBuffers(this.buffers, buffers, this.ids.length)
+    this.buffers = buffers
+  }
+
+  /**
+   * Le solveur délègue-t-il ses pas à un worker ?
+   */
+  get isWorkerAttached(): boolean {
+    return this.worker !== null
+  }
+
+  /**
+   * Un pas à la fois dans le worker : ceux demandés entre-temps sont cumulés
+   */
+  private requestWorkerStep(dt: number): void {
+    if (this.workerBusy) {
+      this.queuedSteps = Math.min(this.queuedSteps + 1, MAX_QUEUED_STEPS)
+      this.queuedDt = dt
+      return
+    }
+    this.postStep(dt, 1)
+  }
+
+  private postStep(dt: number, steps: number): void {
+    if (this.workerStateDirty) this.syncWorker()
+
+    const impacts = this.pendingImpacts.map(toWorkerImpact)
+    this.pendingImpacts = []
+    this.workerBusy = true
+    this.queuedSteps = 0
+    this.postToWorker({ type: 'step', payload: { dt, steps, impacts } })
+  }
+
+  /**
+   * Envoyer la topologie et le buffer partagé au worker
+   */
+  private syncWorker(): void {
+    const { buffer, capacity } = this.buffers
+    if (!isSharedBuffer(buffer)) return
+
+    this.postToWorker({
+      type: 'sync',
+      payload: { buffer, capacity, ids: this.ids, constraints: this.constraints },
+    })
+    this.workerStateDirty = false
+  }
+
+  private postToWorker(message: WorkerMessage): void {
+    this.worker?.postMessage(message)
+  }
+
+  private handleWorkerResponse = (event: MessageEvent<WorkerResponse>): void => {
+    if (event.data.type === 'error') {
+      console.error('[XPBDSolver] Worker error:', event.data.error)
+    }
+
+    this.workerBusy = false
+    if (this.queuedSteps > 0) this.postStep(this.queuedDt, this.queuedSteps)
+  }
+
+  /**
+   * Worker non chargé ou en échec hors d'un pas : il ne répondra plus,
+   * la simulation repart sur ce thread
+   */
+  private handleWorkerFailure = (event: Event): void => {
+    console.error('[XPBDSolver] Worker failed, stepping on the main thread:', event instanceof ErrorEvent ? event.message : event.type)
+    this.detachWorker()
   }
 }
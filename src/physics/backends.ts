@@ -0,0 +1,10 @@
+import { AmmoBackend } from './AmmoBackend'
+import { RapierBackend } from './RapierBackend'
+import type { PhysicsBackend, PhysicsBackendType } from './PhysicsBackend'
+
+/**
+ * Moteur physique correspondant au réglage (singletons)
+ */
+export function getPhysicsBackend(type: PhysicsBackendType): PhysicsBackend {
+  return type === 'rapier' ? RapierBackend : AmmoBackend
+}
@@ -1,2 +1,9 @@
 export * from './types'
 export { XPBDSolver } from './XPBDSolver'
+export { canUseSharedMemory } from './XPBDBuffers'
+export type { XPBDParticleBuffers } from './XPBDBuffers'
+export { HEAD_LOCAL_RADIUS, HIT_ZONE_ANCHORS, toHeadLocal, determineHitZone } from './HitZones'
+export * from './PhysicsBackend'
+export { AmmoBackend } from './AmmoBackend'
+export { RapierBackend } from './RapierBackend'
+export { getPhysicsBackend } from './backends'
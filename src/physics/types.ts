@@ -115,6 +115,25 @@ export interface ImpactData {
   intensity: number           // 0-1
 }
 
+/**
+ * État dynamique d'un XPBDSolver (xyz par particule, dans l'ordre de ids)
+ */
+export interface XPBDSnapshot {
+  ids: number[]
+  positions: Float32Array
+  prevPositions: Float32Array
+  velocities: Float32Array
+}
+
+/**
+ * Cible du rendu de debug physique (PhysicsSceneManager, XPBDSolver)
+ * Couleurs en hexadécimal (0xrrggbb), vecteurs lus immédiatement
+ */
+export interface PhysicsDebugDrawer {
+  drawLine(from: THREE.Vector3, to: THREE.Vector3, color: number): void
+  drawPoint(position: THREE.Vector3, color: number): void
+}
+
 /**
  * Créer une particule avec valeurs par défaut
  */
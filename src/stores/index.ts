@@ -1,5 +1,7 @@
-export { useGameStore, DEFAULT_OPPONENT_TEXTURE, DEFAULT_TEXTURE_SETTINGS, PHYSICS_PRESETS, ROUND_DURATION } from './useGameStore'
-export type { GameState, PunchType, PunchHand, QueuedPunch, TextureSettings, CombatTool, OpponentType, PhysicsPreset, PhysicsConfig, GlovePhysicsMode } from './useGameStore'
+export { useGameStore, DEFAULT_OPPONENT_TEXTURE, DEFAULT_TEXTURE_SETTINGS, PHYSICS_PRESETS, ROUND_DURATION, MAX_ROUNDS, MATCH_FORMATS, KNOCKDOWN_COUNT, MAX_KNOCKDOWNS_PER_ROUND, MAX_STAMINA, STAMINA_COSTS, getStaminaEfficiency, getPunchPower, getActivePhysicsBackend, getRoundDuration, isTrainingMode } from './useGameStore'
+export type { GameState, PunchType, PunchHand, QueuedPunch, TextureSettings, CombatTool, OpponentType, PhysicsPreset, PhysicsConfig, GlovePhysicsMode, MatchFormat, MatchConfig, FightMode } from './useGameStore'
+export { JUDGES } from '../utils/Scorecard'
+export type { RoundStats, ScoredRound, JudgeScore, MatchScorecard, MatchResult, DecisionType, Stoppage, StoppageType } from '../utils/Scorecard'
 
 // Legacy - à supprimer après migration complète
 export { useImpactStore } from './useImpactStore'
@@ -11,11 +13,19 @@ export type { ImpactListener } from '../systems/ImpactManager'
 
 // Gestionnaire centralisé de physique Ammo.js
 export { PhysicsSceneManager } from '../systems/PhysicsSceneManager'
-export type { RigidBodyEntry, SoftBodyEntry, ConstraintEntry } from '../systems/PhysicsSceneManager'
+export type { RigidBodyEntry, SoftBodyEntry, ConstraintEntry, ContactEvent, ContactListener, QueryHit, CategoryFilter, PhysicsSnapshot, RigidBodySnapshot, SoftBodySnapshot, ConstraintLink, DebugDrawOptions, BodyDebugInfo } from '../systems/PhysicsSceneManager'
+
+// Horloge physique à pas fixe (toutes les simulations)
+export { PhysicsClock } from '../systems/PhysicsClock'
+export type { PhysicsStepper } from '../systems/PhysicsClock'
 
 // Gestionnaire centralisé des adversaires
 export { OpponentManager } from '../systems/OpponentManager'
 
+// Bus d'événements de jeu (succès)
+export { GameEvents } from '../systems/GameEvents'
+export type { GameEvent, GameEventType, GameEventListener } from '../systems/GameEvents'
+
 export { useCharacterStore, useSelectedCharacter } from './useCharacterStore'
 export type { CharacterConfig } from './useCharacterStore'
 
@@ -26,12 +36,52 @@ export { useFacialStore, ARKIT_BLEND_SHAPES, FACIAL_PRESETS } from './useFacialS
 export type { BlendShapeName, FacialState, FacialPresetName } from './useFacialStore'
 
 export { useHandTrackingStore } from './useHandTrackingStore'
-export type { HandState, CameraPermission } from './useHandTrackingStore'
+export type { HandState, CameraPermission, HandTrackingMode } from './useHandTrackingStore'
+
+export { useHandTrackingReplayStore, REPLAY_SPEEDS } from './useHandTrackingReplayStore'
+
+export { usePhysicsDebugStore, PHYSICS_DEBUG_LAYER_LABELS } from './usePhysicsDebugStore'
+export type { PhysicsDebugLayer, PhysicsDebugLayers } from './usePhysicsDebugStore'
+
+export { useCalibrationStore } from './useCalibrationStore'
+export type { CalibrationProfile } from './useCalibrationStore'
 
 export { useJellyPhysicsStore } from './useJellyPhysicsStore'
+export type { XPBDSolverMode } from './useJellyPhysicsStore'
 
 export { useCartoonEffectsStore } from './useCartoonEffectsStore'
 export type { CartoonEffectType, ActiveEffect } from './useCartoonEffectsStore'
 
 export { useFluffySoftBodyStore, DEFAULT_FLUFFY_CONFIG } from './useFluffySoftBodyStore'
 export type { FluffyConfig } from './useFluffySoftBodyStore'
+
+export { useOpponentAIStore, ATTACK_PROFILES } from './useOpponentAIStore'
+export type { AttackPhase, DefenseAction, AttackOutcome, OpponentAttack, ResolvedAttack } from './useOpponentAIStore'
+
+export { useRhythmStore, RHYTHM_TRACKS_URL, PERFECT_WINDOW, GOOD_WINDOW, getTrackDuration } from './useRhythmStore'
+export type { RhythmCue, RhythmTrack, RhythmGrade, ScheduledCue, RhythmJudgment, RhythmResults } from './useRhythmStore'
+
+export { useTargetDrillStore, DRILL_ZONES, HIT_ZONE_LABELS, HEATMAP_COLS, HEATMAP_ROWS, HEATMAP_BOUNDS } from './useTargetDrillStore'
+export type { ZoneStats, TargetDrillResults } from './useTargetDrillStore'
+
+export { useComboChainStore, COMBO_CHAINS_URL } from './useComboChainStore'
+export type { ComboStep, ComboChain, LandedChain } from './useComboChainStore'
+
+export { useSessionHistoryStore, getHitsPerMinute, getPersonalBests } from './useSessionHistoryStore'
+export type { PersonalBest } from './useSessionHistoryStore'
+
+export { useProfileStore, GUEST_NAME } from './useProfileStore'
+export type { PreferredInput, Handedness, PlayerProfile, ProfileDraft } from './useProfileStore'
+
+export { useLeaderboardStore, getLeaderboard } from './useLeaderboardStore'
+export type { LeaderboardEntry, LeaderboardSubmission } from './useLeaderboardStore'
+
+export { useKeyBindingsStore, DEFAULT_KEY_BINDINGS, KEY_ACTION_LABELS, formatKeyCode } from './useKeyBindingsStore'
+export type { KeyAction, KeyBindings } from './useKeyBindingsStore'
+
+export { useAchievementStore, ACHIEVEMENTS_URL, matchesAchievement } from './useAchievementStore'
+export type { FieldCondition, AchievementDefinition, UnlockableKind, ArenaLighting, Unlockable, UnlockedAchievement } from './useAchievementStore'
+
+export { usePunchClassifierStore, PUNCH_CLASSIFIER_PATH } from './usePunchClassifierStore'
+
+export { usePoseStore } from './usePoseStore'
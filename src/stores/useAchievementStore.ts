@@ -0,0 +1,318 @@
+import { create } from 'zustand'
+import type { GameEvent, GameEventType } from '../systems/GameEvents'
+import { useProfileStore } from './useProfileStore'
+
+/**
+ * Fichier des succès et contenus débloquables (public/, modifiable sans rebuild)
+ */
+export const ACHIEVEMENTS_URL = '/achievements/achievements.json'
+
+/**
+ * Condition sur un champ de l'événement
+ */
+export interface FieldCondition {
+  eq?: string | number | boolean
+  gte?: number
+  lte?: number
+  in?: (string | number)[]
+}
+
+/**
+ * Succès tel que décrit dans le fichier JSON
+ * Chaque événement qui remplit les conditions fait avancer la progression
+ */
+export interface AchievementDefinition {
+  id: string
+  name: string
+  description: string
+  event: GameEventType
+  where: Record<string, FieldCondition> // Conditions sur les champs de l'événement
+  goal: number       // Nombre d'événements nécessaires
+  unlocks: string[]  // Contenus débloqués
+}
+
+/**
+ * Types de contenus débloquables
+ */
+export type UnlockableKind = 'gloveColor' | 'opponentSkin' | 'arenaLighting'
+
+/**
+ * Couleurs d'éclairage de la salle
+ */
+export interface ArenaLighting {
+  ambient: string
+  key: string  // Lumière principale (plafond)
+  side: string // Spots latéraux
+  back: string // Contre-jour
+}
+
+/**
+ * Contenu cosmétique débloquable
+ */
+export interface Unlockable {
+  id: string
+  kind: UnlockableKind
+  name: string
+  color: string | null          // gloveColor / opponentSkin
+  lighting: ArenaLighting | null // arenaLighting
+}
+
+/**
+ * Dernier succès débloqué (notification)
+ */
+export interface UnlockedAchievement {
+  id: string
+  name: string
+  timestamp: number
+}
+
+const EVENT_TYPES: readonly GameEventType[] = [
+  'hit', 'knockdown', 'stoppage', 'roundFinished', 'matchFinished', 'comboChain', 'jawDetached', 'wallDestroyed',
+]
+const UNLOCKABLE_KINDS: readonly UnlockableKind[] = ['gloveColor', 'opponentSkin', 'arenaLighting']
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)
+
+/**
+ * Valide un succès lu depuis le JSON
+ */
+function parseAchievement(raw: unknown): AchievementDefinition | null {
+  if (!raw || typeof raw !== 'object') return null
+  const achievement = raw as Partial<AchievementDefinition>
+  if (typeof achievement.id !== 'string' || !achievement.event || !EVENT_TYPES.includes(achievement.event)) return null
+
+  return {
+    id: achievement.id,
+    name: typeof achievement.name === 'string' ? achievement.name : achievement.id,
+    description: typeof achievement.description === 'string' ? achievement.description : '',
+    event: achievement.event,
+    where: achievement.where && typeof achievement.where === 'object' ? achievement.where : {},
+    goal: typeof achievement.goal === 'number' && achievement.goal > 0 ? Math.ceil(achievement.goal) : 1,
+    unlocks: Array.isArray(achievement.unlocks) ? achievement.unlocks.filter((id) => typeof id === 'string') : [],
+  }
+}
+
+/**
+ * Valide un contenu débloquable lu depuis le JSON
+ */
+function parseUnlockable(raw: unknown): Unlockable | null {
+  if (!raw || typeof raw !== 'object') return null
+  const unlockable = raw as Partial<Unlockable>
+  if (typeof unlockable.id !== 'string' || !unlockable.kind || !UNLOCKABLE_KINDS.includes(unlockable.kind)) return null
+
+  const lighting = unlockable.lighting
+  const isLighting = !!lighting &&
+    isColor(lighting.ambient) && isColor(lighting.key) && isColor(lighting.side) && isColor(lighting.back)
+
+  // Chaque type a besoin de sa valeur
+  if (unlockable.kind === 'arenaLighting' ? !isLighting : !isColor(unlockable.color)) return null
+
+  return {
+    id: unlockable.id,
+    kind: unlockable.kind,
+    name: typeof unlockable.name === 'string' ? unlockable.name : unlockable.id,
+    color: isColor(unlockable.color) ? unlockable.color : null,
+    lighting: isLighting ? lighting : null,
+  }
+}
+
+/**
+ * Vérifie une condition sur la valeur d'un champ
+ */
+function matchesCondition(value: unknown, condition: FieldCondition): boolean {
+  if (condition.eq !== undefined && value !== condition.eq) return false
+  if (condition.gte !== undefined && !(typeof value === 'number' && value >= condition.gte)) return false
+  if (condition.lte !== undefined && !(typeof value === 'number' && value <= condition.lte)) return false
+  if (condition.in !== undefined && !condition.in.includes(value as string | number)) return false
+  return true
+}
+
+/**
+ * L'événement fait-il avancer le succès ?
+ */
+export function matchesAchievement(achievement: AchievementDefinition, event: GameEvent): boolean {
+  if (event.type !== achievement.event) return false
+  const fields = event as Record<string, unknown>
+  return Object.entries(achievement.where).every(([field, condition]) => matchesCondition(fields[field], condition))
+}
+
+/**
+ * Progression d'un joueur (persistée)
+ */
+interface AchievementProgress {
+  progress: Record<string, number>   // Événements comptés par succès
+  unlockedAt: Record<string, number> // Timestamp de déblocage par succès
+  equipped: Record<UnlockableKind, string | null> // null = apparence par défaut
+}
+
+/**
+ * Clé localStorage de la progression (une entrée par profil)
+ */
+const ACHIEVEMENTS_KEY = 'facepuncher_achievements'
+
+// Clé de progression de l'invité
+const GUEST_KEY = 'guest'
+
+const createEmptyProgress = (): AchievementProgress => ({
+  progress: {},
+  unlockedAt: {},
+  equipped: { gloveColor: null, opponentSkin: null, arenaLighting: null },
+})
+
+// Charger la progression de tous les profils
+const loadAllProgress = (): Record<string, AchievementProgress> => {
+  try {
+    const saved = localStorage.getItem(ACHIEVEMENTS_KEY)
+    const parsed: unknown = saved ? JSON.parse(saved) : null
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, AchievementProgress>
+    }
+  } catch {
+    // Ignorer les erreurs localStorage / JSON
+  }
+  return {}
+}
+
+// Progression d'un profil (null = invité)
+const loadProgress = (profileId: string | null): AchievementProgress => {
+  const saved = loadAllProgress()[profileId ?? GUEST_KEY]
+  const empty = createEmptyProgress()
+  return saved
+    ? {
+      progress: saved.progress ?? empty.progress,
+      unlockedAt: saved.unlockedAt ?? empty.unlockedAt,
+      equipped: { ...empty.equipped, ...saved.equipped },
+    }
+    : empty
+}
+
+// Sauvegarder la progression d'un profil
+const saveProgress = (profileId: string | null, data: AchievementProgress): void => {
+  try {
+    const all = loadAllProgress()
+    all[profileId ?? GUEST_KEY] = data
+    localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(all))
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+}
+
+/**
+ * Store des succès et contenus débloquables
+ * Les événements arrivent de GameEvents (voir useAchievementTracker),
+ * la progression suit le profil actif
+ */
+interface AchievementStore extends AchievementProgress {
+  achievements: AchievementDefinition[]
+  unlockables: Unlockable[]
+  definitionsStatus: 'idle' | 'loading' | 'ready' | 'error'
+  lastUnlocked: UnlockedAchievement | null
+
+  // Actions
+  loadDefinitions: () => Promise<void>
+  handleEvent: (event: GameEvent) => void
+  isUnlockableAvailable: (id: string) => boolean
+  equip: (kind: UnlockableKind, id: string | null) => void
+  getEquipped: (kind: UnlockableKind) => Unlockable | null
+}
+
+export const useAchievementStore = create<AchievementStore>((set, get) => {
+  // Appliquer et persister la progression du profil actif
+  const commit = (update: Partial<AchievementProgress>) => {
+    set(update)
+    const { progress, unlockedAt, equipped } = get()
+    saveProgress(useProfileStore.getState().activeProfileId, { progress, unlockedAt, equipped })
+  }
+
+  // Changement de joueur : charger sa progression
+  useProfileStore.subscribe((state, prevState) => {
+    if (state.activeProfileId === prevState.activeProfileId) return
+    set({ ...loadProgress(state.activeProfileId), lastUnlocked: null })
+  })
+
+  return {
+    ...loadProgress(useProfileStore.getState().activeProfileId),
+    achievements: [],
+    unlockables: [],
+    definitionsStatus: 'idle',
+    lastUnlocked: null,
+
+    // Charger les définitions depuis le fichier JSON (une seule fois)
+    loadDefinitions: async () => {
+      const { definitionsStatus } = get()
+      if (definitionsStatus === 'loading' || definitionsStatus === 'ready') return
+
+      set({ definitionsStatus: 'loading' })
+      try {
+        const response = await fetch(ACHIEVEMENTS_URL)
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const data = await response.json()
+
+        const rawAchievements: unknown[] = Array.isArray(data?.achievements) ? data.achievements : []
+        const rawUnlockables: unknown[] = Array.isArray(data?.unlockables) ? data.unlockables : []
+
+        set({
+          achievements: rawAchievements
+            .map(parseAchievement)
+            .filter((achievement): achievement is AchievementDefinition => achievement !== null),
+          unlockables: rawUnlockables
+            .map(parseUnlockable)
+            .filter((unlockable): unlockable is Unlockable => unlockable !== null),
+          definitionsStatus: 'ready',
+        })
+      } catch (error) {
+        console.error('[Achievements] Failed to load definitions:', error)
+        set({ definitionsStatus: 'error' })
+      }
+    },
+
+    // Faire avancer les succès concernés par l'événement
+    handleEvent: (event) => {
+      const { achievements, progress, unlockedAt } = get()
+
+      const newProgress = { ...progress }
+      const newUnlockedAt = { ...unlockedAt }
+      let unlocked: AchievementDefinition | null = null
+      let changed = false
+
+      for (const achievement of achievements) {
+        if (unlockedAt[achievement.id] !== undefined || !matchesAchievement(achievement, event)) continue
+
+        const count = (progress[achievement.id] ?? 0) + 1
+        newProgress[achievement.id] = count
+        changed = true
+        if (count >= achievement.goal) {
+          newUnlockedAt[achievement.id] = Date.now()
+          unlocked = achievement
+        }
+      }
+
+      if (!changed) return
+
+      commit({ progress: newProgress, unlockedAt: newUnlockedAt })
+      if (unlocked) {
+        set({ lastUnlocked: { id: unlocked.id, name: unlocked.name, timestamp: Date.now() } })
+      }
+    },
+
+    // Contenu débloqué par au moins un succès obtenu
+    isUnlockableAvailable: (id) => {
+      const { achievements, unlockedAt } = get()
+      return achievements.some((achievement) => unlockedAt[achievement.id] !== undefined && achievement.unlocks.includes(id))
+    },
+
+    // Équiper un contenu (null = apparence par défaut)
+    equip: (kind, id) => {
+      if (id !== null && !get().isUnlockableAvailable(id)) return
+      commit({ equipped: { ...get().equipped, [kind]: id } })
+    },
+
+    getEquipped: (kind) => {
+      const { unlockables, equipped } = get()
+      const id = equipped[kind]
+      return unlockables.find((unlockable) => unlockable.id === id && unlockable.kind === kind) ?? null
+    },
+  }
+})
+
+export default useAchievementStore
@@ -0,0 +1,190 @@
+import { create } from 'zustand'
+import { useProfileStore } from './useProfileStore'
+import { useHandTrackingStore } from './useHandTrackingStore'
+import {
+  buildHandMapping,
+  CALIBRATION_STEPS,
+  type CalibrationStep,
+  type HandCalibrationSamples,
+  type HandMapping,
+  type WristSample,
+} from '../utils/CalibrationMapping'
+
+/**
+ * Calibration guidée d'un joueur (persistée par profil)
+ */
+export interface CalibrationProfile {
+  left: HandMapping | null
+  right: HandMapping | null
+  leftSamples: HandCalibrationSamples
+  rightSamples: HandCalibrationSamples
+  calibratedAt: number
+}
+
+/**
+ * Clé localStorage des calibrations (une entrée par profil)
+ */
+const CALIBRATION_KEY = 'facepuncher_calibration'
+
+// Clé de calibration de l'invité
+const GUEST_KEY = 'guest'
+
+// Charger les calibrations de tous les profils
+const loadAllCalibrations = (): Record<string, CalibrationProfile> => {
+  try {
+    const saved = localStorage.getItem(CALIBRATION_KEY)
+    const parsed: unknown = saved ? JSON.parse(saved) : null
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, CalibrationProfile>
+    }
+  } catch {
+    // Ignorer les erreurs localStorage / JSON
+  }
+  return {}
+}
+
+// Calibration d'un profil (null = invité)
+const loadCalibration = (profileId: string | null): CalibrationProfile | null =>
+  loadAllCalibrations()[profileId ?? GUEST_KEY] ?? null
+
+// Sauvegarder la calibration d'un profil (null = supprimer)
+const saveCalibration = (profileId: string | null, calibration: CalibrationProfile | null): void => {
+  try {
+    const all = loadAllCalibrations()
+    if (calibration) all[profileId ?? GUEST_KEY] = calibration
+    else delete all[profileId ?? GUEST_KEY]
+    localStorage.setItem(CALIBRATION_KEY, JSON.stringify(all))
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+}
+
+// Poignet actuel d'une main
+const captureWrist = (hand: 'left' | 'right'): WristSample | null => {
+  const state = useHandTrackingStore.getState()
+  const wrist = (hand === 'left' ? state.leftHand : state.rightHand)?.landmarks[0]
+  return wrist ? { x: wrist.x, y: wrist.y, z: wrist.z } : null
+}
+
+// Point de garde → calibration simple de useHandTrackingStore (garde, esquives...)
+const applyGuard = (profile: CalibrationProfile): void => {
+  const { leftSamples, rightSamples } = profile
+  useHandTrackingStore.getState().setCalibration(
+    leftSamples.guard ? { x: leftSamples.guard.x, y: leftSamples.guard.y } : null,
+    rightSamples.guard ? { x: rightSamples.guard.x, y: rightSamples.guard.y } : null
+  )
+}
+
+/**
+ * Store de la calibration guidée (plusieurs poses par main)
+ * Le mapping caméra → gants du profil actif est lu par useUnifiedInput
+ */
+interface CalibrationStore {
+  // Calibration du profil actif
+  profile: CalibrationProfile | null
+
+  // Calibration guidée en cours
+  stepIndex: number | null // null = pas de calibration guidée
+  leftSamples: HandCalibrationSamples
+  rightSamples: HandCalibrationSamples
+  mappingFailed: boolean // Poses inexploitables pour les deux mains : la calibration recommence
+
+  // Actions
+  startGuidedCalibration: () => void
+  captureStep: () => boolean // Capture la pose courante, retourne true si au moins une main (et, à la fin, un mapping)
+  cancelGuidedCalibration: () => void
+  applyProfile: () => boolean // Réutilise la calibration enregistrée, retourne true si disponible
+  clearProfile: () => void
+  getCurrentStep: () => CalibrationStep | null
+}
+
+export const useCalibrationStore = create<CalibrationStore>((set, get) => {
+  // Changement de joueur : charger sa calibration
+  useProfileStore.subscribe((state, prevState) => {
+    if (state.activeProfileId === prevState.activeProfileId) return
+    set({ profile: loadCalibration(state.activeProfileId), stepIndex: null, leftSamples: {}, rightSamples: {}, mappingFailed: false })
+  })
+
+  return {
+    profile: loadCalibration(useProfileStore.getState().activeProfileId),
+    stepIndex: null,
+    leftSamples: {},
+    rightSamples: {},
+    mappingFailed: false,
+
+    startGuidedCalibration: () => {
+      useHandTrackingStore.getState().startCalibration()
+      set({ stepIndex: 0, leftSamples: {}, rightSamples: {}, mappingFailed: false })
+    },
+
+    // Capturer la pose courante, terminer après la dernière
+    captureStep: () => {
+      const step = get().getCurrentStep()
+      if (!step) return false
+
+      const left = captureWrist('left')
+      const right = captureWrist('right')
+      if (!left && !right) return false
+
+      const leftSamples = left ? { ...get().leftSamples, [step]: left } : get().leftSamples
+      const rightSamples = right ? { ...get().rightSamples, [step]: right } : get().rightSamples
+      const stepIndex = (get().stepIndex ?? 0) + 1
+
+      if (stepIndex < CALIBRATION_STEPS.length) {
+        set({ stepIndex, leftSamples, rightSamples, mappingFailed: false })
+        return true
+      }
+
+      // Dernière pose : construire et enregistrer le mapping du joueur
+      const leftMapping = buildHandMapping('left', leftSamples)
+      const rightMapping = buildHandMapping('right', rightSamples)
+      if (!leftMapping && !rightMapping) {
+        // Poses trop proches ou allonge nulle : tout reprendre depuis la garde
+        console.warn('[Calibration] Guided calibration failed: poses unusable for both hands')
+        set({ stepIndex: 0, leftSamples: {}, rightSamples: {}, mappingFailed: true })
+        return false
+      }
+
+      const profile: CalibrationProfile = {
+        left: leftMapping,
+        right: rightMapping,
+        leftSamples,
+        rightSamples,
+        calibratedAt: Date.now(),
+      }
+      saveCalibration(useProfileStore.getState().activeProfileId, profile)
+      set({ profile, stepIndex: null, leftSamples: {}, rightSamples: {}, mappingFailed: false })
+      applyGuard(profile)
+
+      console.log('[Calibration] Guided calibration complete:', {
+        left: profile.left,
+        right: profile.right,
+      })
+      return true
+    },
+
+    cancelGuidedCalibration: () => {
+      useHandTrackingStore.getState().resetCalibration()
+      set({ stepIndex: null, leftSamples: {}, rightSamples: {}, mappingFailed: false })
+    },
+
+    applyProfile: () => {
+      const { profile } = get()
+      if (!profile || (!profile.left && !profile.right)) return false
+      applyGuard(profile)
+      return true
+    },
+
+    clearProfile: () => {
+      saveCalibration(useProfileStore.getState().activeProfileId, null)
+      set({ profile: null })
+    },
+
+    getCurrentStep: () => {
+      const { stepIndex } = get()
+      return stepIndex === null ? null : CALIBRATION_STEPS[stepIndex] ?? null
+    },
+  }
+})
+
+export default useCalibrationStore
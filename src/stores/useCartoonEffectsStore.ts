@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import { HitZone } from '../physics'
+import { GameEvents } from '../systems/GameEvents'
 
 /**
  * Types d'effets cartoon disponibles
@@ -70,6 +71,7 @@ interface CartoonEffectsStore {
   noseSquashIntensity: number
   headSquashIntensity: number
   headSquashAxis: [number, number, number] // Direction du squash
+  starsSpinIntensity: number // Étoiles KO (knockdown / K.O.)
 
   // État mâchoire
   jawDetached: boolean
@@ -111,6 +113,7 @@ export const useCartoonEffectsStore = create<CartoonEffectsStore>(
     noseSquashIntensity: 0,
     headSquashIntensity: 0,
     headSquashAxis: [0, 1, 0],
+    starsSpinIntensity: 0,
 
     jawDetached: false,
     jawDetachProgress: 0,
@@ -220,6 +223,7 @@ export const useCartoonEffectsStore = create<CartoonEffectsStore>(
 
       // === PRIORITÉ 2 : Jaw Detach (très rare) ===
       if (zone === 'jaw' && effectiveIntensity >= thresholds.jawDetachMin) {
+        if (!get().jawDetached) GameEvents.emit({ type: 'jawDetached' })
         set({ jawDetached: true, jawDetachProgress: 0 })
         triggerEffect('jawDetach', effectiveIntensity)
       }
@@ -261,6 +265,8 @@ export const useCartoonEffectsStore = create<CartoonEffectsStore>(
         updatedEffects.find((e) => e.type === 'noseSquash')?.intensity ?? 0
       const headSquash =
         updatedEffects.find((e) => e.type === 'headSquash')?.intensity ?? 0
+      const starsSpin =
+        updatedEffects.find((e) => e.type === 'starsSpin')?.intensity ?? 0
 
       // Animation jaw detach
       let newJawDetached = jawDetached
@@ -286,6 +292,7 @@ export const useCartoonEffectsStore = create<CartoonEffectsStore>(
         cheekWobbleIntensity: cheekWobble,
         noseSquashIntensity: noseSquash,
         headSquashIntensity: headSquash,
+        starsSpinIntensity: starsSpin,
         jawDetached: newJawDetached,
         jawDetachProgress: newJawProgress,
         cumulativeDamage: newCumulativeDamage,
@@ -311,6 +318,7 @@ export const useCartoonEffectsStore = create<CartoonEffectsStore>(
         cheekWobbleIntensity: 0,
         noseSquashIntensity: 0,
         headSquashIntensity: 0,
+        starsSpinIntensity: 0,
         jawDetached: false,
         jawDetachProgress: 0,
         cumulativeDamage: 0,
@@ -0,0 +1,199 @@
+import { create } from 'zustand'
+import type { PunchType, PunchHand } from './useGameStore'
+import { GameEvents } from '../systems/GameEvents'
+
+/**
+ * Fichier des enchaînements (public/, modifiable sans rebuild par les entraîneurs)
+ */
+export const COMBO_CHAINS_URL = '/combos/chains.json'
+
+/**
+ * Coup d'un enchaînement
+ */
+export interface ComboStep {
+  type: PunchType
+  hand: PunchHand
+}
+
+/**
+ * Enchaînement nommé tel que décrit dans le fichier JSON
+ */
+export interface ComboChain {
+  id: string
+  name: string
+  sequence: ComboStep[]
+  multiplier: number // Multiplicateur de dégâts du coup qui conclut l'enchaînement
+  maxGapMs: number   // Délai maximum entre deux coups de la séquence
+}
+
+/**
+ * Dernier enchaînement reconnu (affiché par ImpactOverlay)
+ */
+export interface LandedChain {
+  id: string
+  name: string
+  multiplier: number
+  timestamp: number
+}
+
+// Délai maximum par défaut entre deux coups d'un enchaînement (ms)
+const DEFAULT_MAX_GAP = 700
+
+// Durée pendant laquelle le bonus attend l'impact du dernier coup (ms)
+const BONUS_WINDOW = 800
+
+const PUNCH_TYPES: readonly PunchType[] = ['jab', 'hook', 'uppercut']
+const PUNCH_HANDS: readonly PunchHand[] = ['left', 'right']
+
+/**
+ * Valide un enchaînement lu depuis le JSON (rejeté si un coup est invalide)
+ */
+function parseChain(raw: unknown): ComboChain | null {
+  if (!raw || typeof raw !== 'object') return null
+  const chain = raw as Partial<ComboChain>
+  if (typeof chain.id !== 'string' || !Array.isArray(chain.sequence)) return null
+  if (typeof chain.multiplier !== 'number' || chain.multiplier <= 0) return null
+
+  const sequence = chain.sequence
+  const isValid = sequence.every((step: ComboStep | undefined) =>
+    !!step && PUNCH_TYPES.includes(step.type) && PUNCH_HANDS.includes(step.hand)
+  )
+  // Un seul coup n'est pas un enchaînement
+  if (!isValid || sequence.length < 2) return null
+
+  return {
+    id: chain.id,
+    name: typeof chain.name === 'string' ? chain.name : chain.id,
+    sequence: sequence.map(({ type, hand }) => ({ type, hand })),
+    multiplier: chain.multiplier,
+    maxGapMs: typeof chain.maxGapMs === 'number' && chain.maxGapMs > 0 ? chain.maxGapMs : DEFAULT_MAX_GAP,
+  }
+}
+
+/**
+ * Coup lancé récemment
+ */
+interface ThrownPunch extends ComboStep {
+  time: number
+}
+
+/**
+ * Vérifie que les derniers coups lancés forment l'enchaînement (ordre + délais)
+ */
+function matchesTail(history: ThrownPunch[], chain: ComboChain): boolean {
+  const offset = history.length - chain.sequence.length
+  if (offset < 0) return false
+
+  return chain.sequence.every((step, i) => {
+    const punch = history[offset + i]
+    if (!punch || punch.type !== step.type || punch.hand !== step.hand) return false
+    const previous = history[offset + i - 1]
+    return i === 0 || !previous || punch.time - previous.time <= chain.maxGapMs
+  })
+}
+
+/**
+ * Store de reconnaissance des enchaînements nommés ("1-2", "jab-direct-crochet"...)
+ * Les coups lancés arrivent via registerPunch() (voir useGameStore.throwPunch),
+ * le bonus est consommé par le premier impact qui suit (voir useGameStore.recordHit)
+ */
+interface ComboChainStore {
+  // Enchaînements disponibles (triés du plus long au plus court)
+  chains: ComboChain[]
+  chainsStatus: 'idle' | 'loading' | 'ready' | 'error'
+
+  // Suivi en cours
+  history: ThrownPunch[]
+  lastChain: LandedChain | null
+  pendingMultiplier: number
+  pendingUntil: number
+  chainsLanded: Record<string, number> // Nombre de réussites par enchaînement
+
+  // Actions
+  loadChains: () => Promise<void>
+  registerPunch: (type: PunchType, hand: PunchHand) => void
+  consumeMultiplier: () => number
+  reset: () => void
+}
+
+export const useComboChainStore = create<ComboChainStore>((set, get) => ({
+  chains: [],
+  chainsStatus: 'idle',
+
+  history: [],
+  lastChain: null,
+  pendingMultiplier: 1,
+  pendingUntil: 0,
+  chainsLanded: {},
+
+  // Charger les enchaînements depuis le fichier JSON (une seule fois)
+  loadChains: async () => {
+    const { chainsStatus } = get()
+    if (chainsStatus === 'loading' || chainsStatus === 'ready') return
+
+    set({ chainsStatus: 'loading' })
+    try {
+      const response = await fetch(COMBO_CHAINS_URL)
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      const data = await response.json()
+
+      const rawChains: unknown[] = Array.isArray(data?.chains) ? data.chains : []
+      const chains = rawChains
+        .map(parseChain)
+        .filter((chain): chain is ComboChain => chain !== null)
+        // Le plus long d'abord : "1-2-3" l'emporte sur "2-3"
+        .sort((a, b) => b.sequence.length - a.sequence.length)
+
+      set({ chains, chainsStatus: 'ready' })
+    } catch (error) {
+      console.error('[ComboChain] Failed to load chains:', error)
+      set({ chainsStatus: 'error' })
+    }
+  },
+
+  // Ajouter un coup lancé et chercher un enchaînement qui se termine sur ce coup
+  registerPunch: (type, hand) => {
+    const { chains, history, chainsLanded } = get()
+    if (chains.length === 0) return
+
+    const now = performance.now()
+    const maxLength = chains[0]?.sequence.length ?? 0
+    const newHistory = [...history, { type, hand, time: now }].slice(-maxLength)
+
+    const chain = chains.find((candidate) => matchesTail(newHistory, candidate))
+    if (!chain) {
+      set({ history: newHistory })
+      return
+    }
+
+    // On garde l'historique : "1-2" peut se prolonger en "1-2-3"
+    set({
+      history: newHistory,
+      lastChain: { id: chain.id, name: chain.name, multiplier: chain.multiplier, timestamp: Date.now() },
+      pendingMultiplier: chain.multiplier,
+      pendingUntil: now + BONUS_WINDOW,
+      chainsLanded: { ...chainsLanded, [chain.id]: (chainsLanded[chain.id] ?? 0) + 1 },
+    })
+    GameEvents.emit({ type: 'comboChain', chainId: chain.id })
+  },
+
+  // Multiplicateur à appliquer à l'impact en cours (1 si aucun bonus en attente)
+  consumeMultiplier: () => {
+    const { pendingMultiplier, pendingUntil } = get()
+    if (pendingMultiplier === 1) return 1
+
+    set({ pendingMultiplier: 1, pendingUntil: 0 })
+    return performance.now() <= pendingUntil ? pendingMultiplier : 1
+  },
+
+  // Reset du suivi (on garde les enchaînements chargés)
+  reset: () => set({
+    history: [],
+    lastChain: null,
+    pendingMultiplier: 1,
+    pendingUntil: 0,
+    chainsLanded: {},
+  }),
+}))
+
+export default useComboChainStore
@@ -10,6 +10,16 @@ import {
   createParticle,
   createDistanceConstraint,
 } from '../physics/types'
+import { PhysicsClock } from '../systems/PhysicsClock'
+
+// ID de la simulation dans PhysicsClock
+const CLOCK_STEPPER_ID = 'fluffy'
+
+// Désinscription de l'horloge (simulation active entre init et dispose)
+let unregisterStepper: (() => void) | null = null
+
+// Position interpolée réutilisée par syncToGeometry
+const _renderPosition = new THREE.Vector3()
 
 /**
  * Configuration du soft body fluffy (inspiré ammo.js)
@@ -220,6 +230,10 @@ export const useFluffySoftBodyStore = create<FluffySoftBodyStore>((set, get) =>
       triangles,
     })
 
+    // Avancé par pas fixes par l'horloge physique
+    unregisterStepper?.()
+    unregisterStepper = PhysicsClock.register(CLOCK_STEPPER_ID, get().step)
+
     console.log(
       `FluffySoftBody initialized: ${particles.length} vertices, ${distanceConstraints.length} edges, ${triangles.length} triangles, volume=${Math.abs(restVolume).toFixed(4)}, pressure=${config.pressure}`
     )
@@ -257,14 +271,15 @@ export const useFluffySoftBodyStore = create<FluffySoftBodyStore>((set, get) =>
     const normals = geometry.attributes.normal as THREE.BufferAttribute | undefined
     if (!positions) return
 
-    // Synchroniser les positions
+    // Synchroniser les positions (interpolées entre les deux derniers pas)
+    const alpha = PhysicsClock.alpha
     for (let i = 0; i < particleIds.length; i++) {
       const particleId = particleIds[i]
       if (particleId === undefined) continue
 
-      const particle = solver.getParticle(particleId)
-      if (particle) {
-        positions.setXYZ(i, particle.position.x, particle.position.y, particle.position.z)
+      const position = solver.getInterpolatedPosition(particleId, alpha, _renderPosition)
+      if (position) {
+        positions.setXYZ(i, position.x, position.y, position.z)
       }
     }
 
@@ -300,6 +315,8 @@ export const useFluffySoftBodyStore = create<FluffySoftBodyStore>((set, get) =>
 
   dispose: () => {
     const { solver } = get()
+    unregisterStepper?.()
+    unregisterStepper = null
     solver.clear()
     set({
       isInitialized: false,
@@ -1,19 +1,88 @@
 import { create } from 'zustand'
+import { useFacialStore } from './useFacialStore'
+import { useCartoonEffectsStore } from './useCartoonEffectsStore'
+import { useOpponentAIStore } from './useOpponentAIStore'
+import { useRhythmStore, getTrackDuration } from './useRhythmStore'
+import { useTargetDrillStore } from './useTargetDrillStore'
+import { useComboChainStore } from './useComboChainStore'
+import { useHandTrackingStore } from './useHandTrackingStore'
+import { useSessionHistoryStore } from './useSessionHistoryStore'
+import { useProfileStore, GUEST_NAME } from './useProfileStore'
+import { useLeaderboardStore } from './useLeaderboardStore'
+import { scoreRound, buildScorecard, type ScoredRound, type MatchScorecard, type StoppageType } from '../utils/Scorecard'
+import type { InputMethod, SessionRoundRecord } from '../systems/SessionHistory'
+import { GameEvents } from '../systems/GameEvents'
+import { PhysicsClock } from '../systems/PhysicsClock'
+import type { PhysicsBackendType } from '../physics/PhysicsBackend'
 
 /**
  * États possibles du jeu
+ * BETWEEN_ROUNDS = repos entre deux rounds d'un match multi-rounds
+ * KNOCKDOWN = adversaire au tapis, l'arbitre compte (mode KO)
  */
-export type GameState = 'LOBBY' | 'COUNTDOWN' | 'FIGHTING' | 'FINISHED'
+export type GameState = 'LOBBY' | 'COUNTDOWN' | 'FIGHTING' | 'KNOCKDOWN' | 'BETWEEN_ROUNDS' | 'FINISHED'
 
 /**
- * Durée du round en secondes
+ * Mode de combat
+ * - timer: seul le nombre de coups compte (mode historique)
+ * - ko: les coups font baisser opponentHp, knockdowns et K.O. possibles
+ * - rhythm: entraînement sur une séquence de consignes (un seul round, durée de la séquence)
+ * - target: drill de précision sur une zone du visage (un seul round)
+ */
+export type FightMode = 'timer' | 'ko' | 'rhythm' | 'target'
+
+/**
+ * Modes d'entraînement : un seul round, pas de feuille des juges
+ */
+export function isTrainingMode(mode: FightMode): boolean {
+  return mode === 'rhythm' || mode === 'target'
+}
+
+/**
+ * Compte de l'arbitre lors d'un knockdown
+ */
+export const KNOCKDOWN_COUNT = 10
+
+/**
+ * Règle des trois knockdowns : arrêt (TKO) au 3e knockdown d'un même round
+ */
+export const MAX_KNOCKDOWNS_PER_ROUND = 3
+
+/**
+ * Durée du round en secondes (format rapide par défaut)
  */
 export const ROUND_DURATION = 33
 
 /**
- * Clé localStorage pour le meilleur score
+ * Nombre maximum de rounds dans un match
  */
-const BEST_SCORE_KEY = 'facepuncher_best_score'
+export const MAX_ROUNDS = 12
+
+/**
+ * Format de match prédéfini
+ */
+export type MatchFormat = 'quick' | 'amateur' | 'pro'
+
+/**
+ * Configuration d'un match (durées en secondes)
+ */
+export interface MatchConfig {
+  totalRounds: number
+  roundDuration: number
+  restDuration: number
+}
+
+/**
+ * Formats de match prédéfinis
+ * - quick: un seul round court (mode historique)
+ * - amateur: 3 rounds de 2 minutes
+ * - pro: 3 rounds de 3 minutes avec 1 minute de repos
+ */
+export const MATCH_FORMATS: Record<MatchFormat, MatchConfig> = {
+  quick: { totalRounds: 1, roundDuration: ROUND_DURATION, restDuration: 0 },
+  amateur: { totalRounds: 3, roundDuration: 120, restDuration: 60 },
+  pro: { totalRounds: 3, roundDuration: 180, restDuration: 60 },
+}
 
 /**
  * Type de coup
@@ -25,12 +94,92 @@ export type PunchType = 'jab' | 'hook' | 'uppercut'
  */
 export type PunchHand = 'left' | 'right'
 
+/**
+ * Endurance maximum du joueur
+ */
+export const MAX_STAMINA = 100
+
+/**
+ * Endurance consommée par type de coup (les coups amples coûtent plus)
+ */
+export const STAMINA_COSTS: Record<PunchType, number> = {
+  jab: 5,
+  hook: 9,
+  uppercut: 12,
+}
+
+// Endurance sous laquelle le joueur fatigue (dégâts et animations réduits)
+const LOW_STAMINA = 30
+
+// Efficacité minimum à endurance nulle
+const MIN_STAMINA_EFFICIENCY = 0.4
+
+/**
+ * Efficacité des coups selon l'endurance (1 = pleine forme)
+ * Multiplie les dégâts et la vitesse des animations de coup
+ */
+export function getStaminaEfficiency(stamina: number): number {
+  if (stamina >= LOW_STAMINA) return 1
+  const t = Math.max(0, stamina) / LOW_STAMINA
+  return MIN_STAMINA_EFFICIENCY + (1 - MIN_STAMINA_EFFICIENCY) * t
+}
+
+// Puissance d'un coup donné à vitesse nulle (un coup lent porte quand même)
+const MIN_PUNCH_POWER = 0.5
+
+/**
+ * Puissance d'un coup selon la vitesse de l'entrée (0-1 : geste, gâchette, stick)
+ * Multiplie l'impulsion des gants et la vitesse des animations de coup
+ */
+export function getPunchPower(velocity: number): number {
+  const t = Math.min(1, Math.max(0, velocity))
+  return MIN_PUNCH_POWER + (1 - MIN_PUNCH_POWER) * t
+}
+
+/**
+ * Clé localStorage du moteur physique choisi
+ */
+const PHYSICS_BACKEND_KEY = 'facepuncher_physics_backend'
+
+// Charger le moteur physique choisi
+const loadPhysicsBackend = (): PhysicsBackendType => {
+  try {
+    const saved = localStorage.getItem(PHYSICS_BACKEND_KEY)
+    if (saved === 'ammo' || saved === 'rapier') return saved
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+  return 'ammo'
+}
+
+// Sauvegarder le moteur physique choisi
+const savePhysicsBackend = (backend: PhysicsBackendType): void => {
+  try {
+    localStorage.setItem(PHYSICS_BACKEND_KEY, backend)
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+}
+
+/**
+ * Moteur qui simule réellement l'adversaire sélectionné
+ * Rapier ne porte que le mur de briques : les adversaires soft body
+ * (et les gants qui les frappent) restent dans le monde Ammo
+ */
+export function getActivePhysicsBackend(
+  state: Pick<GameStore, 'physicsBackend' | 'selectedOpponent'>
+): PhysicsBackendType {
+  return state.physicsBackend === 'rapier' && state.selectedOpponent === 'brickwall' ? 'rapier' : 'ammo'
+}
+
 /**
  * Punch en attente déclenché par UI
  */
 export interface QueuedPunch {
   type: PunchType
   hand: PunchHand
+  source: InputMethod // Entrée qui a déclenché le coup (historique des sessions)
+  velocity: number    // 0-1 : vitesse du geste (1 = boutons, pleine puissance)
   timestamp: number
 }
 
@@ -145,12 +294,39 @@ interface GameStore {
   // Timer et score
   timeRemaining: number      // Temps restant en secondes
   countdown: number          // Compte à rebours avant départ (3, 2, 1)
-  hitCount: number           // Nombre de coups portés ce round
-  bestScore: number          // Meilleur score (persisté)
+  hitCount: number           // Nombre de coups portés pendant le match
+  score: number              // Points du match : un par coup, multiplié par les bonus d'enchaînement
+  bestScore: number          // Record du joueur actif (mode + adversaire), mis à jour en fin de match
+  isNewRecord: boolean       // Le dernier match a battu (strictement) le record précédent
+  lastLeaderboardEntryId: string | null // Score du dernier match au classement (null si hors classement)
   lastHitTimestamp: number   // Pour éviter les double-hits
 
-  // Stats Joueur (legacy, gardé pour compatibilité)
+  // Match multi-rounds
+  matchFormat: MatchFormat
+  matchConfig: MatchConfig
+  currentRound: number            // Round en cours (1-based)
+  restTimeRemaining: number       // Temps de repos restant (BETWEEN_ROUNDS)
+  roundHitCount: number           // Coups portés ce round
+  roundDamage: number             // Dégâts infligés ce round
+  roundMaxCombo: number           // Meilleur combo de ce round
+  roundHitsTaken: number          // Coups de l'adversaire encaissés ce round
+  roundPunches: Record<PunchType, number> // Coups lancés ce round par type
+  roundInputs: Record<InputMethod, number> // Coups lancés ce round par entrée
+  roundStrengthTotal: number      // Somme des forces des coups portés ce round
+  roundHistory: ScoredRound[]     // Rounds terminés et notés
+  scorecard: MatchScorecard | null // Feuille de match (FINISHED)
+
+  // Mode KO
+  fightMode: FightMode
+  knockdownCount: number          // Compte de l'arbitre (0-10) pendant KNOCKDOWN
+  knockdownGetUpCount: number     // Compte auquel l'adversaire se relèvera (>= 10 = K.O.)
+  roundKnockdowns: number         // Knockdowns ce round (règle des trois knockdowns)
+  totalKnockdowns: number         // Knockdowns sur tout le match
+
+  // Stats Joueur (playerHp baisse sous la riposte de l'adversaire)
   playerHp: number // 0-100
+  stamina: number // 0-MAX_STAMINA
+  lastPunchTimestamp: number // Dernier coup lancé (régénération au repos)
   comboMeter: number // 0-100
   comboCount: number
 
@@ -177,6 +353,9 @@ interface GameStore {
   // Mode physique des gants
   glovePhysicsMode: GlovePhysicsMode
 
+  // Moteur choisi pour le mur de briques et ses gants (voir getActivePhysicsBackend)
+  physicsBackend: PhysicsBackendType
+
   // Timestamp du dernier coup (pour reset combo)
   lastHitTime: number
 
@@ -184,9 +363,28 @@ interface GameStore {
   startCountdown: () => void
   tickCountdown: () => void
   tickTimer: () => void
-  recordHit: () => void
+  tickRest: () => void
+  skipRest: () => void
+  recordHit: (strength?: number, hand?: PunchHand) => void
   endRound: () => void
 
+  // Coup lancé par le joueur (toutes sources d'input confondues)
+  throwPunch: (type: PunchType, hand: PunchHand, source?: InputMethod) => void
+
+  // Actions endurance
+  spendStamina: (type: PunchType) => void
+  regenStamina: (deltaSeconds: number) => void
+
+  // Actions match
+  setMatchFormat: (format: MatchFormat) => void
+  setTotalRounds: (rounds: number) => void
+
+  // Actions KO
+  setFightMode: (mode: FightMode) => void
+  knockDown: () => void
+  tickKnockdownCount: () => void
+  stopFight: (type: StoppageType, winner?: 'player' | 'opponent') => void
+
   // Actions legacy
   setTexture: (url: string) => void
   clearTexture: () => void
@@ -217,10 +415,11 @@ interface GameStore {
 
   // Action mode gants
   setGlovePhysicsMode: (mode: GlovePhysicsMode) => void
+  setPhysicsBackend: (backend: PhysicsBackendType) => void
 
   // Système de punch déclenché par UI
   queuedPunch: QueuedPunch | null
-  queuePunch: (type: PunchType, hand?: PunchHand) => void
+  queuePunch: (type: PunchType, hand?: PunchHand, source?: InputMethod, velocity?: number) => void
   consumeQueuedPunch: () => QueuedPunch | null
 }
 
@@ -233,22 +432,131 @@ const CRITICAL_MULTIPLIER = 2.0
 // Bonus de dégâts par combo
 const COMBO_DAMAGE_BONUS = 0.1
 
-// Charger le meilleur score depuis localStorage
-const loadBestScore = (): number => {
-  try {
-    const saved = localStorage.getItem(BEST_SCORE_KEY)
-    return saved ? parseInt(saved, 10) : 0
-  } catch {
-    return 0
+// Dégâts de référence d'un hit enregistré via recordHit (force 1)
+const HIT_BASE_DAMAGE = 10
+
+// En mode KO, part des dégâts de recordHit retirée à opponentHp
+const KO_DAMAGE_SCALE = 0.4
+
+// Force au-delà de laquelle un hit enregistré est critique
+const CRITICAL_STRENGTH = 0.95
+
+// Compte minimum auquel l'adversaire se relève (1er knockdown)
+const KNOCKDOWN_BASE_GET_UP = 4
+
+// HP rendus à l'adversaire quand il se relève (diminue à chaque knockdown)
+const KNOCKDOWN_RECOVERY_HP = 60
+const KNOCKDOWN_RECOVERY_DECAY = 20
+const KNOCKDOWN_MIN_RECOVERY_HP = 20
+
+// HP récupérés par l'adversaire pendant le repos
+const REST_RECOVERY_HP = 15
+
+// Régénération de l'endurance (par seconde) et délai d'inactivité avant régénération (ms)
+const STAMINA_REGEN_RATE = 20
+const STAMINA_REGEN_DELAY = 600
+
+// Stats de round remises à zéro au début de chaque round
+const EMPTY_ROUND_STATS = {
+  roundHitCount: 0,
+  roundDamage: 0,
+  roundMaxCombo: 0,
+  roundKnockdowns: 0,
+  roundHitsTaken: 0,
+  roundPunches: { jab: 0, hook: 0, uppercut: 0 },
+  roundInputs: { touch: 0, camera: 0, keyboard: 0, gamepad: 0 },
+  roundStrengthTotal: 0,
+}
+
+/**
+ * Durée d'un round selon le mode (le mode rythme dure le temps de la séquence)
+ */
+export function getRoundDuration(fightMode: FightMode, matchConfig: MatchConfig): number {
+  if (fightMode === 'rhythm') {
+    const track = useRhythmStore.getState().getSelectedTrack()
+    if (track) return Math.ceil(getTrackDuration(track) / 1000)
   }
+  return matchConfig.roundDuration
 }
 
-// Sauvegarder le meilleur score
-const saveBestScore = (score: number): void => {
-  try {
-    localStorage.setItem(BEST_SCORE_KEY, score.toString())
-  } catch {
-    // Ignorer les erreurs localStorage
+// Joueur gaucher (profil actif) : enchaînements et consignes écrits pour un droitier, mains inversées
+const isLeftHandedPlayer = (): boolean =>
+  useProfileStore.getState().getActiveProfile()?.handedness === 'left'
+
+// Calcul des dégâts avec bonus combo et critique
+const computeDamage = (amount: number, comboCount: number, isCritical: boolean): number => {
+  const comboBonus = 1 + comboCount * COMBO_DAMAGE_BONUS
+  const critBonus = isCritical ? CRITICAL_MULTIPLIER : 1
+  return amount * comboBonus * critBonus
+}
+
+// Noter le round en cours à partir des stats du store
+const scoreCurrentRound = (state: GameStore): ScoredRound => scoreRound({
+  round: state.currentRound,
+  hits: state.roundHitCount,
+  damage: state.roundDamage,
+  maxCombo: state.roundMaxCombo,
+  knockdowns: state.roundKnockdowns,
+  hitsTaken: state.roundHitsTaken,
+  duration: getRoundDuration(state.fightMode, state.matchConfig) - state.timeRemaining,
+})
+
+// Entrée qui a lancé le plus de coups pendant le round (sans coup : caméra si activée)
+const getRoundInputMethod = (state: GameStore): InputMethod => {
+  let best: InputMethod = useHandTrackingStore.getState().isCameraEnabled ? 'camera' : 'touch'
+  let bestCount = 0
+  for (const [method, count] of Object.entries(state.roundInputs) as [InputMethod, number][]) {
+    if (count > bestCount) {
+      best = method
+      bestCount = count
+    }
+  }
+  return best
+}
+
+// Round terminé tel qu'enregistré dans l'historique des sessions
+const buildSessionRecord = (state: GameStore, round: ScoredRound): SessionRoundRecord => ({
+  id: `${Date.now()}-${round.round}-${Math.random().toString(36).slice(2, 8)}`,
+  date: Date.now(),
+  fightMode: state.fightMode,
+  opponent: state.selectedOpponent,
+  physicsPreset: state.selectedPhysicsPreset,
+  inputMethod: getRoundInputMethod(state),
+  round: round.round,
+  totalRounds: isTrainingMode(state.fightMode) ? 1 : state.matchConfig.totalRounds,
+  duration: round.duration,
+  hits: round.hits,
+  punches: state.roundPunches,
+  maxCombo: round.maxCombo,
+  averageStrength: state.roundHitCount > 0 ? state.roundStrengthTotal / state.roundHitCount : 0,
+})
+
+// Score du match pour le classement (selon le mode)
+const getMatchScore = (state: GameStore): number => {
+  if (state.fightMode === 'rhythm') return useRhythmStore.getState().getResults().score
+  if (state.fightMode === 'target') return useTargetDrillStore.getState().getResults().targetsHit
+  return Math.round(state.score)
+}
+
+// Soumettre le score du match au classement du joueur actif
+const submitMatchScore = (state: GameStore): Pick<GameStore, 'bestScore' | 'isNewRecord' | 'lastLeaderboardEntryId'> => {
+  const profile = useProfileStore.getState().getActiveProfile()
+  const leaderboard = useLeaderboardStore.getState()
+  const score = getMatchScore(state)
+  const previousBest = leaderboard.getPersonalBest(profile?.id ?? null, state.fightMode, state.selectedOpponent)
+
+  const entry = leaderboard.submitScore({
+    profileId: profile?.id ?? null,
+    playerName: profile?.name ?? GUEST_NAME,
+    fightMode: state.fightMode,
+    opponent: state.selectedOpponent,
+    score,
+  })
+
+  return {
+    bestScore: Math.max(previousBest, score),
+    isNewRecord: score > previousBest,
+    lastLeaderboardEntryId: entry?.id ?? null,
   }
 }
 
@@ -260,11 +568,31 @@ export const useGameStore = create<GameStore>((set, get) => ({
   timeRemaining: ROUND_DURATION,
   countdown: 3,
   hitCount: 0,
-  bestScore: loadBestScore(),
+  score: 0,
+  bestScore: 0,
+  isNewRecord: false,
+  lastLeaderboardEntryId: null,
   lastHitTimestamp: 0,
 
+  // Match (format rapide par défaut)
+  matchFormat: 'quick',
+  matchConfig: MATCH_FORMATS.quick,
+  currentRound: 1,
+  restTimeRemaining: 0,
+  ...EMPTY_ROUND_STATS,
+  roundHistory: [],
+  scorecard: null,
+
+  // Mode KO (timer par défaut)
+  fightMode: 'timer',
+  knockdownCount: 0,
+  knockdownGetUpCount: 0,
+  totalKnockdowns: 0,
+
   // Legacy
   playerHp: 100,
+  stamina: MAX_STAMINA,
+  lastPunchTimestamp: 0,
   comboMeter: 0,
   comboCount: 0,
   opponentHp: 100,
@@ -290,6 +618,9 @@ export const useGameStore = create<GameStore>((set, get) => ({
   // Mode physique des gants par défaut (kinematic = système actuel)
   glovePhysicsMode: 'kinematic',
 
+  // Moteur physique choisi (Ammo.js par défaut, comme les soft bodies)
+  physicsBackend: loadPhysicsBackend(),
+
   // Punch en attente (déclenché par boutons UI)
   queuedPunch: null,
 
@@ -326,10 +657,9 @@ export const useGameStore = create<GameStore>((set, get) => ({
       set({ comboCount: 0, comboMeter: 0 })
     }
 
-    // Calculer les dégâts avec bonus
-    const comboBonus = 1 + state.comboCount * COMBO_DAMAGE_BONUS
-    const critBonus = isCritical ? CRITICAL_MULTIPLIER : 1
-    const finalDamage = amount * comboBonus * critBonus
+    // Calculer les dégâts avec bonus (combo + enchaînement nommé)
+    const chainMultiplier = useComboChainStore.getState().consumeMultiplier()
+    const finalDamage = computeDamage(amount, state.comboCount, isCritical) * chainMultiplier
 
     // Appliquer les dégâts
     const newHp = Math.max(0, state.opponentHp - finalDamage)
@@ -343,10 +673,17 @@ export const useGameStore = create<GameStore>((set, get) => ({
       comboCount: newComboCount,
       comboMeter: newComboMeter,
       lastHitTime: now,
+      roundDamage: state.roundDamage + finalDamage,
+      roundMaxCombo: Math.max(state.roundMaxCombo, newComboCount),
     })
+
+    // Mode KO: adversaire au tapis
+    if (newHp <= 0 && state.fightMode === 'ko') {
+      get().knockDown()
+    }
   },
 
-  // Infliger des dégâts au joueur (contre-attaque) - legacy, non utilisé en mode timer
+  // Infliger des dégâts au joueur (riposte de l'adversaire, voir useOpponentAI)
   playerTakeDamage: (amount: number) => {
     const state = get()
     if (state.gameState !== 'FIGHTING') return
@@ -357,7 +694,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
       playerHp: newHp,
       comboCount: 0,
       comboMeter: 0,
+      roundHitsTaken: state.roundHitsTaken + 1,
     })
+
+    // Joueur au tapis : défaite avant la limite
+    if (newHp <= 0) {
+      get().stopFight('KO', 'opponent')
+    }
   },
 
   // Incrémenter le combo
@@ -374,7 +717,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
     set({ comboCount: 0, comboMeter: 0 })
   },
 
-  // Démarrer le compte à rebours (3, 2, 1, GO!)
+  // Démarrer le compte à rebours (3, 2, 1, GO!) - début du match
   startCountdown: () => {
     const state = get()
     if (state.gameState === 'LOBBY') {
@@ -382,10 +725,30 @@ export const useGameStore = create<GameStore>((set, get) => ({
         gameState: 'COUNTDOWN',
         countdown: 3,
         hitCount: 0,
-        timeRemaining: ROUND_DURATION,
+        score: 0,
+        timeRemaining: getRoundDuration(state.fightMode, state.matchConfig),
         comboCount: 0,
         comboMeter: 0,
+        currentRound: 1,
+        restTimeRemaining: 0,
+        ...EMPTY_ROUND_STATS,
+        roundHistory: [],
+        scorecard: null,
+        opponentHp: 100,
+        playerHp: 100,
+        stamina: MAX_STAMINA,
+        lastPunchTimestamp: 0,
+        knockdownCount: 0,
+        totalKnockdowns: 0,
       })
+      useFacialStore.getState().reset()
+      useCartoonEffectsStore.getState().reset()
+      useOpponentAIStore.getState().reset()
+      useRhythmStore.getState().reset()
+      useTargetDrillStore.getState().reset()
+      useComboChainStore.getState().reset()
+      // Mode déterministe : chaque match repart de la graine (mêmes entrées = même match)
+      if (PhysicsClock.isDeterministic) PhysicsClock.reset()
     }
   },
 
@@ -398,6 +761,8 @@ export const useGameStore = create<GameStore>((set, get) => ({
     if (newCountdown <= 0) {
       // GO! Démarrer le combat
       set({ gameState: 'FIGHTING', countdown: 0 })
+      if (state.fightMode === 'rhythm') useRhythmStore.getState().start(isLeftHandedPlayer())
+      if (state.fightMode === 'target') useTargetDrillStore.getState().start()
     } else {
       set({ countdown: newCountdown })
     }
@@ -417,43 +782,295 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
   },
 
-  // Enregistrer un coup (appelé à chaque impact)
-  recordHit: () => {
+  // Décrémenter le repos (appelé chaque seconde pendant BETWEEN_ROUNDS)
+  tickRest: () => {
+    const state = get()
+    if (state.gameState !== 'BETWEEN_ROUNDS') return
+
+    const newRest = state.restTimeRemaining - 1
+    if (newRest <= 0) {
+      get().skipRest()
+    } else {
+      set({ restTimeRemaining: newRest })
+    }
+  },
+
+  // Terminer le repos et lancer le compte à rebours du round suivant
+  skipRest: () => {
+    const state = get()
+    if (state.gameState !== 'BETWEEN_ROUNDS') return
+
+    set({
+      gameState: 'COUNTDOWN',
+      countdown: 3,
+      currentRound: state.currentRound + 1,
+      restTimeRemaining: 0,
+      timeRemaining: state.matchConfig.roundDuration,
+      comboCount: 0,
+      comboMeter: 0,
+      stamina: MAX_STAMINA,
+      ...EMPTY_ROUND_STATS,
+    })
+    useOpponentAIStore.getState().reset()
+  },
+
+  // Enregistrer un coup (appelé à chaque impact, avec la main du gant si connue)
+  recordHit: (strength = 1, hand) => {
     const state = get()
     if (state.gameState !== 'FIGHTING') return
 
+    // Mode rythme : le coup est noté au contact, pas au lancement
+    if (state.fightMode === 'rhythm') useRhythmStore.getState().judgeContact(hand)
+
     // Anti-spam: minimum 100ms entre deux hits
     const now = Date.now()
     if (now - state.lastHitTimestamp < 100) return
 
+    // Reset combo si trop de temps écoulé depuis le dernier hit
+    const comboCount = now - state.lastHitTimestamp > COMBO_RESET_DELAY ? 0 : state.comboCount
+    const comboMeter = comboCount === 0 ? 0 : state.comboMeter
+
     const newHitCount = state.hitCount + 1
-    const newComboCount = state.comboCount + 1
+    const newComboCount = comboCount + 1
+    // Un joueur fatigué frappe moins fort, un enchaînement nommé frappe plus fort (et rapporte plus)
+    const chainMultiplier = useComboChainStore.getState().consumeMultiplier()
+    const damage = strength * HIT_BASE_DAMAGE * getStaminaEfficiency(state.stamina) * chainMultiplier
+
+    // Mode KO: les coups entament opponentHp (bonus combo/critique de takeDamage)
+    const opponentHp = state.fightMode === 'ko'
+      ? Math.max(0, state.opponentHp - computeDamage(damage * KO_DAMAGE_SCALE, comboCount, strength >= CRITICAL_STRENGTH))
+      : state.opponentHp
 
     set({
       hitCount: newHitCount,
+      score: state.score + chainMultiplier,
       comboCount: newComboCount,
-      comboMeter: Math.min(100, state.comboMeter + 5),
+      comboMeter: Math.min(100, comboMeter + 5),
       lastHitTimestamp: now,
+      roundHitCount: state.roundHitCount + 1,
+      roundDamage: state.roundDamage + damage,
+      roundMaxCombo: Math.max(state.roundMaxCombo, newComboCount),
+      roundStrengthTotal: state.roundStrengthTotal + strength,
+      opponentHp,
+    })
+    GameEvents.emit({ type: 'hit', comboCount: newComboCount, strength })
+
+    if (opponentHp <= 0 && state.fightMode === 'ko') {
+      get().knockDown()
+    }
+  },
+
+  // Coup lancé : endurance + enchaînements + mode rythme (noté au contact)
+  // @param source Entrée du coup (tactile/souris par défaut)
+  throwPunch: (type, hand, source = 'touch') => {
+    const state = get()
+    if (state.gameState !== 'FIGHTING') return
+
+    state.spendStamina(type)
+    set({ roundInputs: { ...state.roundInputs, [source]: state.roundInputs[source] + 1 } })
+
+    // Les enchaînements sont écrits pour un droitier : garde inversée pour un gaucher
+    const mirroredHand: PunchHand = hand === 'left' ? 'right' : 'left'
+    useComboChainStore.getState().registerPunch(type, isLeftHandedPlayer() ? mirroredHand : hand)
+    if (state.fightMode === 'rhythm') {
+      useRhythmStore.getState().registerPunch(type, hand)
+    }
+  },
+
+  // Consommer l'endurance au lancement d'un coup
+  spendStamina: (type) => {
+    const state = get()
+    if (state.gameState !== 'FIGHTING') return
+
+    set({
+      stamina: Math.max(0, state.stamina - STAMINA_COSTS[type]),
+      lastPunchTimestamp: Date.now(),
+      roundPunches: { ...state.roundPunches, [type]: state.roundPunches[type] + 1 },
     })
   },
 
-  // Terminer le round
+  // Régénérer l'endurance quand le joueur ne frappe plus (appelé par le HUD)
+  regenStamina: (deltaSeconds) => {
+    const state = get()
+    if (state.gameState !== 'FIGHTING' || state.stamina >= MAX_STAMINA) return
+    if (Date.now() - state.lastPunchTimestamp < STAMINA_REGEN_DELAY) return
+
+    set({ stamina: Math.min(MAX_STAMINA, state.stamina + STAMINA_REGEN_RATE * deltaSeconds) })
+  },
+
+  // Terminer le round en cours (repos si d'autres rounds suivent, sinon fin du match)
   endRound: () => {
     const state = get()
-    const newBestScore = Math.max(state.bestScore, state.hitCount)
+    if (state.gameState !== 'FIGHTING') return
+
+    const { matchConfig } = state
+    const scoredRound = scoreCurrentRound(state)
+    const roundHistory = [...state.roundHistory, scoredRound]
+    useSessionHistoryStore.getState().recordRound(buildSessionRecord(state, scoredRound))
+    GameEvents.emit({ type: 'roundFinished', fightMode: state.fightMode, hits: scoredRound.hits })
 
-    // Sauvegarder si nouveau record
-    if (state.hitCount > state.bestScore) {
-      saveBestScore(state.hitCount)
+    // Rounds restants : passer au repos (les modes d'entraînement se jouent en un round)
+    if (!isTrainingMode(state.fightMode) && state.currentRound < matchConfig.totalRounds) {
+      set({
+        gameState: 'BETWEEN_ROUNDS',
+        timeRemaining: 0,
+        restTimeRemaining: matchConfig.restDuration,
+        roundHistory,
+        queuedPunch: null,
+        opponentHp: Math.min(100, state.opponentHp + REST_RECOVERY_HP),
+        playerHp: Math.min(100, state.playerHp + REST_RECOVERY_HP),
+      })
+      // Pas de repos configuré : enchaîner directement
+      if (matchConfig.restDuration <= 0) get().skipRest()
+      return
     }
 
+    // Dernier round : fin du match
+    if (state.fightMode === 'rhythm') useRhythmStore.getState().finish()
+    if (state.fightMode === 'target') useTargetDrillStore.getState().finish()
+
+    const scorecard = buildScorecard(roundHistory)
     set({
       gameState: 'FINISHED',
       timeRemaining: 0,
-      bestScore: newBestScore,
+      ...submitMatchScore(state),
+      roundHistory,
+      scorecard,
+    })
+    GameEvents.emit({ type: 'matchFinished', fightMode: state.fightMode, result: scorecard.result, hitCount: state.hitCount })
+  },
+
+  // Choisir un format de match prédéfini (seulement au lobby)
+  setMatchFormat: (format) => {
+    if (get().gameState !== 'LOBBY') return
+    const matchConfig = MATCH_FORMATS[format]
+    set({
+      matchFormat: format,
+      matchConfig,
+      timeRemaining: matchConfig.roundDuration,
     })
   },
 
+  // Choisir le mode de combat (seulement au lobby)
+  setFightMode: (mode) => {
+    if (get().gameState !== 'LOBBY') return
+    set({ fightMode: mode })
+  },
+
+  // Adversaire au tapis : compte de l'arbitre ou arrêt sur 3e knockdown du round
+  knockDown: () => {
+    const state = get()
+    if (state.gameState !== 'FIGHTING') return
+
+    const roundKnockdowns = state.roundKnockdowns + 1
+    const totalKnockdowns = state.totalKnockdowns + 1
+
+    set({
+      opponentHp: 0,
+      roundKnockdowns,
+      totalKnockdowns,
+      comboCount: 0,
+      comboMeter: 0,
+      queuedPunch: null,
+    })
+    GameEvents.emit({ type: 'knockdown', totalKnockdowns })
+
+    // Règle des trois knockdowns
+    if (roundKnockdowns >= MAX_KNOCKDOWNS_PER_ROUND) {
+      get().stopFight('TKO')
+      return
+    }
+
+    // Plus l'adversaire a été envoyé au tapis, plus il met de temps à se relever
+    const getUpCount = KNOCKDOWN_BASE_GET_UP + (totalKnockdowns - 1) * 2 + Math.floor(PhysicsClock.random() * 3)
+
+    set({
+      gameState: 'KNOCKDOWN',
+      knockdownCount: 0,
+      knockdownGetUpCount: getUpCount,
+    })
+
+    useFacialStore.getState().setPreset('stunned', 0.3)
+    useCartoonEffectsStore.getState().triggerEffect('starsSpin', 1)
+  },
+
+  // Compte de l'arbitre (appelé chaque seconde pendant KNOCKDOWN)
+  tickKnockdownCount: () => {
+    const state = get()
+    if (state.gameState !== 'KNOCKDOWN') return
+
+    const newCount = state.knockdownCount + 1
+
+    // Pas relevé à 10 : K.O.
+    if (newCount >= KNOCKDOWN_COUNT) {
+      set({ knockdownCount: KNOCKDOWN_COUNT })
+      get().stopFight('KO')
+      return
+    }
+
+    // L'adversaire se relève avec des HP réduits
+    if (newCount >= state.knockdownGetUpCount) {
+      const recoveredHp = Math.max(
+        KNOCKDOWN_MIN_RECOVERY_HP,
+        KNOCKDOWN_RECOVERY_HP - (state.totalKnockdowns - 1) * KNOCKDOWN_RECOVERY_DECAY
+      )
+      set({
+        gameState: 'FIGHTING',
+        knockdownCount: newCount,
+        opponentHp: recoveredHp,
+      })
+      useFacialStore.getState().setPreset('hurt', 0.1)
+      return
+    }
+
+    set({ knockdownCount: newCount })
+
+    // Garder les étoiles actives pendant tout le compte
+    useCartoonEffectsStore.getState().triggerEffect('starsSpin', 1)
+  },
+
+  // Arrêt du combat (K.O. ou TKO) : fin du match avant la limite
+  stopFight: (type, winner = 'player') => {
+    const state = get()
+    if (state.gameState !== 'FIGHTING' && state.gameState !== 'KNOCKDOWN') return
+
+    const scoredRound = scoreCurrentRound(state)
+    const roundHistory = [...state.roundHistory, scoredRound]
+    useSessionHistoryStore.getState().recordRound(buildSessionRecord(state, scoredRound))
+    const stoppage = {
+      type,
+      winner,
+      round: state.currentRound,
+      time: state.matchConfig.roundDuration - state.timeRemaining,
+    }
+
+    const scorecard = buildScorecard(roundHistory, stoppage)
+    set({
+      gameState: 'FINISHED',
+      ...submitMatchScore(state),
+      roundHistory,
+      scorecard,
+      queuedPunch: null,
+    })
+    GameEvents.emit({ type: 'roundFinished', fightMode: state.fightMode, hits: scoredRound.hits })
+    GameEvents.emit({ type: 'stoppage', stoppage: type, winner })
+    GameEvents.emit({ type: 'matchFinished', fightMode: state.fightMode, result: scorecard.result, hitCount: state.hitCount })
+
+    // Expression de l'adversaire selon l'issue
+    if (winner === 'player') {
+      useFacialStore.getState().setPreset('knockout', 0.2)
+      useCartoonEffectsStore.getState().triggerEffect('starsSpin', 1)
+    }
+  },
+
+  // Modifier le nombre de rounds du format courant (seulement au lobby)
+  setTotalRounds: (rounds) => {
+    const state = get()
+    if (state.gameState !== 'LOBBY') return
+    const totalRounds = Math.max(1, Math.min(MAX_ROUNDS, Math.round(rounds)))
+    set({ matchConfig: { ...state.matchConfig, totalRounds } })
+  },
+
   // Démarrer le combat (legacy - maintenant démarre le countdown)
   startFight: () => {
     get().startCountdown()
@@ -461,21 +1078,39 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
   // Reset complet du jeu
   resetGame: () => {
-    set({
+    set((state) => ({
       gameState: 'LOBBY',
       // Timer/score
-      timeRemaining: ROUND_DURATION,
+      timeRemaining: state.matchConfig.roundDuration,
       countdown: 3,
       hitCount: 0,
+      score: 0,
       lastHitTimestamp: 0,
+      // Match (on garde le format choisi)
+      currentRound: 1,
+      restTimeRemaining: 0,
+      ...EMPTY_ROUND_STATS,
+      roundHistory: [],
+      scorecard: null,
+      knockdownCount: 0,
+      knockdownGetUpCount: 0,
+      totalKnockdowns: 0,
       // Legacy
       playerHp: 100,
+      stamina: MAX_STAMINA,
+      lastPunchTimestamp: 0,
       comboMeter: 0,
       comboCount: 0,
       opponentHp: 100,
       lastHitTime: 0,
       // Note: on garde la texture et les settings
-    })
+    }))
+    useFacialStore.getState().reset()
+    useCartoonEffectsStore.getState().reset()
+    useOpponentAIStore.getState().reset()
+    useRhythmStore.getState().reset()
+    useTargetDrillStore.getState().reset()
+    useComboChainStore.getState().reset()
   },
 
   // Actions texture (fusionné depuis useTextureSettingsStore)
@@ -506,15 +1141,21 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
   // Action mode gants
   setGlovePhysicsMode: (mode) => set({ glovePhysicsMode: mode }),
+  setPhysicsBackend: (backend) => {
+    savePhysicsBackend(backend)
+    set({ physicsBackend: backend })
+  },
 
-  // Ajouter un punch à la queue (déclenché par boutons UI)
-  queuePunch: (type: PunchType, hand?: PunchHand) => {
+  // Ajouter un punch à la queue (boutons UI, clavier, manette, caméra)
+  queuePunch: (type: PunchType, hand?: PunchHand, source: InputMethod = 'touch', velocity: number = 1) => {
     // Alterner la main si non spécifiée
-    const currentHand = hand || (Math.random() > 0.5 ? 'left' : 'right')
+    const currentHand = hand || (PhysicsClock.random() > 0.5 ? 'left' : 'right')
     set({
       queuedPunch: {
         type,
         hand: currentHand,
+        source,
+        velocity,
         timestamp: Date.now(),
       },
     })
@@ -0,0 +1,62 @@
+import { create } from 'zustand'
+import type { HandTrackingRecording } from '../utils/HandTrackingReplay'
+
+/**
+ * Vitesses de lecture proposées
+ */
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2] as const
+
+/**
+ * Store de la relecture d'un enregistrement du hand tracking
+ * Le temps est avancé par useHandTrackingReplay, qui alimente useHandTrackingStore
+ */
+interface HandTrackingReplayStore {
+  recording: HandTrackingRecording | null
+  fileName: string | null
+  isPlaying: boolean
+  currentTime: number // ms depuis le premier échantillon
+  speed: number
+
+  // Actions
+  loadRecording: (recording: HandTrackingRecording, fileName: string) => void
+  play: () => void
+  pause: () => void
+  seek: (time: number) => void
+  setSpeed: (speed: number) => void
+  unload: () => void
+}
+
+export const useHandTrackingReplayStore = create<HandTrackingReplayStore>((set, get) => ({
+  recording: null,
+  fileName: null,
+  isPlaying: false,
+  currentTime: 0,
+  speed: 1,
+
+  // Charger un enregistrement (en pause au début)
+  loadRecording: (recording: HandTrackingRecording, fileName: string) =>
+    set({ recording, fileName, isPlaying: false, currentTime: 0 }),
+
+  // Lecture (reprend au début si la fin est atteinte)
+  play: () => {
+    const { recording, currentTime } = get()
+    if (!recording) return
+    set({ isPlaying: true, currentTime: currentTime >= recording.duration ? 0 : currentTime })
+  },
+
+  pause: () => set({ isPlaying: false }),
+
+  // Se placer à un instant (borné à la durée)
+  seek: (time: number) => {
+    const { recording } = get()
+    if (!recording) return
+    set({ currentTime: Math.max(0, Math.min(time, recording.duration)) })
+  },
+
+  setSpeed: (speed: number) => set({ speed: Math.max(0.1, speed) }),
+
+  // Fermer l'enregistrement (la caméra peut reprendre)
+  unload: () => set({ recording: null, fileName: null, isPlaying: false, currentTime: 0 }),
+}))
+
+export default useHandTrackingReplayStore
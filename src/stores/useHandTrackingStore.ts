@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import { DEFAULT_FILTER_SETTINGS, type LandmarkFilterSettings } from '../utils/LandmarkFilters'
 
 /**
  * État d'une main détectée par le tracking
@@ -19,6 +20,13 @@ export interface HandState {
  */
 export type CameraPermission = 'prompt' | 'granted' | 'denied'
 
+/**
+ * Thread d'exécution de MediaPipe
+ * - main : inférence dans le thread principal
+ * - worker : inférence dans un Web Worker (frames transférées en ImageBitmap)
+ */
+export type HandTrackingMode = 'main' | 'worker'
+
 /**
  * Position de calibration d'une main (coordonnées normalisées 0-1)
  */
@@ -27,6 +35,42 @@ export interface CalibrationPoint {
   y: number // Position Y normalisée (0 = haut, 1 = bas)
 }
 
+/**
+ * Clé localStorage des réglages de lissage
+ */
+const FILTER_SETTINGS_KEY = 'facepuncher_hand_filter'
+
+// Charger les réglages de lissage
+const loadFilterSettings = (): LandmarkFilterSettings => {
+  try {
+    const saved = localStorage.getItem(FILTER_SETTINGS_KEY)
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<LandmarkFilterSettings>
+      return {
+        type: parsed.type ?? DEFAULT_FILTER_SETTINGS.type,
+        oneEuro: { ...DEFAULT_FILTER_SETTINGS.oneEuro, ...parsed.oneEuro },
+        kalman: { ...DEFAULT_FILTER_SETTINGS.kalman, ...parsed.kalman },
+        world: {
+          oneEuro: { ...DEFAULT_FILTER_SETTINGS.world.oneEuro, ...parsed.world?.oneEuro },
+          kalman: { ...DEFAULT_FILTER_SETTINGS.world.kalman, ...parsed.world?.kalman },
+        },
+      }
+    }
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+  return DEFAULT_FILTER_SETTINGS
+}
+
+// Sauvegarder les réglages de lissage
+const saveFilterSettings = (settings: LandmarkFilterSettings): void => {
+  try {
+    localStorage.setItem(FILTER_SETTINGS_KEY, JSON.stringify(settings))
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+}
+
 /**
  * Interface du store de hand tracking
  */
@@ -37,11 +81,14 @@ interface HandTrackingStore {
 
   // Configuration utilisateur
   isCameraEnabled: boolean // Toggle ON/OFF par l'utilisateur
+  trackingMode: HandTrackingMode
+  filterSettings: LandmarkFilterSettings // Lissage des landmarks (réglé dans la calibration)
 
   // État du système
   cameraPermission: CameraPermission
   isTracking: boolean // Worker actif et détecte des mains
   isInitializing: boolean // Chargement du modèle MediaPipe
+  isReplaying: boolean // Mains alimentées par un enregistrement (voir useHandTrackingReplay)
 
   // Calibration
   isCalibrated: boolean // La calibration a été effectuée
@@ -54,12 +101,16 @@ interface HandTrackingStore {
   setLeftHand: (state: HandState | null) => void
   setRightHand: (state: HandState | null) => void
   setCameraEnabled: (enabled: boolean) => void
+  setTrackingMode: (mode: HandTrackingMode) => void
+  setFilterSettings: (settings: Partial<LandmarkFilterSettings>) => void
   setCameraPermission: (permission: CameraPermission) => void
   setIsTracking: (tracking: boolean) => void
   setIsInitializing: (initializing: boolean) => void
+  setIsReplaying: (replaying: boolean) => void
   // Calibration actions
   startCalibration: () => void
   calibrate: () => boolean // Capture les positions actuelles, retourne true si succès
+  setCalibration: (left: CalibrationPoint | null, right: CalibrationPoint | null) => void
   resetCalibration: () => void
   reset: () => void
 }
@@ -69,9 +120,12 @@ export const useHandTrackingStore = create<HandTrackingStore>((set, get) => ({
   leftHand: null,
   rightHand: null,
   isCameraEnabled: false,
+  trackingMode: 'main',
+  filterSettings: loadFilterSettings(),
   cameraPermission: 'prompt',
   isTracking: false,
   isInitializing: false,
+  isReplaying: false,
   // Calibration
   isCalibrated: false,
   isCalibrating: false,
@@ -94,6 +148,16 @@ export const useHandTrackingStore = create<HandTrackingStore>((set, get) => ({
   // Activer/désactiver la caméra
   setCameraEnabled: (enabled: boolean) => set({ isCameraEnabled: enabled }),
 
+  // Changer de thread (le tracking redémarre, voir useHandTracking)
+  setTrackingMode: (mode: HandTrackingMode) => set({ trackingMode: mode }),
+
+  // Modifier le lissage (persisté)
+  setFilterSettings: (settings: Partial<LandmarkFilterSettings>) => {
+    const filterSettings = { ...get().filterSettings, ...settings }
+    saveFilterSettings(filterSettings)
+    set({ filterSettings })
+  },
+
   // Mettre à jour la permission caméra
   setCameraPermission: (permission: CameraPermission) =>
     set({ cameraPermission: permission }),
@@ -105,6 +169,9 @@ export const useHandTrackingStore = create<HandTrackingStore>((set, get) => ({
   setIsInitializing: (initializing: boolean) =>
     set({ isInitializing: initializing }),
 
+  // Relecture d'un enregistrement à la place de la caméra
+  setIsReplaying: (replaying: boolean) => set({ isReplaying: replaying }),
+
   // Démarrer le mode calibration
   startCalibration: () => set({ isCalibrating: true }),
 
@@ -141,6 +208,15 @@ export const useHandTrackingStore = create<HandTrackingStore>((set, get) => ({
     return true
   },
 
+  // Positions de repos connues (calibration guidée, voir useCalibrationStore)
+  setCalibration: (left: CalibrationPoint | null, right: CalibrationPoint | null) =>
+    set({
+      leftCalibration: left,
+      rightCalibration: right,
+      isCalibrated: !!left || !!right,
+      isCalibrating: false,
+    }),
+
   // Réinitialiser la calibration
   resetCalibration: () =>
     set({
@@ -158,6 +234,7 @@ export const useHandTrackingStore = create<HandTrackingStore>((set, get) => ({
       isCameraEnabled: false,
       isTracking: false,
       isInitializing: false,
+      isReplaying: false,
       isCalibrated: false,
       isCalibrating: false,
       leftCalibration: null,
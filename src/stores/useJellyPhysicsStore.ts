@@ -9,7 +9,14 @@ import {
   createParticle,
   createDistanceConstraint,
   XPBDConfig,
+  canUseSharedMemory,
 } from '../physics'
+import { PhysicsClock } from '../systems/PhysicsClock'
+
+/**
+ * Thread de simulation : worker = pas XPBD hors du thread principal (voir useXPBDWorker)
+ */
+export type XPBDSolverMode = 'main' | 'worker'
 
 /**
  * État d'une partie du corps pour la physique
@@ -37,6 +44,9 @@ interface JellyPhysicsStore {
   // État de simulation
   isSimulating: boolean
 
+  // Thread de simulation (worker par défaut si la mémoire partagée est disponible)
+  solverMode: XPBDSolverMode
+
   // Actions
   initBodyPart: (
     partId: string,
@@ -64,6 +74,8 @@ interface JellyPhysicsStore {
 
   setSimulating: (value: boolean) => void
 
+  setSolverMode: (mode: XPBDSolverMode) => void
+
   setConfig: (config: Partial<XPBDConfig>) => void
 
   reset: () => void
@@ -78,6 +90,7 @@ export const useJellyPhysicsStore = create<JellyPhysicsStore>((set, get) => ({
   bodyParts: new Map(),
   nextParticleId: 0,
   isSimulating: true,
+  solverMode: canUseSharedMemory() ? 'worker' : 'main',
 
   /**
    * Initialiser une partie du corps avec ses vertices
@@ -156,15 +169,17 @@ export const useJellyPhysicsStore = create<JellyPhysicsStore>((set, get) => ({
   },
 
   /**
-   * Supprimer une partie du corps
+   * Supprimer une partie du corps (particules et contraintes comprises)
    */
   removeBodyPart: (partId) => {
-    const { bodyParts } = get()
+    const { solver, bodyParts } = get()
+    const part = bodyParts.get(partId)
+    if (!part) return
+
+    solver.removeParticles(part.particleIds)
     const newBodyParts = new Map(bodyParts)
     newBodyParts.delete(partId)
     set({ bodyParts: newBodyParts })
-    // Note: On ne supprime pas les particules du solveur pour simplifier
-    // (elles seront ignorées si la partie n'est plus référencée)
   },
 
   /**
@@ -185,7 +200,7 @@ export const useJellyPhysicsStore = create<JellyPhysicsStore>((set, get) => ({
   },
 
   /**
-   * Avancer la simulation d'un pas de temps
+   * Avancer la simulation d'un pas de temps (pas fixe de PhysicsClock)
    */
   step: (deltaTime) => {
     const { solver, isSimulating } = get()
@@ -198,27 +213,19 @@ export const useJellyPhysicsStore = create<JellyPhysicsStore>((set, get) => ({
 
   /**
    * Obtenir les déplacements pour une partie du corps
-   * Retourne un Float32Array des déplacements (x,y,z) par vertex
+   * Retourne les déplacements (x,y,z) par vertex, interpolés entre les deux
+   * derniers pas (PhysicsClock.alpha) : vue sur le buffer du solveur, sans copie,
+   * à lire dans la frame (réécrite au prochain appel)
    */
   getDisplacements: (partId) => {
     const { solver, bodyParts } = get()
     const part = bodyParts.get(partId)
+    const firstId = part?.particleIds[0]
 
-    if (!part) return null
-
-    const displacements = new Float32Array(part.particleIds.length * 3)
+    if (!part || firstId === undefined) return null
 
-    part.particleIds.forEach((id, index) => {
-      const particle = solver.getParticle(id)
-      if (particle) {
-        const i = index * 3
-        displacements[i] = particle.position.x - particle.restPosition.x
-        displacements[i + 1] = particle.position.y - particle.restPosition.y
-        displacements[i + 2] = particle.position.z - particle.restPosition.z
-      }
-    })
-
-    return displacements
+    // Particules d'une partie ajoutées ensemble : plage contiguë dans le solveur
+    return solver.getDisplacements(firstId, part.particleIds.length, PhysicsClock.alpha)
   },
 
   /**
@@ -228,6 +235,17 @@ export const useJellyPhysicsStore = create<JellyPhysicsStore>((set, get) => ({
     set({ isSimulating: value })
   },
 
+  /**
+   * Choisir le thread de simulation (appliqué par useXPBDWorker)
+   */
+  setSolverMode: (mode) => {
+    if (mode === 'worker' && !canUseSharedMemory()) {
+      console.warn('[JellyPhysics] SharedArrayBuffer unavailable (page not cross-origin isolated), staying on main thread')
+      return
+    }
+    set({ solverMode: mode })
+  },
+
   /**
    * Modifier la configuration du solveur
    */
@@ -0,0 +1,154 @@
+import { create } from 'zustand'
+
+/**
+ * Actions disponibles au clavier
+ */
+export type KeyAction =
+  | 'leftJab' | 'leftHook' | 'leftUppercut'
+  | 'rightJab' | 'rightHook' | 'rightUppercut'
+  | 'block' | 'dodgeLeft' | 'dodgeRight'
+
+/**
+ * Touche associée à chaque action (KeyboardEvent.code : position physique,
+ * indépendante de la disposition AZERTY / QWERTY)
+ */
+export type KeyBindings = Record<KeyAction, string>
+
+/**
+ * Touches par défaut : index sur F / J, crochets à l'extérieur, uppercuts en dessous
+ */
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  leftJab: 'KeyF',
+  leftHook: 'KeyD',
+  leftUppercut: 'KeyC',
+  rightJab: 'KeyJ',
+  rightHook: 'KeyK',
+  rightUppercut: 'KeyN',
+  block: 'Space',
+  dodgeLeft: 'ArrowLeft',
+  dodgeRight: 'ArrowRight',
+}
+
+/**
+ * Noms affichés des actions (ordre du panneau de réglages)
+ */
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+  leftJab: 'Jab gauche',
+  leftHook: 'Crochet gauche',
+  leftUppercut: 'Uppercut gauche',
+  rightJab: 'Jab droit',
+  rightHook: 'Crochet droit',
+  rightUppercut: 'Uppercut droit',
+  block: 'Garde',
+  dodgeLeft: 'Esquive gauche',
+  dodgeRight: 'Esquive droite',
+}
+
+const KEY_ACTIONS = Object.keys(DEFAULT_KEY_BINDINGS) as KeyAction[]
+
+/**
+ * Libellé court d'une touche ("KeyA" → "A", "ArrowLeft" → "←")
+ */
+export function formatKeyCode(code: string): string {
+  if (code.startsWith('Key')) return code.slice(3)
+  if (code.startsWith('Digit')) return code.slice(5)
+  if (code.startsWith('Numpad')) return `Pavé ${code.slice(6)}`
+
+  const labels: Record<string, string> = {
+    Space: 'Espace',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ShiftLeft: 'Maj G',
+    ShiftRight: 'Maj D',
+    ControlLeft: 'Ctrl G',
+    ControlRight: 'Ctrl D',
+    AltLeft: 'Alt',
+    Enter: 'Entrée',
+    Backspace: 'Retour',
+    Tab: 'Tab',
+  }
+  return labels[code] ?? code
+}
+
+/**
+ * Clé localStorage des touches
+ */
+const KEY_BINDINGS_KEY = 'facepuncher_key_bindings'
+
+// Charger les touches (les actions absentes gardent leur touche par défaut)
+const loadBindings = (): KeyBindings => {
+  try {
+    const saved = localStorage.getItem(KEY_BINDINGS_KEY)
+    const parsed: unknown = saved ? JSON.parse(saved) : null
+    if (parsed && typeof parsed === 'object') {
+      const bindings = { ...DEFAULT_KEY_BINDINGS }
+      for (const action of KEY_ACTIONS) {
+        const code = (parsed as Partial<Record<KeyAction, unknown>>)[action]
+        if (typeof code === 'string' && code.length > 0) bindings[action] = code
+      }
+      return bindings
+    }
+  } catch {
+    // Ignorer les erreurs localStorage / JSON
+  }
+  return { ...DEFAULT_KEY_BINDINGS }
+}
+
+// Sauvegarder les touches
+const saveBindings = (bindings: KeyBindings): void => {
+  try {
+    localStorage.setItem(KEY_BINDINGS_KEY, JSON.stringify(bindings))
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+}
+
+/**
+ * Store des touches du clavier (voir useKeyboardInput)
+ */
+interface KeyBindingsStore {
+  bindings: KeyBindings
+  rebindingAction: KeyAction | null // Action en attente d'une nouvelle touche
+
+  // Actions
+  setBinding: (action: KeyAction, code: string) => void
+  startRebinding: (action: KeyAction) => void
+  cancelRebinding: () => void
+  resetBindings: () => void
+  getActionForKey: (code: string) => KeyAction | null
+}
+
+export const useKeyBindingsStore = create<KeyBindingsStore>((set, get) => ({
+  bindings: loadBindings(),
+  rebindingAction: null,
+
+  // Associer une touche (échange avec l'action qui l'utilisait déjà)
+  setBinding: (action, code) => {
+    const { bindings } = get()
+    const previousAction = KEY_ACTIONS.find((candidate) => bindings[candidate] === code)
+    const newBindings = { ...bindings, [action]: code }
+    if (previousAction && previousAction !== action) {
+      newBindings[previousAction] = bindings[action]
+    }
+    saveBindings(newBindings)
+    set({ bindings: newBindings, rebindingAction: null })
+  },
+
+  startRebinding: (action) => set({ rebindingAction: action }),
+
+  cancelRebinding: () => set({ rebindingAction: null }),
+
+  resetBindings: () => {
+    saveBindings(DEFAULT_KEY_BINDINGS)
+    set({ bindings: { ...DEFAULT_KEY_BINDINGS }, rebindingAction: null })
+  },
+
+  getActionForKey: (code) => {
+    const { bindings } = get()
+    return KEY_ACTIONS.find((action) => bindings[action] === code) ?? null
+  },
+}))
+
+export default useKeyBindingsStore
@@ -0,0 +1,153 @@
+import { create } from 'zustand'
+import type { FightMode, OpponentType } from './useGameStore'
+
+/**
+ * Score enregistré au classement local
+ */
+export interface LeaderboardEntry {
+  id: string
+  profileId: string | null // null = invité
+  playerName: string       // Nom au moment du score (reste affiché si le profil est supprimé)
+  fightMode: FightMode
+  opponent: OpponentType
+  score: number
+  date: number
+}
+
+/**
+ * Score à soumettre (fin de match)
+ */
+export type LeaderboardSubmission = Omit<LeaderboardEntry, 'id' | 'date'>
+
+// Nombre de scores affichés par classement (mode + adversaire)
+const MAX_ENTRIES_PER_BOARD = 20
+
+/**
+ * Clé localStorage du classement
+ */
+const LEADERBOARD_KEY = 'facepuncher_leaderboard'
+
+/**
+ * Ancien meilleur score unique (avant les profils), migré au premier lancement
+ */
+const LEGACY_BEST_SCORE_KEY = 'facepuncher_best_score'
+const LEGACY_PLAYER_NAME = 'Ancien record'
+
+const isSameBoard = (entry: LeaderboardEntry, fightMode: FightMode, opponent: OpponentType): boolean =>
+  entry.fightMode === fightMode && entry.opponent === opponent
+
+// Du meilleur au moins bon (à égalité, le plus ancien d'abord)
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry): number => b.score - a.score || a.date - b.date
+
+/**
+ * Scores d'un classement (mode + adversaire), du meilleur au moins bon
+ */
+export function getLeaderboard(entries: LeaderboardEntry[], fightMode: FightMode, opponent: OpponentType): LeaderboardEntry[] {
+  return entries.filter((entry) => isSameBoard(entry, fightMode, opponent)).sort(compareEntries)
+}
+
+/**
+ * Scores conservés d'un classement trié : les MAX_ENTRIES_PER_BOARD meilleurs,
+ * plus le record de chaque joueur (profil ou invité) qui n'y figure pas
+ */
+const trimBoard = (board: LeaderboardEntry[]): LeaderboardEntry[] => {
+  const seenProfiles = new Set<string | null>()
+  return board.filter((entry, index) => {
+    const isPersonalBest = !seenProfiles.has(entry.profileId)
+    seenProfiles.add(entry.profileId)
+    return index < MAX_ENTRIES_PER_BOARD || isPersonalBest
+  })
+}
+
+// Sauvegarder le classement
+const saveEntries = (entries: LeaderboardEntry[]): void => {
+  try {
+    localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(entries))
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+}
+
+// Charger le classement (et migrer l'ancien meilleur score)
+const loadEntries = (): LeaderboardEntry[] => {
+  let entries: LeaderboardEntry[] = []
+  try {
+    const saved = localStorage.getItem(LEADERBOARD_KEY)
+    const parsed: unknown = saved ? JSON.parse(saved) : null
+    if (Array.isArray(parsed)) {
+      entries = parsed.filter(
+        (entry): entry is LeaderboardEntry => !!entry && typeof entry.id === 'string' && typeof entry.score === 'number'
+      )
+    }
+
+    const legacy = localStorage.getItem(LEGACY_BEST_SCORE_KEY)
+    if (legacy !== null) {
+      const score = parseInt(legacy, 10)
+      // L'ancien record était celui du mode chrono sur l'adversaire par défaut
+      if (score > 0) {
+        entries.push({
+          id: `legacy-${Date.now()}`,
+          profileId: null,
+          playerName: LEGACY_PLAYER_NAME,
+          fightMode: 'timer',
+          opponent: 'sphere',
+          score,
+          date: Date.now(),
+        })
+        saveEntries(entries)
+      }
+      localStorage.removeItem(LEGACY_BEST_SCORE_KEY)
+    }
+  } catch {
+    // Ignorer les erreurs localStorage / JSON
+  }
+  return entries
+}
+
+/**
+ * Store du classement local par mode et par adversaire (persisté dans localStorage)
+ */
+interface LeaderboardStore {
+  entries: LeaderboardEntry[]
+
+  // Actions
+  submitScore: (submission: LeaderboardSubmission) => LeaderboardEntry | null
+  getBoard: (fightMode: FightMode, opponent: OpponentType) => LeaderboardEntry[]
+  getPersonalBest: (profileId: string | null, fightMode: FightMode, opponent: OpponentType) => number
+}
+
+export const useLeaderboardStore = create<LeaderboardStore>((set, get) => ({
+  entries: loadEntries(),
+
+  // Ajouter un score (null si nul ou hors du classement)
+  submitScore: (submission) => {
+    if (submission.score <= 0) return null
+
+    const entry: LeaderboardEntry = {
+      ...submission,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      date: Date.now(),
+    }
+
+    // Ne garder que les meilleurs scores de ce classement (et les records personnels)
+    const { entries } = get()
+    const sorted = [...entries.filter((e) => isSameBoard(e, entry.fightMode, entry.opponent)), entry].sort(compareEntries)
+    const board = trimBoard(sorted)
+    const others = entries.filter((e) => !isSameBoard(e, entry.fightMode, entry.opponent))
+
+    const newEntries = [...others, ...board]
+    set({ entries: newEntries })
+    saveEntries(newEntries)
+
+    return sorted.indexOf(entry) < MAX_ENTRIES_PER_BOARD ? entry : null
+  },
+
+  getBoard: (fightMode, opponent) => getLeaderboard(get().entries, fightMode, opponent),
+
+  getPersonalBest: (profileId, fightMode, opponent) =>
+    get().entries
+      .filter((entry) => entry.profileId === profileId && isSameBoard(entry, fightMode, opponent))
+      .reduce((best, entry) => Math.max(best, entry.score), 0),
+}))
+
+export default useLeaderboardStore
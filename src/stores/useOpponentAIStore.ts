@@ -0,0 +1,282 @@
+import { create } from 'zustand'
+import type { PunchType, PunchHand } from './useGameStore'
+import { PhysicsClock } from '../systems/PhysicsClock'
+
+/**
+ * Phase de l'attaque de l'adversaire
+ * - idle: attend avant la prochaine attaque
+ * - telegraph: arme son coup (fenêtre de défense du joueur)
+ * - strike: le coup part vers la caméra, résolu au début de la phase
+ * - recover: récupération après le coup
+ */
+export type AttackPhase = 'idle' | 'telegraph' | 'strike' | 'recover'
+
+/**
+ * Défense du joueur
+ */
+export type DefenseAction = 'none' | 'block' | 'dodgeLeft' | 'dodgeRight'
+
+/**
+ * Résultat d'un coup de l'adversaire
+ */
+export type AttackOutcome = 'hit' | 'blocked' | 'dodged'
+
+/**
+ * Coup en cours de l'adversaire
+ */
+export interface OpponentAttack {
+  type: PunchType
+  hand: PunchHand
+  damage: number
+}
+
+/**
+ * Dernier coup résolu (consommé par le HUD et ImpactOverlay)
+ */
+export interface ResolvedAttack {
+  attack: OpponentAttack
+  outcome: AttackOutcome
+  damage: number      // Dégâts réellement subis
+  timestamp: number
+}
+
+/**
+ * Paramètres d'un type de coup de l'adversaire
+ */
+interface AttackProfile {
+  telegraphMs: number // Durée de l'armé (fenêtre de réaction)
+  damage: number      // Dégâts sur playerHp si le coup passe
+  guardBreak: number  // Part des dégâts qui traverse la garde (0 = bloqué net)
+}
+
+/**
+ * Profils des coups : plus le coup est lourd, plus il est télégraphié
+ * L'uppercut passe sous la garde : il faut l'esquiver
+ */
+export const ATTACK_PROFILES: Record<PunchType, AttackProfile> = {
+  jab: { telegraphMs: 600, damage: 6, guardBreak: 0 },
+  hook: { telegraphMs: 800, damage: 10, guardBreak: 0 },
+  uppercut: { telegraphMs: 900, damage: 14, guardBreak: 0.5 },
+}
+
+// Délai entre deux attaques (ms)
+const ATTACK_INTERVAL_MIN = 2000
+const ATTACK_INTERVAL_MAX = 4500
+
+// Durée des phases strike/recover (ms)
+const STRIKE_DURATION = 200
+const RECOVER_DURATION = 600
+
+// Durée d'une esquive et délai avant la suivante (ms)
+const DODGE_DURATION = 400
+const DODGE_COOLDOWN = 800
+
+// Répartition des coups (jab plus fréquent)
+const ATTACK_WEIGHTS: [PunchType, number][] = [
+  ['jab', 0.5],
+  ['hook', 0.3],
+  ['uppercut', 0.2],
+]
+
+/**
+ * Tire un délai aléatoire avant la prochaine attaque
+ */
+const randomInterval = (): number =>
+  ATTACK_INTERVAL_MIN + PhysicsClock.random() * (ATTACK_INTERVAL_MAX - ATTACK_INTERVAL_MIN)
+
+/**
+ * Choisit le prochain coup de l'adversaire
+ */
+const pickAttack = (): OpponentAttack => {
+  let roll = PhysicsClock.random()
+  let type: PunchType = 'jab'
+  for (const [candidate, weight] of ATTACK_WEIGHTS) {
+    if (roll < weight) {
+      type = candidate
+      break
+    }
+    roll -= weight
+  }
+  return {
+    type,
+    hand: PhysicsClock.random() > 0.5 ? 'left' : 'right',
+    damage: ATTACK_PROFILES[type].damage,
+  }
+}
+
+/**
+ * Store de l'IA adverse (contre-attaques) et de la défense du joueur
+ * La machine à états est avancée par tick() (voir useOpponentAI)
+ */
+interface OpponentAIStore {
+  // Riposte activée (choisie au lobby)
+  isEnabled: boolean
+
+  // Machine à états de l'attaque
+  phase: AttackPhase
+  phaseTimeRemaining: number // ms
+  currentAttack: OpponentAttack | null
+
+  // Défense du joueur
+  isBlocking: boolean
+  dodge: 'left' | 'right' | null
+  dodgeTimeRemaining: number  // ms
+  dodgeCooldown: number       // ms
+
+  // Dernier coup résolu
+  lastResolved: ResolvedAttack | null
+
+  // Actions
+  setEnabled: (enabled: boolean) => void
+  setBlocking: (blocking: boolean) => void
+  startDodge: (direction: 'left' | 'right') => void
+  getDefense: () => DefenseAction
+  tick: (deltaMs: number) => ResolvedAttack | null
+  reset: () => void
+}
+
+export const useOpponentAIStore = create<OpponentAIStore>((set, get) => ({
+  isEnabled: false,
+
+  phase: 'idle',
+  phaseTimeRemaining: randomInterval(),
+  currentAttack: null,
+
+  isBlocking: false,
+  dodge: null,
+  dodgeTimeRemaining: 0,
+  dodgeCooldown: 0,
+
+  lastResolved: null,
+
+  // Activer/désactiver la riposte
+  setEnabled: (enabled) => set({ isEnabled: enabled }),
+
+  // Lever/baisser la garde
+  setBlocking: (blocking) => {
+    if (get().isBlocking !== blocking) set({ isBlocking: blocking })
+  },
+
+  // Esquiver (rotation du buste), ignoré pendant le cooldown
+  startDodge: (direction) => {
+    const state = get()
+    if (state.dodge || state.dodgeCooldown > 0) return
+    set({
+      dodge: direction,
+      dodgeTimeRemaining: DODGE_DURATION,
+      dodgeCooldown: DODGE_DURATION + DODGE_COOLDOWN,
+    })
+  },
+
+  // Défense active (l'esquive prime sur la garde)
+  getDefense: () => {
+    const { dodge, isBlocking } = get()
+    if (dodge === 'left') return 'dodgeLeft'
+    if (dodge === 'right') return 'dodgeRight'
+    return isBlocking ? 'block' : 'none'
+  },
+
+  // Avancer la machine à états, retourne le coup résolu s'il y en a un
+  tick: (deltaMs) => {
+    const state = get()
+
+    // Timers de l'esquive
+    const dodgeTimeRemaining = Math.max(0, state.dodgeTimeRemaining - deltaMs)
+    const dodgeCooldown = Math.max(0, state.dodgeCooldown - deltaMs)
+    const dodge = dodgeTimeRemaining > 0 ? state.dodge : null
+
+    const phaseTimeRemaining = state.phaseTimeRemaining - deltaMs
+    if (phaseTimeRemaining > 0) {
+      set({ phaseTimeRemaining, dodge, dodgeTimeRemaining, dodgeCooldown })
+      return null
+    }
+
+    switch (state.phase) {
+      case 'idle': {
+        const attack = pickAttack()
+        set({
+          phase: 'telegraph',
+          phaseTimeRemaining: ATTACK_PROFILES[attack.type].telegraphMs,
+          currentAttack: attack,
+          dodge,
+          dodgeTimeRemaining,
+          dodgeCooldown,
+        })
+        return null
+      }
+
+      case 'telegraph': {
+        const attack = state.currentAttack
+        if (!attack) {
+          set({ phase: 'idle', phaseTimeRemaining: randomInterval() })
+          return null
+        }
+
+        // Résolution du coup à l'instant où il part
+        const { guardBreak } = ATTACK_PROFILES[attack.type]
+        let outcome: AttackOutcome = 'hit'
+        let damage = attack.damage
+        if (dodge) {
+          outcome = 'dodged'
+          damage = 0
+        } else if (state.isBlocking) {
+          // Garde levée : bloqué, sauf si le coup traverse la garde
+          outcome = guardBreak > 0 ? 'hit' : 'blocked'
+          damage = attack.damage * guardBreak
+        }
+
+        const resolved: ResolvedAttack = {
+          attack,
+          outcome,
+          damage,
+          timestamp: Date.now(),
+        }
+
+        set({
+          phase: 'strike',
+          phaseTimeRemaining: STRIKE_DURATION,
+          lastResolved: resolved,
+          dodge,
+          dodgeTimeRemaining,
+          dodgeCooldown,
+        })
+        return resolved
+      }
+
+      case 'strike':
+        set({
+          phase: 'recover',
+          phaseTimeRemaining: RECOVER_DURATION,
+          dodge,
+          dodgeTimeRemaining,
+          dodgeCooldown,
+        })
+        return null
+
+      case 'recover':
+        set({
+          phase: 'idle',
+          phaseTimeRemaining: randomInterval(),
+          currentAttack: null,
+          dodge,
+          dodgeTimeRemaining,
+          dodgeCooldown,
+        })
+        return null
+    }
+  },
+
+  // Reset de la machine à états (début de round, pause...)
+  reset: () => set({
+    phase: 'idle',
+    phaseTimeRemaining: randomInterval(),
+    currentAttack: null,
+    isBlocking: false,
+    dodge: null,
+    dodgeTimeRemaining: 0,
+    dodgeCooldown: 0,
+    lastResolved: null,
+  }),
+}))
+
+export default useOpponentAIStore
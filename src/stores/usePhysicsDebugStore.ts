@@ -0,0 +1,60 @@
+import { create } from 'zustand'
+import { PhysicsClock } from '../systems/PhysicsClock'
+
+/**
+ * Couches du rendu de debug physique
+ * (voir PhysicsSceneManager.debugDraw et XPBDSolver.debugDraw)
+ */
+export type PhysicsDebugLayer = 'shapes' | 'softBodies' | 'constraints' | 'contacts' | 'xpbd'
+
+export type PhysicsDebugLayers = Record<PhysicsDebugLayer, boolean>
+
+/**
+ * Libellés des couches (panneau d'inspection)
+ */
+export const PHYSICS_DEBUG_LAYER_LABELS: Record<PhysicsDebugLayer, string> = {
+  shapes: 'Formes',
+  softBodies: 'Soft bodies',
+  constraints: 'Ressorts / joints',
+  contacts: 'Contacts',
+  xpbd: 'XPBD (déformation)',
+}
+
+/**
+ * Store du rendu de debug physique (dev)
+ */
+interface PhysicsDebugStore {
+  enabled: boolean
+  layers: PhysicsDebugLayers
+  deterministic: boolean // Mode déterministe de PhysicsClock (pas XPBD sur le thread principal)
+
+  // Actions
+  setEnabled: (enabled: boolean) => void
+  toggle: () => void
+  setLayer: (layer: PhysicsDebugLayer, visible: boolean) => void
+  setDeterministic: (enabled: boolean) => void
+}
+
+export const usePhysicsDebugStore = create<PhysicsDebugStore>((set) => ({
+  enabled: false,
+  layers: {
+    shapes: true,
+    softBodies: true,
+    constraints: true,
+    contacts: true,
+    xpbd: true,
+  },
+  deterministic: PhysicsClock.isDeterministic,
+
+  setEnabled: (enabled: boolean) => set({ enabled }),
+
+  toggle: () => set((state) => ({ enabled: !state.enabled })),
+
+  setLayer: (layer: PhysicsDebugLayer, visible: boolean) =>
+    set((state) => ({ layers: { ...state.layers, [layer]: visible } })),
+
+  setDeterministic: (enabled: boolean) => {
+    PhysicsClock.setDeterministic(enabled)
+    set({ deterministic: enabled })
+  },
+}))
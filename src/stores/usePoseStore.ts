@@ -0,0 +1,83 @@
+import { create } from 'zustand'
+import type { PoseBaseline, PoseMetrics } from '../utils/PoseAnalysis'
+
+/**
+ * Clé localStorage du suivi du corps
+ */
+const POSE_ENABLED_KEY = 'facepuncher_pose_tracking'
+
+// Charger le réglage
+const loadPoseEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(POSE_ENABLED_KEY) === 'true'
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+  return false
+}
+
+// Sauvegarder le réglage
+const savePoseEnabled = (enabled: boolean): void => {
+  try {
+    localStorage.setItem(POSE_ENABLED_KEY, String(enabled))
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+}
+
+/**
+ * Store du suivi du corps (MediaPipe Pose, en complément du hand tracking)
+ * Alimenté par usePoseTracking, lu par useUnifiedInput
+ */
+interface PoseStore {
+  // Configuration utilisateur (nécessite la caméra)
+  isPoseEnabled: boolean
+
+  // État du système
+  isTracking: boolean
+  isInitializing: boolean
+
+  // Mesures du buste (null = corps non détecté)
+  metrics: PoseMetrics | null
+  baseline: PoseBaseline | null
+
+  // Actions
+  setPoseEnabled: (enabled: boolean) => void
+  setIsTracking: (tracking: boolean) => void
+  setIsInitializing: (initializing: boolean) => void
+  setMetrics: (metrics: PoseMetrics | null) => void
+  setBaseline: (baseline: PoseBaseline | null) => void
+  reset: () => void
+}
+
+export const usePoseStore = create<PoseStore>((set) => ({
+  isPoseEnabled: loadPoseEnabled(),
+  isTracking: false,
+  isInitializing: false,
+  metrics: null,
+  baseline: null,
+
+  // Activer/désactiver le suivi du corps (persisté)
+  setPoseEnabled: (enabled: boolean) => {
+    savePoseEnabled(enabled)
+    set({ isPoseEnabled: enabled })
+  },
+
+  setIsTracking: (tracking: boolean) => set({ isTracking: tracking }),
+  setIsInitializing: (initializing: boolean) => set({ isInitializing: initializing }),
+  setMetrics: (metrics: PoseMetrics | null) => set({ metrics }),
+
+  // Position neutre (null = recapturée à la prochaine frame)
+  setBaseline: (baseline: PoseBaseline | null) => set({ baseline }),
+
+  // Reset de l'état de tracking (le réglage est conservé)
+  reset: () =>
+    set({
+      isTracking: false,
+      isInitializing: false,
+      metrics: null,
+      baseline: null,
+    }),
+}))
+
+export default usePoseStore
@@ -0,0 +1,155 @@
+import { create } from 'zustand'
+import { useHandTrackingStore } from './useHandTrackingStore'
+
+/**
+ * Méthode d'entrée préférée du joueur (appliquée à la sélection du profil)
+ */
+export type PreferredInput = 'touch' | 'camera'
+
+/**
+ * Main forte du joueur (gaucher = garde inversée)
+ */
+export type Handedness = 'right' | 'left'
+
+/**
+ * Profil d'un joueur (machine partagée)
+ */
+export interface PlayerProfile {
+  id: string
+  name: string
+  avatar: string | null // Photo recadrée (data URL, persistée avec le profil)
+  preferredInput: PreferredInput
+  handedness: Handedness
+  createdAt: number
+}
+
+/**
+ * Champs modifiables d'un profil
+ */
+export type ProfileDraft = Pick<PlayerProfile, 'name' | 'avatar' | 'preferredInput' | 'handedness'>
+
+/**
+ * Nom affiché quand aucun profil n'est sélectionné
+ */
+export const GUEST_NAME = 'Invité'
+
+// Longueur maximum d'un nom de joueur
+const MAX_NAME_LENGTH = 20
+
+/**
+ * Clé localStorage des profils
+ */
+const PROFILES_KEY = 'facepuncher_profiles'
+
+interface SavedProfiles {
+  profiles: PlayerProfile[]
+  activeProfileId: string | null
+}
+
+// Charger les profils
+const loadProfiles = (): SavedProfiles => {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY)
+    const parsed = saved ? (JSON.parse(saved) as Partial<SavedProfiles>) : null
+    if (parsed && Array.isArray(parsed.profiles)) {
+      const profiles = parsed.profiles.filter(
+        (profile): profile is PlayerProfile => !!profile && typeof profile.id === 'string' && typeof profile.name === 'string'
+      )
+      const activeProfileId = profiles.some((profile) => profile.id === parsed.activeProfileId)
+        ? (parsed.activeProfileId ?? null)
+        : null
+      return { profiles, activeProfileId }
+    }
+  } catch {
+    // Ignorer les erreurs localStorage / JSON
+  }
+  return { profiles: [], activeProfileId: null }
+}
+
+// Sauvegarder les profils
+const saveProfiles = (data: SavedProfiles): void => {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(data))
+  } catch {
+    // Ignorer les erreurs localStorage (quota dépassé avec de gros avatars...)
+  }
+}
+
+// Nom nettoyé (jamais vide)
+const sanitizeName = (name: string): string => name.trim().slice(0, MAX_NAME_LENGTH) || GUEST_NAME
+
+/**
+ * Store des profils joueurs (persisté dans localStorage)
+ */
+interface ProfileStore {
+  profiles: PlayerProfile[]
+  activeProfileId: string | null
+
+  // Actions
+  createProfile: (draft: ProfileDraft) => string
+  updateProfile: (id: string, patch: Partial<ProfileDraft>) => void
+  deleteProfile: (id: string) => void
+  selectProfile: (id: string | null) => void
+  getActiveProfile: () => PlayerProfile | null
+}
+
+export const useProfileStore = create<ProfileStore>((set, get) => {
+  // Appliquer et persister
+  const commit = (update: Partial<SavedProfiles>) => {
+    set(update)
+    const { profiles, activeProfileId } = get()
+    saveProfiles({ profiles, activeProfileId })
+  }
+
+  return {
+    ...loadProfiles(),
+
+    // Créer un profil et le sélectionner
+    createProfile: (draft) => {
+      const profile: PlayerProfile = {
+        ...draft,
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: sanitizeName(draft.name),
+        createdAt: Date.now(),
+      }
+      commit({ profiles: [...get().profiles, profile] })
+      get().selectProfile(profile.id)
+      return profile.id
+    },
+
+    updateProfile: (id, patch) => {
+      commit({
+        profiles: get().profiles.map((profile) =>
+          profile.id === id
+            ? { ...profile, ...patch, name: patch.name !== undefined ? sanitizeName(patch.name) : profile.name }
+            : profile
+        ),
+      })
+    },
+
+    // Supprimer un profil (ses scores restent au classement sous son nom)
+    deleteProfile: (id) => {
+      const { profiles, activeProfileId } = get()
+      commit({
+        profiles: profiles.filter((profile) => profile.id !== id),
+        activeProfileId: activeProfileId === id ? null : activeProfileId,
+      })
+    },
+
+    // Changer de joueur : applique sa méthode d'entrée préférée
+    selectProfile: (id) => {
+      const profile = get().profiles.find((candidate) => candidate.id === id) ?? null
+      commit({ activeProfileId: profile?.id ?? null })
+      if (profile) {
+        useHandTrackingStore.getState().setCameraEnabled(profile.preferredInput === 'camera')
+      }
+    },
+
+    getActiveProfile: () => {
+      const { profiles, activeProfileId } = get()
+      return profiles.find((profile) => profile.id === activeProfileId) ?? null
+    },
+  }
+})
+
+export default useProfileStore
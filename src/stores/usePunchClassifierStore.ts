@@ -0,0 +1,51 @@
+import { create } from 'zustand'
+import { parseModel, type PunchClassifierModel } from '../utils/PunchClassifier'
+
+/**
+ * Modèle entraîné par scripts/punch-classifier.ts (absent = seuils de PUNCH_CONFIG)
+ */
+export const PUNCH_CLASSIFIER_PATH = 'src/models/punch-classifier.json'
+
+// Import glob résolu au build : sans modèle entraîné, rien n'est demandé au serveur
+const modelLoaders = import.meta.glob<unknown>('../models/punch-classifier.json', { import: 'default' })
+const loadModelFile = Object.values(modelLoaders)[0]
+
+/**
+ * Store du classifieur de coups appris (voir utils/PunchClassifier)
+ */
+interface PunchClassifierStore {
+  model: PunchClassifierModel | null
+  status: 'idle' | 'loading' | 'ready' | 'missing' | 'error'
+
+  // Actions
+  loadModel: () => Promise<void>
+}
+
+export const usePunchClassifierStore = create<PunchClassifierStore>((set, get) => ({
+  model: null,
+  status: 'idle',
+
+  // Charger le modèle (une seule fois)
+  loadModel: async () => {
+    const { status } = get()
+    if (status !== 'idle') return
+
+    // Pas de modèle entraîné : la détection garde ses seuils
+    if (!loadModelFile) {
+      set({ status: 'missing' })
+      return
+    }
+
+    set({ status: 'loading' })
+    try {
+      const model = parseModel(await loadModelFile())
+      if (!model) throw new Error('Invalid model')
+      set({ model, status: 'ready' })
+    } catch (error) {
+      console.warn('[PunchClassifier] Invalid model, using thresholds:', error)
+      set({ status: 'error' })
+    }
+  },
+}))
+
+export default usePunchClassifierStore
@@ -0,0 +1,387 @@
+import { create } from 'zustand'
+import type { PunchType, PunchHand } from './useGameStore'
+
+/**
+ * Fichier des séquences de coups (public/, modifiable sans rebuild)
+ */
+export const RHYTHM_TRACKS_URL = '/rhythm/tracks.json'
+
+/**
+ * Consigne de coup à un temps donné (en temps musicaux)
+ */
+export interface RhythmCue {
+  beat: number
+  type: PunchType
+  hand: PunchHand
+}
+
+/**
+ * Séquence d'entraînement telle que décrite dans le fichier JSON
+ */
+export interface RhythmTrack {
+  id: string
+  name: string
+  bpm: number
+  leadInBeats: number // Temps d'attente avant la première consigne
+  cues: RhythmCue[]
+}
+
+/**
+ * Note d'un coup sur le timing et le respect de la consigne
+ */
+export type RhythmGrade = 'perfect' | 'good' | 'miss'
+
+/**
+ * Consigne planifiée (temps absolu depuis le début de la séquence)
+ */
+export interface ScheduledCue extends RhythmCue {
+  index: number
+  time: number // ms depuis le début de la séquence
+  grade: RhythmGrade | null
+  offset: number | null // Écart au temps idéal (ms, négatif = en avance)
+}
+
+/**
+ * Dernière note attribuée (feedback HUD)
+ */
+export interface RhythmJudgment {
+  cueIndex: number
+  grade: RhythmGrade
+  offset: number | null
+  timestamp: number
+}
+
+/**
+ * Résultats d'une séquence
+ */
+export interface RhythmResults {
+  trackName: string
+  perfect: number
+  good: number
+  miss: number
+  strayPunches: number // Coups hors consigne ou sans contact
+  accuracy: number     // 0-1
+  maxStreak: number
+  score: number
+}
+
+// Fenêtres de timing (ms, de part et d'autre du temps idéal)
+export const PERFECT_WINDOW = 80
+export const GOOD_WINDOW = 200
+
+// Points par note
+const GRADE_POINTS: Record<RhythmGrade, number> = {
+  perfect: 300,
+  good: 100,
+  miss: 0,
+}
+
+// Marge après la dernière consigne avant la fin de la séquence (ms)
+const TRACK_TAIL = 1500
+
+// Délai max entre le lancement d'un coup et son contact (au-delà : coup dans le vide)
+const CONTACT_TIMEOUT = 800
+
+const PUNCH_TYPES: readonly PunchType[] = ['jab', 'hook', 'uppercut']
+const PUNCH_HANDS: readonly PunchHand[] = ['left', 'right']
+
+/**
+ * Valide une séquence lue depuis le JSON (ignore les consignes invalides)
+ */
+function parseTrack(raw: unknown): RhythmTrack | null {
+  if (!raw || typeof raw !== 'object') return null
+  const track = raw as Partial<RhythmTrack>
+  if (typeof track.id !== 'string' || typeof track.bpm !== 'number' || track.bpm <= 0) return null
+  if (!Array.isArray(track.cues)) return null
+
+  const cues = track.cues
+    .filter((cue): cue is RhythmCue =>
+      !!cue &&
+      typeof cue.beat === 'number' &&
+      PUNCH_TYPES.includes(cue.type) &&
+      PUNCH_HANDS.includes(cue.hand)
+    )
+    .sort((a, b) => a.beat - b.beat)
+
+  if (cues.length === 0) return null
+
+  return {
+    id: track.id,
+    name: typeof track.name === 'string' ? track.name : track.id,
+    bpm: track.bpm,
+    leadInBeats: typeof track.leadInBeats === 'number' ? track.leadInBeats : 4,
+    cues,
+  }
+}
+
+/**
+ * Coup lancé en attente de contact
+ */
+interface PendingPunch {
+  type: PunchType
+  thrownAt: number // performance.now() au lancement
+}
+
+/**
+ * Planifie les consignes d'une séquence en temps absolu
+ * @param mirrored Mains inversées (séquences écrites pour un droitier, joueur gaucher)
+ */
+function scheduleTrack(track: RhythmTrack, mirrored: boolean): ScheduledCue[] {
+  const beatMs = 60000 / track.bpm
+  return track.cues.map((cue, index) => ({
+    ...cue,
+    hand: mirrored ? (cue.hand === 'left' ? 'right' : 'left') : cue.hand,
+    index,
+    time: (track.leadInBeats + cue.beat) * beatMs,
+    grade: null,
+    offset: null,
+  }))
+}
+
+/**
+ * Durée totale d'une séquence (ms)
+ */
+export function getTrackDuration(track: RhythmTrack): number {
+  const lastCue = track.cues[track.cues.length - 1]
+  const beatMs = 60000 / track.bpm
+  return (track.leadInBeats + (lastCue?.beat ?? 0)) * beatMs + GOOD_WINDOW + TRACK_TAIL
+}
+
+/**
+ * Store du mode rythme (entraînement sur consignes de coups)
+ * Les coups lancés arrivent via registerPunch() (voir useGameStore.throwPunch)
+ * et sont notés au contact avec l'adversaire, via judgeContact() (voir useGameStore.recordHit)
+ */
+interface RhythmStore {
+  // Séquences disponibles
+  tracks: RhythmTrack[]
+  tracksStatus: 'idle' | 'loading' | 'ready' | 'error'
+  selectedTrackId: string | null
+
+  // Séquence en cours
+  cues: ScheduledCue[]
+  startTime: number | null // performance.now() au début de la séquence
+  streak: number
+  maxStreak: number
+  strayPunches: number
+  lastJudgment: RhythmJudgment | null
+  pendingPunches: Partial<Record<PunchHand, PendingPunch>>
+
+  // Actions
+  loadTracks: () => Promise<void>
+  selectTrack: (id: string) => void
+  getSelectedTrack: () => RhythmTrack | null
+  start: (mirrored?: boolean) => void
+  registerPunch: (type: PunchType, hand: PunchHand) => void
+  judgeContact: (hand?: PunchHand) => void
+  sweepMisses: () => void
+  finish: () => void
+  getResults: () => RhythmResults
+  reset: () => void
+}
+
+/**
+ * Main du dernier coup lancé en attente de contact
+ */
+function latestPendingHand(pendingPunches: Partial<Record<PunchHand, PendingPunch>>): PunchHand | null {
+  const left = pendingPunches.left
+  const right = pendingPunches.right
+  if (!left) return right ? 'right' : null
+  if (!right) return 'left'
+  return left.thrownAt >= right.thrownAt ? 'left' : 'right'
+}
+
+export const useRhythmStore = create<RhythmStore>((set, get) => {
+  // Enregistrer une note sur une consigne
+  const grade = (cue: ScheduledCue, value: RhythmGrade, offset: number | null): Partial<RhythmStore> => {
+    const { cues, streak, maxStreak } = get()
+    const newStreak = value === 'miss' ? 0 : streak + 1
+    return {
+      cues: cues.map((c) => (c.index === cue.index ? { ...c, grade: value, offset } : c)),
+      streak: newStreak,
+      maxStreak: Math.max(maxStreak, newStreak),
+      lastJudgment: { cueIndex: cue.index, grade: value, offset, timestamp: Date.now() },
+    }
+  }
+
+  return {
+    tracks: [],
+    tracksStatus: 'idle',
+    selectedTrackId: null,
+
+    cues: [],
+    startTime: null,
+    streak: 0,
+    maxStreak: 0,
+    strayPunches: 0,
+    lastJudgment: null,
+    pendingPunches: {},
+
+    // Charger les séquences depuis le fichier JSON (une seule fois)
+    loadTracks: async () => {
+      const { tracksStatus } = get()
+      if (tracksStatus === 'loading' || tracksStatus === 'ready') return
+
+      set({ tracksStatus: 'loading' })
+      try {
+        const response = await fetch(RHYTHM_TRACKS_URL)
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const data = await response.json()
+
+        const rawTracks: unknown[] = Array.isArray(data?.tracks) ? data.tracks : []
+        const tracks = rawTracks
+          .map(parseTrack)
+          .filter((track): track is RhythmTrack => track !== null)
+
+        set({
+          tracks,
+          tracksStatus: 'ready',
+          selectedTrackId: get().selectedTrackId ?? tracks[0]?.id ?? null,
+        })
+      } catch (error) {
+        console.error('[Rhythm] Failed to load tracks:', error)
+        set({ tracksStatus: 'error' })
+      }
+    },
+
+    // Choisir la séquence (au lobby)
+    selectTrack: (id) => set({ selectedTrackId: id }),
+
+    getSelectedTrack: () => {
+      const { tracks, selectedTrackId } = get()
+      return tracks.find((track) => track.id === selectedTrackId) ?? null
+    },
+
+    // Démarrer la séquence sélectionnée (début du combat)
+    start: (mirrored = false) => {
+      const track = get().getSelectedTrack()
+      set({
+        cues: track ? scheduleTrack(track, mirrored) : [],
+        startTime: performance.now(),
+        streak: 0,
+        maxStreak: 0,
+        strayPunches: 0,
+        lastJudgment: null,
+        pendingPunches: {},
+      })
+    },
+
+    // Coup lancé : noté à son contact (un coup précédent de la même main resté sans contact est perdu)
+    registerPunch: (type, hand) => {
+      const { startTime, pendingPunches, strayPunches } = get()
+      if (startTime === null) return
+
+      set({
+        pendingPunches: { ...pendingPunches, [hand]: { type, thrownAt: performance.now() } },
+        strayPunches: pendingPunches[hand] ? strayPunches + 1 : strayPunches,
+      })
+    },
+
+    // Noter le coup qui touche : consigne la plus proche du contact dans la fenêtre de timing
+    // @param hand Main du gant au contact (sinon : dernier coup lancé)
+    judgeContact: (hand) => {
+      const { startTime, cues, pendingPunches } = get()
+      if (startTime === null) return
+
+      const punchHand = hand ?? latestPendingHand(pendingPunches)
+      const punch = punchHand ? pendingPunches[punchHand] : undefined
+      if (!punchHand || !punch) return
+      const { type } = punch
+      set({ pendingPunches: { ...pendingPunches, [punchHand]: undefined } })
+
+      const elapsed = performance.now() - startTime
+      let target: ScheduledCue | null = null
+      for (const cue of cues) {
+        if (cue.grade !== null || Math.abs(elapsed - cue.time) > GOOD_WINDOW) continue
+        if (!target || Math.abs(elapsed - cue.time) < Math.abs(elapsed - target.time)) {
+          target = cue
+        }
+      }
+
+      // Aucun coup attendu : coup hors consigne
+      if (!target) {
+        set({ strayPunches: get().strayPunches + 1 })
+        return
+      }
+
+      const offset = elapsed - target.time
+      const matches = target.type === type && target.hand === punchHand
+      const value: RhythmGrade = !matches
+        ? 'miss'
+        : Math.abs(offset) <= PERFECT_WINDOW ? 'perfect' : 'good'
+
+      set(grade(target, value, offset))
+    },
+
+    // Marquer "miss" les consignes dont la fenêtre est passée (et perdre les coups dans le vide)
+    sweepMisses: () => {
+      const { startTime, cues, pendingPunches, strayPunches } = get()
+      if (startTime === null) return
+
+      const now = performance.now()
+      const expired = PUNCH_HANDS.filter((hand) => {
+        const punch = pendingPunches[hand]
+        return punch && now - punch.thrownAt > CONTACT_TIMEOUT
+      })
+      if (expired.length > 0) {
+        const remaining = { ...pendingPunches }
+        for (const hand of expired) remaining[hand] = undefined
+        set({ pendingPunches: remaining, strayPunches: strayPunches + expired.length })
+      }
+
+      const elapsed = now - startTime
+      const missed = cues.find((cue) => cue.grade === null && elapsed - cue.time > GOOD_WINDOW)
+      if (!missed) return
+
+      set(grade(missed, 'miss', null))
+      // Plusieurs consignes peuvent expirer dans le même tick
+      get().sweepMisses()
+    },
+
+    // Fin de séquence : les consignes restantes sont manquées
+    finish: () => {
+      const { startTime, cues } = get()
+      if (startTime === null) return
+
+      set({
+        cues: cues.map((cue) => (cue.grade === null ? { ...cue, grade: 'miss' } : cue)),
+        startTime: null,
+        pendingPunches: {},
+      })
+    },
+
+    getResults: () => {
+      const { cues, maxStreak, strayPunches } = get()
+      const track = get().getSelectedTrack()
+      const count = (value: RhythmGrade) => cues.filter((cue) => cue.grade === value).length
+
+      const perfect = count('perfect')
+      const good = count('good')
+      const miss = cues.length - perfect - good
+
+      return {
+        trackName: track?.name ?? '',
+        perfect,
+        good,
+        miss,
+        strayPunches,
+        accuracy: cues.length > 0 ? (perfect + good * 0.5) / cues.length : 0,
+        maxStreak,
+        score: perfect * GRADE_POINTS.perfect + good * GRADE_POINTS.good,
+      }
+    },
+
+    // Reset de la séquence en cours (on garde les séquences chargées)
+    reset: () => set({
+      cues: [],
+      startTime: null,
+      streak: 0,
+      maxStreak: 0,
+      strayPunches: 0,
+      lastJudgment: null,
+      pendingPunches: {},
+    }),
+  }
+})
+
+export default useRhythmStore
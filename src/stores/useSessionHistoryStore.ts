@@ -0,0 +1,113 @@
+import { create } from 'zustand'
+import { SessionHistory } from '../systems/SessionHistory'
+import type { SessionRoundRecord } from '../systems/SessionHistory'
+import type { OpponentType } from './useGameStore'
+
+/**
+ * Meilleures performances sur un adversaire
+ */
+export interface PersonalBest {
+  opponent: OpponentType
+  rounds: number
+  bestHits: number
+  bestHitsPerMinute: number
+  bestCombo: number
+  bestAverageStrength: number
+}
+
+/**
+ * Coups par minute d'un round (0 si le round n'a pas duré)
+ */
+export function getHitsPerMinute(record: SessionRoundRecord): number {
+  return record.duration > 0 ? (record.hits * 60) / record.duration : 0
+}
+
+/**
+ * Records personnels par adversaire
+ */
+export function getPersonalBests(records: SessionRoundRecord[]): PersonalBest[] {
+  const bests = new Map<OpponentType, PersonalBest>()
+
+  for (const record of records) {
+    const best = bests.get(record.opponent) ?? {
+      opponent: record.opponent,
+      rounds: 0,
+      bestHits: 0,
+      bestHitsPerMinute: 0,
+      bestCombo: 0,
+      bestAverageStrength: 0,
+    }
+    bests.set(record.opponent, {
+      ...best,
+      rounds: best.rounds + 1,
+      bestHits: Math.max(best.bestHits, record.hits),
+      bestHitsPerMinute: Math.max(best.bestHitsPerMinute, getHitsPerMinute(record)),
+      bestCombo: Math.max(best.bestCombo, record.maxCombo),
+      bestAverageStrength: Math.max(best.bestAverageStrength, record.averageStrength),
+    })
+  }
+
+  return [...bests.values()].sort((a, b) => b.rounds - a.rounds)
+}
+
+/**
+ * Store de l'historique des sessions (écran de statistiques)
+ * La persistance est faite par SessionHistory (IndexedDB)
+ */
+interface SessionHistoryStore {
+  records: SessionRoundRecord[] // Du plus ancien au plus récent
+  status: 'idle' | 'loading' | 'ready' | 'error'
+
+  // Actions
+  load: () => Promise<void>
+  recordRound: (record: SessionRoundRecord) => void
+  exportHistory: () => Promise<string>
+  importHistory: (json: string) => Promise<number>
+  clearHistory: () => Promise<void>
+}
+
+export const useSessionHistoryStore = create<SessionHistoryStore>((set, get) => ({
+  records: [],
+  status: 'idle',
+
+  // Charger l'historique depuis IndexedDB
+  load: async () => {
+    if (get().status === 'loading') return
+
+    set({ status: 'loading' })
+    try {
+      const records = await SessionHistory.getAllRounds()
+      set({ records, status: 'ready' })
+    } catch (error) {
+      console.error('[SessionHistory] Failed to load history:', error)
+      set({ status: 'error' })
+    }
+  },
+
+  // Enregistrer un round terminé (appelé par useGameStore)
+  recordRound: (record) => {
+    // Affichage immédiat si l'historique est déjà chargé
+    if (get().status === 'ready') {
+      set({ records: [...get().records, record] })
+    }
+    SessionHistory.addRound(record).catch((error) => {
+      console.error('[SessionHistory] Failed to save round:', error)
+    })
+  },
+
+  exportHistory: () => SessionHistory.exportJSON(),
+
+  // Importer un export JSON puis recharger l'historique
+  importHistory: async (json) => {
+    const count = await SessionHistory.importJSON(json)
+    await get().load()
+    return count
+  },
+
+  clearHistory: async () => {
+    await SessionHistory.clear()
+    set({ records: [] })
+  },
+}))
+
+export default useSessionHistoryStore
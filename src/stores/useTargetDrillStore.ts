@@ -0,0 +1,338 @@
+import { create } from 'zustand'
+import type { HitZone } from '../physics'
+import { PhysicsClock } from '../systems/PhysicsClock'
+
+/**
+ * Zones proposées comme cible (le crâne est trop large pour un travail de précision)
+ */
+export const DRILL_ZONES: readonly HitZone[] = [
+  'forehead',
+  'leftEye',
+  'rightEye',
+  'nose',
+  'leftCheek',
+  'rightCheek',
+  'jaw',
+  'leftEar',
+  'rightEar',
+]
+
+/**
+ * Noms des zones affichés au joueur
+ */
+export const HIT_ZONE_LABELS: Record<HitZone, string> = {
+  cranium: 'Crâne',
+  forehead: 'Front',
+  leftEye: 'Œil gauche',
+  rightEye: 'Œil droit',
+  nose: 'Nez',
+  leftCheek: 'Joue gauche',
+  rightCheek: 'Joue droite',
+  jaw: 'Mâchoire',
+  leftEar: 'Oreille gauche',
+  rightEar: 'Oreille droite',
+}
+
+/**
+ * Statistiques d'une zone cible
+ */
+export interface ZoneStats {
+  shown: number            // Nombre de fois où la zone a été la cible
+  hits: number             // Coups dans la cible
+  attempts: number         // Coups portés pendant que la zone était la cible
+  totalReactionMs: number  // Somme des temps de réaction (coups dans la cible)
+  bestReactionMs: number | null
+}
+
+/**
+ * Heatmap des impacts : grille sur la face avant de la tête (coordonnées locales)
+ */
+export const HEATMAP_COLS = 12
+export const HEATMAP_ROWS = 12
+export const HEATMAP_BOUNDS = { minX: -0.4, maxX: 0.4, minY: -0.4, maxY: 0.5 }
+
+/**
+ * Résultats d'un drill de précision
+ */
+export interface TargetDrillResults {
+  targetsShown: number
+  targetsHit: number
+  totalHits: number
+  accuracy: number                 // Coups dans la cible / coups portés (0-1)
+  averageReactionMs: number | null
+  bestReactionMs: number | null
+  zoneStats: Record<HitZone, ZoneStats>
+}
+
+// Délai avant de changer de cible si elle n'est pas touchée (ms)
+const TARGET_TIMEOUT = 4000
+
+// Pause entre deux cibles (ms)
+const TARGET_GAP = 300
+
+// Un même coup peut produire plusieurs impacts (tête + crâne) : délai minimum entre deux coups (ms)
+const HIT_DEBOUNCE = 100
+
+/**
+ * Clé localStorage de la heatmap cumulée (toutes les séances)
+ */
+const HEATMAP_KEY = 'facepuncher_target_heatmap'
+
+const createEmptyHeatmap = (): number[] => new Array(HEATMAP_COLS * HEATMAP_ROWS).fill(0)
+
+const createEmptyZoneStats = (): Record<HitZone, ZoneStats> => {
+  const stats = {} as Record<HitZone, ZoneStats>
+  for (const zone of Object.keys(HIT_ZONE_LABELS) as HitZone[]) {
+    stats[zone] = { shown: 0, hits: 0, attempts: 0, totalReactionMs: 0, bestReactionMs: null }
+  }
+  return stats
+}
+
+const createEmptyZoneCounts = (): Record<HitZone, number> => {
+  const counts = {} as Record<HitZone, number>
+  for (const zone of Object.keys(HIT_ZONE_LABELS) as HitZone[]) {
+    counts[zone] = 0
+  }
+  return counts
+}
+
+// Charger la heatmap cumulée
+const loadHeatmap = (): number[] => {
+  try {
+    const saved = localStorage.getItem(HEATMAP_KEY)
+    const parsed: unknown = saved ? JSON.parse(saved) : null
+    if (Array.isArray(parsed) && parsed.length === HEATMAP_COLS * HEATMAP_ROWS) {
+      return parsed.map((value) => (typeof value === 'number' ? value : 0))
+    }
+  } catch {
+    // Ignorer les erreurs localStorage / JSON
+  }
+  return createEmptyHeatmap()
+}
+
+// Sauvegarder la heatmap cumulée
+const saveHeatmap = (heatmap: number[]): void => {
+  try {
+    localStorage.setItem(HEATMAP_KEY, JSON.stringify(heatmap))
+  } catch {
+    // Ignorer les erreurs localStorage
+  }
+}
+
+/**
+ * Case de la heatmap correspondant à un point d'impact (null si hors grille)
+ */
+function getHeatmapCell(hitPoint: [number, number, number]): number | null {
+  const { minX, maxX, minY, maxY } = HEATMAP_BOUNDS
+  const [x, y] = hitPoint
+  if (x < minX || x > maxX || y < minY || y > maxY) return null
+
+  const col = Math.min(HEATMAP_COLS - 1, Math.floor(((x - minX) / (maxX - minX)) * HEATMAP_COLS))
+  // Ligne 0 = haut de la tête
+  const row = Math.min(HEATMAP_ROWS - 1, Math.floor(((maxY - y) / (maxY - minY)) * HEATMAP_ROWS))
+  return row * HEATMAP_COLS + col
+}
+
+/**
+ * Tire une nouvelle zone cible (différente de la précédente)
+ */
+const pickZone = (previous: HitZone | null): HitZone => {
+  const candidates = DRILL_ZONES.filter((zone) => zone !== previous)
+  return candidates[Math.floor(PhysicsClock.random() * candidates.length)] ?? 'nose'
+}
+
+/**
+ * Store du drill de précision (mode "target")
+ * Les zones touchées arrivent des contacts gants ↔ adversaire (AmmoVolumeDemo),
+ * ramenés dans le repère de la tête (voir physics/HitZones)
+ */
+interface TargetDrillStore {
+  isActive: boolean
+  targetZone: HitZone | null
+  targetShownAt: number     // performance.now() à l'allumage de la cible
+  nextTargetAt: number | null // Cible suivante après la pause
+  lastHitAt: number
+  lastReactionMs: number | null
+
+  zoneStats: Record<HitZone, ZoneStats>
+  landedZones: Record<HitZone, number> // Zones réellement touchées
+  heatmap: number[]          // Impacts du drill en cours
+  allTimeHeatmap: number[]   // Impacts cumulés (persistés)
+
+  // Actions
+  start: () => void
+  registerHit: (zone: HitZone, hitPoint: [number, number, number]) => void
+  tick: () => void
+  finish: () => void
+  getResults: () => TargetDrillResults
+  clearAllTimeHeatmap: () => void
+  reset: () => void
+}
+
+export const useTargetDrillStore = create<TargetDrillStore>((set, get) => {
+  // Allumer une nouvelle cible
+  const showTarget = (zone: HitZone): Partial<TargetDrillStore> => {
+    const { zoneStats } = get()
+    return {
+      targetZone: zone,
+      targetShownAt: performance.now(),
+      nextTargetAt: null,
+      zoneStats: {
+        ...zoneStats,
+        [zone]: { ...zoneStats[zone], shown: zoneStats[zone].shown + 1 },
+      },
+    }
+  }
+
+  return {
+    isActive: false,
+    targetZone: null,
+    targetShownAt: 0,
+    nextTargetAt: null,
+    lastHitAt: 0,
+    lastReactionMs: null,
+
+    zoneStats: createEmptyZoneStats(),
+    landedZones: createEmptyZoneCounts(),
+    heatmap: createEmptyHeatmap(),
+    allTimeHeatmap: loadHeatmap(),
+
+    // Démarrer le drill (début du combat)
+    start: () => {
+      set({
+        isActive: true,
+        lastHitAt: 0,
+        lastReactionMs: null,
+        zoneStats: createEmptyZoneStats(),
+        landedZones: createEmptyZoneCounts(),
+        heatmap: createEmptyHeatmap(),
+      })
+      set(showTarget(pickZone(null)))
+    },
+
+    // Enregistrer un impact sur la tête
+    registerHit: (zone, hitPoint) => {
+      const state = get()
+      if (!state.isActive) return
+
+      const now = performance.now()
+      if (now - state.lastHitAt < HIT_DEBOUNCE) return
+
+      // Heatmap (drill en cours + cumulée)
+      const cell = getHeatmapCell(hitPoint)
+      const heatmap = [...state.heatmap]
+      const allTimeHeatmap = [...state.allTimeHeatmap]
+      if (cell !== null) {
+        heatmap[cell] = (heatmap[cell] ?? 0) + 1
+        allTimeHeatmap[cell] = (allTimeHeatmap[cell] ?? 0) + 1
+      }
+
+      const landedZones = { ...state.landedZones, [zone]: state.landedZones[zone] + 1 }
+      const update: Partial<TargetDrillStore> = { lastHitAt: now, heatmap, allTimeHeatmap, landedZones }
+
+      // Pas de cible allumée (pause entre deux cibles) : impact hors exercice
+      const target = state.targetZone
+      if (!target) {
+        set(update)
+        return
+      }
+
+      const stats = state.zoneStats[target]
+      if (zone === target) {
+        const reaction = now - state.targetShownAt
+        set({
+          ...update,
+          targetZone: null,
+          nextTargetAt: now + TARGET_GAP,
+          lastReactionMs: reaction,
+          zoneStats: {
+            ...state.zoneStats,
+            [target]: {
+              ...stats,
+              hits: stats.hits + 1,
+              attempts: stats.attempts + 1,
+              totalReactionMs: stats.totalReactionMs + reaction,
+              bestReactionMs: stats.bestReactionMs === null ? reaction : Math.min(stats.bestReactionMs, reaction),
+            },
+          },
+        })
+        return
+      }
+
+      set({
+        ...update,
+        zoneStats: { ...state.zoneStats, [target]: { ...stats, attempts: stats.attempts + 1 } },
+      })
+    },
+
+    // Cible expirée ou pause terminée : cible suivante
+    tick: () => {
+      const state = get()
+      if (!state.isActive) return
+
+      const now = performance.now()
+      if (state.nextTargetAt !== null && now >= state.nextTargetAt) {
+        set(showTarget(pickZone(null)))
+        return
+      }
+      if (state.targetZone && now - state.targetShownAt > TARGET_TIMEOUT) {
+        set(showTarget(pickZone(state.targetZone)))
+      }
+    },
+
+    // Fin du drill : sauvegarder la heatmap cumulée
+    finish: () => {
+      const state = get()
+      if (!state.isActive) return
+
+      saveHeatmap(state.allTimeHeatmap)
+      set({ isActive: false, targetZone: null, nextTargetAt: null })
+    },
+
+    getResults: () => {
+      const { zoneStats, landedZones } = get()
+      const all = Object.values(zoneStats)
+
+      const targetsShown = all.reduce((sum, stats) => sum + stats.shown, 0)
+      const targetsHit = all.reduce((sum, stats) => sum + stats.hits, 0)
+      const totalHits = Object.values(landedZones).reduce((sum, count) => sum + count, 0)
+      const attempts = all.reduce((sum, stats) => sum + stats.attempts, 0)
+      const totalReaction = all.reduce((sum, stats) => sum + stats.totalReactionMs, 0)
+      const bestReactions = all
+        .map((stats) => stats.bestReactionMs)
+        .filter((value): value is number => value !== null)
+
+      return {
+        targetsShown,
+        targetsHit,
+        totalHits,
+        accuracy: attempts > 0 ? targetsHit / attempts : 0,
+        averageReactionMs: targetsHit > 0 ? totalReaction / targetsHit : null,
+        bestReactionMs: bestReactions.length > 0 ? Math.min(...bestReactions) : null,
+        zoneStats,
+      }
+    },
+
+    // Effacer la heatmap cumulée
+    clearAllTimeHeatmap: () => {
+      const allTimeHeatmap = createEmptyHeatmap()
+      saveHeatmap(allTimeHeatmap)
+      set({ allTimeHeatmap })
+    },
+
+    // Reset du drill (on garde la heatmap cumulée)
+    reset: () => set({
+      isActive: false,
+      targetZone: null,
+      targetShownAt: 0,
+      nextTargetAt: null,
+      lastHitAt: 0,
+      lastReactionMs: null,
+      zoneStats: createEmptyZoneStats(),
+      landedZones: createEmptyZoneCounts(),
+      heatmap: createEmptyHeatmap(),
+    }),
+  }
+})
+
+export default useTargetDrillStore
@@ -0,0 +1,63 @@
+/**
+ * GameEvents - Bus d'événements de jeu (succès, statistiques...)
+ *
+ * Architecture:
+ * - Singleton pattern pour accès global
+ * - Pattern observer, sans état React : les stores et composants émettent,
+ *   les systèmes intéressés (moteur de succès) s'abonnent
+ * - Événements plats (champs primitifs) pour pouvoir être filtrés
+ *   de façon déclarative (voir useAchievementStore)
+ */
+
+import type { FightMode } from '../stores/useGameStore'
+import type { MatchResult, StoppageType } from '../utils/Scorecard'
+
+/**
+ * Événements émis pendant une partie
+ */
+export type GameEvent =
+  | { type: 'hit'; comboCount: number; strength: number }
+  | { type: 'knockdown'; totalKnockdowns: number }
+  | { type: 'stoppage'; stoppage: StoppageType; winner: 'player' | 'opponent' }
+  | { type: 'roundFinished'; fightMode: FightMode; hits: number }
+  | { type: 'matchFinished'; fightMode: FightMode; result: MatchResult; hitCount: number }
+  | { type: 'comboChain'; chainId: string }
+  | { type: 'jawDetached' }
+  | { type: 'wallDestroyed' }
+
+export type GameEventType = GameEvent['type']
+
+/**
+ * Callback pour les listeners d'événements
+ */
+export type GameEventListener = (event: GameEvent) => void
+
+/**
+ * Bus d'événements singleton
+ */
+class GameEventsClass {
+  private listeners: Set<GameEventListener> = new Set()
+
+  /**
+   * Notifie tous les listeners
+   */
+  emit(event: GameEvent): void {
+    this.listeners.forEach((listener) => listener(event))
+  }
+
+  /**
+   * S'abonner aux événements
+   * @returns Fonction de désabonnement
+   */
+  subscribe(listener: GameEventListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
+
+// Export singleton
+export const GameEvents = new GameEventsClass()
+
+export default GameEvents
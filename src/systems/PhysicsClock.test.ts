@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { PhysicsClock } from './PhysicsClock'
+
+const STEP = PhysicsClock.fixedDeltaTime
+
+// Désinscriptions des steppers de test
+const unregisters: (() => void)[] = []
+
+afterEach(() => {
+  unregisters.splice(0).forEach((unregister) => unregister())
+  PhysicsClock.setDeterministic(false)
+})
+
+/**
+ * Enregistre un stepper de test, désinscrit après le test
+ */
+function record(id: string, onStep: (dt: number) => void): void {
+  unregisters.push(PhysicsClock.register(id, onStep))
+}
+
+describe('PhysicsClock.update', () => {
+  it('runs one fixed step per elapsed fixedDeltaTime and keeps the remainder in alpha', () => {
+    const steps: number[] = []
+    record('test', (dt) => steps.push(dt))
+
+    expect(PhysicsClock.update(STEP * 2.5)).toBe(2)
+    expect(steps).toEqual([STEP, STEP])
+    expect(PhysicsClock.alpha).toBeCloseTo(0.5)
+
+    expect(PhysicsClock.update(STEP)).toBe(1)
+    expect(PhysicsClock.alpha).toBeCloseTo(0.5)
+    expect(PhysicsClock.totalSteps).toBe(3)
+  })
+
+  it('drops the backlog after maxSubSteps steps', () => {
+    expect(PhysicsClock.update(1)).toBe(12)
+    expect(PhysicsClock.alpha).toBeLessThanOrEqual(1)
+    expect(PhysicsClock.update(0)).toBeLessThanOrEqual(1)
+  })
+
+  it('flags only the last step of a frame', () => {
+    const flags: boolean[] = []
+    record('test', () => flags.push(PhysicsClock.isLastSubStep))
+
+    PhysicsClock.update(STEP * 3)
+    expect(flags).toEqual([false, false, true])
+  })
+
+  it('stops calling an unregistered stepper', () => {
+    let count = 0
+    const unregister = PhysicsClock.register('test', () => count++)
+    PhysicsClock.update(STEP)
+    unregister()
+    PhysicsClock.update(STEP)
+    expect(count).toBe(1)
+  })
+
+  it('keeps a replacing stepper when the replaced one unregisters', () => {
+    let count = 0
+    const unregisterFirst = PhysicsClock.register('test', () => {})
+    record('test', () => count++)
+    unregisterFirst()
+    PhysicsClock.update(STEP)
+    expect(count).toBe(1)
+  })
+})
+
+describe('PhysicsClock deterministic mode', () => {
+  it('advances a fixed frame time whatever the real delta', () => {
+    PhysicsClock.setDeterministic(true)
+    expect(PhysicsClock.update(0.5)).toBe(2)
+    expect(PhysicsClock.update(0)).toBe(2)
+  })
+
+  it('replays the same random sequence after a reset', () => {
+    PhysicsClock.setDeterministic(true, 42)
+    const first = [PhysicsClock.random(), PhysicsClock.random(), PhysicsClock.random()]
+    PhysicsClock.reset()
+    expect([PhysicsClock.random(), PhysicsClock.random(), PhysicsClock.random()]).toEqual(first)
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * PhysicsClock - Horloge physique à pas fixe
+ *
+ * Toutes les simulations (monde Ammo, backend Rapier, solveurs XPBD de la
+ * tête jelly et de Fluffy) avancent par pas fixes de 1/120 s, indépendamment
+ * du framerate. Le reste du temps de frame est exposé via `alpha` pour
+ * interpoler les meshes entre les deux derniers états simulés.
+ *
+ * Mode déterministe : chaque frame avance d'un temps fixe (frameTime) au lieu
+ * du delta réel, et random() suit une graine. Mêmes entrées = mêmes résultats
+ * (replays, tests de non-régression). Activé depuis le panneau Physique
+ * (usePhysicsDebugStore.setDeterministic) : tout ce qui anime la simulation
+ * doit alors avancer dans les steppers, jamais avec performance.now().
+ *
+ * Usage:
+ *   const unregister = PhysicsClock.register('jelly', (dt) => solver.step(dt))
+ *   useFrame((_, delta) => PhysicsClock.update(delta), -1)  // voir usePhysicsClock
+ *   mesh.position.lerpVectors(previous, current, PhysicsClock.alpha)
+ */
+
+import { createSeededRandom, type RandomGenerator } from '../utils/SeededRandom'
+
+/**
+ * Callback d'un pas de simulation
+ */
+export type PhysicsStepper = (fixedDeltaTime: number) => void
+
+// Configuration
+const CLOCK_CONFIG = {
+  fixedDeltaTime: 1 / 120,
+  maxSubSteps: 12,              // Au-delà (frame > 100 ms), le retard est abandonné
+  deterministicFrameTime: 1 / 60,
+  defaultSeed: 1,
+}
+
+/**
+ * Horloge singleton
+ */
+class PhysicsClockClass {
+  readonly fixedDeltaTime = CLOCK_CONFIG.fixedDeltaTime
+
+  private steppers: Map<string, PhysicsStepper> = new Map()
+  private accumulator = 0
+  private stepCount = 0
+  private _alpha = 0
+  private stepsLeft = 0
+
+  // Mode déterministe
+  private deterministic = false
+  private seed = CLOCK_CONFIG.defaultSeed
+  private seededRandom: RandomGenerator = createSeededRandom(CLOCK_CONFIG.defaultSeed)
+
+  /**
+   * Enregistrer une simulation (remplace celle du même ID)
+   * @returns Fonction de désinscription
+   */
+  register(id: string, stepper: PhysicsStepper): () => void {
+    this.steppers.set(id, stepper)
+    return () => {
+      if (this.steppers.get(id) === stepper) this.steppers.delete(id)
+    }
+  }
+
+  /**
+   * Avancer l'horloge d'une frame et exécuter les pas fixes dus
+   * À appeler une seule fois par frame, avant la synchronisation des meshes
+   * @returns Nombre de pas exécutés
+   */
+  update(deltaTime: number): number {
+    const { fixedDeltaTime } = this
+    const frameTime = this.deterministic ? CLOCK_CONFIG.deterministicFrameTime : deltaTime
+
+    this.accumulator += frameTime
+    // Pas dus (mêmes soustractions que la boucle : pas d'écart d'arrondi)
+    let due = 0
+    for (let left = this.accumulator; left >= fixedDeltaTime && due < CLOCK_CONFIG.maxSubSteps; left -= fixedDeltaTime) {
+      due++
+    }
+    for (let step = 0; step < due; step++) {
+      this.stepsLeft = due - step - 1
+      this.steppers.forEach((stepper) => stepper(fixedDeltaTime))
+      this.accumulator -= fixedDeltaTime
+    }
+    this.stepsLeft = 0
+
+    // Spirale de la mort : abandonner le retard
+    if (due === CLOCK_CONFIG.maxSubSteps) {
+      this.accumulator = Math.min(this.accumulator, fixedDeltaTime)
+    }
+
+    this.stepCount += due
+    this._alpha = this.accumulator / fixedDeltaTime
+    return due
+  }
+
+  /**
+   * Fraction du pas suivant déjà écoulée (0-1), pour interpoler les meshes
+   */
+  get alpha(): number {
+    return this._alpha
+  }
+
+  /**
+   * Pendant un pas : est-ce le dernier de la frame ?
+   * L'état avant ce pas est celui que l'interpolation de rendu (alpha) utilise
+   */
+  get isLastSubStep(): boolean {
+    return this.stepsLeft === 0
+  }
+
+  /**
+   * Nombre total de pas depuis le dernier reset
+   */
+  get totalSteps(): number {
+    return this.stepCount
+  }
+
+  // =============================================
+  // MODE DÉTERMINISTE
+  // =============================================
+
+  /**
+   * Activer / désactiver le mode déterministe (repart de la graine)
+   */
+  setDeterministic(enabled: boolean, seed: number = this.seed): void {
+    this.deterministic = enabled
+    this.seed = seed
+    this.reset()
+  }
+
+  get isDeterministic(): boolean {
+    return this.deterministic
+  }
+
+  /**
+   * Nombre aléatoire [0, 1) : suit la graine en mode déterministe, Math.random sinon
+   * À utiliser pour tout aléa qui influence la simulation ou le gameplay
+   */
+  random(): number {
+    return this.deterministic ? this.seededRandom() : Math.random()
+  }
+
+  /**
+   * Remettre l'accumulateur, le compteur et la graine à zéro
+   */
+  reset(): void {
+    this.accumulator = 0
+    this.stepCount = 0
+    this._alpha = 0
+    this.seededRandom = createSeededRandom(this.seed)
+  }
+}
+
+// Export singleton
+export const PhysicsClock = new PhysicsClockClass()
+
+export default PhysicsClock
@@ -6,33 +6,148 @@
  * - Gestion des rigid bodies, soft bodies, et constraints par ID
  * - Cleanup automatique lors des changements de scène/mode
  * - Synchronisation meshes Three.js ↔ bodies Ammo.js
+ * - Événements de contact (début / fin) entre bodies enregistrés
+ * - Requêtes (raycast, sphere sweep, point le plus proche) filtrables par catégorie
+ * - Snapshot / restauration de l'état dynamique (reset de round, rewind de debug)
+ * - Rendu de debug (formes, soft bodies, contraintes, contacts) et inspection des bodies
  *
  * Usage:
  *   await PhysicsSceneManager.initialize()
  *   PhysicsSceneManager.addRigidBody('left-glove', body, mesh)
+ *   PhysicsSceneManager.onContactBegin((contact) => { ... })
  *   PhysicsSceneManager.removeRigidBody('left-glove')
  *   PhysicsSceneManager.clearCategory('gloves')
  */
 
 import * as THREE from 'three'
+import type { PhysicsDebugDrawer } from '../physics/types'
 
 // Types pour les entrées
 export interface RigidBodyEntry {
   body: any  // btRigidBody
   mesh?: THREE.Mesh | THREE.Object3D
   category: string  // 'gloves', 'opponent', 'environment', etc.
+  external?: boolean  // Ajouté au monde (et synchronisé) par l'appelant
+  noContacts?: boolean  // Suivi pour le debug et les snapshots, sans événements de contact
 }
 
 export interface SoftBodyEntry {
   body: any  // btSoftBody
-  mesh: THREE.Mesh
+  mesh: THREE.Mesh | THREE.Line  // Line pour une corde (pas de faces)
   indexAssociation: number[][]
   category: string
+  external?: boolean  // Ajouté au monde (et synchronisé) par l'appelant
+}
+
+/**
+ * Contact entre deux bodies enregistrés
+ * Pour un contact rigid / soft body, A est toujours le rigid body
+ */
+export interface ContactEvent {
+  bodyA: string
+  bodyB: string
+  categoryA: string
+  categoryB: string
+  point: THREE.Vector3   // Point de contact (monde)
+  normal: THREE.Vector3  // Normale du contact, orientée de B vers A
+  impulse: number        // Impulsion du solveur (estimée pour les soft bodies)
+}
+
+export type ContactListener = (contact: ContactEvent) => void
+
+/**
+ * Résultat d'une requête (raycast, sphere sweep, point le plus proche)
+ */
+export interface QueryHit {
+  bodyId: string
+  category: string
+  point: THREE.Vector3   // Point touché (monde)
+  normal: THREE.Vector3  // Normale de la surface au point touché
+  distance: number       // Distance parcourue (ou distance au point pour closestPoint)
+  faceIndex?: number     // Face touchée pour un soft body
+}
+
+/**
+ * Filtre de catégorie des requêtes (une ou plusieurs, toutes si absent)
+ */
+export type CategoryFilter = string | string[]
+
+/**
+ * État dynamique d'un rigid body
+ */
+export interface RigidBodySnapshot {
+  position: [number, number, number]
+  quaternion: [number, number, number, number]
+  linearVelocity: [number, number, number]
+  angularVelocity: [number, number, number]
+}
+
+/**
+ * État dynamique d'un soft body (xyz par node)
+ */
+export interface SoftBodySnapshot {
+  positions: Float32Array
+  previousPositions: Float32Array
+  velocities: Float32Array
+}
+
+/**
+ * État dynamique des bodies enregistrés (par ID)
+ * Les formes, masses et contraintes ne sont pas capturées : restore() suppose
+ * que la scène n'a pas été reconstruite entre-temps.
+ */
+export interface PhysicsSnapshot {
+  rigidBodies: Record<string, RigidBodySnapshot>
+  softBodies: Record<string, SoftBodySnapshot>
+}
+
+/**
+ * Forme connue d'un rigid body (requêtes exactes), posée par createSphereShape / createBoxShape
+ */
+type ShapeInfo =
+  | { type: 'sphere'; radius: number }
+  | { type: 'box'; halfExtents: THREE.Vector3 }
+  | { type: 'capsule'; radius: number; height: number }  // Axe Y, height = segment central
+
+/**
+ * Bodies reliés par une constraint (Ammo.js n'expose pas getRigidBodyA/B)
+ */
+export interface ConstraintLink {
+  bodyA: any  // btRigidBody
+  bodyB: any  // btRigidBody
+  pivotA?: THREE.Vector3  // Point d'attache dans le repère de A (origine si absent)
+  pivotB?: THREE.Vector3  // Point d'attache dans le repère de B
+  spring?: boolean        // Ressort (sinon joint)
 }
 
 export interface ConstraintEntry {
   constraint: any  // btTypedConstraint
   category: string
+  link?: ConstraintLink     // Pour le rendu de debug
+  external?: boolean        // Ajoutée au monde par l'appelant
+}
+
+/**
+ * Couches du rendu de debug
+ */
+export interface DebugDrawOptions {
+  shapes: boolean       // Formes de collision des rigid bodies
+  softBodies: boolean   // Arêtes des faces et nodes des soft bodies
+  constraints: boolean  // Ressorts et joints
+  contacts: boolean     // Points et normales des contacts en cours
+}
+
+/**
+ * Résumé d'un body enregistré (panneau d'inspection)
+ */
+export interface BodyDebugInfo {
+  id: string
+  category: string
+  type: 'rigid' | 'soft'
+  motion: 'static' | 'kinematic' | 'dynamic'
+  mass: number | null  // null si inconnue (body créé hors de createRigidBody)
+  velocity: [number, number, number]  // Vitesse moyenne des nodes pour un soft body
+  speed: number
 }
 
 // Configuration par défaut
@@ -42,6 +157,109 @@ const DEFAULT_CONFIG = {
   maxSubSteps: 10,
 }
 
+// Détection des contacts avec les soft bodies (pas de manifolds dans Ammo)
+const SOFT_CONTACT_CONFIG = {
+  margin: 0.05,        // Tolérance ajoutée à la marge de collision du soft body
+  defaultMass: 1,      // Masse d'un rigid body dynamique inconnue (body externe)
+}
+
+// Sphere sweep : rayon central + couronne de rayons au bord de la sphère
+// (les callbacks de sweep d'Ammo.js n'exposent pas l'objet touché)
+const SWEEP_RING_RAYS = 8
+
+// Rendu de debug
+const DEBUG_DRAW_CONFIG = {
+  circleSegments: 16,
+  normalLength: 0.3,
+  colors: {
+    static: 0x888888,
+    kinematic: 0x33aaff,
+    dynamic: 0x33ff66,
+    softLink: 0xffaa00,
+    softNode: 0xffff66,
+    spring: 0xff44ff,
+    joint: 0x44ffff,
+    contact: 0xff3333,
+  },
+}
+
+// Vecteurs temporaires des requêtes
+const _edge1 = new THREE.Vector3()
+const _edge2 = new THREE.Vector3()
+const _pvec = new THREE.Vector3()
+const _tvec = new THREE.Vector3()
+const _qvec = new THREE.Vector3()
+const _localPoint = new THREE.Vector3()
+const _bodyPosition = new THREE.Vector3()
+const _bodyQuaternion = new THREE.Quaternion()
+const _debugFrom = new THREE.Vector3()
+const _debugTo = new THREE.Vector3()
+const _debugCorners = Array.from({ length: 8 }, () => new THREE.Vector3())
+const _debugAxisU = new THREE.Vector3()
+const _debugAxisV = new THREE.Vector3()
+
+function matchesCategory(category: string, filter?: CategoryFilter): boolean {
+  if (filter === undefined) return true
+  return typeof filter === 'string' ? category === filter : filter.includes(category)
+}
+
+/**
+ * Intersection rayon / triangle (Möller–Trumbore), distance ou null
+ */
+function intersectTriangle(origin: THREE.Vector3, dir: THREE.Vector3, a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): number | null {
+  _edge1.subVectors(b, a)
+  _edge2.subVectors(c, a)
+  _pvec.crossVectors(dir, _edge2)
+  const det = _edge1.dot(_pvec)
+  if (Math.abs(det) < 1e-8) return null
+
+  const invDet = 1 / det
+  _tvec.subVectors(origin, a)
+  const u = _tvec.dot(_pvec) * invDet
+  if (u < 0 || u > 1) return null
+
+  _qvec.crossVectors(_tvec, _edge1)
+  const v = dir.dot(_qvec) * invDet
+  if (v < 0 || u + v > 1) return null
+
+  const t = _edge2.dot(_qvec) * invDet
+  return t >= 0 ? t : null
+}
+
+/**
+ * Point le plus proche sur un triangle (Ericson, Real-Time Collision Detection 5.1.5)
+ */
+function closestPointOnTriangle(p: THREE.Vector3, a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, out: THREE.Vector3): THREE.Vector3 {
+  const ab = _edge1.subVectors(b, a)
+  const ac = _edge2.subVectors(c, a)
+  const ap = _pvec.subVectors(p, a)
+  const d1 = ab.dot(ap), d2 = ac.dot(ap)
+  if (d1 <= 0 && d2 <= 0) return out.copy(a)
+
+  const bp = _tvec.subVectors(p, b)
+  const d3 = ab.dot(bp), d4 = ac.dot(bp)
+  if (d3 >= 0 && d4 <= d3) return out.copy(b)
+
+  const vc = d1 * d4 - d3 * d2
+  if (vc <= 0 && d1 >= 0 && d3 <= 0) return out.copy(a).addScaledVector(ab, d1 / (d1 - d3))
+
+  const cp = _qvec.subVectors(p, c)
+  const d5 = ab.dot(cp), d6 = ac.dot(cp)
+  if (d6 >= 0 && d5 <= d6) return out.copy(c)
+
+  const vb = d5 * d2 - d1 * d6
+  if (vb <= 0 && d2 >= 0 && d6 <= 0) return out.copy(a).addScaledVector(ac, d2 / (d2 - d6))
+
+  const va = d3 * d6 - d5 * d4
+  if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+    const w = (d4 - d3) / ((d4 - d3) + (d5 - d6))
+    return out.copy(b).addScaledVector(_edge2.subVectors(c, b), w)
+  }
+
+  const denom = 1 / (va + vb + vc)
+  return out.copy(a).addScaledVector(ab, vb * denom).addScaledVector(ac, vc * denom)
+}
+
 class PhysicsSceneManagerClass {
   // Instance Ammo.js
   private Ammo: any = null
@@ -60,6 +278,18 @@ class PhysicsSceneManagerClass {
   private softBodies: Map<string, SoftBodyEntry> = new Map()
   private constraints: Map<string, ConstraintEntry> = new Map()
 
+  // Pointeur Ammo → ID (identification des bodies dans les manifolds)
+  private idsByPointer: Map<number, string> = new Map()
+
+  // Contacts en cours (clé de paire → dernier contact connu)
+  private activeContacts: Map<string, ContactEvent> = new Map()
+  private contactBeginListeners: Set<ContactListener> = new Set()
+  private contactEndListeners: Set<ContactListener> = new Set()
+  private aabbMin: any = null
+  private aabbMax: any = null
+  // Positions des nodes du soft body en cours (détection des contacts soft)
+  private softNodePositions: Float32Array = new Float32Array(0)
+
   // Callbacks
   private onReadyCallbacks: Array<() => void> = []
 
@@ -89,6 +319,8 @@ class PhysicsSceneManagerClass {
         this.world = existingWorld
         this.transformAux = new this.Ammo.btTransform()
         this.softBodyHelpers = new this.Ammo.btSoftBodyHelpers()
+        this.aabbMin = new this.Ammo.btVector3(0, 0, 0)
+        this.aabbMax = new this.Ammo.btVector3(0, 0, 0)
 
         this.isInitialized = true
         this.isInitializing = false
@@ -133,6 +365,8 @@ class PhysicsSceneManagerClass {
       // Helpers
       this.transformAux = new this.Ammo.btTransform()
       this.softBodyHelpers = new this.Ammo.btSoftBodyHelpers()
+      this.aabbMin = new this.Ammo.btVector3(0, 0, 0)
+      this.aabbMax = new this.Ammo.btVector3(0, 0, 0)
 
       // Exposer globalement (compatibilité avec code existant)
       ;(window as any).__ammoPhysicsWorld = this.world
@@ -222,11 +456,32 @@ class PhysicsSceneManagerClass {
 
     this.world.addRigidBody(body)
     this.rigidBodies.set(id, { body, mesh, category })
+    this.idsByPointer.set(this.Ammo.getPointer(body), id)
 
     // Stocker l'ID sur le body pour référence inverse
     body.__physicsId = id
   }
 
+  /**
+   * Enregistrer un rigid body déjà présent dans le monde (créé par AmmoVolumeDemo)
+   * Il participe aux contacts (sauf options.contacts = false) ; l'ajout / retrait
+   * du monde reste à la charge de l'appelant
+   */
+  trackRigidBody(id: string, body: any, category: string = 'default', options: { contacts?: boolean } = {}): void {
+    if (!this.isInitialized) {
+      console.warn('[PhysicsSceneManager] Not initialized, cannot track rigid body')
+      return
+    }
+
+    if (this.rigidBodies.has(id)) {
+      this.removeRigidBody(id)
+    }
+
+    this.rigidBodies.set(id, { body, category, external: true, noContacts: options.contacts === false })
+    this.idsByPointer.set(this.Ammo.getPointer(body), id)
+    body.__physicsId = id
+  }
+
   /**
    * Supprimer un rigid body
    */
@@ -234,8 +489,9 @@ class PhysicsSceneManagerClass {
     const entry = this.rigidBodies.get(id)
     if (!entry) return false
 
-    this.world.removeRigidBody(entry.body)
+    if (!entry.external) this.world.removeRigidBody(entry.body)
     this.rigidBodies.delete(id)
+    this.forgetBody(id, entry.body)
     return true
   }
 
@@ -279,6 +535,7 @@ class PhysicsSceneManagerClass {
 
     this.world.addSoftBody(body, 1, -1)
     this.softBodies.set(id, { body, mesh, indexAssociation, category })
+    this.idsByPointer.set(this.Ammo.getPointer(body), id)
 
     // Exposer la liste pour compatibilité (PhysicsGloves, etc.)
     ;(window as any).__softBodiesList = Array.from(this.softBodies.values())
@@ -286,6 +543,26 @@ class PhysicsSceneManagerClass {
     body.__physicsId = id
   }
 
+  /**
+   * Enregistrer un soft body déjà présent dans le monde (adversaire d'AmmoVolumeDemo)
+   * Il participe aux contacts ; l'ajout / retrait du monde et la synchronisation
+   * du mesh restent à la charge de l'appelant
+   */
+  trackSoftBody(id: string, body: any, mesh: THREE.Mesh | THREE.Line, indexAssociation: number[][], category: string = 'default'): void {
+    if (!this.isInitialized) {
+      console.warn('[PhysicsSceneManager] Not initialized, cannot track soft body')
+      return
+    }
+
+    if (this.softBodies.has(id)) {
+      this.removeSoftBody(id)
+    }
+
+    this.softBodies.set(id, { body, mesh, indexAssociation, category, external: true })
+    this.idsByPointer.set(this.Ammo.getPointer(body), id)
+    body.__physicsId = id
+  }
+
   /**
    * Supprimer un soft body
    */
@@ -293,8 +570,9 @@ class PhysicsSceneManagerClass {
     const entry = this.softBodies.get(id)
     if (!entry) return false
 
-    this.world.removeSoftBody(entry.body)
+    if (!entry.external) this.world.removeSoftBody(entry.body)
     this.softBodies.delete(id)
+    this.forgetBody(id, entry.body)
 
     // Mettre à jour la liste globale
     ;(window as any).__softBodiesList = Array.from(this.softBodies.values())
@@ -315,8 +593,9 @@ class PhysicsSceneManagerClass {
 
   /**
    * Ajouter une constraint
+   * @param link - Bodies reliés, pour le rendu de debug
    */
-  addConstraint(id: string, constraint: any, category: string = 'default'): void {
+  addConstraint(id: string, constraint: any, category: string = 'default', link?: ConstraintLink): void {
     if (!this.isInitialized) {
       console.warn('[PhysicsSceneManager] Not initialized, cannot add constraint')
       return
@@ -328,7 +607,24 @@ class PhysicsSceneManagerClass {
     }
 
     this.world.addConstraint(constraint, true)
-    this.constraints.set(id, { constraint, category })
+    this.constraints.set(id, { constraint, category, link })
+  }
+
+  /**
+   * Enregistrer une constraint déjà présente dans le monde (rendu de debug)
+   * L'ajout / retrait du monde reste à la charge de l'appelant
+   */
+  trackConstraint(id: string, constraint: any, link: ConstraintLink, category: string = 'default'): void {
+    if (!this.isInitialized) {
+      console.warn('[PhysicsSceneManager] Not initialized, cannot track constraint')
+      return
+    }
+
+    if (this.constraints.has(id)) {
+      this.removeConstraint(id)
+    }
+
+    this.constraints.set(id, { constraint, category, link, external: true })
   }
 
   /**
@@ -338,7 +634,7 @@ class PhysicsSceneManagerClass {
     const entry = this.constraints.get(id)
     if (!entry) return false
 
-    this.world.removeConstraint(entry.constraint)
+    if (!entry.external) this.world.removeConstraint(entry.constraint)
     this.constraints.delete(id)
     return true
   }
@@ -405,6 +701,627 @@ class PhysicsSceneManagerClass {
     if (!this.isInitialized || !this.world) return
 
     this.world.stepSimulation(deltaTime, DEFAULT_CONFIG.maxSubSteps)
+    this.processContacts()
+  }
+
+  // =============================================
+  // CONTACTS
+  // =============================================
+
+  /**
+   * S'abonner aux débuts de contact (retourne la fonction de désabonnement)
+   */
+  onContactBegin(listener: ContactListener): () => void {
+    this.contactBeginListeners.add(listener)
+    return () => {
+      this.contactBeginListeners.delete(listener)
+    }
+  }
+
+  /**
+   * S'abonner aux fins de contact (retourne la fonction de désabonnement)
+   */
+  onContactEnd(listener: ContactListener): () => void {
+    this.contactEndListeners.add(listener)
+    return () => {
+      this.contactEndListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Relever les contacts après un pas de simulation
+   * Appelé par step(), ou par le code qui avance le monde lui-même (AmmoVolumeDemo)
+   */
+  processContacts(): void {
+    if (!this.isInitialized || !this.world) return
+    if (this.contactBeginListeners.size === 0 && this.contactEndListeners.size === 0) return
+
+    const current: Map<string, ContactEvent> = new Map()
+    this.collectRigidContacts(current)
+    this.collectSoftContacts(current)
+
+    for (const [key, contact] of current) {
+      if (!this.activeContacts.has(key)) {
+        this.contactBeginListeners.forEach(listener => listener(contact))
+      }
+    }
+    for (const [key, contact] of this.activeContacts) {
+      if (!current.has(key)) {
+        this.contactEndListeners.forEach(listener => listener(contact))
+      }
+    }
+    this.activeContacts = current
+  }
+
+  /**
+   * Contacts rigid / rigid : manifolds du dispatcher (point le plus profond, impulsion totale)
+   */
+  private collectRigidContacts(out: Map<string, ContactEvent>): void {
+    const dispatcher = this.world.getDispatcher()
+    const numManifolds = dispatcher.getNumManifolds()
+
+    for (let i = 0; i < numManifolds; i++) {
+      const manifold = dispatcher.getManifoldByIndexInternal(i)
+      const bodyA = this.idsByPointer.get(this.Ammo.getPointer(manifold.getBody0()))
+      const bodyB = this.idsByPointer.get(this.Ammo.getPointer(manifold.getBody1()))
+      if (!bodyA || !bodyB) continue
+      if (this.rigidBodies.get(bodyA)?.noContacts || this.rigidBodies.get(bodyB)?.noContacts) continue
+
+      let deepest: any = null
+      let minDistance = 0
+      let impulse = 0
+      for (let j = 0; j < manifold.getNumContacts(); j++) {
+        const point = manifold.getContactPoint(j)
+        const distance = point.getDistance()
+        if (distance > 0) continue
+        impulse += point.getAppliedImpulse()
+        if (!deepest || distance < minDistance) {
+          deepest = point
+          minDistance = distance
+        }
+      }
+      if (!deepest) continue
+
+      const position = deepest.getPositionWorldOnB()
+      const normal = deepest.get_m_normalWorldOnB()
+      out.set(`${bodyA}\n${bodyB}`, {
+        bodyA,
+        bodyB,
+        categoryA: this.getCategory(bodyA),
+        categoryB: this.getCategory(bodyB),
+        point: new THREE.Vector3(position.x(), position.y(), position.z()),
+        normal: new THREE.Vector3(normal.x(), normal.y(), normal.z()),
+        impulse,
+      })
+    }
+  }
+
+  /**
+   * Contacts rigid / soft body : Ammo.js n'expose pas les contacts des soft bodies (pas de manifolds)
+   * Un passage sur les nodes donne leurs positions et l'AABB du soft body : seuls les rigid bodies
+   * mobiles d'une autre catégorie qui chevauchent cette AABB sont comparés aux nodes
+   * (rigid body approché par la sphère inscrite dans son AABB)
+   */
+  private collectSoftContacts(out: Map<string, ContactEvent>): void {
+    if (this.softBodies.size === 0) return
+
+    // Rigid bodies mobiles (dynamiques ou kinematic) : centre, rayon, masse inverse
+    const movers: Array<{ id: string; entry: RigidBodyEntry; center: THREE.Vector3; radius: number; invMass: number }> = []
+    for (const [id, entry] of this.rigidBodies) {
+      const body = entry.body
+      if (entry.noContacts || (body.isStaticObject() && !body.isKinematicObject())) continue
+
+      body.getAabb(this.aabbMin, this.aabbMax)
+      const min = this.aabbMin, max = this.aabbMax
+      movers.push({
+        id,
+        entry,
+        center: new THREE.Vector3((min.x() + max.x()) / 2, (min.y() + max.y()) / 2, (min.z() + max.z()) / 2),
+        radius: Math.min(max.x() - min.x(), max.y() - min.y(), max.z() - min.z()) / 2,
+        // Kinematic = masse infinie
+        invMass: body.isKinematicObject() ? 0 : 1 / (body.__physicsMass || SOFT_CONTACT_CONFIG.defaultMass),
+      })
+    }
+    if (movers.length === 0) return
+
+    for (const [softId, softEntry] of this.softBodies) {
+      const candidates = movers.filter(mover => mover.entry.category !== softEntry.category)
+      if (candidates.length === 0) continue
+
+      const nodes = softEntry.body.get_m_nodes()
+      const numNodes = nodes.size()
+
+      // Positions des nodes et AABB du soft body
+      if (this.softNodePositions.length < numNodes * 3) {
+        this.softNodePositions = new Float32Array(numNodes * 3)
+      }
+      const positions = this.softNodePositions
+      let minX = Infinity, minY = Infinity, minZ = Infinity
+      let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity
+      for (let n = 0; n < numNodes; n++) {
+        const x = nodes.at(n).get_m_x()
+        const px = x.x(), py = x.y(), pz = x.z()
+        positions[n * 3] = px
+        positions[n * 3 + 1] = py
+        positions[n * 3 + 2] = pz
+        if (px < minX) minX = px
+        if (px > maxX) maxX = px
+        if (py < minY) minY = py
+        if (py > maxY) maxY = py
+        if (pz < minZ) minZ = pz
+        if (pz > maxZ) maxZ = pz
+      }
+
+      // Les nodes restent à distance de marge du rigid body
+      const softMargin = this.Ammo.castObject(softEntry.body, this.Ammo.btCollisionObject).getCollisionShape().getMargin()
+
+      for (const mover of candidates) {
+        const { center, radius } = mover
+        const threshold = radius + softMargin + SOFT_CONTACT_CONFIG.margin
+
+        // Sphère du rigid body hors de l'AABB du soft body : pas de contact
+        if (
+          center.x + threshold < minX || center.x - threshold > maxX ||
+          center.y + threshold < minY || center.y - threshold > maxY ||
+          center.z + threshold < minZ || center.z - threshold > maxZ
+        ) continue
+
+        const thresholdSq = threshold * threshold
+        const velocity = mover.entry.body.getLinearVelocity()
+        const vx = velocity.x(), vy = velocity.y(), vz = velocity.z()
+
+        // Node le plus proche (point de contact) et impulsion sur les nodes touchés :
+        // ramener chaque node à la vitesse du rigid body le long de sa normale (masse réduite)
+        let closestNode: any = null
+        let closestDistSq = thresholdSq
+        let impulse = 0
+        for (let n = 0; n < numNodes; n++) {
+          const dx = positions[n * 3]! - center.x
+          const dy = positions[n * 3 + 1]! - center.y
+          const dz = positions[n * 3 + 2]! - center.z
+          const distSq = dx * dx + dy * dy + dz * dz
+          if (distSq >= thresholdSq) continue
+
+          const node = nodes.at(n)
+          if (distSq < closestDistSq) {
+            closestDistSq = distSq
+            closestNode = node
+          }
+
+          const invMassSum = mover.invMass + node.get_m_im()
+          if (invMassSum <= 0) continue
+          const normal = node.get_m_n()
+          const nodeVelocity = node.get_m_v()
+          const length = Math.hypot(normal.x(), normal.y(), normal.z()) || 1
+          const approachSpeed = -(
+            (vx - nodeVelocity.x()) * normal.x() +
+            (vy - nodeVelocity.y()) * normal.y() +
+            (vz - nodeVelocity.z()) * normal.z()
+          ) / length
+          if (approachSpeed > 0) impulse += approachSpeed / invMassSum
+        }
+        if (!closestNode) continue
+
+        // Normale du node (vers l'extérieur du soft body = vers le rigid body)
+        const x = closestNode.get_m_x()
+        const n = closestNode.get_m_n()
+        const normal = new THREE.Vector3(n.x(), n.y(), n.z()).normalize()
+
+        out.set(`${mover.id}\n${softId}`, {
+          bodyA: mover.id,
+          bodyB: softId,
+          categoryA: mover.entry.category,
+          categoryB: softEntry.category,
+          point: new THREE.Vector3(x.x(), x.y(), x.z()),
+          normal,
+          impulse,
+        })
+      }
+    }
+  }
+
+  // =============================================
+  // REQUÊTES
+  // =============================================
+
+  /**
+   * Premier body touché par un rayon (rigid bodies et faces des soft bodies)
+   */
+  raycast(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number, category?: CategoryFilter): QueryHit | null {
+    if (!this.isInitialized || !this.world) return null
+
+    const dir = direction.clone().normalize()
+    const rigidHit = this.raycastRigidBodies(origin, dir, maxDistance, category)
+    const softHit = this.raycastSoftBodies(origin, dir, rigidHit?.distance ?? maxDistance, category)
+    return softHit ?? rigidHit
+  }
+
+  /**
+   * Premier body touché par une sphère lancée le long d'un rayon
+   * Approximation : rayon central + couronne de rayons au bord de la sphère
+   */
+  sphereSweep(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    radius: number,
+    maxDistance: number,
+    category?: CategoryFilter
+  ): QueryHit | null {
+    const dir = direction.clone().normalize()
+    let best = this.raycast(origin, dir, maxDistance, category)
+    if (radius <= 0) return best
+
+    // Base orthonormée du plan perpendiculaire au rayon
+    const side = new THREE.Vector3(0, 1, 0).cross(dir)
+    if (side.lengthSq() < 1e-6) side.set(1, 0, 0).cross(dir)
+    side.normalize()
+    const up = new THREE.Vector3().crossVectors(dir, side)
+
+    const rayOrigin = new THREE.Vector3()
+    for (let i = 0; i < SWEEP_RING_RAYS; i++) {
+      const angle = (i / SWEEP_RING_RAYS) * Math.PI * 2
+      rayOrigin.copy(origin)
+        .addScaledVector(side, Math.cos(angle) * radius)
+        .addScaledVector(up, Math.sin(angle) * radius)
+
+      const hit = this.raycast(rayOrigin, dir, best?.distance ?? maxDistance, category)
+      if (hit && (!best || hit.distance < best.distance)) best = hit
+    }
+    return best
+  }
+
+  /**
+   * Point le plus proche d'une position sur les bodies enregistrés
+   * Exact pour les sphères, boxes et soft bodies ; AABB pour les autres formes
+   */
+  closestPoint(point: THREE.Vector3, maxDistance: number = Infinity, category?: CategoryFilter): QueryHit | null {
+    if (!this.isInitialized || !this.world) return null
+
+    let best: QueryHit | null = null
+    const candidate = new THREE.Vector3()
+
+    for (const [id, entry] of this.rigidBodies) {
+      if (!matchesCategory(entry.category, category)) continue
+
+      const normal = new THREE.Vector3()
+      this.closestPointOnRigidBody(entry.body, point, candidate, normal)
+      const distance = candidate.distanceTo(point)
+      if (distance > maxDistance || (best && distance >= best.distance)) continue
+
+      best = { bodyId: id, category: entry.category, point: candidate.clone(), normal, distance }
+    }
+
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3()
+    for (const [id, entry] of this.softBodies) {
+      if (!matchesCategory(entry.category, category)) continue
+
+      const faces = entry.body.get_m_faces()
+      for (let f = 0; f < faces.size(); f++) {
+        this.readFace(faces.at(f), a, b, c)
+        closestPointOnTriangle(point, a, b, c, candidate)
+        const distance = candidate.distanceTo(point)
+        if (distance > maxDistance || (best && distance >= best.distance)) continue
+
+        const normal = new THREE.Vector3().crossVectors(_edge1.subVectors(b, a), _edge2.subVectors(c, a)).normalize()
+        best = { bodyId: id, category: entry.category, point: candidate.clone(), normal, distance, faceIndex: f }
+      }
+    }
+
+    return best
+  }
+
+  /**
+   * Raycast Ammo sur les rigid bodies enregistrés (les soft bodies sont traités à part :
+   * le rayTest d'Ammo.js ne donne ni leur normale ni la face touchée)
+   */
+  private raycastRigidBodies(origin: THREE.Vector3, dir: THREE.Vector3, maxDistance: number, category?: CategoryFilter): QueryHit | null {
+    const Ammo = this.Ammo
+    const from = new Ammo.btVector3(origin.x, origin.y, origin.z)
+    const to = new Ammo.btVector3(
+      origin.x + dir.x * maxDistance,
+      origin.y + dir.y * maxDistance,
+      origin.z + dir.z * maxDistance
+    )
+    const callback = new Ammo.AllHitsRayResultCallback(from, to)
+    this.world.rayTest(from, to, callback)
+
+    let best: QueryHit | null = null
+    if (callback.hasHit()) {
+      const objects = callback.get_m_collisionObjects()
+      const points = callback.get_m_hitPointWorld()
+      const normals = callback.get_m_hitNormalWorld()
+      const fractions = callback.get_m_hitFractions()
+
+      for (let i = 0; i < objects.size(); i++) {
+        const distance = fractions.at(i) * maxDistance
+        if (best && distance >= best.distance) continue
+
+        const bodyId = this.idsByPointer.get(Ammo.getPointer(objects.at(i)))
+        const entry = bodyId ? this.rigidBodies.get(bodyId) : undefined
+        if (!bodyId || !entry || !matchesCategory(entry.category, category)) continue
+
+        const hitPoint = points.at(i)
+        const hitNormal = normals.at(i)
+        best = {
+          bodyId,
+          category: entry.category,
+          point: new THREE.Vector3(hitPoint.x(), hitPoint.y(), hitPoint.z()),
+          normal: new THREE.Vector3(hitNormal.x(), hitNormal.y(), hitNormal.z()),
+          distance,
+        }
+      }
+    }
+
+    Ammo.destroy(callback)
+    Ammo.destroy(from)
+    Ammo.destroy(to)
+    return best
+  }
+
+  /**
+   * Raycast sur les faces des soft bodies enregistrés
+   */
+  private raycastSoftBodies(origin: THREE.Vector3, dir: THREE.Vector3, maxDistance: number, category?: CategoryFilter): QueryHit | null {
+    let best: QueryHit | null = null
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3()
+
+    for (const [id, entry] of this.softBodies) {
+      if (!matchesCategory(entry.category, category)) continue
+
+      const faces = entry.body.get_m_faces()
+      for (let f = 0; f < faces.size(); f++) {
+        this.readFace(faces.at(f), a, b, c)
+        const distance = intersectTriangle(origin, dir, a, b, c)
+        if (distance === null || distance > (best?.distance ?? maxDistance)) continue
+
+        // Normale de la face, orientée vers l'origine du rayon
+        const normal = new THREE.Vector3().crossVectors(_edge1.subVectors(b, a), _edge2.subVectors(c, a)).normalize()
+        if (normal.dot(dir) > 0) normal.negate()
+
+        best = {
+          bodyId: id,
+          category: entry.category,
+          point: origin.clone().addScaledVector(dir, distance),
+          normal,
+          distance,
+          faceIndex: f,
+        }
+      }
+    }
+    return best
+  }
+
+  private readFace(face: any, a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): void {
+    const xa = face.get_m_n(0).get_m_x()
+    const xb = face.get_m_n(1).get_m_x()
+    const xc = face.get_m_n(2).get_m_x()
+    a.set(xa.x(), xa.y(), xa.z())
+    b.set(xb.x(), xb.y(), xb.z())
+    c.set(xc.x(), xc.y(), xc.z())
+  }
+
+  /**
+   * Point le plus proche sur un rigid body (sphère, box orientée, capsule, sinon AABB)
+   */
+  private closestPointOnRigidBody(body: any, point: THREE.Vector3, out: THREE.Vector3, normal: THREE.Vector3): void {
+    const shape: ShapeInfo | undefined = body.__physicsShape
+
+    if (!shape) {
+      body.getAabb(this.aabbMin, this.aabbMax)
+      const min = this.aabbMin, max = this.aabbMax
+      out.set(
+        THREE.MathUtils.clamp(point.x, min.x(), max.x()),
+        THREE.MathUtils.clamp(point.y, min.y(), max.y()),
+        THREE.MathUtils.clamp(point.z, min.z(), max.z())
+      )
+      normal.subVectors(point, out)
+      if (normal.lengthSq() < 1e-12) normal.set(0, 1, 0)
+      normal.normalize()
+      return
+    }
+
+    const transform = body.getWorldTransform()
+    const origin = transform.getOrigin()
+    const rotation = transform.getRotation()
+    _bodyPosition.set(origin.x(), origin.y(), origin.z())
+    _bodyQuaternion.set(rotation.x(), rotation.y(), rotation.z(), rotation.w())
+
+    if (shape.type === 'sphere') {
+      normal.subVectors(point, _bodyPosition)
+      if (normal.lengthSq() < 1e-12) normal.set(0, 1, 0)
+      normal.normalize()
+      out.copy(_bodyPosition).addScaledVector(normal, shape.radius)
+      return
+    }
+
+    if (shape.type === 'capsule') {
+      // Sphère centrée sur le point le plus proche du segment central
+      const halfHeight = shape.height / 2
+      _localPoint.subVectors(point, _bodyPosition).applyQuaternion(_bodyQuaternion.clone().invert())
+      out.set(0, THREE.MathUtils.clamp(_localPoint.y, -halfHeight, halfHeight), 0)
+      normal.subVectors(_localPoint, out)
+      if (normal.lengthSq() < 1e-12) normal.set(1, 0, 0)
+      normal.normalize()
+      out.addScaledVector(normal, shape.radius)
+      out.applyQuaternion(_bodyQuaternion).add(_bodyPosition)
+      normal.applyQuaternion(_bodyQuaternion)
+      return
+    }
+
+    // Box : calcul dans le repère local
+    const { halfExtents } = shape
+    _localPoint.subVectors(point, _bodyPosition).applyQuaternion(_bodyQuaternion.clone().invert())
+    const inside =
+      Math.abs(_localPoint.x) <= halfExtents.x &&
+      Math.abs(_localPoint.y) <= halfExtents.y &&
+      Math.abs(_localPoint.z) <= halfExtents.z
+
+    if (inside) {
+      // Projeter sur la face la plus proche
+      const gaps = [
+        halfExtents.x - Math.abs(_localPoint.x),
+        halfExtents.y - Math.abs(_localPoint.y),
+        halfExtents.z - Math.abs(_localPoint.z),
+      ]
+      const axis = gaps.indexOf(Math.min(...gaps))
+      const sign = Math.sign(_localPoint.getComponent(axis)) || 1
+      out.copy(_localPoint).setComponent(axis, sign * halfExtents.getComponent(axis))
+      normal.set(0, 0, 0).setComponent(axis, sign)
+    } else {
+      out.set(
+        THREE.MathUtils.clamp(_localPoint.x, -halfExtents.x, halfExtents.x),
+        THREE.MathUtils.clamp(_localPoint.y, -halfExtents.y, halfExtents.y),
+        THREE.MathUtils.clamp(_localPoint.z, -halfExtents.z, halfExtents.z)
+      )
+      normal.subVectors(_localPoint, out).normalize()
+    }
+
+    out.applyQuaternion(_bodyQuaternion).add(_bodyPosition)
+    normal.applyQuaternion(_bodyQuaternion)
+  }
+
+  // =============================================
+  // SNAPSHOTS
+  // =============================================
+
+  /**
+   * Capturer l'état dynamique des bodies enregistrés (statiques exclus)
+   * @param category - Limiter aux catégories données (toutes si absent)
+   * @param target - Snapshot précédent à réécrire : ses tableaux sont réutilisés
+   *   quand le nombre de nodes n'a pas changé (historique sans allocation)
+   */
+  snapshot(category?: CategoryFilter, target?: PhysicsSnapshot): PhysicsSnapshot {
+    const result: PhysicsSnapshot = target ?? { rigidBodies: {}, softBodies: {} }
+    const previousRigid = result.rigidBodies
+    const previousSoft = result.softBodies
+    result.rigidBodies = {}
+    result.softBodies = {}
+    if (!this.isInitialized) return result
+
+    for (const [id, entry] of this.rigidBodies) {
+      const { body } = entry
+      if (!matchesCategory(entry.category, category)) continue
+      if (body.isStaticObject() && !body.isKinematicObject()) continue
+
+      const transform = body.getWorldTransform()
+      const p = transform.getOrigin()
+      const q = transform.getRotation()
+      const v = body.getLinearVelocity()
+      const w = body.getAngularVelocity()
+      const state = previousRigid[id] ?? {
+        position: [0, 0, 0],
+        quaternion: [0, 0, 0, 1],
+        linearVelocity: [0, 0, 0],
+        angularVelocity: [0, 0, 0],
+      }
+      state.position[0] = p.x(); state.position[1] = p.y(); state.position[2] = p.z()
+      state.quaternion[0] = q.x(); state.quaternion[1] = q.y(); state.quaternion[2] = q.z(); state.quaternion[3] = q.w()
+      state.linearVelocity[0] = v.x(); state.linearVelocity[1] = v.y(); state.linearVelocity[2] = v.z()
+      state.angularVelocity[0] = w.x(); state.angularVelocity[1] = w.y(); state.angularVelocity[2] = w.z()
+      result.rigidBodies[id] = state
+    }
+
+    for (const [id, entry] of this.softBodies) {
+      if (!matchesCategory(entry.category, category)) continue
+
+      const nodes = entry.body.get_m_nodes()
+      const numNodes = nodes.size()
+      const previous = previousSoft[id]
+      const reuse = previous?.positions.length === numNodes * 3
+      const positions = reuse ? previous.positions : new Float32Array(numNodes * 3)
+      const previousPositions = reuse ? previous.previousPositions : new Float32Array(numNodes * 3)
+      const velocities = reuse ? previous.velocities : new Float32Array(numNodes * 3)
+      for (let i = 0; i < numNodes; i++) {
+        const node = nodes.at(i)
+        const x = node.get_m_x()
+        const q = node.get_m_q()
+        const v = node.get_m_v()
+        const i3 = i * 3
+        positions[i3] = x.x(); positions[i3 + 1] = x.y(); positions[i3 + 2] = x.z()
+        previousPositions[i3] = q.x(); previousPositions[i3 + 1] = q.y(); previousPositions[i3 + 2] = q.z()
+        velocities[i3] = v.x(); velocities[i3 + 1] = v.y(); velocities[i3 + 2] = v.z()
+      }
+      result.softBodies[id] = { positions, previousPositions, velocities }
+    }
+
+    return result
+  }
+
+  /**
+   * Restaurer un snapshot
+   * Les IDs absents de la scène (ou dont le nombre de nodes a changé) sont ignorés,
+   * les bodies absents du snapshot restent tels quels.
+   * Les contacts en cours sont oubliés sans événement de fin.
+   */
+  restore(snapshot: PhysicsSnapshot): void {
+    if (!this.isInitialized) return
+    const Ammo = this.Ammo
+
+    const transform = new Ammo.btTransform()
+    const vector = new Ammo.btVector3(0, 0, 0)
+    const quaternion = new Ammo.btQuaternion(0, 0, 0, 1)
+
+    for (const [id, state] of Object.entries(snapshot.rigidBodies)) {
+      const body = this.rigidBodies.get(id)?.body
+      if (!body) continue
+
+      transform.setIdentity()
+      vector.setValue(...state.position)
+      transform.setOrigin(vector)
+      quaternion.setValue(...state.quaternion)
+      transform.setRotation(quaternion)
+      body.setWorldTransform(transform)
+      body.getMotionState()?.setWorldTransform(transform)
+
+      vector.setValue(...state.linearVelocity)
+      body.setLinearVelocity(vector)
+      vector.setValue(...state.angularVelocity)
+      body.setAngularVelocity(vector)
+      body.clearForces()
+      body.activate()
+    }
+
+    for (const [id, state] of Object.entries(snapshot.softBodies)) {
+      const entry = this.softBodies.get(id)
+      if (!entry) continue
+
+      const nodes = entry.body.get_m_nodes()
+      const numNodes = nodes.size()
+      if (numNodes * 3 !== state.positions.length) {
+        console.warn(`[PhysicsSceneManager] Snapshot of ${id} does not match its node count, skipping`)
+        continue
+      }
+
+      const { positions, previousPositions, velocities } = state
+      for (let i = 0; i < numNodes; i++) {
+        const node = nodes.at(i)
+        const i3 = i * 3
+        node.get_m_x().setValue(positions[i3]!, positions[i3 + 1]!, positions[i3 + 2]!)
+        node.get_m_q().setValue(previousPositions[i3]!, previousPositions[i3 + 1]!, previousPositions[i3 + 2]!)
+        node.get_m_v().setValue(velocities[i3]!, velocities[i3 + 1]!, velocities[i3 + 2]!)
+      }
+      entry.body.activate()
+    }
+
+    Ammo.destroy(transform)
+    Ammo.destroy(vector)
+    Ammo.destroy(quaternion)
+
+    this.activeContacts.clear()
+  }
+
+  private getCategory(id: string): string {
+    return this.rigidBodies.get(id)?.category ?? this.softBodies.get(id)?.category ?? 'default'
+  }
+
+  /**
+   * Oublier un body supprimé (référence inverse et contacts en cours, sans événement de fin)
+   */
+  private forgetBody(id: string, body: any): void {
+    this.idsByPointer.delete(this.Ammo.getPointer(body))
+    for (const [key, contact] of this.activeContacts) {
+      if (contact.bodyA === id || contact.bodyB === id) this.activeContacts.delete(key)
+    }
   }
 
   /**
@@ -415,14 +1332,14 @@ class PhysicsSceneManagerClass {
 
     // Rigid bodies
     for (const entry of this.rigidBodies.values()) {
-      if (entry.mesh && entry.body) {
+      if (entry.mesh && entry.body && !entry.external) {
         this.syncRigidBodyMesh(entry.body, entry.mesh)
       }
     }
 
     // Soft bodies
     for (const entry of this.softBodies.values()) {
-      this.syncSoftBodyMesh(entry)
+      if (!entry.external) this.syncSoftBodyMesh(entry)
     }
   }
 
@@ -514,6 +1431,12 @@ class PhysicsSceneManagerClass {
       this.Ammo?.destroy(this.transformAux)
       this.transformAux = null
     }
+    if (this.aabbMin) {
+      this.Ammo?.destroy(this.aabbMin)
+      this.Ammo?.destroy(this.aabbMax)
+      this.aabbMin = null
+      this.aabbMax = null
+    }
 
     this.world = null
     this.Ammo = null
@@ -561,6 +1484,11 @@ class PhysicsSceneManagerClass {
       body.setActivationState(4) // DISABLE_DEACTIVATION
     }
 
+    // Masse pour l'estimation des impulsions de contact (soft bodies)
+    body.__physicsMass = mass
+    // Forme pour les requêtes exactes (closestPoint)
+    body.__physicsShape = shape.__physicsShape
+
     return body
   }
 
@@ -571,6 +1499,8 @@ class PhysicsSceneManagerClass {
     if (!this.isInitialized) return null
     const shape = new this.Ammo.btSphereShape(radius)
     shape.setMargin(DEFAULT_CONFIG.margin)
+    const shapeInfo: ShapeInfo = { type: 'sphere', radius }
+    shape.__physicsShape = shapeInfo
     return shape
   }
 
@@ -583,6 +1513,20 @@ class PhysicsSceneManagerClass {
       new this.Ammo.btVector3(halfExtents.x, halfExtents.y, halfExtents.z)
     )
     shape.setMargin(DEFAULT_CONFIG.margin)
+    const shapeInfo: ShapeInfo = { type: 'box', halfExtents: halfExtents.clone() }
+    shape.__physicsShape = shapeInfo
+    return shape
+  }
+
+  /**
+   * Créer une capsule collision shape (axe Y)
+   */
+  createCapsuleShape(radius: number, height: number): any {
+    if (!this.isInitialized) return null
+    const shape = new this.Ammo.btCapsuleShape(radius, height)
+    shape.setMargin(DEFAULT_CONFIG.margin)
+    const shapeInfo: ShapeInfo = { type: 'capsule', radius, height }
+    shape.__physicsShape = shapeInfo
     return shape
   }
 
@@ -590,6 +1534,210 @@ class PhysicsSceneManagerClass {
   // DEBUG
   // =============================================
 
+  /**
+   * Résumé des bodies enregistrés (masse, vitesse), triés par catégorie puis ID
+   */
+  getBodyInfos(): BodyDebugInfo[] {
+    const infos: BodyDebugInfo[] = []
+    if (!this.isInitialized) return infos
+
+    for (const [id, { body, category }] of this.rigidBodies) {
+      const isKinematic = body.isKinematicObject()
+      const motion = isKinematic ? 'kinematic' : body.isStaticObject() ? 'static' : 'dynamic'
+      const v = body.getLinearVelocity()
+      const velocity: [number, number, number] = [v.x(), v.y(), v.z()]
+      infos.push({
+        id,
+        category,
+        type: 'rigid',
+        motion,
+        mass: motion === 'static' ? 0 : body.__physicsMass ?? null,
+        velocity,
+        speed: Math.hypot(...velocity),
+      })
+    }
+
+    for (const [id, { body, category }] of this.softBodies) {
+      const nodes = body.get_m_nodes()
+      const numNodes = nodes.size()
+      const velocity: [number, number, number] = [0, 0, 0]
+      for (let i = 0; i < numNodes; i++) {
+        const v = nodes.at(i).get_m_v()
+        velocity[0] += v.x(); velocity[1] += v.y(); velocity[2] += v.z()
+      }
+      if (numNodes > 0) {
+        velocity[0] /= numNodes; velocity[1] /= numNodes; velocity[2] /= numNodes
+      }
+      infos.push({
+        id,
+        category,
+        type: 'soft',
+        motion: 'dynamic',
+        mass: body.getTotalMass(),
+        velocity,
+        speed: Math.hypot(...velocity),
+      })
+    }
+
+    return infos.sort((a, b) => a.category.localeCompare(b.category) || a.id.localeCompare(b.id))
+  }
+
+  /**
+   * Dessiner l'état physique (façon btIDebugDraw d'Ammo, non exposé par ammo.js)
+   */
+  debugDraw(drawer: PhysicsDebugDrawer, options: DebugDrawOptions): void {
+    if (!this.isInitialized) return
+    const { colors } = DEBUG_DRAW_CONFIG
+
+    if (options.shapes) {
+      for (const { body } of this.rigidBodies.values()) {
+        const color = body.isKinematicObject() ? colors.kinematic
+          : body.isStaticObject() ? colors.static
+          : colors.dynamic
+        this.drawRigidBody(drawer, body, color)
+      }
+    }
+
+    if (options.softBodies) {
+      for (const { body } of this.softBodies.values()) {
+        const faces = body.get_m_faces()
+        const numFaces = faces.size()
+        for (let f = 0; f < numFaces; f++) {
+          const face = faces.at(f)
+          for (let k = 0; k < 3; k++) {
+            const a = face.get_m_n(k).get_m_x()
+            const b = face.get_m_n((k + 1) % 3).get_m_x()
+            _debugFrom.set(a.x(), a.y(), a.z())
+            _debugTo.set(b.x(), b.y(), b.z())
+            drawer.drawLine(_debugFrom, _debugTo, colors.softLink)
+          }
+        }
+
+        const nodes = body.get_m_nodes()
+        const numNodes = nodes.size()
+        for (let i = 0; i < numNodes; i++) {
+          const x = nodes.at(i).get_m_x()
+          _debugFrom.set(x.x(), x.y(), x.z())
+          drawer.drawPoint(_debugFrom, colors.softNode)
+        }
+      }
+    }
+
+    if (options.constraints) {
+      for (const { link } of this.constraints.values()) {
+        if (!link) continue
+        const color = link.spring ? colors.spring : colors.joint
+        this.readBodyPoint(link.bodyA, link.pivotA, _debugFrom)
+        this.readBodyPoint(link.bodyB, link.pivotB, _debugTo)
+        drawer.drawLine(_debugFrom, _debugTo, color)
+        drawer.drawPoint(_debugFrom, color)
+        drawer.drawPoint(_debugTo, color)
+      }
+    }
+
+    if (options.contacts) {
+      for (const contact of this.activeContacts.values()) {
+        _debugTo.copy(contact.point).addScaledVector(contact.normal, DEBUG_DRAW_CONFIG.normalLength)
+        drawer.drawLine(contact.point, _debugTo, colors.contact)
+        drawer.drawPoint(contact.point, colors.contact)
+      }
+    }
+  }
+
+  /**
+   * Point d'un body dans le monde (pivot local, origine si absent)
+   */
+  private readBodyPoint(body: any, pivot: THREE.Vector3 | undefined, out: THREE.Vector3): void {
+    const transform = body.getWorldTransform()
+    const origin = transform.getOrigin()
+    const rotation = transform.getRotation()
+    out.set(0, 0, 0)
+    if (pivot) {
+      _bodyQuaternion.set(rotation.x(), rotation.y(), rotation.z(), rotation.w())
+      out.copy(pivot).applyQuaternion(_bodyQuaternion)
+    }
+    out.x += origin.x(); out.y += origin.y(); out.z += origin.z()
+  }
+
+  /**
+   * Dessiner la forme d'un rigid body (AABB si la forme est inconnue)
+   */
+  private drawRigidBody(drawer: PhysicsDebugDrawer, body: any, color: number): void {
+    const shape: ShapeInfo | undefined = body.__physicsShape
+    const transform = body.getWorldTransform()
+    const origin = transform.getOrigin()
+    const rotation = transform.getRotation()
+    _bodyPosition.set(origin.x(), origin.y(), origin.z())
+    _bodyQuaternion.set(rotation.x(), rotation.y(), rotation.z(), rotation.w())
+
+    if (shape?.type === 'sphere') {
+      for (let axis = 0; axis < 3; axis++) {
+        this.drawCircle(drawer, _bodyPosition, axis, shape.radius, color)
+      }
+      return
+    }
+
+    if (shape?.type === 'capsule') {
+      const halfHeight = shape.height / 2
+      const center = _debugCorners[0]!  // drawCircle utilise _debugFrom / _debugTo
+      for (const sign of [-1, 1]) {
+        center.set(0, sign * halfHeight, 0).applyQuaternion(_bodyQuaternion).add(_bodyPosition)
+        this.drawCircle(drawer, center, 1, shape.radius, color)
+      }
+      for (const [x, z] of [[1, 0], [-1, 0], [0, 1], [0, -1]] as const) {
+        _debugFrom.set(x * shape.radius, -halfHeight, z * shape.radius).applyQuaternion(_bodyQuaternion).add(_bodyPosition)
+        _debugTo.set(x * shape.radius, halfHeight, z * shape.radius).applyQuaternion(_bodyQuaternion).add(_bodyPosition)
+        drawer.drawLine(_debugFrom, _debugTo, color)
+      }
+      return
+    }
+
+    // Box orientée, ou AABB (repère monde)
+    if (shape?.type === 'box') {
+      const { halfExtents } = shape
+      _debugCorners.forEach((corner, i) => {
+        corner.set(
+          i & 1 ? halfExtents.x : -halfExtents.x,
+          i & 2 ? halfExtents.y : -halfExtents.y,
+          i & 4 ? halfExtents.z : -halfExtents.z
+        ).applyQuaternion(_bodyQuaternion).add(_bodyPosition)
+      })
+    } else {
+      body.getAabb(this.aabbMin, this.aabbMax)
+      const min = this.aabbMin, max = this.aabbMax
+      _debugCorners.forEach((corner, i) => {
+        corner.set(i & 1 ? max.x() : min.x(), i & 2 ? max.y() : min.y(), i & 4 ? max.z() : min.z())
+      })
+    }
+
+    // 12 arêtes : coins dont les indices diffèrent d'un seul bit
+    for (let i = 0; i < 8; i++) {
+      for (const bit of [1, 2, 4]) {
+        if (i & bit) continue
+        drawer.drawLine(_debugCorners[i]!, _debugCorners[i | bit]!, color)
+      }
+    }
+  }
+
+  /**
+   * Cercle dans le plan orthogonal à l'axe local donné (0 = X, 1 = Y, 2 = Z) du body courant
+   */
+  private drawCircle(drawer: PhysicsDebugDrawer, center: THREE.Vector3, axis: number, radius: number, color: number): void {
+    const segments = DEBUG_DRAW_CONFIG.circleSegments
+    _debugAxisU.set(0, 0, 0).setComponent((axis + 1) % 3, radius).applyQuaternion(_bodyQuaternion)
+    _debugAxisV.set(0, 0, 0).setComponent((axis + 2) % 3, radius).applyQuaternion(_bodyQuaternion)
+
+    _debugFrom.copy(center).add(_debugAxisU)
+    for (let i = 1; i <= segments; i++) {
+      const angle = (i / segments) * Math.PI * 2
+      _debugTo.copy(center)
+        .addScaledVector(_debugAxisU, Math.cos(angle))
+        .addScaledVector(_debugAxisV, Math.sin(angle))
+      drawer.drawLine(_debugFrom, _debugTo, color)
+      _debugFrom.copy(_debugTo)
+    }
+  }
+
   /**
    * Obtenir des stats pour debug
    */
@@ -0,0 +1,223 @@
+/**
+ * SessionHistory - Historique persistant des rounds joués (IndexedDB)
+ *
+ * Architecture:
+ * - Singleton pattern pour accès global
+ * - Une entrée par round terminé (clé = id)
+ * - Export / import JSON de tout l'historique (fusion par id)
+ *
+ * L'état affiché (écran de statistiques) vit dans useSessionHistoryStore,
+ * ce module ne fait que lire et écrire la base.
+ */
+
+import type { FightMode, OpponentType, PhysicsPreset, PunchType } from '../stores/useGameStore'
+
+/**
+ * Méthode d'entrée utilisée pendant le round (celle qui a lancé le plus de coups)
+ */
+export type InputMethod = 'touch' | 'camera' | 'keyboard' | 'gamepad'
+
+/**
+ * Round terminé tel qu'enregistré dans l'historique
+ */
+export interface SessionRoundRecord {
+  id: string
+  date: number // Timestamp de fin du round
+  fightMode: FightMode
+  opponent: OpponentType
+  physicsPreset: PhysicsPreset
+  inputMethod: InputMethod
+  round: number       // Numéro du round dans le match (1-based)
+  totalRounds: number
+  duration: number    // Durée effectivement combattue (secondes)
+  hits: number
+  punches: Record<PunchType, number> // Coups lancés par type
+  maxCombo: number
+  averageStrength: number // Force moyenne des coups portés (0-1)
+}
+
+/**
+ * Format du fichier d'export
+ */
+export interface SessionHistoryExport {
+  version: number
+  exportedAt: number
+  rounds: SessionRoundRecord[]
+}
+
+// Configuration IndexedDB
+const DB_NAME = 'facepuncher'
+const DB_VERSION = 1
+const ROUNDS_STORE = 'rounds'
+
+// Version du format d'export
+const EXPORT_VERSION = 1
+
+const FIGHT_MODES: readonly FightMode[] = ['timer', 'ko', 'rhythm', 'target']
+const OPPONENTS: readonly OpponentType[] = ['sphere', 'box', 'fluffy', 'littlemac', 'multipart', 'brickwall']
+const PHYSICS_PRESETS: readonly PhysicsPreset[] = ['soft', 'medium', 'hard']
+const INPUT_METHODS: readonly InputMethod[] = ['touch', 'camera', 'keyboard', 'gamepad']
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+/**
+ * Valide un round lu depuis un fichier importé
+ */
+function parseRecord(raw: unknown): SessionRoundRecord | null {
+  if (!raw || typeof raw !== 'object') return null
+  const record = raw as Partial<SessionRoundRecord>
+
+  if (typeof record.id !== 'string' || !isCount(record.date)) return null
+  if (!record.fightMode || !FIGHT_MODES.includes(record.fightMode)) return null
+  if (!record.opponent || !OPPONENTS.includes(record.opponent)) return null
+  if (!record.physicsPreset || !PHYSICS_PRESETS.includes(record.physicsPreset)) return null
+  if (!record.inputMethod || !INPUT_METHODS.includes(record.inputMethod)) return null
+  if (!isCount(record.round) || !isCount(record.totalRounds) || !isCount(record.duration)) return null
+  if (!isCount(record.hits) || !isCount(record.maxCombo) || !isCount(record.averageStrength)) return null
+
+  const punches = record.punches
+  if (!punches || !isCount(punches.jab) || !isCount(punches.hook) || !isCount(punches.uppercut)) return null
+
+  return {
+    id: record.id,
+    date: record.date,
+    fightMode: record.fightMode,
+    opponent: record.opponent,
+    physicsPreset: record.physicsPreset,
+    inputMethod: record.inputMethod,
+    round: record.round,
+    totalRounds: record.totalRounds,
+    duration: record.duration,
+    hits: record.hits,
+    punches: { jab: punches.jab, hook: punches.hook, uppercut: punches.uppercut },
+    maxCombo: record.maxCombo,
+    averageStrength: Math.min(1, record.averageStrength),
+  }
+}
+
+/**
+ * Attendre le résultat d'une requête IndexedDB
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Attendre la fin d'une transaction IndexedDB
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Gestionnaire de l'historique singleton
+ */
+class SessionHistoryClass {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  /**
+   * Ouvre la base (une seule fois) et crée le store au premier lancement
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(ROUNDS_STORE)) {
+            const store = db.createObjectStore(ROUNDS_STORE, { keyPath: 'id' })
+            store.createIndex('date', 'date')
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      // Permettre une nouvelle tentative après un échec
+      this.dbPromise.catch(() => {
+        this.dbPromise = null
+      })
+    }
+    return this.dbPromise
+  }
+
+  /**
+   * Enregistre un round terminé
+   */
+  async addRound(record: SessionRoundRecord): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(ROUNDS_STORE, 'readwrite')
+    transaction.objectStore(ROUNDS_STORE).put(record)
+    await transactionDone(transaction)
+  }
+
+  /**
+   * Tous les rounds, du plus ancien au plus récent
+   */
+  async getAllRounds(): Promise<SessionRoundRecord[]> {
+    const db = await this.open()
+    const transaction = db.transaction(ROUNDS_STORE, 'readonly')
+    const index = transaction.objectStore(ROUNDS_STORE).index('date')
+    return requestToPromise(index.getAll() as IDBRequest<SessionRoundRecord[]>)
+  }
+
+  /**
+   * Efface tout l'historique
+   */
+  async clear(): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(ROUNDS_STORE, 'readwrite')
+    transaction.objectStore(ROUNDS_STORE).clear()
+    await transactionDone(transaction)
+  }
+
+  /**
+   * Sérialise tout l'historique en JSON
+   */
+  async exportJSON(): Promise<string> {
+    const data: SessionHistoryExport = {
+      version: EXPORT_VERSION,
+      exportedAt: Date.now(),
+      rounds: await this.getAllRounds(),
+    }
+    return JSON.stringify(data, null, 2)
+  }
+
+  /**
+   * Importe un export JSON (fusion : un round déjà présent est remplacé)
+   * @returns Nombre de rounds importés (les entrées invalides sont ignorées)
+   */
+  async importJSON(json: string): Promise<number> {
+    const data: unknown = JSON.parse(json)
+    const rawRounds: unknown[] =
+      data && typeof data === 'object' && Array.isArray((data as SessionHistoryExport).rounds)
+        ? (data as SessionHistoryExport).rounds
+        : []
+    const rounds = rawRounds
+      .map(parseRecord)
+      .filter((record): record is SessionRoundRecord => record !== null)
+
+    if (rounds.length === 0) return 0
+
+    const db = await this.open()
+    const transaction = db.transaction(ROUNDS_STORE, 'readwrite')
+    const store = transaction.objectStore(ROUNDS_STORE)
+    for (const record of rounds) {
+      store.put(record)
+    }
+    await transactionDone(transaction)
+    return rounds.length
+  }
+}
+
+// Export singleton
+export const SessionHistory = new SessionHistoryClass()
+
+export default SessionHistory
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_REACH,
+  MAPPING_TARGETS,
+  MIN_POSE_SPAN,
+  buildHandMapping,
+  createDefaultMapping,
+  mapToScreen,
+  type HandCalibrationSamples,
+  type HandMapping,
+} from './CalibrationMapping'
+
+// Anciennes constantes de useUnifiedInput (avant la calibration guidée)
+const GLOVE_REST_POSITIONS = {
+  left: { x: 0.25, y: 0.65 },
+  right: { x: 0.75, y: 0.65 },
+}
+const MOVEMENT_SENSITIVITY = 2.0
+
+/**
+ * Ancien calcul de position (fraction d'écran, caméra en miroir, sans bornes)
+ */
+function legacyPosition(side: 'left' | 'right', calibration: { x: number; y: number }, wrist: { x: number; y: number }) {
+  const rest = GLOVE_REST_POSITIONS[side]
+  return {
+    x: rest.x + (1 - wrist.x - (1 - calibration.x)) * MOVEMENT_SENSITIVITY,
+    y: rest.y + (wrist.y - calibration.y) * MOVEMENT_SENSITIVITY,
+  }
+}
+
+/**
+ * Position écran sans bornes (pour comparer les cibles exactes)
+ */
+const project = (mapping: HandMapping, wrist: { x: number; y: number }) => ({
+  x: mapping.offsetX + wrist.x * mapping.scaleX,
+  y: mapping.offsetY + wrist.y * mapping.scaleY,
+})
+
+/**
+ * Poses d'un joueur face à la caméra (non mirroir : la main gauche est à droite de l'image)
+ */
+function createSamples(side: 'left' | 'right'): HandCalibrationSamples {
+  const sx = side === 'left' ? 1 : -1
+  const center = 0.5 + sx * 0.15
+  return {
+    guard: { x: center, y: 0.6, z: -0.05 },
+    jab: { x: center - sx * 0.02, y: 0.55, z: -0.2 },
+    hookOut: { x: center + sx * 0.15, y: 0.55, z: -0.1 },
+    hookIn: { x: 0.5, y: 0.55, z: -0.1 },
+    uppercut: { x: center, y: 0.35, z: -0.1 },
+  }
+}
+
+describe('createDefaultMapping', () => {
+  it('reproduces the legacy rest position and sensitivity math', () => {
+    const calibration = { x: 0.62, y: 0.48 }
+    const wrists = [
+      { x: 0.62, y: 0.48 },
+      { x: 0.7, y: 0.4 },
+      { x: 0.55, y: 0.52 },
+    ]
+
+    for (const side of ['left', 'right'] as const) {
+      const mapping = createDefaultMapping(side, calibration)
+      for (const wrist of wrists) {
+        const expected = legacyPosition(side, calibration, wrist)
+        const actual = project(mapping, wrist)
+        expect(actual.x).toBeCloseTo(expected.x, 10)
+        expect(actual.y).toBeCloseTo(expected.y, 10)
+      }
+    }
+  })
+
+  it('maps the calibration point to the glove rest position', () => {
+    const mapping = createDefaultMapping('right', { x: 0.3, y: 0.5 })
+
+    const position = mapToScreen(mapping, { x: 0.3, y: 0.5 })
+    expect(position.x).toBeCloseTo(GLOVE_REST_POSITIONS.right.x, 10)
+    expect(position.y).toBeCloseTo(GLOVE_REST_POSITIONS.right.y, 10)
+  })
+
+  it('mirrors the camera directly without calibration', () => {
+    const mapping = createDefaultMapping('left', null)
+
+    expect(mapToScreen(mapping, { x: 0.2, y: 0.7 })).toEqual({ x: 0.8, y: 0.7 })
+    expect(mapping.reach).toBe(DEFAULT_REACH)
+  })
+})
+
+describe('buildHandMapping', () => {
+  it('mirrors the x axis for both hands', () => {
+    // Le crochet ouvert s'éloigne du centre dans l'image : vers x croissant pour la gauche
+    expect(buildHandMapping('left', createSamples('left'))?.scaleX).toBeLessThan(0)
+    // ... et vers x décroissant pour la droite
+    expect(buildHandMapping('right', createSamples('right'))?.scaleX).toBeLessThan(0)
+  })
+
+  it('puts each pose on its screen target', () => {
+    for (const side of ['left', 'right'] as const) {
+      const samples = createSamples(side)
+      const mapping = buildHandMapping(side, samples)
+      expect(mapping).not.toBeNull()
+      if (!mapping) continue
+
+      expect(project(mapping, samples.hookOut!).x).toBeCloseTo(MAPPING_TARGETS.hookOutX[side], 10)
+      expect(project(mapping, samples.hookIn!).x).toBeCloseTo(MAPPING_TARGETS.hookInX, 10)
+      expect(project(mapping, samples.guard!).y).toBeCloseTo(MAPPING_TARGETS.guardY, 10)
+      expect(project(mapping, samples.uppercut!).y).toBeCloseTo(MAPPING_TARGETS.uppercutY, 10)
+      expect(mapping.guardZ).toBe(samples.guard!.z)
+      expect(mapping.reach).toBeCloseTo(samples.guard!.z - samples.jab!.z, 10)
+    }
+  })
+
+  it('rejects a missing pose', () => {
+    const { uppercut: _uppercut, ...samples } = createSamples('left')
+
+    expect(buildHandMapping('left', samples)).toBeNull()
+  })
+
+  it('rejects poses closer than the minimum span', () => {
+    const samples = createSamples('left')
+    const closeHook = { ...samples, hookOut: { ...samples.hookIn!, x: samples.hookIn!.x + MIN_POSE_SPAN / 2 } }
+    const closeUppercut = { ...samples, uppercut: { ...samples.guard!, y: samples.guard!.y - MIN_POSE_SPAN / 2 } }
+
+    expect(buildHandMapping('left', closeHook)).toBeNull()
+    expect(buildHandMapping('left', closeUppercut)).toBeNull()
+  })
+
+  it('rejects a non-positive reach', () => {
+    const samples = createSamples('right')
+
+    expect(buildHandMapping('right', { ...samples, jab: { ...samples.jab!, z: samples.guard!.z } })).toBeNull()
+    expect(buildHandMapping('right', { ...samples, jab: { ...samples.jab!, z: samples.guard!.z + 0.05 } })).toBeNull()
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * CalibrationMapping - Passage de l'espace caméra à l'espace des gants
+ *
+ * La calibration guidée capture le poignet de chaque main dans cinq poses
+ * (garde, jab tendu, crochet ouvert, crochet fermé, uppercut) et en déduit
+ * une transformation affine par axe, propre au joueur :
+ * - x : crochet ouvert → bord de l'écran, crochet fermé → centre
+ * - y : garde → hauteur de repos, uppercut → haut de la zone de frappe
+ * - z : allonge (garde → jab tendu) pour le bonus d'extension des coups
+ *
+ * Sans calibration guidée, le mapping reprend les valeurs historiques
+ * (positions de repos fixes, sensibilité ×2 autour du point de calibration)
+ */
+
+/**
+ * Poses de la calibration guidée (dans l'ordre)
+ */
+export type CalibrationStep = 'guard' | 'jab' | 'hookOut' | 'hookIn' | 'uppercut'
+
+export const CALIBRATION_STEPS: CalibrationStep[] = ['guard', 'jab', 'hookOut', 'hookIn', 'uppercut']
+
+/**
+ * Position du poignet (coordonnées caméra normalisées, non mirroir)
+ */
+export interface WristSample {
+  x: number
+  y: number
+  z: number
+}
+
+/**
+ * Poses capturées pour une main
+ */
+export type HandCalibrationSamples = Partial<Record<CalibrationStep, WristSample>>
+
+/**
+ * Transformation caméra → écran d'une main (écran en fraction 0-1)
+ * écran = offset + caméra × scale, par axe
+ */
+export interface HandMapping {
+  offsetX: number
+  scaleX: number
+  offsetY: number
+  scaleY: number
+  guardZ: number | null // Profondeur de la garde (référence de l'extension)
+  reach: number         // Allonge : différence de z entre garde et jab tendu
+}
+
+/**
+ * Positions de repos des gants sans calibration guidée (fraction de l'écran)
+ */
+export const DEFAULT_GLOVE_REST_POSITIONS = {
+  left: { x: 0.25, y: 0.65 },
+  right: { x: 0.75, y: 0.65 },
+}
+
+/**
+ * Sensibilité sans calibration guidée (amplifie les mouvements de main)
+ */
+export const DEFAULT_MOVEMENT_SENSITIVITY = 2.0
+
+// Allonge par défaut (différence de z caméra entre garde et bras tendu)
+export const DEFAULT_REACH = 0.1
+
+// Cibles écran des poses (fraction 0-1)
+export const MAPPING_TARGETS = {
+  hookOutX: { left: 0.05, right: 0.95 }, // Crochet ouvert : bord de l'écran
+  hookInX: 0.5,                          // Crochet fermé : centre
+  guardY: 0.65,                          // Garde : hauteur de repos
+  uppercutY: 0.3,                        // Uppercut : haut de la zone de frappe
+}
+
+// Écart minimum entre deux poses pour être exploitable (caméra normalisée)
+export const MIN_POSE_SPAN = 0.02
+
+/**
+ * Mapping historique autour d'un point de calibration (ou sans calibration)
+ */
+export function createDefaultMapping(
+  side: 'left' | 'right',
+  calibration: { x: number; y: number } | null
+): HandMapping {
+  if (!calibration) {
+    // Sans calibration : position écran directe (miroir)
+    return { offsetX: 1, scaleX: -1, offsetY: 0, scaleY: 1, guardZ: null, reach: DEFAULT_REACH }
+  }
+
+  const rest = DEFAULT_GLOVE_REST_POSITIONS[side]
+  const sensitivity = DEFAULT_MOVEMENT_SENSITIVITY
+  return {
+    offsetX: rest.x + calibration.x * sensitivity,
+    scaleX: -sensitivity,
+    offsetY: rest.y - calibration.y * sensitivity,
+    scaleY: sensitivity,
+    guardZ: null,
+    reach: DEFAULT_REACH,
+  }
+}
+
+/**
+ * Construit le mapping d'une main à partir des poses capturées
+ * null si une pose manque ou si les poses sont trop proches
+ */
+export function buildHandMapping(side: 'left' | 'right', samples: HandCalibrationSamples): HandMapping | null {
+  const { guard, jab, hookOut, hookIn, uppercut } = samples
+  if (!guard || !jab || !hookOut || !hookIn || !uppercut) return null
+
+  const spanX = hookOut.x - hookIn.x
+  const spanY = guard.y - uppercut.y
+  const reach = guard.z - jab.z
+  if (Math.abs(spanX) < MIN_POSE_SPAN || spanY < MIN_POSE_SPAN || reach <= 0) return null
+
+  const scaleX = (MAPPING_TARGETS.hookOutX[side] - MAPPING_TARGETS.hookInX) / spanX
+  const scaleY = (MAPPING_TARGETS.guardY - MAPPING_TARGETS.uppercutY) / spanY
+
+  return {
+    offsetX: MAPPING_TARGETS.hookInX - hookIn.x * scaleX,
+    scaleX,
+    offsetY: MAPPING_TARGETS.guardY - guard.y * scaleY,
+    scaleY,
+    guardZ: guard.z,
+    reach,
+  }
+}
+
+/**
+ * Position écran d'un poignet (fraction 0-1, bornée)
+ */
+export function mapToScreen(mapping: HandMapping, wrist: { x: number; y: number }): { x: number; y: number } {
+  return {
+    x: Math.max(0, Math.min(1, mapping.offsetX + wrist.x * mapping.scaleX)),
+    y: Math.max(0, Math.min(1, mapping.offsetY + wrist.y * mapping.scaleY)),
+  }
+}
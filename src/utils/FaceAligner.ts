@@ -1,4 +1,5 @@
 import { FaceLandmarker, FilesetResolver } from '@mediapipe/tasks-vision'
+import { MEDIAPIPE_WASM_URL } from './MediaPipeAssets'
 
 /**
  * Landmarks clés pour l'alignement du visage
@@ -84,9 +85,7 @@ async function initFaceLandmarker(): Promise<FaceLandmarker> {
   isInitializing = true
 
   try {
-    const vision = await FilesetResolver.forVisionTasks(
-      'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-    )
+    const vision = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL)
 
     faceLandmarker = await FaceLandmarker.createFromOptions(vision, {
       baseOptions: {
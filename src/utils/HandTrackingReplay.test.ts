@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import {
+  detectRecordingPunches,
+  parseRecording,
+  sampleHandToState,
+  sampleIndexAt,
+  type DataSample,
+  type HandTrackingRecording,
+  type PunchEvent,
+  type SampleHand,
+} from './HandTrackingReplay'
+import type { PunchHand, PunchType } from '../stores/useGameStore'
+
+// Cadence de MediaPipe (ms entre deux frames)
+const FRAME_MS = 1000 / 30
+
+// Vélocité du poignet pendant un coup (unités par seconde), par type
+const PUNCH_VELOCITY: Record<PunchType, { x: number; y: number; z: number }> = {
+  jab: { x: 0, y: 0, z: -0.4 },
+  hook: { x: 0.4, y: 0, z: -0.2 },
+  uppercut: { x: 0, y: -0.3, z: -0.3 },
+}
+
+// Durée d'un coup (frames), plus longue que le cooldown de la détection
+const PUNCH_FRAMES = 6
+
+/**
+ * Main en garde ou en plein coup (21 landmarks, poignet en premier)
+ */
+function createHand(x: number, z: number, velocity: { x: number; y: number; z: number }): SampleHand {
+  const landmarks = Array.from({ length: 21 }, (_, i) => ({ x: x + i * 0.005, y: 0.6 - i * 0.01, z: z - i * 0.001 }))
+  return {
+    position: landmarks[0]!,
+    landmarks,
+    screenPosition: { x: x * 1000, y: 600 },
+    velocity,
+  }
+}
+
+/**
+ * Enregistrement synthétique : les coups listés, séparés par une seconde de garde
+ * Le premier timestamp imite performance.now() au début de l'enregistrement
+ */
+function createRecording(script: { hand: PunchHand; type: PunchType }[]): HandTrackingRecording {
+  const start = 5000
+  const samples: DataSample[] = []
+  const punches: PunchEvent[] = []
+  const still = { x: 0, y: 0, z: 0 }
+
+  let frame = 0
+  const pushFrame = (punch?: { hand: PunchHand; type: PunchType }) => {
+    const velocity = punch ? PUNCH_VELOCITY[punch.type] : still
+    samples.push({
+      timestamp: start + frame * FRAME_MS,
+      leftHand: createHand(0.6, 0, punch?.hand === 'left' ? velocity : still),
+      rightHand: createHand(0.4, 0, punch?.hand === 'right' ? velocity : still),
+    })
+    frame++
+  }
+
+  for (const punch of script) {
+    for (let i = 0; i < 30; i++) pushFrame()
+    punches.push({
+      timestamp: start + frame * FRAME_MS,
+      hand: punch.hand,
+      type: punch.type,
+      velocity: 0.8,
+      handPosition: { x: 0, y: 0, z: 0 },
+      glovePosition: { x: 0, y: 0 },
+      velocityVector: PUNCH_VELOCITY[punch.type],
+    })
+    for (let i = 0; i < PUNCH_FRAMES; i++) pushFrame(punch)
+  }
+  for (let i = 0; i < 30; i++) pushFrame()
+
+  return {
+    version: 1,
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    duration: samples[samples.length - 1]!.timestamp - start,
+    samples,
+    punches,
+  }
+}
+
+describe('parseRecording', () => {
+  it('keeps every landmark through a JSON round trip', () => {
+    const recording = createRecording([{ hand: 'left', type: 'jab' }])
+    const parsed = parseRecording(JSON.parse(JSON.stringify(recording)))
+    expect(parsed?.samples[0]?.leftHand.landmarks).toHaveLength(21)
+    expect(parsed?.punches).toHaveLength(1)
+  })
+
+  it('accepts wrist-only recordings and rejects malformed landmarks', () => {
+    const wrist = { position: { x: 0.5, y: 0.5, z: 0 }, screenPosition: null, velocity: null }
+    const sample = (leftHand: unknown) => ({ timestamp: 0, leftHand, rightHand: wrist })
+
+    expect(parseRecording({ version: 1, samples: [sample(wrist)] })?.samples).toHaveLength(1)
+    expect(parseRecording({ version: 1, samples: [sample({ ...wrist, landmarks: [{ x: 0 }] })] })).toBeNull()
+  })
+})
+
+describe('sampleIndexAt', () => {
+  it('finds the last sample at a given replay time', () => {
+    const recording = createRecording([{ hand: 'left', type: 'jab' }])
+    expect(sampleIndexAt(recording, -1)).toBe(-1)
+    expect(sampleIndexAt(recording, 0)).toBe(0)
+    expect(sampleIndexAt(recording, FRAME_MS * 2.5)).toBe(2)
+    expect(sampleIndexAt(recording, recording.duration + 1000)).toBe(recording.samples.length - 1)
+  })
+})
+
+describe('sampleHandToState', () => {
+  it('publishes every recorded landmark, like the live camera', () => {
+    const hand = createHand(0.5, 0, { x: 0, y: 0, z: 0 })
+    expect(sampleHandToState(hand, 0)?.landmarks).toBe(hand.landmarks)
+  })
+
+  it('falls back to the wrist for older recordings', () => {
+    const position = { x: 0.5, y: 0.5, z: 0 }
+    expect(sampleHandToState({ position, screenPosition: null, velocity: null }, 0)?.landmarks).toEqual([position])
+    expect(sampleHandToState({ position: null, screenPosition: null, velocity: null }, 0)).toBeNull()
+  })
+})
+
+// Régression de la détection de coups, sans webcam
+describe('detectRecordingPunches', () => {
+  const script: { hand: PunchHand; type: PunchType }[] = [
+    { hand: 'left', type: 'jab' },
+    { hand: 'right', type: 'uppercut' },
+    { hand: 'left', type: 'hook' },
+    { hand: 'right', type: 'jab' },
+  ]
+  const recording = createRecording(script)
+  const detected = detectRecordingPunches(recording)
+
+  it('detects each recorded punch once, with its hand and type', () => {
+    expect(detected.map(({ hand, type }) => ({ hand, type }))).toEqual(script)
+  })
+
+  it('detects punches at their recorded time', () => {
+    const start = recording.samples[0]!.timestamp
+    detected.forEach((punch, i) => {
+      expect(Math.abs(punch.time - (recording.punches[i]!.timestamp - start))).toBeLessThan(FRAME_MS * 1.5)
+    })
+  })
+
+  it('detects nothing while both hands stay in guard', () => {
+    expect(detectRecordingPunches(createRecording([]))).toEqual([])
+  })
+})
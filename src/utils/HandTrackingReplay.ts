@@ -0,0 +1,199 @@
+/**
+ * HandTrackingReplay - Enregistrements du hand tracking et relecture
+ *
+ * useHandTrackingLogger exporte un enregistrement (exportRecording) :
+ * les échantillons contiennent les landmarks lissés et la vélocité calculée
+ * par useHandTracking, soit exactement ce que publie la caméra.
+ * useHandTrackingReplay les réinjecte dans useHandTrackingStore comme une caméra.
+ *
+ * Les coups enregistrés (punches) servent de référence : detectRecordingPunches
+ * rejoue la détection de coups sur l'enregistrement, sans webcam.
+ */
+
+import type { HandState } from '../stores/useHandTrackingStore'
+import type { PunchHand, PunchType } from '../stores/useGameStore'
+import { createHandInputState, detectPunch } from './PunchDetection'
+
+type Vector3 = { x: number; y: number; z: number }
+
+/**
+ * Données d'une main dans un échantillon (null = main absente)
+ */
+export interface SampleHand {
+  position: Vector3 | null
+  // Les 21 landmarks de la main (absents des premiers enregistrements : poignet seul)
+  landmarks?: Vector3[] | null
+  screenPosition: { x: number; y: number } | null
+  velocity: Vector3 | null
+}
+
+/**
+ * Structure d'un échantillon de données
+ */
+export interface DataSample {
+  timestamp: number
+  leftHand: SampleHand
+  rightHand: SampleHand
+}
+
+/**
+ * Structure d'un événement de coup
+ */
+export interface PunchEvent {
+  timestamp: number
+  hand: PunchHand
+  type: PunchType
+  velocity: number
+  handPosition: Vector3
+  glovePosition: { x: number; y: number }
+  velocityVector: Vector3
+}
+
+/**
+ * Enregistrement exporté (timestamps en ms, performance.now() de l'enregistrement)
+ */
+export interface HandTrackingRecording {
+  version: 1
+  recordedAt: string
+  duration: number
+  samples: DataSample[]
+  punches: PunchEvent[]
+}
+
+const isVector = (value: unknown): value is Vector3 =>
+  !!value && typeof value === 'object' &&
+  ['x', 'y', 'z'].every((axis) => typeof (value as Record<string, unknown>)[axis] === 'number')
+
+const isSampleHand = (value: unknown): value is SampleHand => {
+  if (!value || typeof value !== 'object') return false
+  const hand = value as Partial<SampleHand>
+  return (hand.position === null || isVector(hand.position)) && (hand.velocity === null || isVector(hand.velocity)) &&
+    (hand.landmarks == null || (Array.isArray(hand.landmarks) && hand.landmarks.every(isVector)))
+}
+
+/**
+ * Valide un enregistrement lu depuis un fichier (échantillons triés par temps)
+ */
+export function parseRecording(raw: unknown): HandTrackingRecording | null {
+  if (!raw || typeof raw !== 'object') return null
+  const recording = raw as Partial<HandTrackingRecording>
+  if (recording.version !== 1 || !Array.isArray(recording.samples)) return null
+
+  const samples = recording.samples
+    .filter((sample): sample is DataSample =>
+      !!sample && typeof sample.timestamp === 'number' &&
+      isSampleHand(sample.leftHand) && isSampleHand(sample.rightHand)
+    )
+    .sort((a, b) => a.timestamp - b.timestamp)
+  if (samples.length === 0) return null
+
+  const punches = Array.isArray(recording.punches)
+    ? recording.punches.filter((punch): punch is PunchEvent =>
+      !!punch && typeof punch.timestamp === 'number' && typeof punch.velocity === 'number'
+    )
+    : []
+
+  const first = samples[0]?.timestamp ?? 0
+  const last = samples[samples.length - 1]?.timestamp ?? 0
+  return {
+    version: 1,
+    recordedAt: typeof recording.recordedAt === 'string' ? recording.recordedAt : '',
+    duration: last - first,
+    samples,
+    punches,
+  }
+}
+
+/**
+ * Index du dernier échantillon à l'instant `time` (ms depuis le début, -1 avant le premier)
+ */
+export function sampleIndexAt(recording: HandTrackingRecording, time: number): number {
+  const start = recording.samples[0]?.timestamp ?? 0
+  const target = start + time
+
+  // Recherche dichotomique
+  let low = 0
+  let high = recording.samples.length - 1
+  let result = -1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if ((recording.samples[middle]?.timestamp ?? Infinity) <= target) {
+      result = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  return result
+}
+
+/**
+ * Coups enregistrés avant l'instant `time` (ms depuis le début)
+ */
+export function punchesBefore(recording: HandTrackingRecording, time: number): PunchEvent[] {
+  const start = recording.samples[0]?.timestamp ?? 0
+  return recording.punches.filter((punch) => punch.timestamp - start <= time)
+}
+
+/**
+ * Convertit la main d'un échantillon en HandState (poignet seul pour les anciens enregistrements)
+ */
+export function sampleHandToState(hand: SampleHand, timestamp: number): HandState | null {
+  if (!hand.position) return null
+
+  return {
+    landmarks: hand.landmarks?.length ? hand.landmarks : [hand.position],
+    screenPosition: hand.screenPosition ?? { x: 0, y: 0 },
+    velocity: hand.velocity ?? { x: 0, y: 0, z: 0 },
+    lastUpdate: timestamp,
+  }
+}
+
+/**
+ * Coup détecté en rejouant un enregistrement
+ */
+export interface ReplayedPunch {
+  time: number // ms depuis le début de l'enregistrement
+  hand: PunchHand
+  type: PunchType
+  velocity: number
+}
+
+/**
+ * Rejoue la détection de coups (seuils de useUnifiedInput) sur un enregistrement
+ * À comparer aux coups enregistrés pour vérifier une modification de la détection
+ */
+export function detectRecordingPunches(recording: HandTrackingRecording): ReplayedPunch[] {
+  const start = recording.samples[0]?.timestamp ?? 0
+  // Timestamps de l'enregistrement (performance.now()) : aucun cooldown avant le premier coup
+  const states = {
+    left: { ...createHandInputState(), lastPunchTime: -Infinity },
+    right: { ...createHandInputState(), lastPunchTime: -Infinity },
+  }
+  const punches: ReplayedPunch[] = []
+
+  for (const sample of recording.samples) {
+    for (const side of ['left', 'right'] as const) {
+      const handState = states[side]
+      const hand = sampleHandToState(side === 'left' ? sample.leftHand : sample.rightHand, sample.timestamp)
+      if (!hand) {
+        // Main perdue : la garde sera reprise à la prochaine détection
+        handState.isActive = false
+        handState.calibratedZ = null
+        continue
+      }
+
+      // Première détection : garde à la position courante (sans calibration)
+      if (!handState.isActive) {
+        handState.isActive = true
+        handState.calibratedZ = hand.landmarks[0]?.z ?? 0
+      }
+
+      const result = detectPunch(hand, handState, sample.timestamp)
+      if (!result) continue
+      handState.lastPunchTime = sample.timestamp
+      punches.push({ time: sample.timestamp - start, hand: side, type: result.type, velocity: result.velocity })
+    }
+  }
+  return punches
+}
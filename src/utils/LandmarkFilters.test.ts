@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_FILTER_SETTINGS,
+  HandLandmarkFilter,
+  KalmanFilter,
+  OneEuroFilter,
+  compareFilters,
+  measureJitter,
+  type FilteredPoint,
+  type LandmarkSpace,
+} from './LandmarkFilters'
+import { createSeededRandom } from './SeededRandom'
+
+// Cadence de MediaPipe (ms entre deux frames)
+const FRAME_MS = 1000 / 30
+
+/**
+ * Trajectoire synthétique : garde immobile, mouvement rapide, retour en garde
+ * Position réelle + bruit gaussien de MediaPipe sur chaque axe
+ */
+function createTrajectory(amplitude: number, noise: number, seed: number) {
+  const random = createSeededRandom(seed)
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+
+  const reference: FilteredPoint[] = []
+  const samples: { position: FilteredPoint; timestamp: number }[] = []
+  for (let i = 0; i < 90; i++) {
+    // Frames 30 à 35 : aller (≈ 170 ms), frames 45 à 50 : retour
+    const t = Math.min(Math.max((i - 30) / 5, 0), 1) - Math.min(Math.max((i - 45) / 5, 0), 1)
+    const point = { x: 0.5 + amplitude * t, y: 0.5, z: -amplitude * t }
+    reference.push(point)
+    samples.push({
+      position: {
+        x: point.x + noise * gaussian(),
+        y: point.y + noise * gaussian(),
+        z: point.z + noise * gaussian(),
+      },
+      timestamp: i * FRAME_MS,
+    })
+  }
+  return { samples, reference }
+}
+
+// Coup du poignet dans l'image / articulation de la main en mètres (profondeur plus bruitée)
+const TRAJECTORIES: Record<LandmarkSpace, { amplitude: number; noise: number }> = {
+  image: { amplitude: 0.3, noise: 0.004 },
+  world: { amplitude: 0.03, noise: 0.003 },
+}
+
+describe('OneEuroFilter', () => {
+  it('returns the first sample unchanged', () => {
+    const filter = new OneEuroFilter(DEFAULT_FILTER_SETTINGS.oneEuro)
+    expect(filter.filter(0.42, 0)).toBe(0.42)
+  })
+
+  it('converges to a constant signal', () => {
+    const filter = new OneEuroFilter(DEFAULT_FILTER_SETTINGS.oneEuro)
+    filter.filter(0, 0)
+    let value = 0
+    for (let i = 1; i <= 120; i++) value = filter.filter(1, i * FRAME_MS)
+    expect(value).toBeCloseTo(1, 3)
+  })
+})
+
+describe('KalmanFilter', () => {
+  it('tracks a constant velocity without lag once settled', () => {
+    const filter = new KalmanFilter(DEFAULT_FILTER_SETTINGS.kalman)
+    let value = 0
+    for (let i = 0; i <= 120; i++) value = filter.filter(i * 0.01, i * FRAME_MS)
+    expect(value).toBeCloseTo(1.2, 2)
+  })
+})
+
+describe('HandLandmarkFilter', () => {
+  it('passes points through when smoothing is disabled', () => {
+    const filter = new HandLandmarkFilter({ ...DEFAULT_FILTER_SETTINGS, type: 'none' })
+    const points = [{ x: 0.1, y: 0.2, z: 0.3 }]
+    expect(filter.apply(points, 0)).toBe(points)
+  })
+
+  it('uses the parameters of its landmark space', () => {
+    const settings = {
+      ...DEFAULT_FILTER_SETTINGS,
+      oneEuro: { minCutoff: 5, beta: 0, dCutoff: 1 },
+      world: { ...DEFAULT_FILTER_SETTINGS.world, oneEuro: { minCutoff: 0.1, beta: 0, dCutoff: 1 } },
+    }
+    const image = new HandLandmarkFilter(settings, 'image')
+    const world = new HandLandmarkFilter(settings, 'world')
+    image.apply([{ x: 0, y: 0, z: 0 }], 0)
+    world.apply([{ x: 0, y: 0, z: 0 }], 0)
+
+    // Coupure basse (monde) = suit moins vite un saut de position
+    const [imagePoint] = image.apply([{ x: 1, y: 0, z: 0 }], FRAME_MS)
+    const [worldPoint] = world.apply([{ x: 1, y: 0, z: 0 }], FRAME_MS)
+    expect(worldPoint!.x).toBeLessThan(imagePoint!.x)
+  })
+
+  it('starts from the raw position again after a reset', () => {
+    const filter = new HandLandmarkFilter(DEFAULT_FILTER_SETTINGS)
+    filter.apply([{ x: 0, y: 0, z: 0 }], 0)
+    filter.apply([{ x: 0, y: 0, z: 0 }], FRAME_MS)
+    filter.reset()
+    expect(filter.apply([{ x: 1, y: 1, z: 1 }], 2 * FRAME_MS)).toEqual([{ x: 1, y: 1, z: 1 }])
+  })
+})
+
+describe('measureJitter', () => {
+  it('is zero on a straight line at constant speed', () => {
+    const points = [0, 1, 2, 3].map((i) => ({ x: i * 0.1, y: 0, z: 0 }))
+    expect(measureJitter(points)).toBeCloseTo(0, 10)
+  })
+})
+
+// Réglages par défaut rejoués sur chaque repère (remplace la comparaison à la main du logger)
+describe.each(['image', 'world'] as const)('default %s filter settings', (space) => {
+  const { amplitude, noise } = TRAJECTORIES[space]
+  const { samples, reference } = createTrajectory(amplitude, noise, space === 'image' ? 1 : 2)
+  const results = compareFilters(samples, DEFAULT_FILTER_SETTINGS, space, reference)
+  const raw = results.find((result) => result.type === 'none')!
+
+  it.each(['oneEuro', 'kalman'] as const)('%s halves the jitter of raw landmarks', (type) => {
+    const result = results.find((r) => r.type === type)!
+    expect(result.jitter).toBeLessThan(raw.jitter * 0.5)
+  })
+
+  it.each(['oneEuro', 'kalman'] as const)('%s stays close to the true trajectory', (type) => {
+    const result = results.find((r) => r.type === type)!
+    // Pas plus loin de la vraie trajectoire que les landmarks bruts, à la latence près
+    expect(result.lag).toBeLessThan(Math.max(raw.lag * 1.5, amplitude * 0.1))
+  })
+})
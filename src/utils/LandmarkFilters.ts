@@ -0,0 +1,273 @@
+/**
+ * LandmarkFilters - Lissage des landmarks du hand tracking
+ *
+ * MediaPipe renvoie des positions bruitées d'une frame à l'autre : les gants
+ * tremblent et la vélocité (calculée sur quelques échantillons) dépasse
+ * parfois le seuil de coup sans que le joueur ait bougé.
+ *
+ * Deux filtres au choix, appliqués axe par axe sur chaque landmark :
+ * - One Euro : passe-bas dont la fréquence de coupure augmente avec la vitesse
+ *   (lisse au repos, peu de latence pendant un coup)
+ * - Kalman à vitesse constante : état [position, vitesse] par axe
+ *
+ * Les paramètres sont réglés séparément pour les deux repères de MediaPipe :
+ * - image : coordonnées normalisées (0-1), le poignet traverse l'écran pendant un coup
+ * - monde : mètres autour du centre de la main, seule l'articulation bouge
+ *   (vitesses bien plus faibles, profondeur plus bruitée)
+ *
+ * Référence One Euro : Casiez, Roussel, Vogel - CHI 2012
+ */
+
+/**
+ * Type de filtre
+ */
+export type LandmarkFilterType = 'none' | 'oneEuro' | 'kalman'
+
+/**
+ * Paramètres du filtre One Euro
+ */
+export interface OneEuroParams {
+  minCutoff: number // Fréquence de coupure au repos (Hz) : plus bas = plus lisse
+  beta: number      // Augmentation de la coupure avec la vitesse : plus haut = moins de latence
+  dCutoff: number   // Fréquence de coupure de la dérivée (Hz)
+}
+
+/**
+ * Paramètres du filtre de Kalman à vitesse constante
+ */
+export interface KalmanParams {
+  processNoise: number     // Confiance dans le modèle (accélérations imprévues)
+  measurementNoise: number // Bruit de mesure de MediaPipe
+}
+
+/**
+ * Repère des landmarks filtrés
+ */
+export type LandmarkSpace = 'image' | 'world'
+
+/**
+ * Paramètres des filtres pour un repère
+ */
+export interface LandmarkFilterParams {
+  oneEuro: OneEuroParams
+  kalman: KalmanParams
+}
+
+/**
+ * Réglages du lissage (exposés dans la calibration)
+ * oneEuro / kalman : landmarks image, world : landmarks monde
+ */
+export interface LandmarkFilterSettings extends LandmarkFilterParams {
+  type: LandmarkFilterType
+  world: LandmarkFilterParams
+}
+
+export const DEFAULT_FILTER_SETTINGS: LandmarkFilterSettings = {
+  type: 'oneEuro',
+  oneEuro: { minCutoff: 1.0, beta: 0.5, dCutoff: 1.0 },
+  kalman: { processNoise: 1, measurementNoise: 0.00005 },
+  world: {
+    oneEuro: { minCutoff: 0.5, beta: 5, dCutoff: 1.0 },
+    kalman: { processNoise: 1, measurementNoise: 0.0002 },
+  },
+}
+
+/**
+ * Paramètres des filtres d'un repère
+ */
+export function getFilterParams(settings: LandmarkFilterSettings, space: LandmarkSpace): LandmarkFilterParams {
+  return space === 'world' ? settings.world : settings
+}
+
+/**
+ * Filtre d'une valeur scalaire échantillonnée dans le temps
+ */
+interface ScalarFilter {
+  filter(value: number, timestamp: number): number
+}
+
+// Coefficient de lissage exponentiel pour une fréquence de coupure
+const smoothingFactor = (cutoff: number, dt: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoff)
+  return 1 / (1 + tau / dt)
+}
+
+/**
+ * Filtre One Euro sur une valeur
+ */
+export class OneEuroFilter implements ScalarFilter {
+  private previousValue: number | null = null
+  private previousDerivative = 0
+  private previousTime = 0
+
+  constructor(private params: OneEuroParams) {}
+
+  filter(value: number, timestamp: number): number {
+    if (this.previousValue === null) {
+      this.previousValue = value
+      this.previousTime = timestamp
+      return value
+    }
+
+    // Timestamps en ms
+    const dt = Math.max((timestamp - this.previousTime) / 1000, 1e-3)
+    this.previousTime = timestamp
+
+    // Dérivée lissée
+    const derivative = (value - this.previousValue) / dt
+    const alphaD = smoothingFactor(this.params.dCutoff, dt)
+    this.previousDerivative = alphaD * derivative + (1 - alphaD) * this.previousDerivative
+
+    // Coupure adaptée à la vitesse
+    const cutoff = this.params.minCutoff + this.params.beta * Math.abs(this.previousDerivative)
+    const alpha = smoothingFactor(cutoff, dt)
+    this.previousValue = alpha * value + (1 - alpha) * this.previousValue
+    return this.previousValue
+  }
+}
+
+/**
+ * Filtre de Kalman 1D à vitesse constante (état : position + vitesse)
+ */
+export class KalmanFilter implements ScalarFilter {
+  private position: number | null = null
+  private velocity = 0
+  // Covariance de l'état [[p00, p01], [p01, p11]]
+  private p00 = 1
+  private p01 = 0
+  private p11 = 1
+  private previousTime = 0
+
+  constructor(private params: KalmanParams) {}
+
+  filter(value: number, timestamp: number): number {
+    if (this.position === null) {
+      this.position = value
+      this.previousTime = timestamp
+      return value
+    }
+
+    const dt = Math.max((timestamp - this.previousTime) / 1000, 1e-3)
+    this.previousTime = timestamp
+    const q = this.params.processNoise
+    const r = this.params.measurementNoise
+
+    // Prédiction : x = F x, P = F P Fᵀ + Q (bruit d'accélération)
+    this.position += this.velocity * dt
+    const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + q * dt ** 4 / 4
+    const p01 = this.p01 + dt * this.p11 + q * dt ** 3 / 2
+    const p11 = this.p11 + q * dt * dt
+
+    // Correction avec la mesure de position
+    const innovation = value - this.position
+    const s = p00 + r
+    const k0 = p00 / s
+    const k1 = p01 / s
+
+    this.position += k0 * innovation
+    this.velocity += k1 * innovation
+    this.p00 = (1 - k0) * p00
+    this.p01 = (1 - k0) * p01
+    this.p11 = p11 - k1 * p01
+
+    return this.position
+  }
+}
+
+/**
+ * Point 3D filtré
+ */
+export interface FilteredPoint {
+  x: number
+  y: number
+  z: number
+}
+
+/**
+ * Filtre d'une main complète : un filtre par landmark et par axe
+ * (à recréer quand la main est perdue, l'historique n'a plus de sens)
+ */
+export class HandLandmarkFilter {
+  private filters: ScalarFilter[] = []
+
+  constructor(private settings: LandmarkFilterSettings, private space: LandmarkSpace = 'image') {}
+
+  private createScalarFilter(): ScalarFilter {
+    const params = getFilterParams(this.settings, this.space)
+    return this.settings.type === 'kalman'
+      ? new KalmanFilter(params.kalman)
+      : new OneEuroFilter(params.oneEuro)
+  }
+
+  /**
+   * Filtre une liste de points (toujours dans le même ordre d'une frame à l'autre)
+   * @param timestamp Temps de la frame (ms)
+   */
+  apply(points: FilteredPoint[], timestamp: number): FilteredPoint[] {
+    if (this.settings.type === 'none') return points
+
+    return points.map((point, i) => {
+      const base = i * 3
+      while (this.filters.length < base + 3) this.filters.push(this.createScalarFilter())
+      return {
+        x: this.filters[base]?.filter(point.x, timestamp) ?? point.x,
+        y: this.filters[base + 1]?.filter(point.y, timestamp) ?? point.y,
+        z: this.filters[base + 2]?.filter(point.z, timestamp) ?? point.z,
+      }
+    })
+  }
+
+  reset(): void {
+    this.filters = []
+  }
+}
+
+/**
+ * Tremblement moyen d'une trajectoire (moyenne des accélérations discrètes)
+ * Sert à comparer les filtres sur un enregistrement (voir compareFilters)
+ */
+export function measureJitter(points: FilteredPoint[]): number {
+  if (points.length < 3) return 0
+
+  let total = 0
+  for (let i = 2; i < points.length; i++) {
+    const a = points[i - 2]
+    const b = points[i - 1]
+    const c = points[i]
+    if (!a || !b || !c) continue
+    total += Math.hypot(c.x - 2 * b.x + a.x, c.y - 2 * b.y + a.y, c.z - 2 * b.z + a.z)
+  }
+  return total / (points.length - 2)
+}
+
+/**
+ * Résultat d'un filtre rejoué sur une trajectoire
+ */
+export interface FilterComparison {
+  type: LandmarkFilterType
+  jitter: number // Tremblement (plus bas = plus lisse)
+  lag: number    // Écart moyen à la trajectoire de référence (latence)
+}
+
+/**
+ * Rejoue une trajectoire à travers chaque filtre
+ * @param reference Trajectoire de référence pour l'écart (défaut : la trajectoire rejouée)
+ */
+export function compareFilters(
+  samples: { position: FilteredPoint; timestamp: number }[],
+  settings: LandmarkFilterSettings,
+  space: LandmarkSpace = 'image',
+  reference: FilteredPoint[] = samples.map((sample) => sample.position)
+): FilterComparison[] {
+  const types: LandmarkFilterType[] = ['none', 'oneEuro', 'kalman']
+
+  return types.map((type) => {
+    const filter = new HandLandmarkFilter({ ...settings, type }, space)
+    const filtered = samples.map((sample) => filter.apply([sample.position], sample.timestamp)[0] ?? sample.position)
+    const lag = filtered.reduce((sum, point, i) => {
+      const target = reference[i]
+      return target ? sum + Math.hypot(point.x - target.x, point.y - target.y, point.z - target.z) : sum
+    }, 0) / Math.max(filtered.length, 1)
+    return { type, jitter: measureJitter(filtered), lag }
+  })
+}
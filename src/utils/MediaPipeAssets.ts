@@ -0,0 +1,24 @@
+/**
+ * MediaPipeAssets - Fichiers MediaPipe chargés depuis le CDN
+ *
+ * Le WASM et le bundle du worker doivent correspondre exactement à la version
+ * de @mediapipe/tasks-vision installée (package.json) : une version flottante
+ * (@latest) casse l'inférence dès qu'une release change l'ABI du WASM.
+ */
+
+/**
+ * Version de @mediapipe/tasks-vision (à garder alignée sur package.json)
+ */
+export const MEDIAPIPE_VERSION = '0.10.22-rc.20250304'
+
+const MEDIAPIPE_CDN_URL = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}`
+
+/**
+ * Dossier des fichiers WASM (FilesetResolver.forVisionTasks)
+ */
+export const MEDIAPIPE_WASM_URL = `${MEDIAPIPE_CDN_URL}/wasm`
+
+/**
+ * Bundle CommonJS de la bibliothèque, chargé par importScripts dans le worker classique
+ */
+export const MEDIAPIPE_BUNDLE_URL = `${MEDIAPIPE_CDN_URL}/vision_bundle.cjs`
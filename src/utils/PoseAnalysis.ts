@@ -0,0 +1,149 @@
+/**
+ * PoseAnalysis - Mesures du buste à partir des landmarks MediaPipe Pose
+ *
+ * Le hand tracking ne voit que les mains : le buste donne
+ * - l'inclinaison latérale et l'accroupissement (esquives, coups au corps)
+ * - le décalage de la tête (nez) : une esquive déplace la tête plus que les épaules
+ * - la rotation des épaules (puissance des coups)
+ * - la garde (orthodoxe = épaule gauche devant, fausse garde = épaule droite devant)
+ *
+ * Module sans dépendance navigateur (voir usePoseTracking)
+ */
+
+/**
+ * Indices des landmarks MediaPipe Pose utilisés (côtés du joueur, pas de l'image)
+ */
+export const POSE_LANDMARKS = {
+  nose: 0,
+  leftShoulder: 11,
+  rightShoulder: 12,
+  leftHip: 23,
+  rightHip: 24,
+} as const
+
+/**
+ * Point de landmark (image : 0-1, monde : mètres centrés sur les hanches)
+ */
+export interface PosePoint {
+  x: number
+  y: number
+  z: number
+}
+
+/**
+ * Garde du joueur
+ */
+export type PoseStance = 'orthodox' | 'southpaw'
+
+/**
+ * Position neutre du buste (capturée au début du tracking et à la calibration)
+ */
+export interface PoseBaseline {
+  centerX: number       // Milieu des épaules (image, 0-1)
+  centerY: number
+  shoulderWidth: number // Largeur des épaules (image) : échelle des mesures
+  noseX: number | null  // Position du nez (image, null = tête non visible)
+}
+
+/**
+ * Mesures publiées dans usePoseStore
+ */
+export interface PoseMetrics {
+  lean: number             // -1 (penché à gauche) à 1 (penché à droite)
+  headLean: number         // Décalage de la tête, même échelle (= lean sans le nez)
+  duck: number             // 0 (debout) à 1 (accroupi)
+  shoulderRotation: number // Radians, positif = épaule droite vers la caméra
+  stanceRotation: number   // Rotation moyenne au repos (radians)
+  stance: PoseStance
+}
+
+/**
+ * Réglages des mesures (en largeurs d'épaules)
+ */
+const POSE_CONFIG = {
+  // Décalage latéral pour une inclinaison maximale
+  leanRange: 0.6,
+  // Décalage du nez pour une esquive de tête maximale
+  headLeanRange: 0.5,
+  // Descente des épaules pour un accroupissement complet
+  duckRange: 0.8,
+  // Lissage de la rotation moyenne (garde) : seuls les mouvements lents comptent
+  stanceSmoothing: 0.03,
+  // Rotation moyenne au-delà de laquelle la garde change (radians, hystérésis)
+  stanceThreshold: 0.12,
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value))
+
+const midpoint = (a: PosePoint, b: PosePoint): PosePoint => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+  z: (a.z + b.z) / 2,
+})
+
+/**
+ * Position neutre à partir d'une frame (null si les épaules ne sont pas visibles)
+ */
+export function createPoseBaseline(landmarks: PosePoint[]): PoseBaseline | null {
+  const left = landmarks[POSE_LANDMARKS.leftShoulder]
+  const right = landmarks[POSE_LANDMARKS.rightShoulder]
+  if (!left || !right) return null
+
+  const shoulderWidth = Math.hypot(right.x - left.x, right.y - left.y)
+  if (shoulderWidth < 1e-3) return null
+
+  const center = midpoint(left, right)
+  const nose = landmarks[POSE_LANDMARKS.nose]
+  return { centerX: center.x, centerY: center.y, shoulderWidth, noseX: nose?.x ?? null }
+}
+
+/**
+ * Calcule les mesures du buste pour une frame
+ * @param landmarks Landmarks image (0-1, caméra non mirroir)
+ * @param worldLandmarks Landmarks monde (mètres)
+ * @param previous Mesures de la frame précédente (garde lissée)
+ */
+export function analyzePose(
+  landmarks: PosePoint[],
+  worldLandmarks: PosePoint[],
+  baseline: PoseBaseline,
+  previous: PoseMetrics | null
+): PoseMetrics | null {
+  const left = landmarks[POSE_LANDMARKS.leftShoulder]
+  const right = landmarks[POSE_LANDMARKS.rightShoulder]
+  const worldLeft = worldLandmarks[POSE_LANDMARKS.leftShoulder]
+  const worldRight = worldLandmarks[POSE_LANDMARKS.rightShoulder]
+  if (!left || !right || !worldLeft || !worldRight) return null
+
+  const center = midpoint(left, right)
+
+  // L'image n'est pas en miroir : x croissant = gauche du joueur
+  const lateral = (baseline.centerX - center.x) / baseline.shoulderWidth
+  const lean = clamp(lateral / POSE_CONFIG.leanRange, -1, 1)
+
+  // Tête : décalage du nez depuis la position neutre (même repère)
+  const nose = landmarks[POSE_LANDMARKS.nose]
+  const headLean = nose && baseline.noseX !== null
+    ? clamp((baseline.noseX - nose.x) / baseline.shoulderWidth / POSE_CONFIG.headLeanRange, -1, 1)
+    : lean
+
+  // y croissant = vers le bas
+  const drop = (center.y - baseline.centerY) / baseline.shoulderWidth
+  const duck = clamp(drop / POSE_CONFIG.duckRange, 0, 1)
+
+  // Rotation autour de l'axe vertical (z plus petit = plus proche de la caméra)
+  const shoulderRotation = Math.atan2(
+    worldLeft.z - worldRight.z,
+    Math.abs(worldLeft.x - worldRight.x)
+  )
+
+  // Garde : moyenne lente de la rotation (les coups ne la font pas basculer)
+  const stanceRotation = previous
+    ? previous.stanceRotation + (shoulderRotation - previous.stanceRotation) * POSE_CONFIG.stanceSmoothing
+    : shoulderRotation
+  let stance: PoseStance = previous?.stance ?? 'orthodox'
+  if (stanceRotation < -POSE_CONFIG.stanceThreshold) stance = 'orthodox'
+  else if (stanceRotation > POSE_CONFIG.stanceThreshold) stance = 'southpaw'
+
+  return { lean, headLean, duck, shoulderRotation, stanceRotation, stance }
+}
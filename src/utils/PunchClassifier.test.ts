@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PUNCH_CLASSES,
+  TRAJECTORY_FRAMES,
+  buildExamples,
+  classifyPunch,
+  evaluateModel,
+  extractFeatures,
+  parseModel,
+  parseSession,
+  trainModel,
+  type PunchClass,
+  type PunchSession,
+  type RecordedFrame,
+} from './PunchClassifier'
+import { createSeededRandom } from './SeededRandom'
+import type { PunchHand, PunchType } from '../stores/useGameStore'
+
+// Cadence de MediaPipe (ms entre deux frames)
+const FRAME_MS = 1000 / 30
+
+// Déplacement par frame du poignet qui frappe, par type de coup
+const PUNCH_MOTION: Record<PunchType, [number, number, number]> = {
+  jab: [0, 0, -0.03],
+  hook: [0.03, 0, -0.005],
+  uppercut: [0, -0.03, -0.005],
+}
+
+/**
+ * Trajectoire d'un coup : le poignet qui frappe suit PUNCH_MOTION, l'autre reste en garde
+ */
+function createPunchFrames(label: PunchClass, random: () => number, start = 0): RecordedFrame[] {
+  const [hand, type] = label.split('-') as [PunchHand, PunchType]
+  const [dx, dy, dz] = PUNCH_MOTION[type]
+  // Un crochet part vers le centre : sens opposé pour les deux mains
+  const sx = hand === 'left' ? 1 : -1
+  const jitter = () => (random() - 0.5) * 0.004
+
+  return Array.from({ length: TRAJECTORY_FRAMES }, (_, i) => {
+    const moving: [number, number, number] = [
+      0.5 + sx * dx * i + jitter(),
+      0.5 + dy * i + jitter(),
+      dz * i + jitter(),
+    ]
+    const guard: [number, number, number] = [0.5 + jitter(), 0.5 + jitter(), jitter()]
+    return {
+      t: start + i * FRAME_MS,
+      left: hand === 'left' ? moving : guard,
+      right: hand === 'right' ? moving : guard,
+    }
+  })
+}
+
+/**
+ * Session étiquetée : `count` coups de chaque classe, séparés par une seconde
+ */
+function createSession(count: number, seed: number): PunchSession {
+  const random = createSeededRandom(seed)
+  const frames: RecordedFrame[] = []
+  const punches: PunchSession['punches'] = []
+
+  for (let n = 0; n < count; n++) {
+    for (const label of PUNCH_CLASSES) {
+      const start = (frames.length + 30) * FRAME_MS
+      const punchFrames = createPunchFrames(label, random, start)
+      frames.push(...punchFrames)
+      const [hand, type] = label.split('-') as [PunchHand, PunchType]
+      punches.push({ t: punchFrames[punchFrames.length - 1]!.t, hand, type })
+    }
+  }
+  return { version: 1, recordedAt: '2026-01-01T00:00:00.000Z', frames, punches }
+}
+
+describe('extractFeatures', () => {
+  it('needs a full trajectory', () => {
+    const frames = createPunchFrames('left-jab', createSeededRandom(1)).slice(1)
+    expect(extractFeatures(frames)).toBeNull()
+  })
+
+  it('returns wrist velocities in units per second, zero for a missing hand', () => {
+    const frames: RecordedFrame[] = Array.from({ length: TRAJECTORY_FRAMES }, (_, i) => ({
+      t: i * 100,
+      left: [0.1 * i, 0, 0],
+      right: null,
+    }))
+    const features = extractFeatures(frames)!
+    const half = features.length / 2
+
+    expect(features).toHaveLength((TRAJECTORY_FRAMES - 1) * 6)
+    expect(features[0]).toBeCloseTo(1)
+    expect(features.slice(half).every((value) => value === 0)).toBe(true)
+  })
+})
+
+describe('buildExamples', () => {
+  it('builds one labelled example per punch', () => {
+    const session = createSession(2, 1)
+    const examples = buildExamples(session)
+    expect(examples).toHaveLength(session.punches.length)
+    expect(examples.map((example) => example.label)).toEqual([...PUNCH_CLASSES, ...PUNCH_CLASSES])
+  })
+})
+
+describe('trainModel / classifyPunch', () => {
+  const model = trainModel(buildExamples(createSession(4, 1)), 3)
+
+  it.each(PUNCH_CLASSES)('recognises %s from a new trajectory', (label) => {
+    const result = classifyPunch(model, createPunchFrames(label, createSeededRandom(99)))
+    expect(result && `${result.hand}-${result.type}`).toBe(label)
+    expect(result!.confidence).toBeGreaterThan(0.5)
+  })
+
+  it('does not classify a partial trajectory', () => {
+    expect(classifyPunch(model, createPunchFrames('left-jab', createSeededRandom(2)).slice(2))).toBeNull()
+  })
+})
+
+describe('evaluateModel', () => {
+  it('puts every leave-one-out prediction on the diagonal for separable punches', () => {
+    const matrix = evaluateModel(buildExamples(createSession(3, 5)), 3)
+    matrix.forEach((row, i) => {
+      expect(row[i]).toBe(3)
+      expect(row.reduce((a, b) => a + b, 0)).toBe(3)
+    })
+  })
+})
+
+describe('parseModel', () => {
+  it('round-trips a trained model through JSON', () => {
+    const model = trainModel(buildExamples(createSession(2, 3)), 3)
+    expect(parseModel(JSON.parse(JSON.stringify(model)))).toEqual(model)
+  })
+
+  it('rejects models with the wrong feature count or no examples', () => {
+    const model = trainModel(buildExamples(createSession(2, 3)), 3)
+    expect(parseModel({ ...model, means: model.means.slice(1) })).toBeNull()
+    expect(parseModel({ ...model, examples: [] })).toBeNull()
+    expect(parseModel(null)).toBeNull()
+  })
+})
+
+describe('parseSession', () => {
+  it('drops malformed frames and unknown punch labels', () => {
+    const session = parseSession({
+      version: 1,
+      recordedAt: 'x',
+      frames: [{ t: 0, left: [0, 0, 0], right: null }, { t: 1, left: [0, 0], right: null }],
+      punches: [{ t: 0, hand: 'left', type: 'jab' }, { t: 1, hand: 'left', type: 'kick' }],
+    })
+    expect(session?.frames).toHaveLength(1)
+    expect(session?.punches).toHaveLength(1)
+  })
+
+  it('rejects other versions', () => {
+    expect(parseSession({ version: 2, frames: [], punches: [] })).toBeNull()
+  })
+})
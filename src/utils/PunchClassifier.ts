@@ -0,0 +1,282 @@
+/**
+ * PunchClassifier - Classification des coups à partir des trajectoires des poignets
+ *
+ * Remplace les seuils réglés à la main de useUnifiedInput (PUNCH_CONFIG) par
+ * un k plus proches voisins entraîné sur des sessions étiquetées :
+ * 1. Enregistrer des sessions avec useHandTrackingLogger (un type de coup par session)
+ * 2. Entraîner hors ligne : `npm run punch-classifier -- train sessions/*.json`
+ * 3. Le modèle (src/models/punch-classifier.json) est chargé par usePunchClassifierStore
+ *
+ * Les caractéristiques décrivent les deux poignets sur les dernières frames :
+ * le modèle prédit le type de coup ET la main qui frappe.
+ *
+ * Module sans dépendance navigateur (partagé avec le script d'entraînement)
+ */
+
+import type { PunchType, PunchHand } from '../stores/useGameStore'
+
+/**
+ * Frame enregistrée : position normalisée des poignets (null = main absente)
+ */
+export interface RecordedFrame {
+  t: number // ms
+  left: [number, number, number] | null
+  right: [number, number, number] | null
+}
+
+/**
+ * Coup étiqueté dans une session
+ */
+export interface LabelledPunch {
+  t: number // ms, même horloge que les frames
+  hand: PunchHand
+  type: PunchType
+}
+
+/**
+ * Session enregistrée (voir useHandTrackingLogger.exportSession)
+ */
+export interface PunchSession {
+  version: 1
+  recordedAt: string
+  frames: RecordedFrame[]
+  punches: LabelledPunch[]
+}
+
+/**
+ * Classe prédite : main + type de coup
+ */
+export type PunchClass = `${PunchHand}-${PunchType}`
+
+export const PUNCH_CLASSES: PunchClass[] = [
+  'left-jab', 'left-hook', 'left-uppercut',
+  'right-jab', 'right-hook', 'right-uppercut',
+]
+
+/**
+ * Exemple d'entraînement
+ */
+export interface PunchExample {
+  features: number[]
+  label: PunchClass
+}
+
+/**
+ * Modèle k-NN sérialisé (JSON)
+ */
+export interface PunchClassifierModel {
+  version: 1
+  k: number
+  means: number[] // Normalisation z-score par caractéristique
+  stds: number[]
+  examples: PunchExample[]
+}
+
+/**
+ * Résultat de classification
+ */
+export interface PunchClassification {
+  hand: PunchHand
+  type: PunchType
+  confidence: number // Part des voisins qui ont voté pour la classe (0-1)
+}
+
+// Nombre de frames de trajectoire utilisées (≈ 200 ms à 30 fps)
+export const TRAJECTORY_FRAMES = 6
+
+// Nombre de voisins par défaut
+const DEFAULT_K = 5
+
+const FEATURE_COUNT = (TRAJECTORY_FRAMES - 1) * 3 * 2
+
+/**
+ * Vitesses des poignets entre frames consécutives (unités normalisées / s)
+ * Main absente = vitesses nulles
+ */
+export function extractFeatures(frames: RecordedFrame[]): number[] | null {
+  const recent = frames.slice(-TRAJECTORY_FRAMES)
+  if (recent.length < TRAJECTORY_FRAMES) return null
+
+  const features: number[] = []
+  for (const hand of ['left', 'right'] as const) {
+    for (let i = 1; i < recent.length; i++) {
+      const previous = recent[i - 1]
+      const current = recent[i]
+      const a = previous?.[hand]
+      const b = current?.[hand]
+      const dt = previous && current ? Math.max((current.t - previous.t) / 1000, 1e-3) : 1
+      features.push(
+        a && b ? (b[0] - a[0]) / dt : 0,
+        a && b ? (b[1] - a[1]) / dt : 0,
+        a && b ? (b[2] - a[2]) / dt : 0,
+      )
+    }
+  }
+  return features
+}
+
+/**
+ * Exemples d'une session : trajectoire qui se termine au moment de chaque coup
+ */
+export function buildExamples(session: PunchSession): PunchExample[] {
+  const examples: PunchExample[] = []
+  for (const punch of session.punches) {
+    const end = session.frames.findIndex((frame) => frame.t > punch.t)
+    const frames = session.frames.slice(0, end === -1 ? session.frames.length : end)
+    const features = extractFeatures(frames)
+    if (features) examples.push({ features, label: `${punch.hand}-${punch.type}` })
+  }
+  return examples
+}
+
+/**
+ * Entraîne le modèle (k-NN : on garde les exemples normalisés)
+ */
+export function trainModel(examples: PunchExample[], k = DEFAULT_K): PunchClassifierModel {
+  const means = new Array<number>(FEATURE_COUNT).fill(0)
+  const stds = new Array<number>(FEATURE_COUNT).fill(0)
+
+  for (const example of examples) {
+    example.features.forEach((value, i) => { means[i] = (means[i] ?? 0) + value / examples.length })
+  }
+  for (const example of examples) {
+    example.features.forEach((value, i) => {
+      stds[i] = (stds[i] ?? 0) + ((value - (means[i] ?? 0)) ** 2) / examples.length
+    })
+  }
+
+  const model: PunchClassifierModel = {
+    version: 1,
+    k,
+    means,
+    // Écart-type nul (caractéristique constante) : pas de mise à l'échelle
+    stds: stds.map((variance) => Math.sqrt(variance) || 1),
+    examples: [],
+  }
+  model.examples = examples.map((example) => ({ features: normalize(model, example.features), label: example.label }))
+  return model
+}
+
+const normalize = (model: PunchClassifierModel, features: number[]): number[] =>
+  features.map((value, i) => (value - (model.means[i] ?? 0)) / (model.stds[i] ?? 1))
+
+/**
+ * Vote des k plus proches voisins (caractéristiques déjà normalisées)
+ */
+function vote(examples: PunchExample[], features: number[], k: number): { label: PunchClass; confidence: number } | null {
+  const neighbours = examples
+    .map((example) => ({
+      label: example.label,
+      distance: example.features.reduce((sum, value, i) => sum + (value - (features[i] ?? 0)) ** 2, 0),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k)
+  if (neighbours.length === 0) return null
+
+  const votes = new Map<PunchClass, number>()
+  neighbours.forEach(({ label }) => votes.set(label, (votes.get(label) ?? 0) + 1))
+
+  let best: PunchClass | null = null
+  let bestVotes = 0
+  votes.forEach((count, label) => {
+    if (count > bestVotes) {
+      best = label
+      bestVotes = count
+    }
+  })
+  return best ? { label: best, confidence: bestVotes / neighbours.length } : null
+}
+
+const splitClass = (label: PunchClass): { hand: PunchHand; type: PunchType } => {
+  const [hand, type] = label.split('-') as [PunchHand, PunchType]
+  return { hand, type }
+}
+
+/**
+ * Classe une trajectoire (null si pas assez de frames)
+ */
+export function classifyPunch(model: PunchClassifierModel, frames: RecordedFrame[]): PunchClassification | null {
+  const features = extractFeatures(frames)
+  if (!features) return null
+
+  const result = vote(model.examples, normalize(model, features), model.k)
+  return result ? { ...splitClass(result.label), confidence: result.confidence } : null
+}
+
+/**
+ * Matrice de confusion en leave-one-out (lignes = réel, colonnes = prédit, ordre PUNCH_CLASSES)
+ * Chaque exemple est classé par un modèle entraîné sur tous les autres
+ */
+export function evaluateModel(examples: PunchExample[], k = DEFAULT_K): number[][] {
+  const matrix = PUNCH_CLASSES.map(() => PUNCH_CLASSES.map(() => 0))
+
+  examples.forEach((example, i) => {
+    const model = trainModel(examples.filter((_, j) => j !== i), k)
+    const result = vote(model.examples, normalize(model, example.features), k)
+    const row = matrix[PUNCH_CLASSES.indexOf(example.label)]
+    if (!result || !row) return
+    const column = PUNCH_CLASSES.indexOf(result.label)
+    row[column] = (row[column] ?? 0) + 1
+  })
+  return matrix
+}
+
+/**
+ * Affichage texte de la matrice de confusion (+ précision globale)
+ */
+export function formatConfusionMatrix(matrix: number[][]): string {
+  const width = Math.max(...PUNCH_CLASSES.map((label) => label.length)) + 2
+  const header = ''.padEnd(width) + PUNCH_CLASSES.map((label) => label.padStart(width)).join('')
+  const rows = matrix.map((row, i) =>
+    (PUNCH_CLASSES[i] ?? '').padEnd(width) + row.map((count) => String(count).padStart(width)).join('')
+  )
+
+  const total = matrix.reduce((sum, row) => sum + row.reduce((a, b) => a + b, 0), 0)
+  const correct = matrix.reduce((sum, row, i) => sum + (row[i] ?? 0), 0)
+  const accuracy = total > 0 ? `${((correct / total) * 100).toFixed(1)}%` : 'n/a'
+
+  return [header, ...rows, '', `Précision : ${accuracy} (${correct}/${total})`].join('\n')
+}
+
+const isPoint = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number')
+
+/**
+ * Valide une session lue depuis un fichier
+ */
+export function parseSession(raw: unknown): PunchSession | null {
+  if (!raw || typeof raw !== 'object') return null
+  const session = raw as Partial<PunchSession>
+  if (session.version !== 1 || !Array.isArray(session.frames) || !Array.isArray(session.punches)) return null
+
+  return {
+    version: 1,
+    recordedAt: typeof session.recordedAt === 'string' ? session.recordedAt : '',
+    frames: session.frames.filter((frame): frame is RecordedFrame =>
+      !!frame && typeof frame.t === 'number' &&
+      (frame.left === null || isPoint(frame.left)) && (frame.right === null || isPoint(frame.right))
+    ),
+    punches: session.punches.filter((punch): punch is LabelledPunch =>
+      !!punch && typeof punch.t === 'number' && PUNCH_CLASSES.includes(`${punch.hand}-${punch.type}`)
+    ),
+  }
+}
+
+/**
+ * Valide un modèle lu depuis le JSON
+ */
+export function parseModel(raw: unknown): PunchClassifierModel | null {
+  if (!raw || typeof raw !== 'object') return null
+  const model = raw as Partial<PunchClassifierModel>
+  if (model.version !== 1 || typeof model.k !== 'number' || !Array.isArray(model.examples)) return null
+  if (!Array.isArray(model.means) || model.means.length !== FEATURE_COUNT) return null
+  if (!Array.isArray(model.stds) || model.stds.length !== FEATURE_COUNT) return null
+
+  const examples = model.examples.filter((example): example is PunchExample =>
+    !!example && PUNCH_CLASSES.includes(example.label) &&
+    Array.isArray(example.features) && example.features.length === FEATURE_COUNT
+  )
+  if (examples.length === 0) return null
+
+  return { version: 1, k: Math.max(1, Math.round(model.k)), means: model.means, stds: model.stds, examples }
+}
@@ -0,0 +1,134 @@
+/**
+ * PunchDetection - Détection des coups à partir du poignet suivi par la caméra
+ *
+ * Utilisé par useUnifiedInput (caméra ou enregistrement rejoué) et par
+ * HandTrackingReplay (vérification de la détection sur un enregistrement)
+ */
+
+import type { HandState } from '../stores/useHandTrackingStore'
+import type { PunchType } from '../stores/useGameStore'
+import { DEFAULT_REACH } from './CalibrationMapping'
+
+/**
+ * Seuils pour la détection de coup via caméra
+ */
+export const PUNCH_CONFIG = {
+  // Seuil de vélocité Z pour déclencher un coup (unités par seconde)
+  // Négatif = vers la caméra = vers l'adversaire
+  velocityThreshold: 0.12,
+  // Seuil de vélocité Y pour un uppercut (mouvement vers le haut)
+  uppercutThreshold: 0.08,
+  // Seuil de vélocité X pour un hook (mouvement latéral)
+  hookThreshold: 0.1,
+  // Vélocité max pour normalisation
+  maxVelocity: 0.5,
+  // Délai minimum entre deux coups de la même main (ms)
+  punchCooldown: 250,
+  // Seuil de position Z pour détecter un "armé" (main qui recule)
+  windupZThreshold: 0.02,
+  // Part de l'allonge (calibrée) à partir de laquelle le bras compte comme tendu
+  extensionThreshold: 0.3,
+  // Bonus de vélocité max pour un bras tendu
+  maxExtensionBonus: 0.3,
+}
+
+/**
+ * État d'une main pour l'input unifié
+ */
+export interface HandInputState {
+  isActive: boolean
+  screenPosition: { x: number; y: number }
+  lastPunchTime: number
+  // Position Z de calibration (référence pour l'extension)
+  calibratedZ: number | null
+  // Allonge du joueur (différence de Z entre garde et bras tendu)
+  reach: number
+  // Position Z précédente pour détecter le "wind-up"
+  previousZ: number | null
+  // Indique si la main est en phase d'armé
+  isWindingUp: boolean
+}
+
+/**
+ * État initial d'une main (non détectée)
+ */
+export function createHandInputState(): HandInputState {
+  return {
+    isActive: false,
+    screenPosition: { x: 0, y: 0 },
+    lastPunchTime: 0,
+    calibratedZ: null,
+    reach: DEFAULT_REACH,
+    previousZ: null,
+    isWindingUp: false,
+  }
+}
+
+/**
+ * Coup détecté sur une main
+ */
+export interface DetectedPunch {
+  isPunch: boolean
+  type: PunchType
+  velocity: number
+  extensionBonus: number
+}
+
+/**
+ * Détecte si un mouvement de main constitue un coup
+ * Utilise la vélocité Z + position Z pour une détection plus précise
+ * @param now Instant courant (ms), comparé à handState.lastPunchTime pour le cooldown
+ */
+export function detectPunch(
+  hand: HandState,
+  handState: HandInputState,
+  now: number = Date.now()
+): DetectedPunch | null {
+  // Cooldown entre les coups
+  if (now - handState.lastPunchTime < PUNCH_CONFIG.punchCooldown) {
+    return null
+  }
+
+  // Vérifier la vélocité Z (négatif = vers l'écran/adversaire)
+  const velZ = hand.velocity.z
+  if (velZ > -PUNCH_CONFIG.velocityThreshold) {
+    return null
+  }
+
+  // Position Z actuelle du poignet
+  const currentZ = hand.landmarks[0]?.z ?? 0
+
+  // Calculer le bonus d'extension (si la main est plus avancée que la calibration)
+  let extensionBonus = 0
+  if (handState.calibratedZ !== null) {
+    // Différence de Z par rapport à la calibration
+    // Plus négatif = plus avancé vers la caméra
+    const zDelta = handState.calibratedZ - currentZ
+    if (zDelta > handState.reach * PUNCH_CONFIG.extensionThreshold) {
+      extensionBonus = Math.min(zDelta / handState.reach, PUNCH_CONFIG.maxExtensionBonus)
+    }
+  }
+
+  // Déterminer le type de coup basé sur la direction du mouvement
+  let type: PunchType = 'jab'
+  const velY = hand.velocity.y
+  const velX = Math.abs(hand.velocity.x)
+
+  // Uppercut: mouvement vers le haut (Y négatif en coordonnées écran = vers le haut)
+  if (velY < -PUNCH_CONFIG.uppercutThreshold) {
+    type = 'uppercut'
+  }
+  // Hook: mouvement latéral important
+  else if (velX > PUNCH_CONFIG.hookThreshold && velX > Math.abs(velZ) * 0.5) {
+    type = 'hook'
+  }
+
+  // Normaliser la vélocité entre 0 et 1
+  const rawVelocity = Math.abs(velZ)
+  const baseVelocity = Math.min(rawVelocity / PUNCH_CONFIG.maxVelocity, 1)
+
+  // Ajouter le bonus d'extension
+  const velocity = Math.min(baseVelocity + extensionBonus, 1)
+
+  return { isPunch: true, type, velocity, extensionBonus }
+}
@@ -0,0 +1,205 @@
+/**
+ * Scorecard - Notation des rounds selon le système des 10 points (10-point must)
+ *
+ * Chaque juge attribue 10 points au vainqueur du round et 9 (ou 8 si le round
+ * est dominé) au perdant. La performance du joueur est comparée à un "par"
+ * attendu pour la durée du round : au-dessus du par, le joueur gagne le round.
+ *
+ * Les trois juges ont chacun leur sensibilité (volume, puissance, technique)
+ * ce qui permet des décisions partagées comme en vraie boxe.
+ *
+ * Chaque knockdown retire un point supplémentaire à l'adversaire, les coups
+ * encaissés (riposte de l'adversaire) pénalisent la performance, et un
+ * arrêt (KO / TKO) donne la victoire quel que soit le total des cartes.
+ */
+
+/**
+ * Statistiques d'un round terminé
+ */
+export interface RoundStats {
+  round: number      // Numéro du round (1-based)
+  hits: number       // Coups portés pendant le round
+  damage: number     // Dégâts cumulés pendant le round
+  maxCombo: number   // Plus long combo du round
+  knockdowns: number // Knockdowns infligés pendant le round
+  hitsTaken: number  // Coups de l'adversaire encaissés pendant le round
+  duration: number   // Durée effectivement combattue (secondes)
+}
+
+/**
+ * Score d'un juge pour un round (ou total du match)
+ */
+export interface JudgeScore {
+  player: number
+  opponent: number
+}
+
+/**
+ * Round noté par les juges
+ */
+export interface ScoredRound extends RoundStats {
+  judges: JudgeScore[]
+}
+
+/**
+ * Issue du match pour le joueur
+ */
+export type MatchResult = 'win' | 'loss' | 'draw'
+
+/**
+ * Type de décision des juges
+ */
+export type DecisionType = 'unanimous' | 'split' | 'majority' | 'draw' | 'ko' | 'tko'
+
+/**
+ * Type d'arrêt du combat
+ * - KO: le boxeur au tapis ne se relève pas avant la fin du compte
+ * - TKO: arrêt sur règle des trois knockdowns dans un même round
+ */
+export type StoppageType = 'KO' | 'TKO'
+
+/**
+ * Arrêt du combat avant la limite
+ */
+export interface Stoppage {
+  type: StoppageType
+  winner: 'player' | 'opponent'
+  round: number   // Round de l'arrêt
+  time: number    // Secondes écoulées dans le round
+}
+
+/**
+ * Feuille de match complète
+ */
+export interface MatchScorecard {
+  rounds: ScoredRound[]
+  totals: JudgeScore[]   // Total par juge
+  result: MatchResult
+  decision: DecisionType
+  stoppage: Stoppage | null
+}
+
+/**
+ * Profil d'un juge : poids accordés à chaque critère (somme = 1)
+ */
+interface JudgeProfile {
+  name: string
+  hits: number
+  damage: number
+  combo: number
+}
+
+export const JUDGES: readonly JudgeProfile[] = [
+  { name: 'Volume', hits: 1, damage: 0, combo: 0 },
+  { name: 'Puissance', hits: 0.4, damage: 0.6, combo: 0 },
+  { name: 'Technique', hits: 0.6, damage: 0, combo: 0.4 },
+]
+
+// Par de référence (~50 coups sur un round de 33s = grade C/B)
+const PAR_HITS_PER_SECOND = 1.5
+const PAR_DAMAGE_PER_HIT = 8
+const PAR_COMBO = 10
+
+// Ratio de performance au-delà duquel le round est "dominé" (10-8)
+const DOMINANT_RATIO = 1.5
+
+// Marge autour du par considérée comme un round égal (10-10)
+const EVEN_MARGIN = 0.05
+
+// Score plancher du perdant d'un round
+const MIN_ROUND_SCORE = 6
+
+// Pénalité de performance par coup encaissé
+const TAKEN_HIT_PENALTY = 0.05
+
+/**
+ * Calcule le ratio performance/par d'un round selon le profil d'un juge
+ */
+function getPerformanceRatio(stats: RoundStats, judge: JudgeProfile): number {
+  const parHits = Math.max(1, stats.duration * PAR_HITS_PER_SECOND)
+  const hitsRatio = stats.hits / parHits
+  const damageRatio = stats.damage / (parHits * PAR_DAMAGE_PER_HIT)
+  const comboRatio = stats.maxCombo / PAR_COMBO
+  const defenseFactor = Math.max(0, 1 - stats.hitsTaken * TAKEN_HIT_PENALTY)
+
+  return (judge.hits * hitsRatio + judge.damage * damageRatio + judge.combo * comboRatio) * defenseFactor
+}
+
+/**
+ * Note un round avec le système des 10 points
+ */
+export function scoreRound(stats: RoundStats): ScoredRound {
+  const judges = JUDGES.map((judge): JudgeScore => {
+    const ratio = getPerformanceRatio(stats, judge)
+
+    // Un knockdown donne le round au joueur, -1 point par knockdown
+    if (stats.knockdowns > 0) {
+      const base = ratio >= DOMINANT_RATIO ? 8 : 9
+      return { player: 10, opponent: Math.max(MIN_ROUND_SCORE, base - stats.knockdowns) }
+    }
+
+    if (Math.abs(ratio - 1) < EVEN_MARGIN) {
+      return { player: 10, opponent: 10 }
+    }
+    if (ratio > 1) {
+      return { player: 10, opponent: ratio >= DOMINANT_RATIO ? 8 : 9 }
+    }
+    return { player: ratio <= 1 / DOMINANT_RATIO ? 8 : 9, opponent: 10 }
+  })
+
+  return { ...stats, judges }
+}
+
+/**
+ * Construit la feuille de match à partir des rounds notés
+ * Un vainqueur doit avoir la majorité des cartes des juges, sauf arrêt du combat
+ */
+export function buildScorecard(rounds: ScoredRound[], stoppage: Stoppage | null = null): MatchScorecard {
+  const totals = JUDGES.map((_, judgeIndex): JudgeScore => {
+    return rounds.reduce<JudgeScore>(
+      (acc, round) => {
+        const score = round.judges[judgeIndex]
+        if (!score) return acc
+        return {
+          player: acc.player + score.player,
+          opponent: acc.opponent + score.opponent,
+        }
+      },
+      { player: 0, opponent: 0 }
+    )
+  })
+
+  if (stoppage) {
+    return {
+      rounds,
+      totals,
+      result: stoppage.winner === 'player' ? 'win' : 'loss',
+      decision: stoppage.type === 'KO' ? 'ko' : 'tko',
+      stoppage,
+    }
+  }
+
+  const playerCards = totals.filter((t) => t.player > t.opponent).length
+  const opponentCards = totals.filter((t) => t.opponent > t.player).length
+  const majority = totals.length / 2
+
+  if (playerCards > majority) {
+    return {
+      rounds,
+      totals,
+      result: 'win',
+      decision: playerCards === totals.length ? 'unanimous' : opponentCards > 0 ? 'split' : 'majority',
+      stoppage: null,
+    }
+  }
+  if (opponentCards > majority) {
+    return {
+      rounds,
+      totals,
+      result: 'loss',
+      decision: opponentCards === totals.length ? 'unanimous' : playerCards > 0 ? 'split' : 'majority',
+      stoppage: null,
+    }
+  }
+  return { rounds, totals, result: 'draw', decision: 'draw', stoppage: null }
+}
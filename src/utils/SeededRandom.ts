@@ -0,0 +1,25 @@
+/**
+ * SeededRandom - Générateur pseudo-aléatoire reproductible
+ *
+ * Mulberry32 : 32 bits d'état, rapide, suffisant pour le gameplay
+ * (pas pour la cryptographie). Même graine = même séquence.
+ */
+
+/**
+ * Générateur de nombres dans [0, 1), comme Math.random
+ */
+export type RandomGenerator = () => number
+
+/**
+ * Crée un générateur à partir d'une graine entière
+ */
+export function createSeededRandom(seed: number): RandomGenerator {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
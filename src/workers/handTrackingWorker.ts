@@ -1,14 +1,17 @@
 /**
- * Web Worker pour le hand tracking MediaPipe
- * Worker classique (non-module) pour compatibilité avec importScripts()
+ * Web Worker pour le hand tracking MediaPipe - types et conversion partagés
+ * avec le thread principal (voir useHandTracking)
  *
- * NOTE: Ce fichier sera bundlé par Vite et converti en classic worker
+ * NOTE: L'implémentation du worker est dans handTrackingWorkerImpl.ts
+ * (worker classique : il n'importe que des types de ce module)
  */
 
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision'
+
 // Types pour la communication avec le thread principal
 export interface WorkerMessage {
   type: 'init' | 'process' | 'setOptions' | 'stop'
-  payload?: ImageBitmap | HandTrackingOptions
+  payload?: ImageBitmap | HandTrackingOptions | HandTrackingInit
   timestamp?: number
 }
 
@@ -24,6 +27,19 @@ export interface HandTrackingOptions {
   minTrackingConfidence?: number
 }
 
+/**
+ * Chargement du worker : options et fichiers MediaPipe (version figée, voir MediaPipeAssets)
+ */
+export interface HandTrackingInit extends HandTrackingOptions {
+  bundleUrl: string
+  wasmUrl: string
+}
+
+/**
+ * Résultat MediaPipe réduit aux champs sérialisables utilisés par toDetectedHands
+ */
+export type HandLandmarks = Pick<HandLandmarkerResult, 'landmarks' | 'worldLandmarks' | 'handednesses'>
+
 export interface DetectedHand {
   handedness: 'Left' | 'Right'
   landmarks: { x: number; y: number; z: number }[]
@@ -31,10 +47,31 @@ export interface DetectedHand {
 }
 
 export interface HandTrackingResult {
-  hands: DetectedHand[]
+  results: HandLandmarks // Converti par toDetectedHands sur le thread principal
   timestamp: number
   processingTime: number
+  droppedFrames: number // Frames abandonnées par le worker (trop anciennes)
 }
 
-// Ce fichier exporte seulement les types
-// L'implémentation réelle est dans handTrackingWorkerImpl.js
+/**
+ * Convertit un résultat MediaPipe en mains (thread principal et résultats du worker)
+ */
+export function toDetectedHands(results: HandLandmarks): DetectedHand[] {
+  const hands: DetectedHand[] = []
+  if (!results.landmarks || !results.handednesses) return hands
+
+  for (let i = 0; i < results.landmarks.length; i++) {
+    const handedness = results.handednesses[i]?.[0]
+    const landmarks = results.landmarks[i]
+    if (handedness && landmarks) {
+      hands.push({
+        // MediaPipe retourne "Left" ou "Right" du point de vue anatomique de l'utilisateur
+        // Donc "Left" = main gauche de l'utilisateur, pas besoin d'inverser
+        handedness: handedness.categoryName as 'Left' | 'Right',
+        landmarks: landmarks.map((l) => ({ x: l.x, y: l.y, z: l.z })),
+        worldLandmarks: (results.worldLandmarks?.[i] ?? []).map((l) => ({ x: l.x, y: l.y, z: l.z })),
+      })
+    }
+  }
+  return hands
+}
@@ -0,0 +1,166 @@
+/**
+ * Web Worker pour le hand tracking MediaPipe
+ * Sort l'inférence du thread principal (Ammo + rendu)
+ *
+ * Protocole (voir handTrackingWorker.ts) :
+ * - init       → charge MediaPipe et le modèle avec les options, répond 'ready'
+ * - process    → détecte les mains sur l'ImageBitmap transférée, répond 'result'
+ *                (landmarks bruts, convertis par toDetectedHands côté thread principal)
+ * - setOptions → met à jour les seuils de confiance
+ * - stop       → libère le modèle, répond 'stopped'
+ *
+ * Backpressure : seule la frame la plus récente est traitée,
+ * les frames arrivées pendant une détection sont abandonnées
+ *
+ * Worker classique : MediaPipe charge son loader WASM avec importScripts(),
+ * indisponible dans un worker module. Aucun import à l'exécution (seulement
+ * des types) : la bibliothèque est chargée par importScripts à l'init.
+ */
+
+import type { HandLandmarker } from '@mediapipe/tasks-vision'
+import type {
+  HandTrackingInit,
+  HandTrackingOptions,
+  WorkerMessage,
+  WorkerResponse,
+} from './handTrackingWorker'
+
+// API des workers classiques (absente de la lib DOM du tsconfig)
+declare function importScripts(...urls: string[]): void
+
+type MediaPipeVision = typeof import('@mediapipe/tasks-vision')
+
+const MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+
+let handLandmarker: HandLandmarker | null = null
+let pendingFrame: { bitmap: ImageBitmap; timestamp: number } | null = null
+let isScheduled = false
+let droppedFrames = 0
+let lastTimestamp = 0
+
+const respond = (response: WorkerResponse) => self.postMessage(response)
+
+/**
+ * Charge le bundle CommonJS de MediaPipe (ses exports sont écrits dans self.exports)
+ */
+function loadMediaPipe(bundleUrl: string): MediaPipeVision {
+  const scope = self as unknown as { exports: Partial<MediaPipeVision> }
+  scope.exports = {}
+  importScripts(bundleUrl)
+  return scope.exports as MediaPipeVision
+}
+
+/**
+ * Initialise MediaPipe HandLandmarker
+ */
+async function init({ bundleUrl, wasmUrl, ...options }: HandTrackingInit): Promise<void> {
+  const { FilesetResolver, HandLandmarker } = loadMediaPipe(bundleUrl)
+  const vision = await FilesetResolver.forVisionTasks(wasmUrl)
+
+  handLandmarker = await HandLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: MODEL_URL,
+      delegate: 'GPU', // WebGL via OffscreenCanvas
+    },
+    runningMode: 'VIDEO',
+    numHands: options.numHands ?? 2,
+    minHandDetectionConfidence: options.minDetectionConfidence,
+    minHandPresenceConfidence: options.minTrackingConfidence,
+    minTrackingConfidence: options.minTrackingConfidence,
+  })
+}
+
+/**
+ * Détecte les mains sur la frame la plus récente
+ */
+function processPendingFrame(): void {
+  isScheduled = false
+  const frame = pendingFrame
+  pendingFrame = null
+  if (!frame) return
+
+  if (!handLandmarker) {
+    frame.bitmap.close()
+    return
+  }
+
+  const start = performance.now()
+  try {
+    // MediaPipe exige des timestamps strictement croissants
+    const timestamp = Math.max(frame.timestamp, lastTimestamp + 1)
+    lastTimestamp = timestamp
+
+    const { landmarks, worldLandmarks, handednesses } = handLandmarker.detectForVideo(frame.bitmap, timestamp)
+    respond({
+      type: 'result',
+      payload: {
+        results: { landmarks, worldLandmarks, handednesses },
+        timestamp: frame.timestamp,
+        processingTime: performance.now() - start,
+        droppedFrames,
+      },
+    })
+  } catch (error) {
+    respond({ type: 'error', error: error instanceof Error ? error.message : String(error) })
+  } finally {
+    frame.bitmap.close()
+  }
+}
+
+self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
+  const message = event.data
+
+  switch (message.type) {
+    case 'init': {
+      try {
+        await init(message.payload as HandTrackingInit)
+        respond({ type: 'ready' })
+      } catch (error) {
+        respond({ type: 'error', error: error instanceof Error ? error.message : String(error) })
+      }
+      break
+    }
+
+    case 'process': {
+      const bitmap = message.payload as ImageBitmap | undefined
+      if (!bitmap) break
+
+      // Une frame attendait encore : elle est périmée
+      if (pendingFrame) {
+        pendingFrame.bitmap.close()
+        droppedFrames++
+      }
+      pendingFrame = { bitmap, timestamp: message.timestamp ?? performance.now() }
+
+      // Traiter après les messages déjà en file (qui remplaceront cette frame)
+      if (!isScheduled) {
+        isScheduled = true
+        setTimeout(processPendingFrame, 0)
+      }
+      break
+    }
+
+    case 'setOptions': {
+      const options = (message.payload as HandTrackingOptions | undefined) ?? {}
+      await handLandmarker?.setOptions({
+        numHands: options.numHands,
+        minHandDetectionConfidence: options.minDetectionConfidence,
+        minHandPresenceConfidence: options.minTrackingConfidence,
+        minTrackingConfidence: options.minTrackingConfidence,
+      })
+      break
+    }
+
+    case 'stop': {
+      pendingFrame?.bitmap.close()
+      pendingFrame = null
+      handLandmarker?.close()
+      handLandmarker = null
+      droppedFrames = 0
+      lastTimestamp = 0
+      respond({ type: 'stopped' })
+      break
+    }
+  }
+}
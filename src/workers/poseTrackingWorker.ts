@@ -0,0 +1,41 @@
+/**
+ * Web Worker pour le suivi du corps MediaPipe Pose - types partagés
+ * avec le thread principal (voir usePoseTracking)
+ *
+ * NOTE: L'implémentation du worker est dans poseTrackingWorkerImpl.ts
+ * (worker classique : il n'importe que des types de ce module)
+ */
+
+import type { PosePoint } from '../utils/PoseAnalysis'
+
+// Types pour la communication avec le thread principal
+export interface PoseWorkerMessage {
+  type: 'init' | 'process' | 'stop'
+  payload?: ImageBitmap | PoseTrackingInit
+  timestamp?: number
+}
+
+export interface PoseWorkerResponse {
+  type: 'ready' | 'result' | 'error' | 'stopped'
+  payload?: PoseTrackingResult
+  error?: string
+}
+
+/**
+ * Chargement du worker : seuils et fichiers MediaPipe (version figée, voir MediaPipeAssets)
+ */
+export interface PoseTrackingInit {
+  bundleUrl: string
+  wasmUrl: string
+  minDetectionConfidence: number
+  minTrackingConfidence: number
+}
+
+export interface PoseTrackingResult {
+  // Premier corps détecté (null = personne dans l'image)
+  landmarks: PosePoint[] | null
+  worldLandmarks: PosePoint[] | null
+  timestamp: number
+  processingTime: number
+  droppedFrames: number // Frames abandonnées par le worker (trop anciennes)
+}
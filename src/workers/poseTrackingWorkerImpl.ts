@@ -0,0 +1,149 @@
+/**
+ * Web Worker pour le suivi du corps MediaPipe Pose
+ * Sort l'inférence du thread principal (Ammo + rendu), à côté du worker des mains
+ *
+ * Protocole (voir poseTrackingWorker.ts) :
+ * - init    → charge MediaPipe et le modèle avec les seuils, répond 'ready'
+ * - process → détecte le corps sur l'ImageBitmap transférée, répond 'result'
+ * - stop    → libère le modèle, répond 'stopped'
+ *
+ * Backpressure : même règle que le worker des mains (handTrackingWorkerImpl),
+ * seule la frame la plus récente est traitée
+ *
+ * Worker classique : MediaPipe charge son loader WASM avec importScripts()
+ */
+
+import type { PoseLandmarker } from '@mediapipe/tasks-vision'
+import type { PoseTrackingInit, PoseWorkerMessage, PoseWorkerResponse } from './poseTrackingWorker'
+
+// API des workers classiques (absente de la lib DOM du tsconfig)
+declare function importScripts(...urls: string[]): void
+
+type MediaPipeVision = typeof import('@mediapipe/tasks-vision')
+
+const MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task'
+
+let poseLandmarker: PoseLandmarker | null = null
+let pendingFrame: { bitmap: ImageBitmap; timestamp: number } | null = null
+let isScheduled = false
+let droppedFrames = 0
+let lastTimestamp = 0
+
+const respond = (response: PoseWorkerResponse) => self.postMessage(response)
+
+/**
+ * Charge le bundle CommonJS de MediaPipe (ses exports sont écrits dans self.exports)
+ */
+function loadMediaPipe(bundleUrl: string): MediaPipeVision {
+  const scope = self as unknown as { exports: Partial<MediaPipeVision> }
+  scope.exports = {}
+  importScripts(bundleUrl)
+  return scope.exports as MediaPipeVision
+}
+
+/**
+ * Initialise MediaPipe PoseLandmarker
+ */
+async function init({ bundleUrl, wasmUrl, minDetectionConfidence, minTrackingConfidence }: PoseTrackingInit): Promise<void> {
+  const { FilesetResolver, PoseLandmarker } = loadMediaPipe(bundleUrl)
+  const vision = await FilesetResolver.forVisionTasks(wasmUrl)
+
+  poseLandmarker = await PoseLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: MODEL_URL,
+      delegate: 'GPU', // WebGL via OffscreenCanvas
+    },
+    runningMode: 'VIDEO',
+    numPoses: 1,
+    minPoseDetectionConfidence: minDetectionConfidence,
+    minPosePresenceConfidence: minTrackingConfidence,
+    minTrackingConfidence,
+  })
+}
+
+/**
+ * Détecte le corps sur la frame la plus récente
+ */
+function processPendingFrame(): void {
+  isScheduled = false
+  const frame = pendingFrame
+  pendingFrame = null
+  if (!frame) return
+
+  if (!poseLandmarker) {
+    frame.bitmap.close()
+    return
+  }
+
+  const start = performance.now()
+  try {
+    // MediaPipe exige des timestamps strictement croissants
+    const timestamp = Math.max(frame.timestamp, lastTimestamp + 1)
+    lastTimestamp = timestamp
+
+    const results = poseLandmarker.detectForVideo(frame.bitmap, timestamp)
+    const landmarks = results.landmarks[0]
+    const worldLandmarks = results.worldLandmarks[0]
+    respond({
+      type: 'result',
+      payload: {
+        landmarks: landmarks ? landmarks.map(({ x, y, z }) => ({ x, y, z })) : null,
+        worldLandmarks: worldLandmarks ? worldLandmarks.map(({ x, y, z }) => ({ x, y, z })) : null,
+        timestamp: frame.timestamp,
+        processingTime: performance.now() - start,
+        droppedFrames,
+      },
+    })
+  } catch (error) {
+    respond({ type: 'error', error: error instanceof Error ? error.message : String(error) })
+  } finally {
+    frame.bitmap.close()
+  }
+}
+
+self.onmessage = async (event: MessageEvent<PoseWorkerMessage>) => {
+  const message = event.data
+
+  switch (message.type) {
+    case 'init': {
+      try {
+        await init(message.payload as PoseTrackingInit)
+        respond({ type: 'ready' })
+      } catch (error) {
+        respond({ type: 'error', error: error instanceof Error ? error.message : String(error) })
+      }
+      break
+    }
+
+    case 'process': {
+      const bitmap = message.payload as ImageBitmap | undefined
+      if (!bitmap) break
+
+      // Une frame attendait encore : elle est périmée
+      if (pendingFrame) {
+        pendingFrame.bitmap.close()
+        droppedFrames++
+      }
+      pendingFrame = { bitmap, timestamp: message.timestamp ?? performance.now() }
+
+      // Traiter après les messages déjà en file (qui remplaceront cette frame)
+      if (!isScheduled) {
+        isScheduled = true
+        setTimeout(processPendingFrame, 0)
+      }
+      break
+    }
+
+    case 'stop': {
+      pendingFrame?.bitmap.close()
+      pendingFrame = null
+      poseLandmarker?.close()
+      poseLandmarker = null
+      droppedFrames = 0
+      lastTimestamp = 0
+      respond({ type: 'stopped' })
+      break
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Web Worker du solveur XPBD - types et conversion partagés
+ * avec le thread principal (voir XPBDSolver.attachWorker)
+ *
+ * NOTE: L'implémentation du worker est dans xpbdWorkerImpl.ts
+ */
+
+import * as THREE from 'three'
+import type { Constraint, ImpactData, XPBDConfig, XPBDSnapshot } from '../physics/types'
+
+// Types pour la communication avec le thread principal
+export interface WorkerMessage {
+  type: 'sync' | 'config' | 'step' | 'reset' | 'restore'
+  payload?: XPBDWorkerState | XPBDWorkerConfig | XPBDStepRequest | XPBDSnapshot
+}
+
+export interface WorkerResponse {
+  type: 'stepped' | 'error'
+  error?: string
+}
+
+/**
+ * Topologie du solveur et buffer partagé des particules (voir XPBDBuffers)
+ * Envoyé à chaque ajout / suppression de particules ou de contraintes
+ */
+export interface XPBDWorkerState {
+  buffer: SharedArrayBuffer
+  capacity: number
+  ids: number[]
+  constraints: Constraint[]
+}
+
+/**
+ * Configuration sérialisable (gravité en tableau)
+ */
+export type XPBDWorkerConfig = Omit<XPBDConfig, 'gravity'> & {
+  gravity: [number, number, number]
+}
+
+/**
+ * Impact sérialisable (vecteurs en tableaux)
+ */
+export type XPBDWorkerImpact = Omit<ImpactData, 'position' | 'force'> & {
+  position: [number, number, number]
+  force: [number, number, number]
+}
+
+/**
+ * Pas à simuler : `steps` pas de `dt`, impacts appliqués au premier
+ */
+export interface XPBDStepRequest {
+  dt: number
+  steps: number
+  impacts: XPBDWorkerImpact[]
+}
+
+export function toWorkerConfig(config: XPBDConfig): XPBDWorkerConfig {
+  return { ...config, gravity: config.gravity.toArray() }
+}
+
+export function fromWorkerConfig(config: XPBDWorkerConfig): XPBDConfig {
+  return { ...config, gravity: new THREE.Vector3().fromArray(config.gravity) }
+}
+
+export function toWorkerImpact(impact: ImpactData): XPBDWorkerImpact {
+  return { ...impact, position: impact.position.toArray(), force: impact.force.toArray() }
+}
+
+export function fromWorkerImpact(impact: XPBDWorkerImpact): ImpactData {
+  return {
+    ...impact,
+    position: new THREE.Vector3().fromArray(impact.position),
+    force: new THREE.Vector3().fromArray(impact.force),
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Web Worker du solveur XPBD
+ * Sort la simulation jelly du thread principal (rendu + Ammo)
+ *
+ * Protocole (voir xpbdWorker.ts) :
+ * - sync    → topologie (IDs, contraintes) et buffer partagé des particules
+ * - config  → configuration du solveur
+ * - step    → `steps` pas de `dt`, impacts au premier, répond 'stepped'
+ * - reset   → particules au repos
+ * - restore → snapshot du thread principal
+ *
+ * Le solveur du worker calcule dans ses propres buffers et publie l'état
+ * dans le buffer partagé après chaque message. La publication est encadrée
+ * par un compteur de séquence (seqlock) : le thread principal recommence
+ * une lecture qui a croisé une publication et ne mélange donc pas deux pas.
+ */
+
+import { XPBDSolver } from '../physics/XPBDSolver'
+import { createParticleBuffers, type XPBDParticleBuffers } from '../physics/XPBDBuffers'
+import type { XPBDSnapshot } from '../physics/types'
+import {
+  fromWorkerConfig,
+  fromWorkerImpact,
+  type WorkerMessage,
+  type WorkerResponse,
+  type XPBDStepRequest,
+  type XPBDWorkerConfig,
+  type XPBDWorkerState,
+} from './xpbdWorker'
+
+const solver = new XPBDSolver()
+let shared: XPBDParticleBuffers | null = null
+
+const respond = (response: WorkerResponse) => self.postMessage(response)
+
+/**
+ * Publier l'état dans le buffer partagé (lu par le thread principal)
+ */
+function publish(): void {
+  if (shared) solver.publishState(shared)
+}
+
+/**
+ * Avancer la simulation
+ */
+function step({ dt, steps, impacts }: XPBDStepRequest): void {
+  for (const impact of impacts) {
+    solver.applyImpact(fromWorkerImpact(impact))
+  }
+  for (let i = 0; i < steps; i++) {
+    solver.step(dt)
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkerMessage>) => {
+  const message = event.data
+
+  switch (message.type) {
+    case 'sync': {
+      const state = message.payload as XPBDWorkerState
+      shared = createParticleBuffers(state.capacity, state.buffer)
+      solver.loadState(state.ids, state.constraints, shared)
+      break
+    }
+
+    case 'config': {
+      solver.setConfig(fromWorkerConfig(message.payload as XPBDWorkerConfig))
+      break
+    }
+
+    case 'step': {
+      // Toujours répondre : le thread principal attend la fin du pas
+      try {
+        step(message.payload as XPBDStepRequest)
+        publish()
+        respond({ type: 'stepped' })
+      } catch (error) {
+        respond({ type: 'error', error: error instanceof Error ? error.message : String(error) })
+      }
+      break
+    }
+
+    case 'reset': {
+      solver.reset()
+      publish()
+      break
+    }
+
+    case 'restore': {
+      solver.restore(message.payload as XPBDSnapshot)
+      publish()
+      break
+    }
+  }
+}
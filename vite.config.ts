@@ -5,6 +5,20 @@ import path from 'path'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // Isolation cross-origin : SharedArrayBuffer pour le solveur XPBD en worker
+  // (credentialless : les ressources cross-origin sans CORP restent chargeables)
+  server: {
+    headers: {
+      'Cross-Origin-Opener-Policy': 'same-origin',
+      'Cross-Origin-Embedder-Policy': 'credentialless',
+    },
+  },
+  preview: {
+    headers: {
+      'Cross-Origin-Opener-Policy': 'same-origin',
+      'Cross-Origin-Embedder-Policy': 'credentialless',
+    },
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),